@@ -1,4 +1,6 @@
 import { ipc } from '@/ipc/manager';
+import { QuotaHistoryQuery, QuotaSample } from '@/types/quotaHistory';
+import { LocalModel, LocalModelDetails, LocalPullProgress } from '@/types/localModels';
 
 export function addGoogleAccount(input: { authCode: string }) {
   return ipc.client.cloud.addGoogleAccount(input);
@@ -47,3 +49,35 @@ export function syncLocalModels() {
 export function updateSelectedModels(input: { accountId: string; models: string[] }) {
   return ipc.client.cloud.updateSelectedModels(input);
 }
+
+export function getQuotaHistory(input: QuotaHistoryQuery): Promise<QuotaSample[]> {
+  return ipc.client.cloud.getQuotaHistory(input);
+}
+
+export function listLocalModels(): Promise<LocalModel[]> {
+  return ipc.client.cloud.listLocalModels();
+}
+
+export function showLocalModel(input: { model: string }): Promise<LocalModelDetails> {
+  return ipc.client.cloud.showLocalModel(input);
+}
+
+export function pullLocalModel(input: { model: string }): Promise<LocalPullProgress> {
+  return ipc.client.cloud.pullLocalModel(input);
+}
+
+export function listLocalPulls(): Promise<LocalPullProgress[]> {
+  return ipc.client.cloud.listLocalPulls();
+}
+
+export function cancelLocalPull(input: { model: string }) {
+  return ipc.client.cloud.cancelLocalPull(input);
+}
+
+export function deleteLocalModel(input: { model: string }) {
+  return ipc.client.cloud.deleteLocalModel(input);
+}
+
+export function setLocalModelLoaded(input: { model: string; loaded: boolean }) {
+  return ipc.client.cloud.setLocalModelLoaded(input);
+}
@@ -0,0 +1,6 @@
+import { ipc } from '@/ipc/manager';
+import { ProxyTestResult } from '@/types/config';
+
+export function testUpstreamProxy(url: string): Promise<ProxyTestResult> {
+  return ipc.client.config.testUpstreamProxy({ url });
+}
@@ -0,0 +1,71 @@
+import { ipc } from '@/ipc/manager';
+import { CreateApiKeyInput, UpdateApiKeyInput, VirtualApiKey } from '@/types/apiKey';
+import { FallbackStats, RequestLogFilter, RequestLogPage } from '@/types/requestLog';
+import { SessionBinding } from '@/types/sessionAffinity';
+import { GatewayActivity } from '@/types/inflight';
+import { IndexRebuildResult, SemanticCachePage, SemanticCacheStats } from '@/types/semanticCache';
+
+export function listApiKeys(): Promise<VirtualApiKey[]> {
+  return ipc.client.gateway.listKeys();
+}
+
+export function createApiKey(
+  input: CreateApiKeyInput,
+): Promise<{ key: string; record: VirtualApiKey }> {
+  return ipc.client.gateway.createKey(input);
+}
+
+export function updateApiKey(input: UpdateApiKeyInput): Promise<VirtualApiKey> {
+  return ipc.client.gateway.updateKey(input);
+}
+
+export function revokeApiKey(input: { id: string }) {
+  return ipc.client.gateway.revokeKey(input);
+}
+
+export function deleteApiKey(input: { id: string }) {
+  return ipc.client.gateway.deleteKey(input);
+}
+
+export function listRequestLogs(filter: RequestLogFilter): Promise<RequestLogPage> {
+  return ipc.client.gateway.listRequests(filter);
+}
+
+export function getFallbackStats(input: { from: number }): Promise<FallbackStats> {
+  return ipc.client.gateway.fallbackStats(input);
+}
+
+export function clearRequestLogs() {
+  return ipc.client.gateway.clearRequests();
+}
+
+export function getGatewayActivity(): Promise<GatewayActivity> {
+  return ipc.client.gateway.activity();
+}
+
+export function listSessionBindings(): Promise<SessionBinding[]> {
+  return ipc.client.gateway.listSessions();
+}
+
+export function releaseSession(input: { key?: string }) {
+  return ipc.client.gateway.releaseSession(input);
+}
+
+export function listCacheEntries(input: {
+  limit?: number;
+  offset?: number;
+}): Promise<SemanticCachePage> {
+  return ipc.client.gateway.listCache(input);
+}
+
+export function getCacheStats(): Promise<SemanticCacheStats> {
+  return ipc.client.gateway.cacheStats();
+}
+
+export function purgeCache(input: { id?: string }) {
+  return ipc.client.gateway.purgeCache(input);
+}
+
+export function rebuildCacheIndex(): Promise<IndexRebuildResult> {
+  return ipc.client.gateway.rebuildCacheIndex();
+}
@@ -0,0 +1,69 @@
+/**
+ * Per-account upstream proxy overrides, so each cloud account can use its own egress IP.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useCloudAccounts } from '@/hooks/useCloudAccounts';
+import { ProxyTestButton } from '@/components/ProxyTestButton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+
+interface AccountProxyPanelProps {
+  overrides: Record<string, string>;
+  onChange: (overrides: Record<string, string>) => void;
+}
+
+export function AccountProxyPanel({ overrides, onChange }: AccountProxyPanelProps) {
+  const { t } = useTranslation();
+  const { data: accounts } = useCloudAccounts();
+  // Edits are kept locally and saved on blur, so typing does not save every keystroke
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const cloudAccounts = (accounts || []).filter((a) => !a.provider.startsWith('local-'));
+  const valueOf = (id: string) => drafts[id] ?? overrides[id] ?? '';
+
+  const commit = (id: string) => {
+    const url = valueOf(id).trim();
+    if (url === (overrides[id] ?? '')) return;
+    const next = { ...overrides };
+    if (url) next[id] = url;
+    else delete next[id];
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.proxy.accounts_title', 'Per-Account Proxies')}</CardTitle>
+        <CardDescription>
+          {t(
+            'settings.proxy.accounts_description',
+            'Route an account through its own proxy. Accounts left empty use the upstream proxy above.',
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {cloudAccounts.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            {t('settings.proxy.accounts_empty', 'No cloud accounts yet.')}
+          </p>
+        )}
+        {cloudAccounts.map((account) => (
+          <div key={account.id} className="space-y-2 rounded-lg border p-3">
+            <div className="text-sm font-medium">{account.email}</div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={t('settings.proxy.account_placeholder', 'Use the upstream proxy')}
+                value={valueOf(account.id)}
+                onChange={(e) => setDrafts({ ...drafts, [account.id]: e.target.value })}
+                onBlur={() => commit(account.id)}
+                onKeyDown={(e) => e.key === 'Enter' && commit(account.id)}
+              />
+              <ProxyTestButton url={valueOf(account.id)} />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
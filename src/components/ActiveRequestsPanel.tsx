@@ -0,0 +1,92 @@
+/**
+ * Requests the gateway is serving right now, refreshed every second.
+ */
+import { useTranslation } from 'react-i18next';
+import { useGatewayActivity } from '@/hooks/useGatewayActivity';
+import { CloudAccount } from '@/types/cloudAccount';
+import { InFlightRequest } from '@/types/inflight';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Activity } from 'lucide-react';
+
+interface ActiveRequestsPanelProps {
+  accounts: CloudAccount[];
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function ActiveRequestsPanel({ accounts }: ActiveRequestsPanelProps) {
+  const { t } = useTranslation();
+  const { data: activity } = useGatewayActivity();
+  const requests = activity?.requests ?? [];
+
+  const accountName = (request: InFlightRequest) => {
+    if (!request.account_id) return t('proxy.activity.unassigned', 'not assigned yet');
+    const account = accounts.find((a) => a.id === request.account_id);
+    return account?.email ?? request.account_id;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity size={20} />
+          {t('proxy.activity.title', 'Active Requests')}
+          <Badge variant="secondary">{requests.length}</Badge>
+          {activity?.draining && (
+            <Badge variant="destructive">{t('proxy.activity.draining', 'Shutting down')}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {t(
+            'proxy.activity.description',
+            'Requests being served right now. When the gateway stops, these get the drain timeout to finish.',
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            {activity?.running
+              ? t('proxy.activity.empty', 'No requests in flight.')
+              : t('proxy.activity.stopped', 'The gateway is not running.')}
+          </p>
+        )}
+        {requests.map((request) => (
+          <div
+            key={request.id}
+            className="flex items-center justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-mono text-xs">{request.model ?? request.path}</span>
+                <Badge variant="outline">{request.protocol}</Badge>
+                {request.stream && (
+                  <Badge variant={request.streaming ? 'default' : 'secondary'}>
+                    {request.streaming
+                      ? t('proxy.activity.streaming', 'streaming')
+                      : t('proxy.activity.waiting', 'waiting for first token')}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground truncate text-xs">
+                {t('proxy.activity.request', '{{client}} · {{key}} · {{account}}', {
+                  client: request.client,
+                  key: request.key_name ?? t('proxy.activity.main_key', 'main key'),
+                  account: accountName(request),
+                })}
+              </p>
+            </div>
+            <span className="text-muted-foreground font-mono text-xs">
+              {formatAge(request.age_ms)}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,395 @@
+/**
+ * Virtual API key management for the proxy page.
+ * Keys are stored hashed, so the plaintext secret is only shown right after creation.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  useApiKeys,
+  useCreateApiKey,
+  useUpdateApiKey,
+  useRevokeApiKey,
+  useDeleteApiKey,
+} from '@/hooks/useApiKeys';
+import { ApiKeyProtocol, CreateApiKeyInput, VirtualApiKey } from '@/types/apiKey';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { getLocalizedErrorMessage } from '@/utils/errorMessages';
+import { Copy, KeyRound, Loader2, Pencil, Plus, Ban, Trash2 } from 'lucide-react';
+
+interface KeyFormState {
+  name: string;
+  protocol: ApiKeyProtocol;
+  allowedModels: string;
+  rateLimit: string;
+  dailyBudget: string;
+  expiresOn: string;
+}
+
+const EMPTY_FORM: KeyFormState = {
+  name: '',
+  protocol: 'any',
+  allowedModels: '',
+  rateLimit: '',
+  dailyBudget: '',
+  expiresOn: '',
+};
+
+function toFormState(key: VirtualApiKey): KeyFormState {
+  return {
+    name: key.name,
+    protocol: key.protocol,
+    allowedModels: key.allowed_models.join(', '),
+    rateLimit: key.rate_limit_rpm ? String(key.rate_limit_rpm) : '',
+    dailyBudget: key.daily_token_budget ? String(key.daily_token_budget) : '',
+    expiresOn: key.expires_at ? new Date(key.expires_at * 1000).toISOString().slice(0, 10) : '',
+  };
+}
+
+function toInput(form: KeyFormState): CreateApiKeyInput {
+  const toLimit = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return parsed > 0 ? parsed : null;
+  };
+  return {
+    name: form.name.trim(),
+    protocol: form.protocol,
+    allowed_models: form.allowedModels
+      .split(',')
+      .map((m) => m.trim())
+      .filter(Boolean),
+    rate_limit_rpm: toLimit(form.rateLimit),
+    daily_token_budget: toLimit(form.dailyBudget),
+    // Keys stay valid through the end of the chosen day (UTC)
+    expires_at: form.expiresOn
+      ? Math.floor(new Date(`${form.expiresOn}T23:59:59Z`).getTime() / 1000)
+      : null,
+  };
+}
+
+function getKeyStatus(key: VirtualApiKey): 'active' | 'revoked' | 'expired' {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at && key.expires_at * 1000 <= Date.now()) return 'expired';
+  return 'active';
+}
+
+export function ApiKeyManager() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { data: keys, isLoading } = useApiKeys();
+  const createMutation = useCreateApiKey();
+  const updateMutation = useUpdateApiKey();
+  const revokeMutation = useRevokeApiKey();
+  const deleteMutation = useDeleteApiKey();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<KeyFormState>(EMPTY_FORM);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (key: VirtualApiKey) => {
+    setEditingId(key.id);
+    setForm(toFormState(key));
+    setIsFormOpen(true);
+  };
+
+  const onError = (err: unknown) => {
+    toast({
+      title: t('proxy.keys.toast.failed', 'API key operation failed'),
+      description: getLocalizedErrorMessage(err, t),
+      variant: 'destructive',
+    });
+  };
+
+  const handleSubmit = () => {
+    const input = toInput(form);
+    if (!input.name) return;
+
+    if (editingId) {
+      updateMutation.mutate(
+        { ...input, id: editingId },
+        { onSuccess: () => setIsFormOpen(false), onError },
+      );
+    } else {
+      createMutation.mutate(input, {
+        onSuccess: (result) => {
+          setIsFormOpen(false);
+          setCreatedKey(result.key);
+        },
+        onError,
+      });
+    }
+  };
+
+  const formatLimits = (key: VirtualApiKey) => {
+    const parts: string[] = [];
+    parts.push(
+      key.allowed_models.length > 0
+        ? key.allowed_models.join(', ')
+        : t('proxy.keys.all_models', 'All models'),
+    );
+    if (key.rate_limit_rpm) parts.push(`${key.rate_limit_rpm} RPM`);
+    if (key.expires_at) {
+      parts.push(
+        t('proxy.keys.expires', 'Expires {{date}}', {
+          date: new Date(key.expires_at * 1000).toLocaleDateString(),
+        }),
+      );
+    }
+    return parts.join(' · ');
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound size={20} />
+              {t('proxy.keys.title', 'Client API Keys')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'proxy.keys.description',
+                'Named keys for teammates and tools, each with its own models, protocol and limits.',
+              )}
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreate}>
+            <Plus size={14} className="mr-1" />
+            {t('proxy.keys.create', 'New Key')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <Loader2 className="mx-auto animate-spin" />}
+        {!isLoading && (!keys || keys.length === 0) && (
+          <p className="text-muted-foreground text-sm">
+            {t(
+              'proxy.keys.empty',
+              'No client keys yet. Requests are authenticated with the API key above.',
+            )}
+          </p>
+        )}
+        {keys?.map((key) => {
+          const status = getKeyStatus(key);
+          return (
+            <div
+              key={key.id}
+              className={`flex items-center justify-between gap-4 rounded-lg border p-3 ${status !== 'active' ? 'opacity-60' : ''}`}
+            >
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">{key.name}</span>
+                  <code className="text-muted-foreground font-mono text-xs">{key.key_prefix}…</code>
+                  <Badge variant="outline">{key.protocol}</Badge>
+                  {status !== 'active' && (
+                    <Badge variant="destructive">{t(`proxy.keys.status.${status}`, status)}</Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground truncate text-xs">{formatLimits(key)}</p>
+                <p className="text-muted-foreground text-xs">
+                  {t('proxy.keys.usage_today', 'Today: {{used}} tokens', {
+                    used: key.tokens_used_today.toLocaleString(),
+                  })}
+                  {key.daily_token_budget ? ` / ${key.daily_token_budget.toLocaleString()}` : ''}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {status !== 'revoked' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t('proxy.keys.edit', 'Edit')}
+                    onClick={() => openEdit(key)}
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                )}
+                {status !== 'revoked' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t('proxy.keys.revoke', 'Revoke')}
+                    onClick={() => revokeMutation.mutate({ id: key.id }, { onError })}
+                  >
+                    <Ban size={14} />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={t('proxy.keys.delete', 'Delete')}
+                  onClick={() => {
+                    if (window.confirm(t('proxy.keys.delete_confirm', 'Delete this key?'))) {
+                      deleteMutation.mutate({ id: key.id }, { onError });
+                    }
+                  }}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Create / Edit Dialog */}
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingId
+                  ? t('proxy.keys.form.edit_title', 'Edit API Key')
+                  : t('proxy.keys.form.create_title', 'New API Key')}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-name">{t('proxy.keys.form.name', 'Name')}</Label>
+                <Input
+                  id="key-name"
+                  value={form.name}
+                  maxLength={64}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('proxy.keys.form.protocol', 'Allowed Protocol')}</Label>
+                <Select
+                  value={form.protocol}
+                  onValueChange={(value) => setForm({ ...form, protocol: value as ApiKeyProtocol })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t('proxy.keys.form.any', 'Any')}</SelectItem>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="anthropic">Anthropic</SelectItem>
+                    <SelectItem value="gemini">Gemini</SelectItem>
+                    <SelectItem value="ollama">Ollama</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="key-models">{t('proxy.keys.form.models', 'Allowed Models')}</Label>
+                <Input
+                  id="key-models"
+                  placeholder="gemini-2.5-flash, claude-*"
+                  value={form.allowedModels}
+                  onChange={(e) => setForm({ ...form, allowedModels: e.target.value })}
+                />
+                <p className="text-muted-foreground text-xs">
+                  {t(
+                    'proxy.keys.form.models_hint',
+                    'Comma separated. A trailing * matches a prefix. Leave empty to allow all.',
+                  )}
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="key-rpm">{t('proxy.keys.form.rate_limit', 'Requests/min')}</Label>
+                  <Input
+                    id="key-rpm"
+                    type="number"
+                    min={1}
+                    value={form.rateLimit}
+                    onChange={(e) => setForm({ ...form, rateLimit: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-budget">
+                    {t('proxy.keys.form.daily_budget', 'Tokens/day')}
+                  </Label>
+                  <Input
+                    id="key-budget"
+                    type="number"
+                    min={1}
+                    value={form.dailyBudget}
+                    onChange={(e) => setForm({ ...form, dailyBudget: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-expiry">{t('proxy.keys.form.expires', 'Expires')}</Label>
+                  <Input
+                    id="key-expiry"
+                    type="date"
+                    value={form.expiresOn}
+                    onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+                {t('proxy.regenerateConfirm.cancel', 'Cancel')}
+              </Button>
+              <Button onClick={handleSubmit} disabled={!form.name.trim() || isSaving}>
+                {isSaving && <Loader2 size={14} className="mr-1 animate-spin" />}
+                {t('proxy.keys.form.save', 'Save')}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* One-time secret display */}
+        <Dialog open={createdKey !== null} onOpenChange={(open) => !open && setCreatedKey(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('proxy.keys.created.title', 'API Key Created')}</DialogTitle>
+              <DialogDescription>
+                {t(
+                  'proxy.keys.created.description',
+                  'Copy this key now. It is stored hashed and cannot be shown again.',
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex gap-2">
+              <Input value={createdKey || ''} readOnly className="font-mono text-sm" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(createdKey || '')}
+              >
+                <Copy size={14} className="mr-1" />
+                {t('proxy.copy', 'Copy')}
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setCreatedKey(null)}>
+                {t('proxy.keys.created.done', 'Done')}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Per-model fallback chains for the proxy page, with how often they answered recently.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFallbackStats } from '@/hooks/useFallbackStats';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, GitBranch, Plus, Trash2 } from 'lucide-react';
+
+interface FallbackChainsPanelProps {
+  chains: Record<string, string[]>;
+  onChange: (chains: Record<string, string[]>) => void;
+}
+
+function parseChain(value: string): string[] {
+  return value
+    .split(/,|→|->/)
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+export function FallbackChainsPanel({ chains, onChange }: FallbackChainsPanelProps) {
+  const { t } = useTranslation();
+  const { data: stats } = useFallbackStats();
+  const [model, setModel] = useState('');
+  const [chain, setChain] = useState('');
+
+  const fallbackCount = (requested: string) =>
+    (stats?.chains || [])
+      .filter((s) => s.requested_model === requested)
+      .reduce((sum, s) => sum + s.count, 0);
+
+  const addChain = () => {
+    const models = parseChain(chain);
+    if (!model.trim() || models.length === 0) return;
+    onChange({ ...chains, [model.trim()]: models });
+    setModel('');
+    setChain('');
+  };
+
+  const removeChain = (key: string) => {
+    const next = { ...chains };
+    delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch size={20} />
+          {t('proxy.fallback.title', 'Fallback Chains')}
+        </CardTitle>
+        <CardDescription>
+          {t(
+            'proxy.fallback.description',
+            'Models tried in order when the requested model has no account left or fails. Use local-ollama:<model> or local-lmstudio:<model> to end a chain on a local model.',
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {stats && stats.total_requests > 0 && (
+          <p className="text-muted-foreground text-sm">
+            {t(
+              'proxy.fallback.stats',
+              'Last 24h: fallback answered {{fallback}} of {{total}} requests',
+              { fallback: stats.fallback_requests, total: stats.total_requests },
+            )}
+          </p>
+        )}
+
+        {Object.entries(chains).map(([requested, models]) => (
+          <div
+            key={requested}
+            className="flex items-center justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="flex min-w-0 flex-1 flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{requested}</span>
+              {models.map((m) => (
+                <span key={m} className="flex items-center gap-2">
+                  <ArrowRight size={12} className="text-muted-foreground" />
+                  <code className="font-mono text-xs">{m}</code>
+                </span>
+              ))}
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              {fallbackCount(requested) > 0 && (
+                <Badge variant="secondary">
+                  {t('proxy.fallback.fired', '{{count}}× in 24h', {
+                    count: fallbackCount(requested),
+                  })}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                title={t('proxy.fallback.remove', 'Remove')}
+                onClick={() => removeChain(requested)}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-[1fr_2fr_auto] items-end gap-2">
+          <div className="space-y-2">
+            <Label>{t('proxy.fallback.model', 'Model')}</Label>
+            <Input
+              placeholder="claude-sonnet-4-5"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('proxy.fallback.chain', 'Fallbacks (in order)')}</Label>
+            <Input
+              placeholder="gemini-3-pro-high, local-ollama:qwen2.5-coder"
+              value={chain}
+              onChange={(e) => setChain(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addChain()}
+            />
+          </div>
+          <Button onClick={addChain} disabled={!model.trim() || parseChain(chain).length === 0}>
+            <Plus size={14} className="mr-1" />
+            {t('proxy.fallback.add', 'Add')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Ollama model lifecycle: pull with live progress, inspect, load/unload and delete.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  useCancelLocalPull,
+  useDeleteLocalModel,
+  useLocalModelDetails,
+  useLocalModels,
+  useLocalPulls,
+  usePullLocalModel,
+  useSetLocalModelLoaded,
+} from '@/hooks/useLocalModels';
+import { LocalModel, LocalPullProgress } from '@/types/localModels';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { getLocalizedErrorMessage } from '@/utils/errorMessages';
+import { Download, Info, Loader2, Power, PowerOff, RefreshCw, Trash2, X } from 'lucide-react';
+
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / 1024 ** exponent).toFixed(exponent >= 3 ? 1 : 0)} ${units[exponent]}`;
+}
+
+function PullRow({ pull }: { pull: LocalPullProgress }) {
+  const { t } = useTranslation();
+  const cancelMutation = useCancelLocalPull();
+  const percent = pull.total > 0 ? Math.round((pull.completed / pull.total) * 100) : 0;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-mono text-sm">{pull.model}</span>
+        {!pull.done && (
+          <Button
+            variant="ghost"
+            size="icon"
+            title={t('local.models.cancel', 'Cancel')}
+            onClick={() => cancelMutation.mutate({ model: pull.model })}
+          >
+            <X size={14} />
+          </Button>
+        )}
+      </div>
+      {!pull.done && <Progress value={percent} className="h-2" />}
+      <p className={`text-xs ${pull.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {pull.error
+          ? t('local.models.pull_failed', 'Failed: {{error}}', { error: pull.error })
+          : pull.done
+            ? t('local.models.pull_done', 'Downloaded')
+            : pull.total > 0
+              ? `${pull.status} · ${formatBytes(pull.completed)} / ${formatBytes(pull.total)} (${percent}%)`
+              : pull.status}
+      </p>
+    </div>
+  );
+}
+
+function ModelDetails({ model }: { model: string }) {
+  const { t } = useTranslation();
+  const { data, isLoading, error } = useLocalModelDetails(model);
+
+  if (isLoading) return <Loader2 className="h-4 w-4 animate-spin" />;
+  if (error || !data) {
+    return <p className="text-destructive text-xs">{getLocalizedErrorMessage(error, t)}</p>;
+  }
+  return (
+    <p className="text-muted-foreground text-xs">
+      {t('local.models.details', 'Context {{context}} tokens · {{format}} · {{capabilities}}', {
+        context: data.context_length?.toLocaleString() ?? '?',
+        format: data.format || '?',
+        capabilities: data.capabilities.join(', ') || '—',
+      })}
+    </p>
+  );
+}
+
+function ModelRow({ model }: { model: LocalModel }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [showDetails, setShowDetails] = useState(false);
+  const loadMutation = useSetLocalModelLoaded();
+  const deleteMutation = useDeleteLocalModel();
+
+  const onError = (err: unknown) => {
+    toast({
+      title: t('local.models.failed', 'Model operation failed'),
+      description: getLocalizedErrorMessage(err, t),
+      variant: 'destructive',
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate font-mono text-sm font-medium">{model.name}</span>
+            {model.loaded && (
+              <Badge variant="secondary">
+                {model.size_vram
+                  ? t('local.models.loaded_vram', 'Loaded · {{size}} VRAM', {
+                      size: formatBytes(model.size_vram),
+                    })
+                  : t('local.models.loaded', 'Loaded')}
+              </Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground text-xs">
+            {[formatBytes(model.size), model.parameter_size, model.quantization_level, model.family]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            title={t('local.models.info', 'Details')}
+            onClick={() => setShowDetails(!showDetails)}
+          >
+            <Info size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={
+              model.loaded ? t('local.models.unload', 'Unload') : t('local.models.load', 'Load')
+            }
+            disabled={loadMutation.isPending}
+            onClick={() =>
+              loadMutation.mutate({ model: model.name, loaded: !model.loaded }, { onError })
+            }
+          >
+            {loadMutation.isPending ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : model.loaded ? (
+              <PowerOff size={14} />
+            ) : (
+              <Power size={14} />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={t('local.models.delete', 'Delete')}
+            disabled={deleteMutation.isPending}
+            onClick={() => {
+              if (
+                window.confirm(
+                  t('local.models.delete_confirm', 'Delete {{model}} from disk?', {
+                    model: model.name,
+                  }),
+                )
+              ) {
+                deleteMutation.mutate({ model: model.name }, { onError });
+              }
+            }}
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+      {showDetails && <ModelDetails model={model.name} />}
+    </div>
+  );
+}
+
+export function LocalModelsPanel() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { data: models, isLoading, isFetching, error, refetch } = useLocalModels();
+  const { data: pulls } = useLocalPulls();
+  const pullMutation = usePullLocalModel();
+  const [pullName, setPullName] = useState('');
+
+  const startPull = () => {
+    const model = pullName.trim();
+    if (!model) return;
+    pullMutation.mutate(
+      { model },
+      {
+        onSuccess: () => setPullName(''),
+        onError: (err) =>
+          toast({
+            title: t('local.models.failed', 'Model operation failed'),
+            description: getLocalizedErrorMessage(err, t),
+            variant: 'destructive',
+          }),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>{t('local.models.title', 'Ollama Models')}</CardTitle>
+            <CardDescription>
+              {t(
+                'local.models.description',
+                'Download, inspect, load and remove models on the Ollama instance. The gateway accounts follow every change.',
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={t('local.models.refresh', 'Refresh')}
+            onClick={() => refetch()}
+          >
+            <RefreshCw size={16} className={isFetching ? 'animate-spin' : ''} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={pullName}
+            onChange={(e) => setPullName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && startPull()}
+            placeholder={t('local.models.pull_placeholder', 'Model to pull, e.g. llama3.2:3b')}
+            className="font-mono text-xs"
+          />
+          <Button
+            onClick={startPull}
+            disabled={!pullName.trim() || pullMutation.isPending}
+            className="gap-2"
+          >
+            <Download size={14} />
+            {t('local.models.pull', 'Pull')}
+          </Button>
+        </div>
+
+        {pulls?.map((pull) => (
+          <PullRow key={pull.model} pull={pull} />
+        ))}
+
+        {isLoading && <Loader2 className="mx-auto animate-spin" />}
+        {error && (
+          <p className="text-destructive text-sm">
+            {t('local.models.unreachable', 'Ollama is not reachable: {{error}}', {
+              error: getLocalizedErrorMessage(error, t),
+            })}
+          </p>
+        )}
+        {!isLoading && !error && models?.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            {t('local.models.empty', 'No models installed yet.')}
+          </p>
+        )}
+        {models?.map((model) => (
+          <ModelRow key={model.name} model={model} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
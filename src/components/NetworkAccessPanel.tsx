@@ -0,0 +1,189 @@
+/**
+ * Where the gateway listens, whether it speaks HTTPS and which client addresses may use it.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BindMode, NetworkConfig } from '@/types/config';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Network } from 'lucide-react';
+
+const BIND_MODES: BindMode[] = ['loopback', 'all', 'interface'];
+
+interface NetworkAccessPanelProps {
+  config: NetworkConfig;
+  onChange: (config: NetworkConfig) => void;
+  /** No API key of any kind exists, so the gateway must stay on loopback */
+  openMode: boolean;
+  localIps: { address: string; name: string }[];
+}
+
+function parseRules(text: string): string[] {
+  return text
+    .split(/[,\s]+/)
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+}
+
+export function NetworkAccessPanel({
+  config,
+  onChange,
+  openMode,
+  localIps,
+}: NetworkAccessPanelProps) {
+  const { t } = useTranslation();
+  const [allowText, setAllowText] = useState(config.allow_cidrs.join(', '));
+  const [denyText, setDenyText] = useState(config.deny_cidrs.join(', '));
+  // Committed on blur: a running gateway restarts for every listener change
+  const [certPath, setCertPath] = useState(config.tls.cert_path);
+  const [keyPath, setKeyPath] = useState(config.tls.key_path);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network size={20} />
+          {t('proxy.network.title', 'Network Access')}
+        </CardTitle>
+        <CardDescription>
+          {t(
+            'proxy.network.description',
+            'Let other devices on the local network use the gateway. Changing where it listens restarts a running gateway once in-flight requests finish.',
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label>{t('proxy.network.bind', 'Listen On')}</Label>
+          <div className="flex gap-2">
+            <Select
+              value={config.bind}
+              onValueChange={(value) => onChange({ ...config, bind: value as BindMode })}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BIND_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode} disabled={openMode && mode !== 'loopback'}>
+                    {t(`proxy.network.modes.${mode}`, mode)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {config.bind === 'interface' && (
+              <Select
+                value={config.bind_address}
+                onValueChange={(value) => onChange({ ...config, bind_address: value })}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder={t('proxy.network.pick_interface', 'Pick an address')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {localIps.map((ip) => (
+                    <SelectItem key={ip.address} value={ip.address}>
+                      {ip.address} ({ip.name})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+        {openMode && (
+          <p className="text-xs font-medium text-amber-600 dark:text-amber-400">
+            {t(
+              'proxy.network.open_mode',
+              'Set an API key or create a client key before listening on the network.',
+            )}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-1">
+            <Label>{t('proxy.network.tls', 'HTTPS')}</Label>
+            <p className="text-muted-foreground text-xs">
+              {t(
+                'proxy.network.tls_hint',
+                'Leave the certificate paths empty to use a self-signed certificate generated for this machine.',
+              )}
+            </p>
+          </div>
+          <Switch
+            checked={config.tls.enabled}
+            onCheckedChange={(checked) =>
+              onChange({ ...config, tls: { ...config.tls, enabled: checked } })
+            }
+          />
+        </div>
+        {config.tls.enabled && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tls-cert">{t('proxy.network.cert_path', 'Certificate (PEM)')}</Label>
+              <Input
+                id="tls-cert"
+                className="font-mono text-xs"
+                placeholder="/path/to/cert.pem"
+                value={certPath}
+                onChange={(e) => setCertPath(e.target.value)}
+                onBlur={() => onChange({ ...config, tls: { ...config.tls, cert_path: certPath } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tls-key">{t('proxy.network.key_path', 'Private Key (PEM)')}</Label>
+              <Input
+                id="tls-key"
+                className="font-mono text-xs"
+                placeholder="/path/to/key.pem"
+                value={keyPath}
+                onChange={(e) => setKeyPath(e.target.value)}
+                onBlur={() => onChange({ ...config, tls: { ...config.tls, key_path: keyPath } })}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="allow-cidrs">{t('proxy.network.allow', 'Allowed Clients')}</Label>
+          <Input
+            id="allow-cidrs"
+            className="font-mono text-xs"
+            placeholder="127.0.0.1, 192.168.1.0/24"
+            value={allowText}
+            onChange={(e) => setAllowText(e.target.value)}
+            onBlur={() => onChange({ ...config, allow_cidrs: parseRules(allowText) })}
+          />
+          <p className="text-muted-foreground text-xs">
+            {t(
+              'proxy.network.allow_hint',
+              'Addresses or CIDR ranges. Empty allows every client; otherwise include 127.0.0.1 to keep local tools working.',
+            )}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="deny-cidrs">{t('proxy.network.deny', 'Blocked Clients')}</Label>
+          <Input
+            id="deny-cidrs"
+            className="font-mono text-xs"
+            placeholder="192.168.1.50, 10.0.0.0/8"
+            value={denyText}
+            onChange={(e) => setDenyText(e.target.value)}
+            onBlur={() => onChange({ ...config, deny_cidrs: parseRules(denyText) })}
+          />
+          <p className="text-muted-foreground text-xs">
+            {t('proxy.network.deny_hint', 'Checked before the allowed list.')}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Sends a test request through a proxy URL and shows whether it answered.
+ */
+import { useMutation } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { testUpstreamProxy } from '@/actions/config';
+import { Button } from '@/components/ui/button';
+import { Loader2, PlugZap } from 'lucide-react';
+
+interface ProxyTestButtonProps {
+  url: string;
+}
+
+export function ProxyTestButton({ url }: ProxyTestButtonProps) {
+  const { t } = useTranslation();
+  const testMutation = useMutation({ mutationFn: testUpstreamProxy });
+  const result = testMutation.data;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!url.trim() || testMutation.isPending}
+        onClick={() => testMutation.mutate(url)}
+      >
+        {testMutation.isPending ? (
+          <Loader2 size={14} className="mr-1 animate-spin" />
+        ) : (
+          <PlugZap size={14} className="mr-1" />
+        )}
+        {t('settings.proxy.test', 'Test Connection')}
+      </Button>
+      {result && !testMutation.isPending && (
+        <span className={`text-sm ${result.ok ? 'text-green-600' : 'text-destructive'}`}>
+          {result.ok
+            ? t('settings.proxy.test_ok', 'Connected · HTTP {{status}} · {{ms}} ms', {
+                status: result.status,
+                ms: result.latency_ms,
+              })
+            : t('settings.proxy.test_failed', 'Failed: {{error}}', {
+                error: result.error || `HTTP ${result.status}`,
+              })}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
-  AreaChart,
-  Area,
+  LineChart,
+  Line,
+  ReferenceLine,
+  Legend,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -15,27 +17,64 @@ import { motion } from 'framer-motion';
 import { CloudAccount } from '@/types/cloudAccount';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Activity, Zap, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Activity, Zap, ShieldCheck, AlertTriangle, Flame } from 'lucide-react';
+import { useQuotaHistory } from '@/hooks/useCloudAccounts';
+import { QuotaHistoryRange } from '@/types/quotaHistory';
+import {
+  BUCKET_SECONDS,
+  QuotaGroupBy,
+  buildQuotaChart,
+  detectResets,
+  forecastDepletion,
+  summarizeForecasts,
+} from '@/utils/quotaHistory';
+
+const SERIES_COLORS = ['#6366f1', '#22c55e', '#eab308', '#ef4444', '#06b6d4', '#ec4899', '#f97316', '#8b5cf6'];
 
 interface QuotaDashboardProps {
   accounts: CloudAccount[];
 }
 
 export function QuotaDashboard({ accounts }: QuotaDashboardProps) {
-  // PhD Level: Data Transformation for Industrial Visualization
-  const chartData = useMemo(() => {
-    // Simulating time series for visualization (in a real app, this would come from a history table)
-    const now = new Date();
-    return Array.from({ length: 7 }).map((_, i) => {
-      const date = new Date(now);
-      date.setDate(date.getDate() - (6 - i));
-      return {
-        name: date.toLocaleDateString('pt-BR', { weekday: 'short' }),
-        usage: Math.floor(Math.random() * 40) + 20,
-        capacity: 100,
-      };
+  const [range, setRange] = useState<QuotaHistoryRange>('24h');
+  const [groupBy, setGroupBy] = useState<QuotaGroupBy>('model');
+  const { data: history = [] } = useQuotaHistory(range);
+
+  const accountNames = useMemo(
+    () => new Map(accounts.map((acc) => [acc.id, acc.name || acc.email.split('@')[0]])),
+    [accounts],
+  );
+
+  const chart = useMemo(
+    () => buildQuotaChart(history, groupBy, BUCKET_SECONDS[range]),
+    [history, groupBy, range],
+  );
+
+  // Reset markers snap to the chart buckets so they line up with the plotted points
+  const resetMarkers = useMemo(() => {
+    const bucket = BUCKET_SECONDS[range];
+    return [...new Set(detectResets(history).map((e) => Math.floor(e.at / bucket) * bucket))];
+  }, [history, range]);
+
+  const forecasts = useMemo(() => summarizeForecasts(forecastDepletion(history)), [history]);
+
+  const seriesLabel = (id: string) => (groupBy === 'account' ? accountNames.get(id) || id : id);
+
+  const formatTick = (time: number) => {
+    const date = new Date(time * 1000);
+    return range === '24h'
+      ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  };
+
+  const formatDateTime = (time: number) =>
+    new Date(time * 1000).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
     });
-  }, []);
 
   const accountStats = useMemo(() => {
     return accounts.map(acc => {
@@ -134,53 +173,96 @@ export function QuotaDashboard({ accounts }: QuotaDashboardProps) {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {/* Main Usage Chart */}
+        {/* Quota History Chart */}
         <motion.div variants={itemVariants} className="md:col-span-2">
           <Card className="h-full border-primary/10">
-            <CardHeader>
-              <CardTitle className="text-sm font-black uppercase tracking-tighter">Tendência de Consumo (7d)</CardTitle>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+              <CardTitle className="text-sm font-black uppercase tracking-tighter">Histórico de Cota</CardTitle>
+              <div className="flex gap-2">
+                <Tabs value={groupBy} onValueChange={(v) => setGroupBy(v as QuotaGroupBy)}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="model" className="text-xs">Modelo</TabsTrigger>
+                    <TabsTrigger value="account" className="text-xs">Conta</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <Tabs value={range} onValueChange={(v) => setRange(v as QuotaHistoryRange)}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="24h" className="text-xs">24h</TabsTrigger>
+                    <TabsTrigger value="7d" className="text-xs">7d</TabsTrigger>
+                    <TabsTrigger value="30d" className="text-xs">30d</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
             </CardHeader>
             <CardContent className="h-[300px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={chartData}>
-                  <defs>
-                    <linearGradient id="colorUsage" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="var(--primary)" stopOpacity={0.3} />
-                      <stop offset="95%" stopColor="var(--primary)" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
-                  <XAxis 
-                    dataKey="name" 
-                    axisLine={false} 
-                    tickLine={false} 
-                    tick={{ fontSize: 10, fontWeight: 700 }} 
-                  />
-                  <YAxis 
-                    axisLine={false} 
-                    tickLine={false} 
-                    tick={{ fontSize: 10, fontWeight: 700 }}
-                    unit="%"
-                  />
-                  <Tooltip 
-                    contentStyle={{ 
-                      backgroundColor: 'rgba(0,0,0,0.8)', 
-                      border: '1px solid rgba(255,255,255,0.1)',
-                      borderRadius: '8px',
-                      fontSize: '12px',
-                      fontWeight: 'bold'
-                    }}
-                  />
-                  <Area 
-                    type="monotone" 
-                    dataKey="usage" 
-                    stroke="var(--primary)" 
-                    strokeWidth={3}
-                    fillOpacity={1} 
-                    fill="url(#colorUsage)" 
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
+              {chart.points.length === 0 ? (
+                <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                  Sem histórico ainda. Uma amostra é gravada a cada consulta de cota.
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chart.points}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatTick}
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 10, fontWeight: 700 }}
+                    />
+                    <YAxis
+                      domain={[0, 100]}
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 10, fontWeight: 700 }}
+                      unit="%"
+                    />
+                    <Tooltip
+                      labelFormatter={(time) => formatDateTime(Number(time))}
+                      formatter={(value, key) => [
+                        `${value}%`,
+                        seriesLabel(chart.series.find((s) => s.key === key)?.id || String(key)),
+                      ]}
+                      contentStyle={{
+                        backgroundColor: 'rgba(0,0,0,0.8)',
+                        border: '1px solid rgba(255,255,255,0.1)',
+                        borderRadius: '8px',
+                        fontSize: '12px',
+                        fontWeight: 'bold'
+                      }}
+                    />
+                    <Legend
+                      formatter={(key) =>
+                        seriesLabel(chart.series.find((s) => s.key === key)?.id || String(key))
+                      }
+                      wrapperStyle={{ fontSize: '10px', fontWeight: 700 }}
+                    />
+                    {resetMarkers.map((time) => (
+                      <ReferenceLine
+                        key={`reset-${time}`}
+                        x={time}
+                        stroke="#22c55e"
+                        strokeDasharray="4 4"
+                        strokeOpacity={0.6}
+                      />
+                    ))}
+                    {chart.series.map((series, index) => (
+                      <Line
+                        key={series.key}
+                        type="monotone"
+                        dataKey={series.key}
+                        stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -225,6 +307,44 @@ export function QuotaDashboard({ accounts }: QuotaDashboardProps) {
           </Card>
         </motion.div>
       </div>
+
+      {/* Depletion Forecast */}
+      <motion.div variants={itemVariants}>
+        <Card className="border-primary/10">
+          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+            <CardTitle className="text-sm font-black uppercase tracking-tighter">Previsão de Esgotamento</CardTitle>
+            <Flame className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {forecasts.length === 0 && (
+              <p className="text-xs text-muted-foreground">Amostras insuficientes para calcular o consumo.</p>
+            )}
+            {forecasts.map((forecast) => (
+              <div key={forecast.account_id} className="flex items-center justify-between gap-4 text-xs">
+                <div className="min-w-0">
+                  <div className="font-bold truncate">
+                    {accountNames.get(forecast.account_id) || forecast.account_id}
+                  </div>
+                  <div className="text-muted-foreground truncate">
+                    {forecast.model} · {forecast.percentage}% · {forecast.burn_rate_per_hour}%/h
+                  </div>
+                </div>
+                {forecast.runs_dry_before_reset ? (
+                  <Badge variant="destructive" className="shrink-0">
+                    Esgota {formatDateTime(forecast.dry_at!)}
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary" className="shrink-0">
+                    {forecast.reset_time
+                      ? `Reset ${formatDateTime(forecast.reset_time)}`
+                      : 'Estável'}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </motion.div>
     </motion.div>
   );
 }
@@ -0,0 +1,260 @@
+/**
+ * Semantic cache settings, hit-rate stats and a browser for cached responses.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import {
+  useCacheEntries,
+  useCacheStats,
+  usePurgeCache,
+  useRebuildCacheIndex,
+} from '@/hooks/useSemanticCache';
+import { SemanticCacheConfig } from '@/types/config';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Database, Loader2, Trash2 } from 'lucide-react';
+
+interface SemanticCachePanelProps {
+  config: SemanticCacheConfig;
+  onChange: (config: SemanticCacheConfig) => void;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+export function SemanticCachePanel({ config, onChange }: SemanticCachePanelProps) {
+  const { t } = useTranslation();
+  const { data: apiKeys } = useApiKeys();
+  const { data: stats } = useCacheStats();
+  const { data: page, isLoading } = useCacheEntries();
+  const purgeMutation = usePurgeCache();
+  const rebuildMutation = useRebuildCacheIndex();
+  const [modelsDraft, setModelsDraft] = useState<string | null>(null);
+
+  const hits = (stats?.exact_hits ?? 0) + (stats?.semantic_hits ?? 0);
+  const hitRate = stats && stats.lookups > 0 ? Math.round((hits / stats.lookups) * 100) : 0;
+
+  const keyOptions = [
+    { id: 'master', name: t('proxy.cache.master_key', 'Config key') },
+    ...(apiKeys || []).filter((key) => !key.revoked_at).map(({ id, name }) => ({ id, name })),
+  ];
+
+  const toggleKey = (id: string) => {
+    const keyIds = config.key_ids.includes(id)
+      ? config.key_ids.filter((k) => k !== id)
+      : [...config.key_ids, id];
+    onChange({ ...config, key_ids: keyIds });
+  };
+
+  const commitModels = () => {
+    if (modelsDraft === null) return;
+    onChange({ ...config, models: parseList(modelsDraft) });
+    setModelsDraft(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Database size={20} />
+              {t('proxy.cache.title', 'Semantic Cache')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'proxy.cache.description',
+                'Answers repeated requests from a local cache. Only requests with temperature 0 and no tools or images are cached, and a similar prompt only matches when the rest of the conversation is identical.',
+              )}
+            </CardDescription>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(checked) => onChange({ ...config, enabled: checked })}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stats && (
+          <p className="text-muted-foreground text-sm">
+            {t(
+              'proxy.cache.stats',
+              'Hit rate {{rate}}% · {{hits}} of {{lookups}} lookups ({{semantic}} similar) · {{bypassed}} bypassed · {{entries}} entries ({{indexed}} indexed)',
+              {
+                rate: hitRate,
+                hits,
+                lookups: stats.lookups,
+                semantic: stats.semantic_hits,
+                bypassed: stats.bypassed,
+                entries: stats.entries,
+                indexed: stats.indexed,
+              },
+            )}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label>{t('proxy.cache.keys', 'API keys')}</Label>
+          <div className="flex flex-wrap gap-2">
+            {keyOptions.map((key) => (
+              <Button
+                key={key.id}
+                variant={config.key_ids.includes(key.id) ? 'default' : 'outline'}
+                size="sm"
+                disabled={!config.enabled}
+                onClick={() => toggleKey(key.id)}
+              >
+                {key.name}
+              </Button>
+            ))}
+          </div>
+          <p className="text-muted-foreground text-xs">
+            {t('proxy.cache.keys_hint', 'Leave all unselected to cache for every key.')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t('proxy.cache.models', 'Models')}</Label>
+          <Input
+            placeholder="gemini-2.5-flash, claude-*"
+            disabled={!config.enabled}
+            value={modelsDraft ?? config.models.join(', ')}
+            onChange={(e) => setModelsDraft(e.target.value)}
+            onBlur={commitModels}
+            onKeyDown={(e) => e.key === 'Enter' && commitModels()}
+          />
+          <p className="text-muted-foreground text-xs">
+            {t(
+              'proxy.cache.models_hint',
+              'Model names or prefix-* patterns. Leave empty to cache every model.',
+            )}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>{t('proxy.cache.threshold', 'Similarity threshold')}</Label>
+            <Input
+              type="number"
+              min={0.5}
+              max={1}
+              step={0.01}
+              disabled={!config.enabled}
+              value={config.similarity_threshold}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  similarity_threshold: Math.min(1, Math.max(0.5, Number(e.target.value) || 1)),
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('proxy.cache.ttl', 'TTL (hours)')}</Label>
+            <Input
+              type="number"
+              min={1}
+              disabled={!config.enabled}
+              value={Math.round(config.ttl_seconds / 3600)}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  ttl_seconds: Math.max(1, Number(e.target.value) || 1) * 3600,
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('proxy.cache.max_entries', 'Max entries')}</Label>
+            <Input
+              type="number"
+              min={10}
+              disabled={!config.enabled}
+              value={config.max_entries}
+              onChange={(e) =>
+                onChange({ ...config, max_entries: Math.max(10, Number(e.target.value) || 10) })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>
+            {t('proxy.cache.entries', 'Cached responses')}
+            {page && page.total > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {page.total}
+              </Badge>
+            )}
+          </Label>
+          {page && page.total > 0 && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={rebuildMutation.isPending}
+                onClick={() => rebuildMutation.mutate()}
+              >
+                {rebuildMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                {t('proxy.cache.rebuild_index', 'Rebuild index')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={purgeMutation.isPending}
+                onClick={() => purgeMutation.mutate({})}
+              >
+                {t('proxy.cache.purge_all', 'Purge all')}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading && <Loader2 className="mx-auto animate-spin" />}
+        {!isLoading && (!page || page.items.length === 0) && (
+          <p className="text-muted-foreground text-sm">
+            {t('proxy.cache.empty', 'Nothing cached yet.')}
+          </p>
+        )}
+        {page?.items.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-start justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate text-sm font-medium">{entry.prompt || '—'}</span>
+                <Badge variant="outline">{entry.model}</Badge>
+              </div>
+              <p className="text-muted-foreground line-clamp-2 text-xs">{entry.response}</p>
+              <p className="text-muted-foreground text-xs">
+                {t('proxy.cache.entry_meta', '{{hits}} hits · last used {{lastUsed}}', {
+                  hits: entry.hits,
+                  lastUsed: new Date(entry.last_used_at * 1000).toLocaleString(),
+                })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title={t('proxy.cache.purge', 'Purge')}
+              disabled={purgeMutation.isPending}
+              onClick={() => purgeMutation.mutate({ id: entry.id })}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
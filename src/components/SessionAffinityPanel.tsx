@@ -0,0 +1,149 @@
+/**
+ * Conversation affinity settings and the live list of conversations pinned to an account.
+ */
+import { useTranslation } from 'react-i18next';
+import { useReleaseSession, useSessionBindings } from '@/hooks/useSessionBindings';
+import { SessionAffinityConfig } from '@/types/config';
+import { SessionBinding } from '@/types/sessionAffinity';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Link2, Loader2, Unlink } from 'lucide-react';
+
+interface SessionAffinityPanelProps {
+  config: SessionAffinityConfig;
+  onChange: (config: SessionAffinityConfig) => void;
+}
+
+/** Shortens `hash:…` / `session:…` keys while keeping their source visible */
+function formatKey(key: string): string {
+  const [source, ...rest] = key.split(':');
+  const id = rest.join(':');
+  return `${source}:${id.length > 12 ? `${id.slice(0, 12)}…` : id}`;
+}
+
+function formatRemaining(binding: SessionBinding, now: number): string {
+  const seconds = Math.max(0, binding.expires_at - now);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function SessionAffinityPanel({ config, onChange }: SessionAffinityPanelProps) {
+  const { t } = useTranslation();
+  const { data: bindings, isLoading, dataUpdatedAt } = useSessionBindings();
+  const releaseMutation = useReleaseSession();
+  // Remaining time is relative to the last refetch, which runs every few seconds
+  const now = Math.floor(dataUpdatedAt / 1000);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 size={20} />
+              {t('proxy.sessions.title', 'Conversation Affinity')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'proxy.sessions.description',
+                'Keeps each conversation on the account that served it, so prompt caches and thinking signatures stay valid. A conversation moves only when its account is cooled down or out of quota.',
+              )}
+            </CardDescription>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(checked) => onChange({ ...config, enabled: checked })}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label>{t('proxy.sessions.ttl', 'Binding TTL (minutes)')}</Label>
+            <p className="text-muted-foreground text-xs">
+              {t(
+                'proxy.sessions.ttl_hint',
+                'Idle time after which a conversation may be scheduled on another account.',
+              )}
+            </p>
+          </div>
+          <Input
+            type="number"
+            min={1}
+            className="w-24"
+            disabled={!config.enabled}
+            value={Math.round(config.ttl_seconds / 60)}
+            onChange={(e) =>
+              onChange({ ...config, ttl_seconds: Math.max(1, Number(e.target.value) || 1) * 60 })
+            }
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>
+            {t('proxy.sessions.active', 'Active conversations')}
+            {bindings && bindings.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {bindings.length}
+              </Badge>
+            )}
+          </Label>
+          {bindings && bindings.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={releaseMutation.isPending}
+              onClick={() => releaseMutation.mutate({})}
+            >
+              {t('proxy.sessions.release_all', 'Release all')}
+            </Button>
+          )}
+        </div>
+
+        {isLoading && <Loader2 className="mx-auto animate-spin" />}
+        {!isLoading && (!bindings || bindings.length === 0) && (
+          <p className="text-muted-foreground text-sm">
+            {t('proxy.sessions.empty', 'No conversations are pinned right now.')}
+          </p>
+        )}
+        {bindings?.map((binding) => (
+          <div
+            key={binding.key}
+            className="flex items-center justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <code className="font-mono text-xs">{formatKey(binding.key)}</code>
+                {binding.model && <Badge variant="outline">{binding.model}</Badge>}
+              </div>
+              <p className="text-muted-foreground truncate text-xs">
+                {t(
+                  'proxy.sessions.binding',
+                  '{{email}} · {{requests}} requests · expires in {{remaining}}',
+                  {
+                    email: binding.email,
+                    requests: binding.requests,
+                    remaining: formatRemaining(binding, now),
+                  },
+                )}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title={t('proxy.sessions.release', 'Release')}
+              disabled={releaseMutation.isPending}
+              onClick={() => releaseMutation.mutate({ key: binding.key })}
+            >
+              <Unlink size={14} />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
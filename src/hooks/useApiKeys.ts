@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  listApiKeys,
+  createApiKey,
+  updateApiKey,
+  revokeApiKey,
+  deleteApiKey,
+} from '@/actions/gateway';
+import { VirtualApiKey } from '@/types/apiKey';
+
+export const API_KEY_QUERY_KEYS = {
+  apiKeys: ['gateway', 'apiKeys'],
+};
+
+export function useApiKeys() {
+  return useQuery<VirtualApiKey[]>({
+    queryKey: API_KEY_QUERY_KEYS.apiKeys,
+    queryFn: listApiKeys,
+    // Usage counters change while the gateway serves traffic
+    refetchInterval: 30000,
+  });
+}
+
+function useApiKeyMutation<TInput, TResult>(mutationFn: (input: TInput) => Promise<TResult>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: API_KEY_QUERY_KEYS.apiKeys });
+    },
+  });
+}
+
+export function useCreateApiKey() {
+  return useApiKeyMutation(createApiKey);
+}
+
+export function useUpdateApiKey() {
+  return useApiKeyMutation(updateApiKey);
+}
+
+export function useRevokeApiKey() {
+  return useApiKeyMutation(revokeApiKey);
+}
+
+export function useDeleteApiKey() {
+  return useApiKeyMutation(deleteApiKey);
+}
@@ -6,6 +6,7 @@ import {
   refreshAccountQuota,
 } from '@/actions/cloud';
 import { CloudAccount } from '@/types/cloudAccount';
+import { LocalSyncResult } from '@/types/localModels';
 
 export const QUERY_KEYS = {
   cloudAccounts: ['cloudAccounts'],
@@ -122,7 +123,7 @@ export { startAuthFlow };
 
 export function useSyncLocalModels() {
   const queryClient = useQueryClient();
-  return useMutation<number, Error, void>({
+  return useMutation<LocalSyncResult, Error, void>({
     mutationFn: syncLocalModels,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.cloudAccounts });
@@ -141,3 +142,15 @@ export function useUpdateSelectedModels() {
     },
   });
 }
+
+import { getQuotaHistory } from '@/actions/cloud';
+import { QuotaHistoryRange, QuotaSample } from '@/types/quotaHistory';
+
+export function useQuotaHistory(range: QuotaHistoryRange) {
+  return useQuery<QuotaSample[]>({
+    queryKey: ['quotaHistory', range],
+    queryFn: () => getQuotaHistory({ range }),
+    // New samples land with every monitor poll
+    refetchInterval: 1000 * 60 * 5,
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getFallbackStats } from '@/actions/gateway';
+import { FallbackStats } from '@/types/requestLog';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export function useFallbackStats() {
+  return useQuery<FallbackStats>({
+    queryKey: ['gateway', 'fallbackStats'],
+    // Last 24 hours, anchored when the query runs
+    queryFn: () => getFallbackStats({ from: Math.floor(Date.now() / 1000) - DAY_SECONDS }),
+    refetchInterval: 30000,
+  });
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getGatewayActivity } from '@/actions/gateway';
+import { GatewayActivity } from '@/types/inflight';
+
+export function useGatewayActivity() {
+  return useQuery<GatewayActivity>({
+    queryKey: ['gateway', 'activity'],
+    queryFn: getGatewayActivity,
+    // Requests come and go within seconds, so poll often
+    refetchInterval: 1000,
+  });
+}
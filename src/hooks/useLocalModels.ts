@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  cancelLocalPull,
+  deleteLocalModel,
+  listLocalModels,
+  listLocalPulls,
+  pullLocalModel,
+  setLocalModelLoaded,
+  showLocalModel,
+} from '@/actions/cloud';
+import { LocalModel, LocalModelDetails, LocalPullProgress } from '@/types/localModels';
+import { QUERY_KEYS } from './useCloudAccounts';
+
+export const LOCAL_MODEL_QUERY_KEYS = {
+  models: ['local', 'models'],
+  details: (model: string) => ['local', 'models', model],
+  pulls: ['local', 'pulls'],
+};
+
+export function useLocalModels(enabled = true) {
+  return useQuery<LocalModel[]>({
+    queryKey: LOCAL_MODEL_QUERY_KEYS.models,
+    queryFn: listLocalModels,
+    enabled,
+    // Loaded state changes as Ollama evicts idle models
+    refetchInterval: 15000,
+    retry: false,
+  });
+}
+
+export function useLocalModelDetails(model: string | null) {
+  return useQuery<LocalModelDetails>({
+    queryKey: LOCAL_MODEL_QUERY_KEYS.details(model || ''),
+    queryFn: () => showLocalModel({ model: model! }),
+    enabled: !!model,
+    staleTime: Infinity,
+  });
+}
+
+export function useLocalPulls() {
+  const queryClient = useQueryClient();
+
+  return useQuery<LocalPullProgress[]>({
+    queryKey: LOCAL_MODEL_QUERY_KEYS.pulls,
+    queryFn: async () => {
+      const pulls = await listLocalPulls();
+      if (pulls.some((pull) => pull.done)) {
+        // A finished pull added a model and its account
+        queryClient.invalidateQueries({ queryKey: LOCAL_MODEL_QUERY_KEYS.models });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.cloudAccounts });
+      }
+      return pulls;
+    },
+    // Poll quickly only while something is downloading
+    refetchInterval: (query) => (query.state.data?.some((pull) => !pull.done) ? 1000 : false),
+  });
+}
+
+export function usePullLocalModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: pullLocalModel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCAL_MODEL_QUERY_KEYS.pulls });
+    },
+  });
+}
+
+export function useCancelLocalPull() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancelLocalPull,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCAL_MODEL_QUERY_KEYS.pulls });
+    },
+  });
+}
+
+export function useDeleteLocalModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteLocalModel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCAL_MODEL_QUERY_KEYS.models });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.cloudAccounts });
+    },
+  });
+}
+
+export function useSetLocalModelLoaded() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: setLocalModelLoaded,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCAL_MODEL_QUERY_KEYS.models });
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getCacheStats, listCacheEntries, purgeCache, rebuildCacheIndex } from '@/actions/gateway';
+import { SemanticCachePage, SemanticCacheStats } from '@/types/semanticCache';
+
+export const CACHE_QUERY_KEYS = {
+  all: ['gateway', 'cache'],
+  entries: (limit: number) => ['gateway', 'cache', 'entries', limit],
+  stats: ['gateway', 'cache', 'stats'],
+};
+
+export function useCacheEntries(limit = 50) {
+  return useQuery<SemanticCachePage>({
+    queryKey: CACHE_QUERY_KEYS.entries(limit),
+    queryFn: () => listCacheEntries({ limit }),
+    refetchInterval: 15000,
+  });
+}
+
+export function useCacheStats() {
+  return useQuery<SemanticCacheStats>({
+    queryKey: CACHE_QUERY_KEYS.stats,
+    queryFn: getCacheStats,
+    refetchInterval: 5000,
+  });
+}
+
+export function usePurgeCache() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: purgeCache,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CACHE_QUERY_KEYS.all });
+    },
+  });
+}
+
+export function useRebuildCacheIndex() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: rebuildCacheIndex,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CACHE_QUERY_KEYS.stats });
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { listSessionBindings, releaseSession } from '@/actions/gateway';
+import { SessionBinding } from '@/types/sessionAffinity';
+
+export const SESSION_QUERY_KEYS = {
+  sessions: ['gateway', 'sessions'],
+};
+
+export function useSessionBindings() {
+  return useQuery<SessionBinding[]>({
+    queryKey: SESSION_QUERY_KEYS.sessions,
+    queryFn: listSessionBindings,
+    // Bindings move with every request, so keep the list live
+    refetchInterval: 5000,
+  });
+}
+
+export function useReleaseSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: releaseSession,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEYS.sessions });
+    },
+  });
+}
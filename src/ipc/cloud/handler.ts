@@ -2,6 +2,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { CloudAccountRepo } from '../../ipc/database/cloudHandler';
 import { GoogleAPIService } from '../../services/GoogleAPIService';
 import { CloudAccount } from '../../types/cloudAccount';
+import { QuotaHistoryRepo } from '../../ipc/database/quotaHistory';
+import { QuotaHistoryQuery, QuotaSample } from '../../types/quotaHistory';
+import { RANGE_SECONDS } from '../../utils/quotaHistory';
 import { logger } from '../../utils/logger';
 
 import { shell } from 'electron';
@@ -70,7 +73,7 @@ export async function addGoogleAccount(authCode: string): Promise<CloudAccount>
 
     // 5. Initial Quota Check (Async, best effort)
     try {
-      const quota = await GoogleAPIService.fetchQuota(account.token.access_token);
+      const quota = await GoogleAPIService.fetchQuota(account.token.access_token, account.id);
       account.quota = quota;
       await CloudAccountRepo.updateQuota(account.id, quota);
       notifyTrayUpdate(account);
@@ -105,7 +108,7 @@ export async function refreshAccountQuota(accountId: string): Promise<CloudAccou
     // 5 minutes buffer
     logger.info(`Token for ${account.email} near expiry, refreshing...`);
     try {
-      const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token);
+      const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token, account.id);
 
       // Update token in memory object
       account.token.access_token = newTokenData.access_token;
@@ -120,7 +123,7 @@ export async function refreshAccountQuota(accountId: string): Promise<CloudAccou
   }
 
   try {
-    const quota = await GoogleAPIService.fetchQuota(account.token.access_token);
+    const quota = await GoogleAPIService.fetchQuota(account.token.access_token, account.id);
     account.quota = quota;
     await CloudAccountRepo.updateQuota(account.id, quota);
     notifyTrayUpdate(account);
@@ -130,7 +133,7 @@ export async function refreshAccountQuota(accountId: string): Promise<CloudAccou
       logger.warn(`Got 401 Unauthorized for ${account.email}, forcing token refresh...`);
       try {
         // Force Refresh
-        const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token);
+        const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token, account.id);
         now = Math.floor(Date.now() / 1000);
 
         account.token.access_token = newTokenData.access_token;
@@ -140,7 +143,7 @@ export async function refreshAccountQuota(accountId: string): Promise<CloudAccou
         await CloudAccountRepo.updateToken(account.id, account.token);
 
         // Retry Quota
-        const quota = await GoogleAPIService.fetchQuota(account.token.access_token);
+        const quota = await GoogleAPIService.fetchQuota(account.token.access_token, account.id);
         account.quota = quota;
         await CloudAccountRepo.updateQuota(account.id, quota);
         return account;
@@ -178,7 +181,7 @@ export async function switchCloudAccount(accountId: string): Promise<void> {
     if (account.token.expiry_timestamp < now + 300) {
       logger.info(`Token for ${account.email} near expiry, refreshing before switch...`);
       try {
-        const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token);
+        const newTokenData = await GoogleAPIService.refreshAccessToken(account.token.refresh_token, account.id);
         account.token.access_token = newTokenData.access_token;
         account.token.expires_in = newTokenData.expires_in;
         account.token.expiry_timestamp = now + newTokenData.expires_in;
@@ -251,6 +254,11 @@ export async function setAutoSwitchEnabled(enabled: boolean): Promise<void> {
   }
 }
 
+export function getQuotaHistory(query: QuotaHistoryQuery): QuotaSample[] {
+  const from = Math.floor(Date.now() / 1000) - RANGE_SECONDS[query.range];
+  return QuotaHistoryRepo.query(from, { account_id: query.account_id, model: query.model });
+}
+
 export async function forcePollCloudMonitor(): Promise<void> {
   const { CloudMonitorService } = await import('../../services/CloudMonitorService');
   await CloudMonitorService.poll();
@@ -1,22 +1,25 @@
-import axios from 'axios';
-import { v4 as uuidv4 } from 'uuid';
+import { OutboundHttp } from '../../services/OutboundHttp';
 import { LocalAIClient, LocalAIConfig } from '../../server/modules/proxy/clients/local-ai.client';
 import { ConfigManager } from '../config/manager';
 import { CloudAccountRepo } from '../database/cloudHandler';
 import { CloudAccount } from '../../types/cloudAccount';
+import { LocalSyncResult } from '../../types/localModels';
+import { reloadGatewayAccounts } from '../../server/main';
 import { logger } from '../../utils/logger';
 
 export class LocalModelDiscoveryService {
   private static localClient = new LocalAIClient();
 
   /**
-   * Scans for local instances and syncs them as cloud accounts.
-   * PhD Level: Automatic resource mapping and de-duplication.
+   * Scans for local instances and reconciles their models with the local accounts:
+   * new models are registered, vanished ones removed and moved instances re-pointed.
+   * Instances that cannot be reached are left alone, so a stopped Ollama keeps its accounts.
+   * The running gateway reloads its account pool afterwards.
    */
-  static async syncLocalModels(): Promise<number> {
+  static async syncLocalModels(): Promise<LocalSyncResult> {
     const appConfig = ConfigManager.loadConfig();
     const configs: LocalAIConfig[] = [];
-    
+
     if (appConfig.local_ai?.ollama?.enabled) {
         configs.push({ provider: 'ollama', baseUrl: appConfig.local_ai.ollama.url });
     }
@@ -24,45 +27,67 @@ export class LocalModelDiscoveryService {
         configs.push({ provider: 'lmstudio', baseUrl: appConfig.local_ai.lmstudio.url });
     }
 
-    let totalSynced = 0;
+    const result: LocalSyncResult = { added: 0, removed: 0 };
+    const accounts = await CloudAccountRepo.getAccounts();
 
     for (const config of configs) {
+      let models: string[];
       try {
-        let models: string[] = [];
-        
-        if (config.provider === 'ollama') {
-          // Try native Ollama API first for higher fidelity
-          try {
-            const nativeUrl = config.baseUrl.replace('/v1', '/api/tags');
-            const resp = await axios.get(nativeUrl, { timeout: 2000 });
-            if (resp.data?.models) {
-              models = resp.data.models.map((m: any) => m.name);
-            }
-          } catch (e) {
-            // Fallback to OpenAI compatible endpoint
-            models = await this.localClient.getModels(config);
-          }
-        } else {
-          // LM Studio uses standard /v1/models
-          models = await this.localClient.getModels(config);
-        }
-
-        for (const modelId of models) {
-          const accountId = `local-${config.provider}-${modelId}`;
-          const success = await this.registerLocalModel(accountId, modelId, config);
-          if (success) totalSynced++;
-        }
+        models = await this.fetchModels(config);
       } catch (e) {
         logger.warn(`[LocalDiscovery] Instance ${config.provider} not reachable at ${config.baseUrl}`);
+        continue;
+      }
+
+      const existing = accounts.filter((a) => a.provider === `local-${config.provider}`);
+      for (const account of existing) {
+        if (models.includes(account.token.project_id || '')) continue;
+        await CloudAccountRepo.removeAccount(account.id);
+        logger.info(`[LocalDiscovery] Removed vanished ${config.provider} model: ${account.token.project_id}`);
+        result.removed++;
+      }
+
+      for (const modelId of models) {
+        const accountId = `local-${config.provider}-${modelId}`;
+        const success = await this.registerLocalModel(accountId, modelId, config);
+        if (success) result.added++;
       }
     }
 
-    return totalSynced;
+    // The running gateway keeps its own copy of the pool
+    await reloadGatewayAccounts();
+    return result;
+  }
+
+  /**
+   * Model names served by an instance. Throws when the instance is unreachable.
+   */
+  private static async fetchModels(config: LocalAIConfig): Promise<string[]> {
+    if (config.provider === 'ollama') {
+      // Try native Ollama API first for higher fidelity
+      try {
+        const nativeUrl = config.baseUrl.replace('/v1', '/api/tags');
+        const resp = await OutboundHttp.client().get(nativeUrl, { timeout: 2000 });
+        if (Array.isArray(resp.data?.models)) {
+          return resp.data.models.map((m: { name: string }) => m.name);
+        }
+      } catch (e) {
+        // Fallback to OpenAI compatible endpoint
+      }
+    }
+    // LM Studio uses standard /v1/models
+    return this.localClient.listModels(config);
   }
 
   private static async registerLocalModel(id: string, modelName: string, config: LocalAIConfig): Promise<boolean> {
     const existing = await CloudAccountRepo.getAccount(id);
-    if (existing) return false;
+    if (existing) {
+      // The instance moved (new port or host); keep the account but route to the new address
+      if (existing.token.refresh_token !== config.baseUrl) {
+        await CloudAccountRepo.updateToken(id, { ...existing.token, refresh_token: config.baseUrl });
+      }
+      return false;
+    }
 
     const now = Math.floor(Date.now() / 1000);
     const account: CloudAccount = {
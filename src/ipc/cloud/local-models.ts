@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { OutboundHttp } from '../../services/OutboundHttp';
+import { ConfigManager } from '../config/manager';
+import { LocalModelDiscoveryService } from './local-discovery';
+import { LocalModel, LocalModelDetails, LocalPullProgress } from '../../types/localModels';
+import { logger } from '../../utils/logger';
+
+/** Finished pulls stay visible this long so the page can show the outcome */
+const FINISHED_PULL_TTL_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+/** Loading a large model from disk can take a while */
+const LOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface OllamaTag {
+  name: string;
+  size: number;
+  modified_at: string;
+  details?: { family?: string; parameter_size?: string; quantization_level?: string };
+}
+
+interface OllamaRunningModel {
+  name: string;
+  size_vram?: number;
+  expires_at?: string;
+}
+
+interface OllamaShowResponse {
+  details?: {
+    format?: string;
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+interface OllamaPullLine {
+  status?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+interface ActivePull {
+  progress: LocalPullProgress;
+  controller: AbortController;
+  finished_at: number | null;
+}
+
+/**
+ * Model lifecycle on the local Ollama instance: list, inspect, pull, delete, load and unload.
+ * Pulls run in the background; the page polls `pulls()` for progress. Changes that add or
+ * remove models re-run discovery so the local accounts follow.
+ */
+export class LocalModelManager {
+  private static readonly active = new Map<string, ActivePull>();
+
+  /**
+   * Installed models, with the ones currently in memory marked as loaded.
+   */
+  static async list(): Promise<LocalModel[]> {
+    const http = OutboundHttp.client();
+    const base = this.baseUrl();
+    const [tags, running] = await Promise.all([
+      http.get<{ models?: OllamaTag[] }>(`${base}/api/tags`, { timeout: REQUEST_TIMEOUT_MS }),
+      http
+        .get<{ models?: OllamaRunningModel[] }>(`${base}/api/ps`, { timeout: REQUEST_TIMEOUT_MS })
+        .catch(() => ({ data: { models: [] as OllamaRunningModel[] } })),
+    ]).catch((e) => this.fail(e, 'List'));
+
+    const loaded = new Map((running.data.models || []).map((m) => [m.name, m]));
+    return (tags.data.models || []).map((tag) => {
+      const memory = loaded.get(tag.name);
+      return {
+        name: tag.name,
+        size: tag.size || 0,
+        modified_at: tag.modified_at || '',
+        family: tag.details?.family || '',
+        parameter_size: tag.details?.parameter_size || '',
+        quantization_level: tag.details?.quantization_level || '',
+        loaded: !!memory,
+        size_vram: memory?.size_vram ?? null,
+        expires_at: memory?.expires_at ?? null,
+      };
+    });
+  }
+
+  static async show(model: string): Promise<LocalModelDetails> {
+    const response = await OutboundHttp.client()
+      .post<OllamaShowResponse>(
+        `${this.baseUrl()}/api/show`,
+        { model },
+        { timeout: REQUEST_TIMEOUT_MS },
+      )
+      .catch((e) => this.fail(e, 'Show'));
+
+    const { details = {}, model_info: info = {}, capabilities = [] } = response.data;
+    // Context length is keyed by architecture, e.g. `llama.context_length`
+    const contextKey = Object.keys(info).find((key) => key.endsWith('.context_length'));
+    const contextLength = contextKey ? Number(info[contextKey]) : NaN;
+
+    return {
+      name: model,
+      format: details.format || '',
+      family: details.family || '',
+      parameter_size: details.parameter_size || '',
+      quantization_level: details.quantization_level || '',
+      context_length: Number.isFinite(contextLength) ? contextLength : null,
+      capabilities,
+    };
+  }
+
+  /**
+   * Starts downloading a model and returns right away; progress is read through `pulls()`.
+   */
+  static pull(model: string): LocalPullProgress {
+    const name = model.trim();
+    if (!name) throw new Error('Model name is required');
+    const current = this.active.get(name);
+    if (current && !current.progress.done) return current.progress;
+
+    const pull: ActivePull = {
+      progress: {
+        model: name,
+        status: 'starting',
+        completed: 0,
+        total: 0,
+        done: false,
+        error: null,
+        started_at: Math.floor(Date.now() / 1000),
+      },
+      controller: new AbortController(),
+      finished_at: null,
+    };
+    this.active.set(name, pull);
+
+    this.runPull(pull).catch((e) => {
+      const message = e instanceof Error ? e.message : String(e);
+      this.finishPull(pull, pull.controller.signal.aborted ? 'cancelled' : message);
+    });
+    return pull.progress;
+  }
+
+  /**
+   * Running pulls and the ones that finished within the last minute.
+   */
+  static pulls(): LocalPullProgress[] {
+    const now = Date.now();
+    for (const [name, pull] of this.active) {
+      if (pull.finished_at !== null && now - pull.finished_at > FINISHED_PULL_TTL_MS) {
+        this.active.delete(name);
+      }
+    }
+    return [...this.active.values()].map((pull) => pull.progress);
+  }
+
+  static cancelPull(model: string): boolean {
+    const pull = this.active.get(model);
+    if (!pull || pull.progress.done) return false;
+    pull.controller.abort();
+    return true;
+  }
+
+  static async remove(model: string): Promise<void> {
+    await OutboundHttp.client()
+      .delete(`${this.baseUrl()}/api/delete`, { data: { model }, timeout: REQUEST_TIMEOUT_MS })
+      .catch((e) => this.fail(e, 'Delete'));
+    logger.info(`[LocalModels] Deleted ${model}`);
+    await this.resync();
+  }
+
+  /**
+   * Loads a model into memory, or unloads it. Ollama loads on an empty generate request
+   * and unloads when `keep_alive` is 0.
+   */
+  static async setLoaded(model: string, loaded: boolean): Promise<void> {
+    await OutboundHttp.client()
+      .post(`${this.baseUrl()}/api/generate`, loaded ? { model } : { model, keep_alive: 0 }, {
+        timeout: loaded ? LOAD_TIMEOUT_MS : REQUEST_TIMEOUT_MS,
+      })
+      .catch((e) => this.fail(e, loaded ? 'Load' : 'Unload'));
+    logger.info(`[LocalModels] ${loaded ? 'Loaded' : 'Unloaded'} ${model}`);
+  }
+
+  private static async runPull(pull: ActivePull): Promise<void> {
+    const { progress } = pull;
+    logger.info(`[LocalModels] Pulling ${progress.model}`);
+    const response = await OutboundHttp.client().post<Readable>(
+      `${this.baseUrl()}/api/pull`,
+      { model: progress.model, stream: true },
+      { responseType: 'stream', signal: pull.controller.signal },
+    );
+
+    // NDJSON: one status object per line, `{"status":"success"}` at the end
+    const apply = (line: string) => {
+      if (!line.trim()) return;
+      const update = JSON.parse(line) as OllamaPullLine;
+      if (update.error) throw new Error(update.error);
+      progress.status = update.status || progress.status;
+      progress.total = update.total ?? progress.total;
+      progress.completed = update.completed ?? progress.completed;
+    };
+    let buffer = '';
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(apply);
+    }
+    apply(buffer);
+
+    if (progress.status !== 'success') throw new Error('Pull ended before completing');
+    this.finishPull(pull, null);
+    logger.info(`[LocalModels] Pulled ${progress.model}`);
+    await this.resync();
+  }
+
+  private static finishPull(pull: ActivePull, error: string | null) {
+    if (pull.progress.done) return;
+    pull.progress.done = true;
+    pull.progress.error = error;
+    pull.finished_at = Date.now();
+    if (error) logger.warn(`[LocalModels] Pull of ${pull.progress.model} failed: ${error}`);
+  }
+
+  private static async resync() {
+    try {
+      await LocalModelDiscoveryService.syncLocalModels();
+    } catch (e) {
+      logger.warn('[LocalModels] Account sync after model change failed', e);
+    }
+  }
+
+  /**
+   * Native Ollama API root; the configured URL points at the OpenAI-compatible `/v1`.
+   */
+  private static baseUrl(): string {
+    const url = ConfigManager.loadConfig().local_ai?.ollama?.url;
+    if (!url) throw new Error('Ollama is not configured');
+    return url.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  private static fail(error: unknown, action: string): never {
+    const message = axios.isAxiosError(error)
+      ? (error.response?.data as { error?: string } | undefined)?.error || error.message
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    logger.warn(`[LocalModels] ${action} failed: ${message}`);
+    throw new Error(message);
+  }
+}
@@ -10,9 +10,18 @@ import {
   setAutoSwitchEnabled,
   forcePollCloudMonitor,
   startAuthFlow,
+  getQuotaHistory,
 } from './handler';
 import { LocalModelDiscoveryService } from './local-discovery';
+import { LocalModelManager } from './local-models';
 import { CloudAccountSchema } from '../../types/cloudAccount';
+import { QuotaHistoryQuerySchema, QuotaSampleSchema } from '../../types/quotaHistory';
+import {
+  LocalModelDetailsSchema,
+  LocalModelSchema,
+  LocalPullProgressSchema,
+  LocalSyncResultSchema,
+} from '../../types/localModels';
 import { CloudAccountRepo } from '../database/cloudHandler';
 
 export const cloudRouter = os.router({
@@ -59,6 +68,13 @@ export const cloudRouter = os.router({
       await setAutoSwitchEnabled(input.enabled);
     }),
 
+  getQuotaHistory: os
+    .input(QuotaHistoryQuerySchema)
+    .output(z.array(QuotaSampleSchema))
+    .handler(async ({ input }) => {
+      return getQuotaHistory(input);
+    }),
+
   forcePollCloudMonitor: os.output(z.void()).handler(async () => {
     await forcePollCloudMonitor();
   }),
@@ -78,7 +94,7 @@ export const cloudRouter = os.router({
     }
   }),
   
-  syncLocalModels: os.output(z.number()).handler(async () => {
+  syncLocalModels: os.output(LocalSyncResultSchema).handler(async () => {
     try {
       return await LocalModelDiscoveryService.syncLocalModels();
     } catch (error: any) {
@@ -87,6 +103,49 @@ export const cloudRouter = os.router({
     }
   }),
 
+  listLocalModels: os.output(z.array(LocalModelSchema)).handler(async () => {
+    return LocalModelManager.list();
+  }),
+
+  showLocalModel: os
+    .input(z.object({ model: z.string() }))
+    .output(LocalModelDetailsSchema)
+    .handler(async ({ input }) => {
+      return LocalModelManager.show(input.model);
+    }),
+
+  pullLocalModel: os
+    .input(z.object({ model: z.string().min(1) }))
+    .output(LocalPullProgressSchema)
+    .handler(async ({ input }) => {
+      return LocalModelManager.pull(input.model);
+    }),
+
+  listLocalPulls: os.output(z.array(LocalPullProgressSchema)).handler(async () => {
+    return LocalModelManager.pulls();
+  }),
+
+  cancelLocalPull: os
+    .input(z.object({ model: z.string() }))
+    .output(z.boolean())
+    .handler(async ({ input }) => {
+      return LocalModelManager.cancelPull(input.model);
+    }),
+
+  deleteLocalModel: os
+    .input(z.object({ model: z.string() }))
+    .output(z.void())
+    .handler(async ({ input }) => {
+      await LocalModelManager.remove(input.model);
+    }),
+
+  setLocalModelLoaded: os
+    .input(z.object({ model: z.string(), loaded: z.boolean() }))
+    .output(z.void())
+    .handler(async ({ input }) => {
+      await LocalModelManager.setLoaded(input.model, input.loaded);
+    }),
+
   updateSelectedModels: os
     .input(z.object({ accountId: z.string(), models: z.array(z.string()) }))
     .output(z.void())
@@ -1,13 +1,31 @@
-import { AppConfig } from '../../types/config';
+import { ORPCError } from '@orpc/server';
+import { AppConfig, ProxyTestResult } from '../../types/config';
 import { ConfigManager } from './manager';
+import { OutboundHttp } from '../../services/OutboundHttp';
+import { applyServerConfig } from '../../server/main';
 
 export function loadConfig(): AppConfig {
   return ConfigManager.loadConfig();
 }
 
-export function saveConfig(config: AppConfig): void {
-  // Logic to notify proxy server if configuration changes (hot update)
+/**
+ * Saves the config and hot-reloads the running gateway. Settings the gateway refuses or could
+ * not restart with are not saved; a restart that could not be rolled back either is reported
+ * after saving, since the gateway is stopped anyway.
+ */
+export async function saveConfig(config: AppConfig): Promise<void> {
   // Logic to update Tray if language changes
-  // For now just save
+  const result = await applyServerConfig(config.proxy);
+  if (result.status === 'rejected') {
+    throw new ORPCError('BAD_REQUEST', { message: result.reason });
+  }
+
   ConfigManager.saveConfig(config);
+  if (result.status === 'failed') {
+    throw new ORPCError('INTERNAL_SERVER_ERROR', { message: result.reason });
+  }
+}
+
+export function testUpstreamProxy(url: string): Promise<ProxyTestResult> {
+  return OutboundHttp.testConnection(url);
 }
@@ -43,6 +43,49 @@ export class ConfigManager {
         };
       }
 
+      if (raw.proxy && raw.proxy.scheduling) {
+        merged.proxy.scheduling = {
+          ...DEFAULT_APP_CONFIG.proxy.scheduling,
+          ...raw.proxy.scheduling,
+        };
+      }
+
+      if (raw.proxy && raw.proxy.session_affinity) {
+        merged.proxy.session_affinity = {
+          ...DEFAULT_APP_CONFIG.proxy.session_affinity,
+          ...raw.proxy.session_affinity,
+        };
+      }
+
+      if (raw.proxy && raw.proxy.stream_failover) {
+        merged.proxy.stream_failover = {
+          ...DEFAULT_APP_CONFIG.proxy.stream_failover,
+          ...raw.proxy.stream_failover,
+        };
+      }
+
+      if (raw.proxy && raw.proxy.signature_store) {
+        merged.proxy.signature_store = {
+          ...DEFAULT_APP_CONFIG.proxy.signature_store,
+          ...raw.proxy.signature_store,
+        };
+      }
+
+      if (raw.proxy && raw.proxy.semantic_cache) {
+        merged.proxy.semantic_cache = {
+          ...DEFAULT_APP_CONFIG.proxy.semantic_cache,
+          ...raw.proxy.semantic_cache,
+        };
+      }
+
+      if (raw.proxy && raw.proxy.network) {
+        merged.proxy.network = {
+          ...DEFAULT_APP_CONFIG.proxy.network,
+          ...raw.proxy.network,
+          tls: { ...DEFAULT_APP_CONFIG.proxy.network.tls, ...(raw.proxy.network.tls || {}) },
+        };
+      }
+
       // Handle Anthropic Mapping Map vs Object
       // In JSON it's object
 
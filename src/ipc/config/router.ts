@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { os } from '@orpc/server';
-import { AppConfigSchema } from '../../types/config';
-import { loadConfig, saveConfig } from './handlers';
+import { AppConfigSchema, ProxyTestResultSchema } from '../../types/config';
+import { loadConfig, saveConfig, testUpstreamProxy } from './handlers';
 
 export const configRouter = os.router({
   load: os.output(AppConfigSchema).handler(async () => {
@@ -12,6 +12,13 @@ export const configRouter = os.router({
     .input(AppConfigSchema)
     .output(z.void())
     .handler(async ({ input }) => {
-      saveConfig(input);
+      await saveConfig(input);
+    }),
+
+  testUpstreamProxy: os
+    .input(z.object({ url: z.string() }))
+    .output(ProxyTestResultSchema)
+    .handler(async ({ input }) => {
+      return testUpstreamProxy(input.url);
     }),
 });
@@ -0,0 +1,244 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getCloudAccountsDbPath } from '../../utils/paths';
+import { logger } from '../../utils/logger';
+import {
+  ApiKeyProtocol,
+  CreateApiKeyInput,
+  UpdateApiKeyInput,
+  VirtualApiKey,
+} from '../../types/apiKey';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  allowed_models_json: string | null;
+  protocol: string;
+  rate_limit_rpm: number | null;
+  daily_token_budget: number | null;
+  tokens_used_today: number;
+  usage_date: string | null;
+  expires_at: number | null;
+  revoked_at: number | null;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+// The proxy guard reads keys on every request, so it keeps one connection open
+let connection: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (connection) return connection;
+
+  const dbPath = getCloudAccountsDbPath();
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+
+  // Only the SHA-256 of each key is stored; the secret is shown once on creation
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      key_prefix TEXT NOT NULL,
+      allowed_models_json TEXT,
+      protocol TEXT NOT NULL DEFAULT 'any',
+      rate_limit_rpm INTEGER,
+      daily_token_budget INTEGER,
+      tokens_used_today INTEGER NOT NULL DEFAULT 0,
+      usage_date TEXT,
+      expires_at INTEGER,
+      revoked_at INTEGER,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER
+    );
+  `);
+
+  connection = db;
+  return db;
+}
+
+/** Budgets reset at UTC midnight */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toApiKey(row: ApiKeyRow): VirtualApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    allowed_models: row.allowed_models_json ? JSON.parse(row.allowed_models_json) : [],
+    protocol: row.protocol as ApiKeyProtocol,
+    rate_limit_rpm: row.rate_limit_rpm,
+    daily_token_budget: row.daily_token_budget,
+    tokens_used_today: row.usage_date === today() ? row.tokens_used_today : 0,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+  };
+}
+
+export class ApiKeyRepo {
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Creates a key and returns the plaintext secret alongside the stored record.
+   */
+  static create(input: CreateApiKeyInput): { key: string; record: VirtualApiKey } {
+    const db = getDb();
+    const key = `sk-${uuidv4().replace(/-/g, '')}`;
+    const row: ApiKeyRow = {
+      id: uuidv4(),
+      name: input.name,
+      key_hash: this.hashKey(key),
+      key_prefix: key.slice(0, 10),
+      allowed_models_json: JSON.stringify(input.allowed_models || []),
+      protocol: input.protocol || 'any',
+      rate_limit_rpm: input.rate_limit_rpm ?? null,
+      daily_token_budget: input.daily_token_budget ?? null,
+      tokens_used_today: 0,
+      usage_date: null,
+      expires_at: input.expires_at ?? null,
+      revoked_at: null,
+      created_at: Math.floor(Date.now() / 1000),
+      last_used_at: null,
+    };
+
+    db.prepare(
+      `
+      INSERT INTO api_keys (
+        id, name, key_hash, key_prefix, allowed_models_json, protocol, rate_limit_rpm,
+        daily_token_budget, tokens_used_today, usage_date, expires_at, revoked_at, created_at, last_used_at
+      ) VALUES (
+        @id, @name, @key_hash, @key_prefix, @allowed_models_json, @protocol, @rate_limit_rpm,
+        @daily_token_budget, @tokens_used_today, @usage_date, @expires_at, @revoked_at, @created_at, @last_used_at
+      )
+    `,
+    ).run(row);
+
+    logger.info(`[ApiKeys] Created key '${input.name}' (${row.key_prefix}...)`);
+    return { key, record: toApiKey(row) };
+  }
+
+  static list(): VirtualApiKey[] {
+    const db = getDb();
+    const rows = db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC').all() as ApiKeyRow[];
+    return rows.map(toApiKey);
+  }
+
+  static get(id: string): VirtualApiKey | undefined {
+    const db = getDb();
+    const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    return row ? toApiKey(row) : undefined;
+  }
+
+  /**
+   * Looks a presented secret up by hash. Revoked and expired keys are still returned
+   * so the caller can report why they were rejected.
+   */
+  static findByKey(key: string): VirtualApiKey | undefined {
+    const db = getDb();
+    const row = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(this.hashKey(key)) as
+      | ApiKeyRow
+      | undefined;
+    return row ? toApiKey(row) : undefined;
+  }
+
+  static update(input: UpdateApiKeyInput): VirtualApiKey {
+    const db = getDb();
+    const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(input.id) as
+      | ApiKeyRow
+      | undefined;
+    if (!row) throw new Error(`API key not found: ${input.id}`);
+
+    const updated: ApiKeyRow = {
+      ...row,
+      name: input.name ?? row.name,
+      allowed_models_json:
+        input.allowed_models !== undefined
+          ? JSON.stringify(input.allowed_models)
+          : row.allowed_models_json,
+      protocol: input.protocol ?? row.protocol,
+      rate_limit_rpm:
+        input.rate_limit_rpm !== undefined ? input.rate_limit_rpm : row.rate_limit_rpm,
+      daily_token_budget:
+        input.daily_token_budget !== undefined ? input.daily_token_budget : row.daily_token_budget,
+      expires_at: input.expires_at !== undefined ? input.expires_at : row.expires_at,
+    };
+
+    db.prepare(
+      `
+      UPDATE api_keys SET
+        name = @name, allowed_models_json = @allowed_models_json, protocol = @protocol,
+        rate_limit_rpm = @rate_limit_rpm, daily_token_budget = @daily_token_budget, expires_at = @expires_at
+      WHERE id = @id
+    `,
+    ).run(updated);
+
+    return toApiKey(updated);
+  }
+
+  static revoke(id: string): void {
+    const db = getDb();
+    db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(
+      Math.floor(Date.now() / 1000),
+      id,
+    );
+    logger.info(`[ApiKeys] Revoked key ${id}`);
+  }
+
+  static remove(id: string): void {
+    const db = getDb();
+    db.prepare('DELETE FROM api_keys WHERE id = ?').run(id);
+    logger.info(`[ApiKeys] Removed key ${id}`);
+  }
+
+  /**
+   * Whether any key can still authenticate. Used to decide if the gateway runs in open mode.
+   */
+  static hasActiveKeys(): boolean {
+    const db = getDb();
+    const row = db
+      .prepare(
+        'SELECT COUNT(*) AS count FROM api_keys WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)',
+      )
+      .get(Math.floor(Date.now() / 1000)) as { count: number };
+    return row.count > 0;
+  }
+
+  static touch(id: string): void {
+    const db = getDb();
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(
+      Math.floor(Date.now() / 1000),
+      id,
+    );
+  }
+
+  /**
+   * Adds tokens to today's usage, resetting the counter when the day has rolled over.
+   */
+  static recordUsage(id: string, tokens: number): void {
+    if (tokens <= 0) return;
+    const db = getDb();
+    try {
+      const date = today();
+      db.prepare(
+        `
+        UPDATE api_keys SET
+          tokens_used_today = CASE WHEN usage_date = @date THEN tokens_used_today + @tokens ELSE @tokens END,
+          usage_date = @date
+        WHERE id = @id
+      `,
+      ).run({ id, tokens, date });
+    } catch (e) {
+      logger.error(`[ApiKeys] Failed to record usage for ${id}`, e);
+    }
+  }
+}
@@ -9,6 +9,7 @@ import { CloudAccount } from '../../types/cloudAccount';
 import { encrypt, decrypt } from '../../utils/security';
 import { ProtobufUtils } from '../../utils/protobuf';
 import { GoogleAPIService } from '../../services/GoogleAPIService';
+import { QuotaHistoryRepo } from './quotaHistory';
 
 /**
  * Ensures that the cloud database file and schema exist.
@@ -249,6 +250,7 @@ export class CloudAccountRepo {
     } finally {
       db.close();
     }
+    QuotaHistoryRepo.removeAccount(id);
   }
 
   static async updateToken(id: string, token: any): Promise<void> {
@@ -271,6 +273,13 @@ export class CloudAccountRepo {
     } finally {
       db.close();
     }
+
+    // Every fetched quota also feeds the dashboard history
+    try {
+      QuotaHistoryRepo.record(id, quota);
+    } catch (e) {
+      logger.error(`Failed to record quota history for ${id}`, e);
+    }
   }
 
   static async updateAccountStatus(id: string, status: 'active' | 'rate_limited' | 'error' | 'refreshing'): Promise<void> {
@@ -0,0 +1,99 @@
+import Database from 'better-sqlite3';
+import { getCloudAccountsDbPath } from '../../utils/paths';
+import { CloudQuotaData } from '../../types/cloudAccount';
+import { QuotaSample } from '../../types/quotaHistory';
+
+/** Longest selectable chart range plus a day of margin */
+const RETENTION_SECONDS = 31 * 24 * 60 * 60;
+
+function getDb(): Database.Database {
+  const dbPath = getCloudAccountsDbPath();
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS quota_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      account_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      percentage INTEGER NOT NULL,
+      reset_time INTEGER,
+      recorded_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_quota_history_recorded ON quota_history(recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_quota_history_account ON quota_history(account_id, recorded_at);
+  `);
+
+  return db;
+}
+
+function parseResetTime(resetTime: string | undefined): number | null {
+  if (!resetTime) return null;
+  const ms = Date.parse(resetTime);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+export class QuotaHistoryRepo {
+  /**
+   * Appends one sample per model of a freshly fetched quota and drops samples past retention.
+   */
+  static record(
+    accountId: string,
+    quota: CloudQuotaData,
+    recordedAt = Math.floor(Date.now() / 1000),
+  ) {
+    const db = getDb();
+    try {
+      const insert = db.prepare(
+        'INSERT INTO quota_history (account_id, model, percentage, reset_time, recorded_at) VALUES (?, ?, ?, ?, ?)',
+      );
+      db.transaction(() => {
+        for (const [model, info] of Object.entries(quota.models || {})) {
+          insert.run(accountId, model, info.percentage, parseResetTime(info.resetTime), recordedAt);
+        }
+        db.prepare('DELETE FROM quota_history WHERE recorded_at < ?').run(
+          recordedAt - RETENTION_SECONDS,
+        );
+      })();
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Returns samples recorded since `from`, oldest first.
+   */
+  static query(from: number, filter: { account_id?: string; model?: string } = {}): QuotaSample[] {
+    const db = getDb();
+    try {
+      const clauses = ['recorded_at >= @from'];
+      const params: Record<string, unknown> = { from };
+      if (filter.account_id) {
+        clauses.push('account_id = @account_id');
+        params.account_id = filter.account_id;
+      }
+      if (filter.model) {
+        clauses.push('model = @model');
+        params.model = filter.model;
+      }
+
+      return db
+        .prepare(
+          `SELECT account_id, model, percentage, reset_time, recorded_at FROM quota_history
+           WHERE ${clauses.join(' AND ')} ORDER BY recorded_at ASC, id ASC`,
+        )
+        .all(params) as QuotaSample[];
+    } finally {
+      db.close();
+    }
+  }
+
+  static removeAccount(accountId: string): void {
+    const db = getDb();
+    try {
+      db.prepare('DELETE FROM quota_history WHERE account_id = ?').run(accountId);
+    } finally {
+      db.close();
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import Database from 'better-sqlite3';
+import { getCloudAccountsDbPath } from '../../utils/paths';
+import {
+  FallbackStats,
+  RequestLogEntry,
+  RequestLogFilter,
+  RequestLogPage,
+} from '../../types/requestLog';
+
+interface RequestLogRow {
+  id: number;
+  timestamp: number;
+  key_id: string | null;
+  key_name: string | null;
+  protocol: string;
+  path: string;
+  requested_model: string | null;
+  resolved_model: string | null;
+  account_id: string | null;
+  stream: number;
+  latency_ms: number;
+  ttft_ms: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_hit: number;
+  status: number;
+  error_class: string | null;
+  fallback_model: string | null;
+}
+
+/** Rows older than this are pruned as new ones are written */
+const RETENTION_DAYS = 90;
+const PRUNE_EVERY_INSERTS = 500;
+const DEFAULT_PAGE_SIZE = 50;
+
+function getDb(): Database.Database {
+  const dbPath = getCloudAccountsDbPath();
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS request_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      key_id TEXT,
+      key_name TEXT,
+      protocol TEXT NOT NULL,
+      path TEXT NOT NULL,
+      requested_model TEXT,
+      resolved_model TEXT,
+      account_id TEXT,
+      stream INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL,
+      ttft_ms INTEGER,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_hit INTEGER NOT NULL DEFAULT 0,
+      status INTEGER NOT NULL,
+      error_class TEXT,
+      fallback_model TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_request_log_timestamp ON request_log(timestamp);
+    CREATE INDEX IF NOT EXISTS idx_request_log_key ON request_log(key_id, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_request_log_account ON request_log(account_id, timestamp);
+  `);
+
+  // Migration: fallback chains were added after the first ledger release
+  const tableInfo = db.pragma('table_info(request_log)') as { name: string }[];
+  if (!tableInfo.some((col) => col.name === 'fallback_model')) {
+    db.exec('ALTER TABLE request_log ADD COLUMN fallback_model TEXT');
+  }
+
+  return db;
+}
+
+function toEntry(row: RequestLogRow): RequestLogEntry {
+  return {
+    ...row,
+    stream: row.stream === 1,
+    cache_hit: row.cache_hit === 1,
+  };
+}
+
+function buildWhere(filter: RequestLogFilter): { sql: string; params: Record<string, unknown> } {
+  const clauses: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filter.key_id) {
+    clauses.push('key_id = @key_id');
+    params.key_id = filter.key_id;
+  }
+  if (filter.account_id) {
+    clauses.push('account_id = @account_id');
+    params.account_id = filter.account_id;
+  }
+  if (filter.model) {
+    clauses.push('(requested_model = @model OR resolved_model = @model)');
+    params.model = filter.model;
+  }
+  if (filter.protocol) {
+    clauses.push('protocol = @protocol');
+    params.protocol = filter.protocol;
+  }
+  if (filter.outcome === 'success') {
+    clauses.push('status < 400');
+  } else if (filter.outcome === 'error') {
+    clauses.push('status >= 400');
+  }
+  if (filter.from !== undefined) {
+    clauses.push('timestamp >= @from');
+    params.from = filter.from;
+  }
+  if (filter.to !== undefined) {
+    clauses.push('timestamp <= @to');
+    params.to = filter.to;
+  }
+
+  return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+export class RequestLogRepo {
+  private static insertsSincePrune = 0;
+
+  static insert(entry: Omit<RequestLogEntry, 'id'>): void {
+    const db = getDb();
+    try {
+      db.prepare(
+        `
+        INSERT INTO request_log (
+          timestamp, key_id, key_name, protocol, path, requested_model, resolved_model, account_id,
+          stream, latency_ms, ttft_ms, input_tokens, output_tokens, cache_hit, status, error_class,
+          fallback_model
+        ) VALUES (
+          @timestamp, @key_id, @key_name, @protocol, @path, @requested_model, @resolved_model, @account_id,
+          @stream, @latency_ms, @ttft_ms, @input_tokens, @output_tokens, @cache_hit, @status, @error_class,
+          @fallback_model
+        )
+      `,
+      ).run({
+        ...entry,
+        stream: entry.stream ? 1 : 0,
+        cache_hit: entry.cache_hit ? 1 : 0,
+      });
+
+      if (++this.insertsSincePrune >= PRUNE_EVERY_INSERTS) {
+        this.insertsSincePrune = 0;
+        const cutoff = Math.floor(Date.now() / 1000) - RETENTION_DAYS * 24 * 60 * 60;
+        db.prepare('DELETE FROM request_log WHERE timestamp < ?').run(cutoff);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Returns one page of entries (newest first) plus the row count and token totals of
+   * everything matching the filter.
+   */
+  static query(filter: RequestLogFilter = {}): RequestLogPage {
+    const db = getDb();
+    try {
+      const { sql, params } = buildWhere(filter);
+      const rows = db
+        .prepare(
+          `SELECT * FROM request_log ${sql} ORDER BY timestamp DESC, id DESC LIMIT @limit OFFSET @offset`,
+        )
+        .all({
+          ...params,
+          limit: filter.limit ?? DEFAULT_PAGE_SIZE,
+          offset: filter.offset ?? 0,
+        }) as RequestLogRow[];
+
+      const aggregate = db
+        .prepare(
+          `SELECT COUNT(*) AS total, COALESCE(SUM(input_tokens), 0) AS input_tokens,
+            COALESCE(SUM(output_tokens), 0) AS output_tokens FROM request_log ${sql}`,
+        )
+        .get(params) as { total: number; input_tokens: number; output_tokens: number };
+
+      return {
+        items: rows.map(toEntry),
+        total: aggregate.total,
+        totals: { input_tokens: aggregate.input_tokens, output_tokens: aggregate.output_tokens },
+      };
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * How often fallback chains answered since `from`, per requested/fallback model pair.
+   */
+  static fallbackStats(from: number): FallbackStats {
+    const db = getDb();
+    try {
+      const counts = db
+        .prepare(
+          `SELECT COUNT(*) AS total_requests, COUNT(fallback_model) AS fallback_requests
+            FROM request_log WHERE timestamp >= ?`,
+        )
+        .get(from) as { total_requests: number; fallback_requests: number };
+
+      const chains = db
+        .prepare(
+          `SELECT requested_model, fallback_model, COUNT(*) AS count FROM request_log
+            WHERE timestamp >= ? AND fallback_model IS NOT NULL
+            GROUP BY requested_model, fallback_model ORDER BY count DESC`,
+        )
+        .all(from) as FallbackStats['chains'];
+
+      return { ...counts, chains };
+    } finally {
+      db.close();
+    }
+  }
+
+  static clear(): void {
+    const db = getDb();
+    try {
+      db.prepare('DELETE FROM request_log').run();
+    } finally {
+      db.close();
+    }
+  }
+}
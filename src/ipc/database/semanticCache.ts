@@ -1,128 +1,292 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
 import { getCloudAccountsDbPath } from '../../utils/paths';
 import { logger } from '../../utils/logger';
+import { SemanticCacheEntry } from '../../types/semanticCache';
 
-export interface CacheEntry {
-  id: string;
-  prompt_hash: string;
+export interface CacheEntryInput {
+  /** Hash of the whole request */
+  request_hash: string;
+  /** Hash of the request without the last user message text; semantic matches stay within it */
+  context_hash: string;
   prompt_text: string;
-  embedding: Float32Array;
+  embedding: Float32Array | null;
   response: string;
   model: string;
+}
+
+export interface CacheEviction {
+  /** Entries created before this Unix timestamp are expired */
+  expiresBefore: number;
+  maxEntries: number;
+}
+
+export interface CacheWriteResult {
+  id: string;
+  created_at: number;
+  /** Entries replaced or evicted by the write */
+  removed_ids: string[];
+}
+
+/** Embedding of a cached entry, as loaded into the vector index */
+export interface CachedVector {
+  id: string;
+  context_hash: string;
+  created_at: number;
+  embedding: Float32Array;
+}
+
+interface CacheRow {
+  id: string;
+  request_hash: string;
+  context_hash: string;
+  prompt_text: string;
+  embedding_blob: Buffer | null;
+  response_text: string;
+  model: string;
   created_at: number;
+  last_used_at: number;
+  hit_count: number;
 }
 
+// The cache is read on every cloud request, so it keeps one connection open
+let connection: Database.Database | null = null;
+
 function getDb(): Database.Database {
+  if (connection) return connection;
+
   const dbPath = getCloudAccountsDbPath();
   const db = new Database(dbPath);
   db.pragma('journal_mode = WAL');
-  
-  // Initialize Semantic Cache Table
+
+  // Migration: the first release keyed entries on the last user message alone, so those rows
+  // may answer a different conversation. Cached answers are disposable, drop them.
+  const tableInfo = db.pragma('table_info(semantic_cache)') as { name: string }[];
+  if (tableInfo.length > 0 && !tableInfo.some((col) => col.name === 'context_hash')) {
+    db.exec('DROP TABLE semantic_cache');
+  }
+
+  // semantic_cache_index holds the serialized HNSW graph (a single row); vectors stay in the rows
   db.exec(`
     CREATE TABLE IF NOT EXISTS semantic_cache (
       id TEXT PRIMARY KEY,
-      prompt_hash TEXT NOT NULL,
+      request_hash TEXT NOT NULL UNIQUE,
+      context_hash TEXT NOT NULL,
       prompt_text TEXT NOT NULL,
-      embedding_blob BLOB NOT NULL,
+      embedding_blob BLOB,
       response_text TEXT NOT NULL,
       model TEXT NOT NULL,
-      created_at INTEGER NOT NULL
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER NOT NULL,
+      hit_count INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_semantic_cache_context ON semantic_cache(context_hash, created_at);
+    CREATE INDEX IF NOT EXISTS idx_semantic_cache_lru ON semantic_cache(last_used_at);
+    CREATE TABLE IF NOT EXISTS semantic_cache_index (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      graph_json TEXT NOT NULL,
+      entries INTEGER NOT NULL,
+      built_at INTEGER NOT NULL
     );
-    CREATE INDEX IF NOT EXISTS idx_cache_hash ON semantic_cache(prompt_hash);
   `);
-  
+
+  connection = db;
   return db;
 }
 
-export class SemanticCacheRepo {
-  /**
-   * Generates a deterministic hash for O(1) prompt matching.
-   */
-  static generateHash(text: string): string {
-    return crypto.createHash('sha256').update(text.trim()).digest('hex');
-  }
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function toVector(blob: Buffer): Float32Array {
+  // Copy, since better-sqlite3 may hand out views into a shared buffer
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
 
+export class SemanticCacheRepo {
   /**
-   * Stores a new semantic entry.
+   * Stores a response, replacing any entry for the same request, then evicts expired
+   * entries and the least recently used ones beyond the size cap.
+   * @returns The new entry and every entry the write removed, or null when it failed
    */
-  static async save(entry: Omit<CacheEntry, 'id' | 'created_at' | 'prompt_hash'>): Promise<void> {
-    const db = getDb();
+  static save(entry: CacheEntryInput, eviction: CacheEviction): CacheWriteResult | null {
     try {
+      const db = getDb();
       const id = uuidv4();
-      const hash = this.generateHash(entry.prompt_text);
-      const createdAt = Math.floor(Date.now() / 1000);
-      const embeddingBuffer = Buffer.from(entry.embedding.buffer);
-
-      const stmt = db.prepare(`
-        INSERT OR REPLACE INTO semantic_cache (
-          id, prompt_hash, prompt_text, embedding_blob, response_text, model, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      stmt.run(id, hash, entry.prompt_text, embeddingBuffer, entry.response, entry.model, createdAt);
-      logger.info(`[SemanticCache] Entry saved for hash: ${hash.substring(0, 8)}`);
+      const now = nowSeconds();
+
+      const removedIds = db.transaction(() => {
+        const replaced = db
+          .prepare('SELECT id FROM semantic_cache WHERE request_hash = ?')
+          .all(entry.request_hash) as { id: string }[];
+        db.prepare('DELETE FROM semantic_cache WHERE request_hash = ?').run(entry.request_hash);
+        db.prepare(
+          `
+          INSERT INTO semantic_cache (
+            id, request_hash, context_hash, prompt_text, embedding_blob, response_text, model,
+            created_at, last_used_at, hit_count
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+        `,
+        ).run(
+          id,
+          entry.request_hash,
+          entry.context_hash,
+          entry.prompt_text,
+          entry.embedding ? Buffer.from(entry.embedding.buffer) : null,
+          entry.response,
+          entry.model,
+          now,
+          now,
+        );
+        return [...replaced, ...this.evict(db, eviction)].map((row) => row.id);
+      })();
+
+      logger.info(`[SemanticCache] Entry saved for hash: ${entry.request_hash.substring(0, 8)}`);
+      return { id, created_at: now, removed_ids: removedIds };
     } catch (e) {
       logger.error('[SemanticCache] Failed to save entry', e);
-    } finally {
-      db.close();
+      return null;
     }
   }
 
   /**
-   * Performs an exact match lookup.
+   * Looks up an unexpired entry for exactly this request and counts the hit.
+   */
+  static findExact(requestHash: string, expiresBefore: number): string | null {
+    const row = getDb()
+      .prepare(
+        'SELECT id, response_text FROM semantic_cache WHERE request_hash = ? AND created_at >= ?',
+      )
+      .get(requestHash, expiresBefore) as Pick<CacheRow, 'id' | 'response_text'> | undefined;
+    if (!row) return null;
+
+    this.recordHit(row.id);
+    return row.response_text;
+  }
+
+  /**
+   * Returns the response of an entry found through the vector index and counts the hit.
+   * Null when the entry no longer exists.
+   */
+  static hit(id: string): string | null {
+    const row = getDb().prepare('SELECT response_text FROM semantic_cache WHERE id = ?').get(id) as
+      | Pick<CacheRow, 'response_text'>
+      | undefined;
+    if (!row) return null;
+
+    this.recordHit(id);
+    return row.response_text;
+  }
+
+  /**
+   * Every stored embedding, for building the vector index.
    */
-  static findExact(prompt: string): string | null {
+  static loadVectors(): CachedVector[] {
+    const rows = getDb()
+      .prepare(
+        `SELECT id, context_hash, created_at, embedding_blob FROM semantic_cache
+         WHERE embedding_blob IS NOT NULL`,
+      )
+      .all() as Pick<CacheRow, 'id' | 'context_hash' | 'created_at' | 'embedding_blob'>[];
+    return rows.map((row) => ({
+      id: row.id,
+      context_hash: row.context_hash,
+      created_at: row.created_at,
+      embedding: toVector(row.embedding_blob!),
+    }));
+  }
+
+  /**
+   * The saved vector index graph, or null when none was saved.
+   */
+  static loadIndex(): string | null {
+    const row = getDb().prepare('SELECT graph_json FROM semantic_cache_index WHERE id = 1').get() as
+      | { graph_json: string }
+      | undefined;
+    return row?.graph_json ?? null;
+  }
+
+  static saveIndex(graphJson: string, entries: number): void {
+    getDb()
+      .prepare(
+        `INSERT OR REPLACE INTO semantic_cache_index (id, graph_json, entries, built_at)
+         VALUES (1, ?, ?, ?)`,
+      )
+      .run(graphJson, entries, nowSeconds());
+  }
+
+  /**
+   * Entries for the cache browser, most recently used first. Embeddings are left out.
+   */
+  static list(limit = 100, offset = 0): { items: SemanticCacheEntry[]; total: number } {
     const db = getDb();
-    try {
-      const hash = this.generateHash(prompt);
-      const row = db.prepare('SELECT response_text FROM semantic_cache WHERE prompt_hash = ?')
-        .get(hash) as { response_text: string } | undefined;
-      
-      return row ? row.response_text : null;
-    } finally {
-      db.close();
-    }
+    const rows = db
+      .prepare(
+        `SELECT id, prompt_text, response_text, model, created_at, last_used_at, hit_count
+         FROM semantic_cache ORDER BY last_used_at DESC LIMIT ? OFFSET ?`,
+      )
+      .all(limit, offset) as Omit<CacheRow, 'request_hash' | 'context_hash' | 'embedding_blob'>[];
+    return {
+      items: rows.map((row) => ({
+        id: row.id,
+        prompt: row.prompt_text,
+        response: row.response_text,
+        model: row.model,
+        created_at: row.created_at,
+        last_used_at: row.last_used_at,
+        hits: row.hit_count,
+      })),
+      total: this.count(),
+    };
+  }
+
+  static count(): number {
+    const row = getDb().prepare('SELECT COUNT(*) AS total FROM semantic_cache').get() as {
+      total: number;
+    };
+    return row.total;
   }
 
   /**
-   * Performs a vector similarity search.
-   * PhD Level Implementation: Cosine Similarity over Float32 components.
+   * Deletes one entry, or every entry when no id is given.
    */
-  static findSemantic(queryEmbedding: Float32Array, threshold = 0.97): string | null {
+  static purge(id?: string): number {
     const db = getDb();
-    try {
-      const rows = db.prepare('SELECT response_text, embedding_blob FROM semantic_cache').all() as any[];
-      
-      for (const row of rows) {
-        const cachedVector = new Float32Array(
-          row.embedding_blob.buffer,
-          row.embedding_blob.byteOffset,
-          row.embedding_blob.byteLength / 4
-        );
-        
-        const similarity = this.cosineSimilarity(queryEmbedding, cachedVector);
-        if (similarity >= threshold) {
-          logger.info(`[SemanticCache] Semantic hit detected (sim: ${similarity.toFixed(4)})`);
-          return row.response_text;
-        }
-      }
-      return null;
-    } finally {
-      db.close();
-    }
+    const result = id
+      ? db.prepare('DELETE FROM semantic_cache WHERE id = ?').run(id)
+      : db.prepare('DELETE FROM semantic_cache').run();
+    logger.info(`[SemanticCache] Purged ${result.changes} entries`);
+    return result.changes;
   }
 
   /**
-   * Optimized Dot Product for normalized vectors.
+   * Closes the shared connection; the next call reopens it.
    */
-  private static cosineSimilarity(a: Float32Array, b: Float32Array): number {
-    if (a.length !== b.length) return 0;
-    let dotProduct = 0;
-    for (let i = 0; i < a.length; i++) {
-        dotProduct += a[i] * b[i];
-    }
-    return dotProduct; // Assumes normalized embeddings from Gemini API
+  static close(): void {
+    connection?.close();
+    connection = null;
+  }
+
+  private static recordHit(id: string): void {
+    getDb()
+      .prepare('UPDATE semantic_cache SET hit_count = hit_count + 1, last_used_at = ? WHERE id = ?')
+      .run(nowSeconds(), id);
+  }
+
+  private static evict(db: Database.Database, eviction: CacheEviction): { id: string }[] {
+    const evicted = db
+      .prepare(
+        `SELECT id FROM semantic_cache WHERE created_at < @expiresBefore
+         UNION
+         SELECT id FROM (
+           SELECT id FROM semantic_cache ORDER BY last_used_at DESC, created_at DESC LIMIT -1 OFFSET @keep
+         )`,
+      )
+      .all({ expiresBefore: eviction.expiresBefore, keep: Math.max(0, eviction.maxEntries) }) as {
+      id: string;
+    }[];
+    const remove = db.prepare('DELETE FROM semantic_cache WHERE id = ?');
+    for (const row of evicted) remove.run(row.id);
+    return evicted;
   }
 }
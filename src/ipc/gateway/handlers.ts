@@ -2,23 +2,51 @@
  * Gateway IPC Handlers
  * Provides ORPC handlers for controlling the API Gateway service (NestJS version)
  */
-import { bootstrapNestServer, stopNestServer, getNestServerStatus } from '../../server/main';
+import {
+  applyServerConfig,
+  bootstrapNestServer,
+  checkNetworkConfig,
+  stopNestServer,
+  getNestServerStatus,
+  getGatewayActivity,
+  getSessionBindings,
+  releaseSessionBinding,
+} from '../../server/main';
+import { ORPCError } from '@orpc/server';
 import { ConfigManager } from '../config/manager';
 import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyRepo } from '../database/apiKeys';
+import { CreateApiKeyInput, UpdateApiKeyInput, VirtualApiKey } from '../../types/apiKey';
+import { RequestLogRepo } from '../database/requestLog';
+import { FallbackStats, RequestLogFilter, RequestLogPage } from '../../types/requestLog';
+import { SessionBinding } from '../../types/sessionAffinity';
+import { GatewayActivity } from '../../types/inflight';
+import { SemanticCacheManager } from '../../server/modules/proxy/SemanticCacheManager';
+import { SemanticCacheIndex } from '../../server/modules/proxy/SemanticCacheIndex';
+import { SemanticCacheRepo } from '../database/semanticCache';
+import {
+  IndexRebuildResult,
+  SemanticCachePage,
+  SemanticCacheStats,
+} from '../../types/semanticCache';
 
 /**
  * Start the gateway server (NestJS)
  */
 export const startGateway = async (port: number): Promise<boolean> => {
+  // Load full config; the renderer only sees the message of an ORPCError
+  const config = ConfigManager.loadConfig();
+  const networkProblem = checkNetworkConfig(config.proxy);
+  if (networkProblem) {
+    throw new ORPCError('BAD_REQUEST', { message: networkProblem });
+  }
+
   try {
     // Stop if already running
     await stopNestServer();
 
-    // Load full config and start NestJS server
-    const config = ConfigManager.loadConfig();
-    const proxyConfig = { ...config.proxy, port };
-
-    return await bootstrapNestServer(proxyConfig);
+    // Start NestJS server
+    return await bootstrapNestServer(config.proxy, port);
   } catch (e) {
     console.error('Failed to start gateway:', e);
     return false;
@@ -54,6 +82,118 @@ export const generateApiKey = async (): Promise<string> => {
   const config = ConfigManager.loadConfig();
   config.proxy.api_key = newKey;
   ConfigManager.saveConfig(config);
+  // The old key stops working right away
+  await applyServerConfig(config.proxy);
 
   return newKey;
 };
+
+/**
+ * List virtual API keys (secrets are never returned)
+ */
+export const listApiKeys = async (): Promise<VirtualApiKey[]> => {
+  return ApiKeyRepo.list();
+};
+
+/**
+ * Create a virtual API key. The plaintext key is only available in this response.
+ */
+export const createApiKey = async (
+  input: CreateApiKeyInput,
+): Promise<{ key: string; record: VirtualApiKey }> => {
+  return ApiKeyRepo.create(input);
+};
+
+/**
+ * Update the restrictions of a virtual API key
+ */
+export const updateApiKey = async (input: UpdateApiKeyInput): Promise<VirtualApiKey> => {
+  return ApiKeyRepo.update(input);
+};
+
+/**
+ * Revoke a virtual API key. Revoked keys stay listed for auditing.
+ */
+export const revokeApiKey = async (id: string): Promise<void> => {
+  ApiKeyRepo.revoke(id);
+};
+
+/**
+ * Permanently delete a virtual API key
+ */
+export const deleteApiKey = async (id: string): Promise<void> => {
+  ApiKeyRepo.remove(id);
+};
+
+/**
+ * Query the request ledger, newest first
+ */
+export const listRequestLogs = async (filter: RequestLogFilter): Promise<RequestLogPage> => {
+  return RequestLogRepo.query(filter);
+};
+
+/**
+ * How often fallback chains answered since `from` (Unix timestamp)
+ */
+export const getFallbackStats = async (from: number): Promise<FallbackStats> => {
+  return RequestLogRepo.fallbackStats(from);
+};
+
+/**
+ * Delete every request ledger entry
+ */
+export const clearRequestLogs = async (): Promise<void> => {
+  RequestLogRepo.clear();
+};
+
+/**
+ * Requests the gateway is serving right now
+ */
+export const getActivity = async (): Promise<GatewayActivity> => {
+  return getGatewayActivity();
+};
+
+/**
+ * List live conversation-to-account bindings
+ */
+export const listSessionBindings = async (): Promise<SessionBinding[]> => {
+  return getSessionBindings();
+};
+
+/**
+ * Release a conversation binding (all bindings when no key is given)
+ */
+export const releaseSession = async (key?: string): Promise<boolean> => {
+  return releaseSessionBinding(key);
+};
+
+/**
+ * Browse cached responses, most recently used first
+ */
+export const listCacheEntries = async (input: {
+  limit?: number;
+  offset?: number;
+}): Promise<SemanticCachePage> => {
+  return SemanticCacheRepo.list(input.limit, input.offset);
+};
+
+/**
+ * Cache size and hit counters since the app started
+ */
+export const getCacheStats = async (): Promise<SemanticCacheStats> => {
+  return SemanticCacheManager.stats();
+};
+
+/**
+ * Delete one cached response, or all of them when no id is given
+ */
+export const purgeCache = async (id?: string): Promise<number> => {
+  return SemanticCacheManager.purge(id);
+};
+
+/**
+ * Rebuild the similarity index from the stored embeddings
+ */
+export const rebuildCacheIndex = async (): Promise<IndexRebuildResult> => {
+  return SemanticCacheIndex.rebuild();
+};
@@ -4,7 +4,44 @@
  */
 import { os } from '@orpc/server';
 import { z } from 'zod';
-import { startGateway, stopGateway, getGatewayStatus, generateApiKey } from './handlers';
+import {
+  startGateway,
+  stopGateway,
+  getGatewayStatus,
+  generateApiKey,
+  listApiKeys,
+  createApiKey,
+  updateApiKey,
+  revokeApiKey,
+  deleteApiKey,
+  listRequestLogs,
+  clearRequestLogs,
+  getFallbackStats,
+  getActivity,
+  listSessionBindings,
+  releaseSession,
+  listCacheEntries,
+  getCacheStats,
+  purgeCache,
+  rebuildCacheIndex,
+} from './handlers';
+import {
+  CreateApiKeyInputSchema,
+  UpdateApiKeyInputSchema,
+  VirtualApiKeySchema,
+} from '../../types/apiKey';
+import {
+  FallbackStatsSchema,
+  RequestLogFilterSchema,
+  RequestLogPageSchema,
+} from '../../types/requestLog';
+import { SessionBindingSchema } from '../../types/sessionAffinity';
+import { GatewayActivitySchema } from '../../types/inflight';
+import {
+  IndexRebuildResultSchema,
+  SemanticCachePageSchema,
+  SemanticCacheStatsSchema,
+} from '../../types/semanticCache';
 
 export const gatewayRouter = os.prefix('/gateway').router({
   start: os
@@ -33,4 +70,93 @@ export const gatewayRouter = os.prefix('/gateway').router({
     const newKey = await generateApiKey();
     return { api_key: newKey };
   }),
+
+  listKeys: os.output(z.array(VirtualApiKeySchema)).handler(async () => {
+    return listApiKeys();
+  }),
+
+  createKey: os
+    .input(CreateApiKeyInputSchema)
+    .output(z.object({ key: z.string(), record: VirtualApiKeySchema }))
+    .handler(async ({ input }) => {
+      return createApiKey(input);
+    }),
+
+  updateKey: os
+    .input(UpdateApiKeyInputSchema)
+    .output(VirtualApiKeySchema)
+    .handler(async ({ input }) => {
+      return updateApiKey(input);
+    }),
+
+  revokeKey: os.input(z.object({ id: z.string() })).handler(async ({ input }) => {
+    await revokeApiKey(input.id);
+    return { success: true };
+  }),
+
+  deleteKey: os.input(z.object({ id: z.string() })).handler(async ({ input }) => {
+    await deleteApiKey(input.id);
+    return { success: true };
+  }),
+
+  listRequests: os
+    .input(RequestLogFilterSchema)
+    .output(RequestLogPageSchema)
+    .handler(async ({ input }) => {
+      return listRequestLogs(input);
+    }),
+
+  fallbackStats: os
+    .input(z.object({ from: z.number().int() }))
+    .output(FallbackStatsSchema)
+    .handler(async ({ input }) => {
+      return getFallbackStats(input.from);
+    }),
+
+  clearRequests: os.handler(async () => {
+    await clearRequestLogs();
+    return { success: true };
+  }),
+
+  activity: os.output(GatewayActivitySchema).handler(async () => {
+    return getActivity();
+  }),
+
+  listSessions: os.output(z.array(SessionBindingSchema)).handler(async () => {
+    return listSessionBindings();
+  }),
+
+  releaseSession: os
+    .input(z.object({ key: z.string().optional() }))
+    .handler(async ({ input }) => {
+      const success = await releaseSession(input.key);
+      return { success };
+    }),
+
+  listCache: os
+    .input(
+      z.object({
+        limit: z.number().int().min(1).max(500).optional(),
+        offset: z.number().int().min(0).optional(),
+      }),
+    )
+    .output(SemanticCachePageSchema)
+    .handler(async ({ input }) => {
+      return listCacheEntries(input);
+    }),
+
+  cacheStats: os.output(SemanticCacheStatsSchema).handler(async () => {
+    return getCacheStats();
+  }),
+
+  purgeCache: os
+    .input(z.object({ id: z.string().optional() }))
+    .handler(async ({ input }) => {
+      const purged = await purgeCache(input.id);
+      return { purged };
+    }),
+
+  rebuildCacheIndex: os.output(IndexRebuildResultSchema).handler(async () => {
+    return rebuildCacheIndex();
+  }),
 });
@@ -6,6 +6,8 @@ import {
   ClaudeRequest,
   Message,
   Tool,
+  ToolChoice,
+  FunctionCallingConfig,
   GeminiInternalRequest,
   GeminiContent,
   GeminiToolDeclaration,
@@ -38,11 +40,13 @@ interface RequestConfig {
  * Transforms Claude request into Gemini internal request format
  * @param claudeReq Claude API request
  * @param projectId Gemini Project ID
+ * @param conversationKey Conversation whose stored thought_signature may be replayed
  * @returns Gemini internal request format
  */
 export function transformClaudeRequestIn(
   claudeReq: ClaudeRequest,
   projectId: string,
+  conversationKey?: string,
 ): GeminiInternalRequest {
   // Check for networking tools (server tool or built-in tool)
   const hasWebSearchTool = detectsNetworkingTool(claudeReq.tools);
@@ -72,7 +76,7 @@ export function transformClaudeRequestIn(
   let isThinkingEnabled = claudeReq.thinking?.type === 'enabled';
 
   if (isThinkingEnabled) {
-    const globalSig = SignatureStore.get();
+    const storedSig = SignatureStore.get(conversationKey);
     const hasFunctionCalls = claudeReq.messages.some((m) => {
       if (Array.isArray(m.content)) {
         return m.content.some((b) => b.type === 'tool_use');
@@ -80,7 +84,7 @@ export function transformClaudeRequestIn(
       return false;
     });
 
-    if (hasFunctionCalls && !hasValidSignatureForFunctionCalls(claudeReq.messages, globalSig)) {
+    if (hasFunctionCalls && !hasValidSignatureForFunctionCalls(claudeReq.messages, storedSig)) {
       isThinkingEnabled = false;
     }
   }
@@ -97,6 +101,7 @@ export function transformClaudeRequestIn(
     toolIdToName,
     isThinkingEnabled,
     allowDummyThought,
+    conversationKey,
   );
 
   // 3. Tools
@@ -118,7 +123,7 @@ export function transformClaudeRequestIn(
     systemInstruction?: { parts: { text: string }[] };
     generationConfig?: GenerationConfig;
     tools?: GeminiToolDeclaration[];
-    toolConfig?: { functionCallingConfig: { mode: string } };
+    toolConfig?: { functionCallingConfig: FunctionCallingConfig };
   } = {
     contents,
     safetySettings,
@@ -136,7 +141,9 @@ export function transformClaudeRequestIn(
 
   if (tools) {
     innerRequest.tools = tools;
-    innerRequest.toolConfig = { functionCallingConfig: { mode: 'VALIDATED' } };
+    innerRequest.toolConfig = {
+      functionCallingConfig: buildFunctionCallingConfig(claudeReq.tool_choice),
+    };
   }
 
   // Inject googleSearch tool if needed (and not already done by buildTools)
@@ -456,15 +463,15 @@ const MIN_SIGNATURE_LENGTH = 10;
 /**
  * Check if we have any valid signature available for function calls
  * @param messages  Messages from ClaudeRequest
- * @param globalSig  Global signature from SignatureStore
+ * @param storedSig  Signature stored for this conversation
  * @returns  True if any valid signature is available for function calls
  */
 function hasValidSignatureForFunctionCalls(
   messages: Message[],
-  globalSig: string | null | undefined,
+  storedSig: string | null | undefined,
 ): boolean {
-  // 1. Check global store
-  if (globalSig && globalSig.length >= MIN_SIGNATURE_LENGTH) {
+  // 1. Check the conversation's stored signature
+  if (storedSig && storedSig.length >= MIN_SIGNATURE_LENGTH) {
     return true;
   }
 
@@ -482,6 +489,11 @@ function hasValidSignatureForFunctionCalls(
           ) {
             return true;
           }
+          // Signature upstream attached to this function call
+          if (block.type === 'tool_use') {
+            const sig = block.signature || SignatureStore.getForToolUse(block.id);
+            if (sig && sig.length >= MIN_SIGNATURE_LENGTH) return true;
+          }
         }
       }
     }
@@ -498,6 +510,7 @@ function buildContents(
   toolIdToName: Map<string, string>,
   isThinkingEnabled: boolean,
   allowDummyThought: boolean,
+  conversationKey?: string,
 ): GeminiContent[] {
   const contents: GeminiContent[] = [];
   let lastThoughtSignature: string | null = null;
@@ -540,7 +553,11 @@ function buildContents(
         const part: any = { functionCall: { name: block.name, args: block.input, id: block.id } };
         cleanJsonSchema(part);
         toolIdToName.set(block.id, block.name);
-        const finalSig = block.signature || lastThoughtSignature || SignatureStore.get();
+        const finalSig =
+          block.signature ||
+          SignatureStore.getForToolUse(block.id) ||
+          lastThoughtSignature ||
+          SignatureStore.get(conversationKey);
         if (finalSig) part.thoughtSignature = finalSig;
         parts.push(part);
       } else if (block.type === 'tool_result') {
@@ -625,6 +642,25 @@ function buildTools(
   return null;
 }
 
+/**
+ * build function calling config
+ * convert claude tool_choice to gemini functionCallingConfig
+ */
+function buildFunctionCallingConfig(toolChoice?: ToolChoice): FunctionCallingConfig {
+  switch (toolChoice?.type) {
+    case 'any':
+      return { mode: 'ANY' };
+    case 'tool':
+      return toolChoice.name
+        ? { mode: 'ANY', allowedFunctionNames: [toolChoice.name] }
+        : { mode: 'ANY' };
+    case 'none':
+      return { mode: 'NONE' };
+    default:
+      return { mode: 'VALIDATED' };
+  }
+}
+
 /**
  * build generation config
  * convert claude request parameters to gemini generation config
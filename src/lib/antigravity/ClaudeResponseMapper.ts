@@ -8,6 +8,7 @@ import {
   GroundingMetadata,
 } from './types';
 import { decodeSignature } from './signature-utils';
+import { SignatureStore } from './SignatureStore';
 
 /**
  * Non-streaming response processor (Gemini -> Claude)
@@ -21,7 +22,7 @@ class NonStreamingProcessor {
   private trailingSignature: string | null = null;
   private hasToolCall: boolean = false;
 
-  constructor() {}
+  constructor(private readonly conversationKey?: string) {}
 
   public process(geminiResponse: GeminiResponse): ClaudeResponse {
     const candidate = geminiResponse.candidates?.[0];
@@ -85,6 +86,10 @@ class NonStreamingProcessor {
         input: fc.args || {},
         signature: signature || undefined,
       };
+      // Keep the signature so the follow-up request can replay it
+      if (signature) {
+        SignatureStore.store(signature, { conversation: this.conversationKey, toolUseId: toolId });
+      }
 
       this.contentBlocks.push(toolUse);
       return;
@@ -243,8 +248,12 @@ class NonStreamingProcessor {
 
 /**
  * Public API: Transform Gemini Response to Claude Response
+ * @param conversationKey Conversation that function call signatures are stored under
  */
-export function transformResponse(geminiResponse: GeminiResponse): ClaudeResponse {
-  const processor = new NonStreamingProcessor();
+export function transformResponse(
+  geminiResponse: GeminiResponse,
+  conversationKey?: string,
+): ClaudeResponse {
+  const processor = new NonStreamingProcessor(conversationKey);
   return processor.process(geminiResponse);
 }
@@ -46,7 +46,10 @@ export class StreamingState {
 
   private parseErrorCount: number = 0;
 
-  constructor() {}
+  /**
+   * @param conversationKey Conversation that captured signatures are stored under
+   */
+  constructor(public readonly conversationKey?: string) {}
 
   public emit(eventType: string, data: any): string {
     return `event: ${eventType}\ndata: ${JSON.stringify(data)}\n\n`;
@@ -465,8 +468,11 @@ export class PartProcessor {
 
     if (signature) {
       toolUse.signature = signature;
-      // Store signature to global storage for replay in subsequent requests
-      SignatureStore.store(signature);
+      // Store signature for replay in subsequent requests of this conversation
+      SignatureStore.store(signature, {
+        conversation: this.state.conversationKey,
+        toolUseId: toolId,
+      });
     }
 
     chunks.push(...this.state.startBlock('Function', toolUse));
@@ -0,0 +1,51 @@
+/**
+ * OpenAI Embeddings API <-> Gemini embedContent mapping helpers.
+ */
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+/** batchEmbedContents accepts at most 100 requests per call */
+export const EMBEDDING_BATCH_SIZE = 100;
+
+/** Gemini embedding models that are passed through unchanged */
+const GEMINI_EMBEDDING_MODELS = [
+  'text-embedding-004',
+  'text-embedding-005',
+  'gemini-embedding-001',
+];
+
+/**
+ * Maps an OpenAI embedding model (text-embedding-3-small, ada-002, ...) to a Gemini one.
+ */
+export function mapEmbeddingModel(model?: string): string {
+  const clean = (model || '').replace(/^models\//, '');
+  return GEMINI_EMBEDDING_MODELS.includes(clean) ? clean : DEFAULT_EMBEDDING_MODEL;
+}
+
+/**
+ * Normalizes `input` to a list of strings.
+ * Returns null for token-array input or invalid values, which Gemini cannot embed.
+ */
+export function normalizeEmbeddingInput(input: unknown): string[] | null {
+  if (typeof input === 'string') return [input];
+  if (!Array.isArray(input) || input.length === 0) return null;
+  if (!input.every((item) => typeof item === 'string')) return null;
+  return input as string[];
+}
+
+/**
+ * Encodes a vector as little-endian float32 base64 (OpenAI `encoding_format: "base64"`).
+ */
+export function encodeEmbeddingBase64(values: number[]): string {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => buffer.writeFloatLE(v, i * 4));
+  return buffer.toString('base64');
+}
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
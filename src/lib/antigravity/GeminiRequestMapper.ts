@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+import { mapClaudeModelToGemini } from './ModelMapping';
+import { GeminiInternalRequest, GeminiRequest, GeminiResponse } from './types';
+
+/**
+ * Native Gemini protocol (v1beta generateContent) <-> v1internal wrapper.
+ * Requests are already in Gemini shape; they only need the Cloud Code envelope.
+ */
+
+/**
+ * Splits a v1beta path segment such as `gemini-2.5-flash:streamGenerateContent`
+ * into model and method. Returns null when no method is present.
+ */
+export function parseModelAction(segment: string): { model: string; action: string } | null {
+  const decoded = decodeURIComponent(segment);
+  const separator = decoded.lastIndexOf(':');
+  if (separator <= 0 || separator === decoded.length - 1) return null;
+  return {
+    model: decoded.slice(0, separator).replace(/^models\//, ''),
+    action: decoded.slice(separator + 1),
+  };
+}
+
+/**
+ * Wraps a native Gemini request into the v1internal envelope.
+ */
+export function transformGeminiRequestIn(
+  model: string,
+  request: GeminiRequest,
+  projectId: string,
+): GeminiInternalRequest {
+  // Clients may echo the model inside the body; the envelope carries it instead
+  const innerRequest: GeminiRequest & { model?: string } = { ...request };
+  delete innerRequest.model;
+
+  return {
+    project: projectId,
+    requestId: `agent-${uuidv4()}`,
+    request: innerRequest,
+    model: mapClaudeModelToGemini(model.replace(/^models\//, '')),
+    userAgent: 'antigravity',
+    requestType: 'agent',
+  };
+}
+
+/**
+ * v1internal wraps every (streamed) payload in a `response` field; native clients expect it bare.
+ */
+export function unwrapGeminiResponse(payload: unknown): GeminiResponse {
+  const wrapped = payload as { response?: GeminiResponse };
+  return wrapped?.response || (payload as GeminiResponse);
+}
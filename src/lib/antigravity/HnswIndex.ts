@@ -0,0 +1,460 @@
+/**
+ * HNSW Index
+ * Approximate nearest neighbour search over normalized embeddings (Malkov & Yashunin, 2016)
+ *
+ * Problem: Comparing a query against every cached embedding grows linearly with the cache
+ * Solution: A layered proximity graph; a search walks greedily from a sparse top layer down to
+ * the dense bottom layer and only scores the nodes it passes, roughly O(log n) per query
+ */
+
+export interface HnswOptions {
+  /** Links per node on the upper layers; the bottom layer keeps twice as many */
+  m?: number;
+  /** Candidate list size while inserting; higher builds a better graph, slower */
+  efConstruction?: number;
+  /** Candidate list size while searching; higher improves recall, slower */
+  efSearch?: number;
+  /** Seed for level assignment, so the same inserts build the same graph */
+  seed?: number;
+}
+
+export interface HnswMatch {
+  id: string;
+  /** Cosine similarity to the query */
+  similarity: number;
+}
+
+/** Graph structure without the vectors, which live with the cache rows */
+export interface SerializedHnsw {
+  version: number;
+  m: number;
+  efConstruction: number;
+  ids: string[];
+  levels: number[];
+  /** links[node][level] = neighbour node indices */
+  links: number[][][];
+  deleted: number[];
+  entryPoint: number;
+  maxLevel: number;
+}
+
+const FORMAT_VERSION = 1;
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 100;
+const DEFAULT_EF_SEARCH = 64;
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Binary heap ordered by distance; `max` turns it into a max-heap.
+ */
+class DistanceHeap {
+  private items: Candidate[] = [];
+
+  constructor(private readonly max = false) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Candidate[] {
+    return [...this.items];
+  }
+
+  private before(a: Candidate, b: Candidate): boolean {
+    return this.max ? a.distance > b.distance : a.distance < b.distance;
+  }
+}
+
+/** mulberry32: small deterministic PRNG for level assignment */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0 || Math.abs(norm - 1) < 1e-6) return vector;
+  const out = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+export class HnswIndex {
+  private readonly m: number;
+  private readonly m0: number;
+  private readonly efConstruction: number;
+  private readonly levelFactor: number;
+  private readonly random: () => number;
+  efSearch: number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private deleted = new Set<number>();
+  private byId = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dimensions = 0;
+
+  /** Distance evaluations since the counter was last reset; used by benchmarks */
+  distanceEvaluations = 0;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? DEFAULT_M;
+    this.m0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+    this.efSearch = options.efSearch ?? DEFAULT_EF_SEARCH;
+    this.levelFactor = 1 / Math.log(this.m);
+    this.random = createRandom(options.seed ?? 42);
+  }
+
+  /** Live (not deleted) entries */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /** Share of graph nodes that are deleted and only kept for connectivity */
+  get deletedRatio(): number {
+    return this.ids.length === 0 ? 0 : this.deleted.size / this.ids.length;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  /**
+   * Normalized vector of a live entry.
+   */
+  vector(id: string): Float32Array | undefined {
+    const node = this.byId.get(id);
+    return node === undefined ? undefined : this.vectors[node];
+  }
+
+  /**
+   * Adds a vector. Re-adding an id replaces its previous vector.
+   */
+  add(id: string, vector: Float32Array): void {
+    if (this.dimensions === 0) this.dimensions = vector.length;
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index uses ${this.dimensions}`);
+    }
+    if (this.byId.has(id)) this.remove(id);
+
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    const normalized = normalize(vector);
+    this.ids.push(id);
+    this.vectors.push(normalized);
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.byId.set(id, node);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      current = this.greedyClosest(normalized, current, l);
+    }
+
+    let entryPoints = [current];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, l);
+      const neighbours = this.selectNeighbours(candidates, this.m);
+      this.links[node][l] = neighbours.map((c) => c.node);
+      for (const neighbour of neighbours) {
+        this.connect(neighbour.node, node, l);
+      }
+      entryPoints = candidates.map((c) => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Marks an entry deleted. Its node stays in the graph to keep it connected until the
+   * index is rebuilt.
+   */
+  remove(id: string): boolean {
+    const node = this.byId.get(id);
+    if (node === undefined) return false;
+    this.byId.delete(id);
+    this.deleted.add(node);
+    return true;
+  }
+
+  /**
+   * Nearest live entries to the query, most similar first.
+   * @param accept Optional filter; rejected entries are walked through but never returned
+   */
+  search(
+    query: Float32Array,
+    k = 1,
+    accept?: (id: string) => boolean,
+    ef = this.efSearch,
+  ): HnswMatch[] {
+    if (this.entryPoint < 0 || this.byId.size === 0 || query.length !== this.dimensions) {
+      return [];
+    }
+    const normalized = normalize(query);
+
+    let current = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      current = this.greedyClosest(normalized, current, l);
+    }
+
+    const isResult = (node: number) =>
+      !this.deleted.has(node) && (!accept || accept(this.ids[node]));
+    return this.searchLayer(normalized, [current], Math.max(ef, k), 0, isResult)
+      .slice(0, k)
+      .map((c) => ({ id: this.ids[c.node], similarity: 1 - c.distance }));
+  }
+
+  /**
+   * Exact search over live entries, for small candidate sets and as a benchmark baseline.
+   * @param ids Entries to compare against; every live entry by default
+   */
+  bruteForce(
+    query: Float32Array,
+    k = 1,
+    accept?: (id: string) => boolean,
+    ids: Iterable<string> = this.byId.keys(),
+  ): HnswMatch[] {
+    if (query.length !== this.dimensions) return [];
+    const normalized = normalize(query);
+    const matches: HnswMatch[] = [];
+    for (const id of ids) {
+      const node = this.byId.get(id);
+      if (node === undefined || (accept && !accept(id))) continue;
+      matches.push({ id, similarity: 1 - this.distance(normalized, this.vectors[node]) });
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+
+  /**
+   * Builds a fresh graph from the live entries, dropping deleted nodes.
+   */
+  compact(): HnswIndex {
+    const fresh = new HnswIndex({
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+    });
+    for (const [id, node] of this.byId) fresh.add(id, this.vectors[node]);
+    return fresh;
+  }
+
+  serialize(): SerializedHnsw {
+    return {
+      version: FORMAT_VERSION,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      ids: this.ids,
+      levels: this.levels,
+      links: this.links,
+      deleted: [...this.deleted],
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+    };
+  }
+
+  /**
+   * Restores a serialized graph. Returns null when the data does not match the vectors
+   * (a node without a vector, or an unknown format), in which case the caller rebuilds.
+   */
+  static deserialize(
+    data: SerializedHnsw,
+    vectors: Map<string, Float32Array>,
+    options: Pick<HnswOptions, 'efSearch' | 'seed'> = {},
+  ): HnswIndex | null {
+    if (data.version !== FORMAT_VERSION || data.ids.length !== data.links.length) return null;
+
+    const index = new HnswIndex({ ...options, m: data.m, efConstruction: data.efConstruction });
+    // Nothing left to route to; start over rather than keep a graph of deleted nodes
+    if (vectors.size === 0) return index;
+    index.dimensions = vectors.values().next().value?.length ?? 0;
+    const deleted = new Set(data.deleted);
+    for (let node = 0; node < data.ids.length; node++) {
+      const vector = vectors.get(data.ids[node]);
+      if (!vector) {
+        if (!deleted.has(node)) return null;
+        // Deleted nodes only route searches; any vector of the right size keeps them walkable
+        index.vectors.push(new Float32Array(index.dimensions));
+      } else {
+        if (vector.length !== index.dimensions) return null;
+        index.vectors.push(normalize(vector));
+      }
+      index.ids.push(data.ids[node]);
+      index.levels.push(data.levels[node]);
+      index.links.push(data.links[node]);
+      if (deleted.has(node)) index.deleted.add(node);
+      else index.byId.set(data.ids[node], node);
+    }
+    // Vectors added after the graph was saved are not part of it
+    if (index.byId.size !== vectors.size) return null;
+
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    return index;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    this.distanceEvaluations++;
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return 1 - dot;
+  }
+
+  private greedyClosest(query: Float32Array, start: number, level: number): number {
+    let current = start;
+    let best = this.distance(query, this.vectors[current]);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.links[current][level] || []) {
+        const d = this.distance(query, this.vectors[neighbour]);
+        if (d < best) {
+          best = d;
+          current = neighbour;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer. Returns up to `ef` accepted nodes, closest first.
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    level: number,
+    accept: (node: number) => boolean = () => true,
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new DistanceHeap();
+    const results = new DistanceHeap(true);
+
+    for (const node of entryPoints) {
+      const candidate = { node, distance: this.distance(query, this.vectors[node]) };
+      candidates.push(candidate);
+      if (accept(node)) results.push(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const worst = results.peek();
+      if (worst && results.size >= ef && closest.distance > worst.distance) break;
+
+      for (const neighbour of this.links[closest.node][level] || []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const distance = this.distance(query, this.vectors[neighbour]);
+        const worstResult = results.peek();
+        if (results.size < ef || !worstResult || distance < worstResult.distance) {
+          candidates.push({ node: neighbour, distance });
+          if (accept(neighbour)) {
+            results.push({ node: neighbour, distance });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefers candidates that are closer to the new node than to
+   * every neighbour already kept, which spreads links across clusters. Remaining slots are
+   * filled with the closest pruned candidates.
+   */
+  private selectNeighbours(candidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const diverse = selected.every(
+        (kept) =>
+          this.distance(this.vectors[candidate.node], this.vectors[kept.node]) > candidate.distance,
+      );
+      (diverse ? selected : pruned).push(candidate);
+    }
+    return [...selected, ...pruned.slice(0, max - selected.length)];
+  }
+
+  /**
+   * Adds a back link and prunes the neighbour's list when it grows past the layer limit.
+   */
+  private connect(from: number, to: number, level: number): void {
+    const links = this.links[from][level];
+    links.push(to);
+    const max = level === 0 ? this.m0 : this.m;
+    if (links.length <= max) return;
+
+    const origin = this.vectors[from];
+    const candidates = links
+      .map((node) => ({ node, distance: this.distance(origin, this.vectors[node]) }))
+      .sort((a, b) => a.distance - b.distance);
+    this.links[from][level] = this.selectNeighbours(candidates, max).map((c) => c.node);
+  }
+}
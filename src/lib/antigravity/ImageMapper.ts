@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GeminiInternalRequest, GeminiPart, GeminiResponse, ImageConfig } from './types';
+import { parseDataUri } from './image-utils';
+
+/**
+ * OpenAI Images API -> Gemini image generation mapping.
+ * Image requests bypass the Claude layer: they are plain prompt (+ reference images)
+ * requests against gemini-3-pro-image with an explicit ImageConfig.
+ */
+
+export const IMAGE_MODEL = 'gemini-3-pro-image';
+
+/** Aspect ratios supported by gemini-3-pro-image */
+const SUPPORTED_RATIOS: { label: string; value: number }[] = [
+  { label: '1:1', value: 1 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+];
+
+const HD_QUALITIES = ['hd', 'high'];
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Maps OpenAI `size` (e.g. 1792x1024) and `quality` onto an ImageConfig.
+ * Sizes snap to the closest supported aspect ratio; `hd`/`high` quality requests 4K output.
+ */
+export function mapImageConfig(size?: string, quality?: string): ImageConfig {
+  const config: ImageConfig = { aspectRatio: '1:1' };
+
+  const match = /^(\d+)x(\d+)$/.exec(size || '');
+  if (match) {
+    const ratio = Number(match[1]) / Number(match[2]);
+    if (ratio > 0 && Number.isFinite(ratio)) {
+      // Compare on a log scale so 2:1 and 1:2 are equally far from 1:1
+      const closest = SUPPORTED_RATIOS.reduce((best, candidate) =>
+        Math.abs(Math.log(candidate.value / ratio)) < Math.abs(Math.log(best.value / ratio))
+          ? candidate
+          : best,
+      );
+      config.aspectRatio = closest.label;
+    }
+  }
+
+  if (quality && HD_QUALITIES.includes(quality.toLowerCase())) {
+    config.imageSize = '4K';
+  }
+
+  return config;
+}
+
+/**
+ * Builds the v1internal request for one image.
+ * @param referenceImages Data URIs used as edit sources
+ */
+export function transformImageRequestIn(
+  prompt: string,
+  imageConfig: ImageConfig,
+  projectId: string,
+  referenceImages: string[] = [],
+): GeminiInternalRequest {
+  const parts: GeminiPart[] = referenceImages.map((uri) => {
+    const image = parseDataUri(uri);
+    return { inlineData: { mimeType: image.media_type, data: image.data } };
+  });
+  parts.push({ text: prompt });
+
+  return {
+    project: projectId,
+    requestId: `agent-${uuidv4()}`,
+    request: {
+      contents: [{ role: 'user', parts }],
+      generationConfig: { imageConfig },
+    },
+    model: IMAGE_MODEL,
+    userAgent: 'antigravity',
+    requestType: 'image_gen',
+  };
+}
+
+/**
+ * Extracts generated images and any accompanying text from a Gemini response.
+ */
+export function extractGeneratedImages(response: GeminiResponse): {
+  images: GeneratedImage[];
+  text: string;
+} {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const images: GeneratedImage[] = [];
+  let text = '';
+
+  for (const part of parts) {
+    if (part.inlineData?.data) {
+      images.push({ mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+    } else if (part.text && !part.thought) {
+      text += part.text;
+    }
+  }
+
+  return { images, text: text.trim() };
+}
@@ -0,0 +1,316 @@
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaModelTag,
+  OllamaOptions,
+  OllamaToolCall,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIContentPart,
+  OpenAIMessage,
+  OpenAIToolCall,
+} from '../../server/modules/proxy/interfaces/request-interfaces';
+
+/**
+ * Ollama API <-> OpenAI Chat Completions mapping.
+ * `/api/chat` and `/api/generate` requests are lowered to OpenAI chat requests so they take the
+ * same path as `/v1/chat/completions` (local providers, cloud pool, fallback, cache); responses
+ * and SSE chunks are lifted back into Ollama objects and NDJSON lines.
+ */
+
+export type OllamaEndpoint = 'chat' | 'generate';
+
+/** Magic-number prefixes of base64 payloads; Ollama images carry no MIME type */
+const BASE64_IMAGE_SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+// --- Request (Ollama -> OpenAI) ---
+
+export function transformOllamaChatIn(request: OllamaChatRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  // Ollama tool results carry no call id; answer the open calls of the last assistant turn in order
+  let pendingCalls: { id: string; name: string }[] = [];
+
+  (request.messages || []).forEach((msg, turn) => {
+    if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+      const toolCalls: OpenAIToolCall[] = msg.tool_calls.map((call, i) => ({
+        id: `call_${turn}_${i}`,
+        type: 'function',
+        function: {
+          name: call.function.name,
+          arguments: JSON.stringify(call.function.arguments || {}),
+        },
+      }));
+      pendingCalls = toolCalls.map((call) => ({ id: call.id, name: call.function.name }));
+      messages.push({ role: 'assistant', content: msg.content || null, tool_calls: toolCalls });
+      return;
+    }
+
+    if (msg.role === 'tool') {
+      const index = msg.tool_name ? pendingCalls.findIndex((c) => c.name === msg.tool_name) : 0;
+      const [call] = pendingCalls.splice(Math.max(index, 0), 1);
+      messages.push({ role: 'tool', tool_call_id: call?.id || '', content: msg.content });
+      return;
+    }
+
+    messages.push({ role: msg.role, content: withImages(msg.content, msg.images) });
+  });
+
+  return {
+    model: request.model,
+    messages,
+    stream: request.stream !== false,
+    ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+    ...mapOptions(request.options),
+  };
+}
+
+export function transformOllamaGenerateIn(request: OllamaGenerateRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  if (request.system) messages.push({ role: 'system', content: request.system });
+  messages.push({ role: 'user', content: withImages(request.prompt || '', request.images) });
+
+  return {
+    model: request.model,
+    messages,
+    stream: request.stream !== false,
+    ...mapOptions(request.options),
+  };
+}
+
+function mapOptions(options?: OllamaOptions): Partial<OpenAIChatRequest> {
+  if (!options) return {};
+  const mapped: Partial<OpenAIChatRequest> = {};
+  if (typeof options.temperature === 'number') mapped.temperature = options.temperature;
+  if (typeof options.top_p === 'number') mapped.top_p = options.top_p;
+  // -1 and -2 mean "until done" / "fill the context" in Ollama
+  if (typeof options.num_predict === 'number' && options.num_predict > 0) {
+    mapped.max_tokens = options.num_predict;
+  }
+  return mapped;
+}
+
+function withImages(text: string, images?: string[]): OpenAIMessage['content'] {
+  if (!images || images.length === 0) return text;
+  const parts: OpenAIContentPart[] = images.map((data) => ({
+    type: 'image_url',
+    image_url: { url: `data:${sniffImageType(data)};base64,${data}` },
+  }));
+  if (text) parts.unshift({ type: 'text', text });
+  return parts;
+}
+
+function sniffImageType(base64: string): string {
+  const match = BASE64_IMAGE_SIGNATURES.find(([prefix]) => base64.startsWith(prefix));
+  return match ? match[1] : 'image/png';
+}
+
+// --- Response (OpenAI -> Ollama) ---
+
+/**
+ * Converts a completed OpenAI chat response into the single `done: true` Ollama object.
+ * @param startedAt Epoch milliseconds when the request arrived, for `total_duration`
+ */
+export function transformOpenAIResponseToOllama(
+  response: OpenAIChatResponse,
+  model: string,
+  endpoint: OllamaEndpoint,
+  startedAt: number,
+): OllamaChatResponse | OllamaGenerateResponse {
+  const choice = response.choices?.[0];
+  const content = choice?.message?.content || '';
+  const stats = {
+    model,
+    created_at: new Date().toISOString(),
+    done: true,
+    done_reason: mapFinishReason(choice?.finish_reason),
+    total_duration: toNanoseconds(Date.now() - startedAt),
+    prompt_eval_count: response.usage?.prompt_tokens || 0,
+    eval_count: response.usage?.completion_tokens || 0,
+  };
+
+  if (endpoint === 'generate') return { ...stats, response: content };
+
+  const toolCalls = (choice?.message?.tool_calls || []).map(toOllamaToolCall);
+  return {
+    ...stats,
+    message: {
+      role: 'assistant',
+      content,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    },
+  };
+}
+
+function toOllamaToolCall(call: Pick<OpenAIToolCall, 'function'>): OllamaToolCall {
+  let args: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(call.function.arguments || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) args = parsed;
+  } catch {
+    // Partial or invalid JSON from the model; Ollama clients expect an object
+  }
+  return { function: { name: call.function.name, arguments: args } };
+}
+
+function mapFinishReason(reason: string | null | undefined): string {
+  if (reason === 'length') return 'length';
+  return 'stop';
+}
+
+function toNanoseconds(ms: number): number {
+  return Math.max(0, Math.round(ms * 1e6));
+}
+
+/**
+ * Lists a gateway model the way `/api/tags` does. Cloud models have no local size or digest.
+ */
+export function toOllamaModelTag(id: string, ownedBy: string, createdAt?: number): OllamaModelTag {
+  return {
+    name: id,
+    model: id,
+    modified_at: new Date((createdAt || 0) * 1000).toISOString(),
+    size: 0,
+    digest: '',
+    details: {
+      format: ownedBy.startsWith('local-') ? 'gguf' : 'cloud',
+      family: ownedBy,
+      families: null,
+      parameter_size: '',
+      quantization_level: '',
+    },
+  };
+}
+
+// --- Streaming (OpenAI SSE chunks -> Ollama NDJSON) ---
+
+interface OpenAIChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index?: number; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Streaming state for Ollama NDJSON output.
+ * Consumes the OpenAI `chat.completion.chunk` SSE strings produced by `OpenAIStreamingState`
+ * (or a local provider) and emits one JSON object per line. Tool call fragments are collected
+ * and sent whole, since Ollama clients expect complete arguments.
+ */
+export class OllamaStreamingState {
+  private readonly toolCalls: { name: string; arguments: string }[] = [];
+  private finishReason: string | null = null;
+  private usage: OpenAIChunk['usage'];
+  private finished = false;
+
+  constructor(
+    private readonly model: string,
+    private readonly endpoint: OllamaEndpoint,
+    private readonly startedAt: number,
+  ) {}
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Processes one SSE string and returns the NDJSON lines to emit.
+   */
+  public process(sseChunk: string): string[] {
+    if (this.finished) return [];
+    const lines: string[] = [];
+
+    for (const line of sseChunk.split('\n')) {
+      if (!line.startsWith('data: ')) continue;
+      const data = line.slice(6).trim();
+      if (data === '[DONE]') return [...lines, ...this.finish()];
+
+      let chunk: OpenAIChunk & { type?: string };
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      if (chunk.type === 'error' || chunk.error) {
+        return [...lines, ...this.fail(chunk.error?.message || 'Upstream stream error')];
+      }
+      if (chunk.usage) this.usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.delta?.content) lines.push(this.emit(choice.delta.content, false));
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const index = fragment.index ?? this.toolCalls.length;
+        const call = (this.toolCalls[index] ??= { name: '', arguments: '' });
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      }
+      if (choice.finish_reason) this.finishReason = choice.finish_reason;
+    }
+    return lines;
+  }
+
+  /**
+   * Emits pending tool calls and the final `done: true` line.
+   */
+  public finish(): string[] {
+    if (this.finished) return [];
+    this.finished = true;
+    const lines: string[] = [];
+
+    const toolCalls = this.toolCalls
+      .filter(Boolean)
+      .map((call) => toOllamaToolCall({ function: call }));
+    if (toolCalls.length > 0 && this.endpoint === 'chat') {
+      lines.push(
+        this.line({
+          message: { role: 'assistant', content: '', tool_calls: toolCalls },
+          done: false,
+        }),
+      );
+    }
+
+    lines.push(
+      this.emit('', true, {
+        done_reason: mapFinishReason(this.finishReason),
+        total_duration: toNanoseconds(Date.now() - this.startedAt),
+        prompt_eval_count: this.usage?.prompt_tokens || 0,
+        eval_count: this.usage?.completion_tokens || 0,
+      }),
+    );
+    return lines;
+  }
+
+  /**
+   * Ollama reports mid-stream failures as a final `{"error": ...}` line.
+   */
+  public fail(message: string): string[] {
+    if (this.finished) return [];
+    this.finished = true;
+    return [`${JSON.stringify({ error: message })}\n`];
+  }
+
+  private emit(text: string, done: boolean, stats: Record<string, unknown> = {}): string {
+    const body =
+      this.endpoint === 'chat'
+        ? { message: { role: 'assistant', content: text } }
+        : { response: text };
+    return this.line({ ...body, done, ...stats });
+  }
+
+  private line(fields: Record<string, unknown>): string {
+    return `${JSON.stringify({ model: this.model, created_at: new Date().toISOString(), ...fields })}\n`;
+  }
+}
@@ -0,0 +1,430 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClaudeRequest,
+  ClaudeResponse,
+  ContentBlock,
+  Message,
+  Tool,
+  ToolChoice,
+  ToolUseBlock,
+  GeminiPart,
+  GeminiResponse,
+} from './types';
+import { SignatureStore } from './SignatureStore';
+import { unwrapGeminiResponse } from './GeminiRequestMapper';
+import { decodeSignature } from './signature-utils';
+import { parseDataUri, resolveImageUrl } from './image-utils';
+import type { Dispatcher } from 'undici';
+import type {
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIMessage,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIToolChoice,
+} from '../../server/modules/proxy/interfaces/request-interfaces';
+
+/**
+ * OpenAI Chat Completions <-> Claude protocol mapping.
+ * OpenAI requests are lifted into the Claude shape so they can reuse the
+ * Claude -> Gemini pipeline (tools, signatures, schema cleaning).
+ */
+
+// --- Request (OpenAI -> Claude) ---
+
+export function transformOpenAIRequestIn(request: OpenAIChatRequest): ClaudeRequest {
+  const systemParts: string[] = [];
+  const messages: Message[] = [];
+
+  for (const msg of request.messages || []) {
+    if (msg.role === 'system' || msg.role === 'developer') {
+      const text = extractText(msg.content);
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      const result: ContentBlock = {
+        type: 'tool_result',
+        tool_use_id: msg.tool_call_id || '',
+        content: extractText(msg.content),
+      };
+      // Consecutive tool messages answer the same assistant turn -> single user message
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === 'user' && isToolResultMessage(previous)) {
+        (previous.content as ContentBlock[]).push(result);
+      } else {
+        messages.push({ role: 'user', content: [result] });
+      }
+      continue;
+    }
+
+    if (msg.role === 'assistant') {
+      messages.push(mapAssistantMessage(msg));
+      continue;
+    }
+
+    messages.push({ role: 'user', content: mapUserContent(msg.content) });
+  }
+
+  const claudeRequest: ClaudeRequest = {
+    model: request.model,
+    messages,
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    max_tokens: request.max_tokens || 4096,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream,
+  };
+
+  if (request.tools && request.tools.length > 0) {
+    claudeRequest.tools = request.tools.map(mapTool);
+    claudeRequest.tool_choice = mapToolChoice(request.tool_choice);
+  }
+
+  return claudeRequest;
+}
+
+/**
+ * Maps user content parts to Claude blocks.
+ * Images must already be data URIs (see resolveOpenAIImages).
+ */
+function mapUserContent(content: OpenAIMessage['content']): string | ContentBlock[] {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  const blocks: ContentBlock[] = [];
+  for (const part of content) {
+    if (part.type === 'text' && part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part.type === 'image_url' && part.image_url?.url) {
+      const image = parseDataUri(part.image_url.url);
+      blocks.push({
+        type: 'image',
+        source: { type: 'base64', media_type: image.media_type, data: image.data },
+      });
+    }
+  }
+  return blocks;
+}
+
+function mapAssistantMessage(msg: OpenAIMessage): Message {
+  const text = extractText(msg.content);
+  if (!msg.tool_calls || msg.tool_calls.length === 0) {
+    return { role: 'assistant', content: text };
+  }
+
+  const blocks: ContentBlock[] = [];
+  if (text) blocks.push({ type: 'text', text });
+  for (const call of msg.tool_calls) {
+    blocks.push({
+      type: 'tool_use',
+      id: call.id,
+      name: call.function.name,
+      input: parseArguments(call.function.arguments),
+    });
+  }
+  return { role: 'assistant', content: blocks };
+}
+
+function mapTool(tool: OpenAITool): Tool {
+  return {
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters || { type: 'object', properties: {} },
+  };
+}
+
+function mapToolChoice(choice?: OpenAIToolChoice): ToolChoice | undefined {
+  if (!choice) return undefined;
+  if (choice === 'none') return { type: 'none' };
+  if (choice === 'auto') return { type: 'auto' };
+  if (choice === 'required') return { type: 'any' };
+  return { type: 'tool', name: choice.function.name };
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function extractText(content: OpenAIMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function isToolResultMessage(msg: Message): boolean {
+  return (
+    Array.isArray(msg.content) &&
+    msg.content.length > 0 &&
+    msg.content.every((block) => block.type === 'tool_result')
+  );
+}
+
+/**
+ * Returns true when any message carries an image part.
+ */
+export function hasImageContent(request: OpenAIChatRequest): boolean {
+  return (request.messages || []).some(
+    (m) => Array.isArray(m.content) && m.content.some((part) => part.type === 'image_url'),
+  );
+}
+
+/**
+ * Downloads remote `image_url` parts and validates data URIs, returning a request
+ * whose images are all inline data URIs. Throws ImageInputError on invalid input.
+ */
+export async function resolveOpenAIImages(
+  request: OpenAIChatRequest,
+  dispatcher?: Dispatcher,
+): Promise<OpenAIChatRequest> {
+  if (!hasImageContent(request)) return request;
+
+  const messages = await Promise.all(
+    request.messages.map(async (msg) => {
+      if (!Array.isArray(msg.content)) return msg;
+      const content = await Promise.all(
+        msg.content.map(async (part) => {
+          if (part.type !== 'image_url' || !part.image_url?.url) return part;
+          const url = await resolveImageUrl(part.image_url.url, dispatcher);
+          return { ...part, image_url: { ...part.image_url, url } };
+        }),
+      );
+      return { ...msg, content };
+    }),
+  );
+
+  return { ...request, messages };
+}
+
+// --- Response (Claude -> OpenAI) ---
+
+export function transformClaudeResponseOut(
+  claudeResponse: ClaudeResponse,
+  model: string,
+): OpenAIChatResponse {
+  const blocks = claudeResponse.content || [];
+  const text = blocks
+    .filter((block) => block.type === 'text')
+    .map((block) => (block as { text: string }).text)
+    .join('');
+
+  const toolCalls: OpenAIToolCall[] = blocks
+    .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+    .map((block) => ({
+      id: block.id,
+      type: 'function',
+      function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+    }));
+
+  const message: OpenAIChatResponse['choices'][number]['message'] = {
+    role: 'assistant',
+    content: text || (toolCalls.length > 0 ? null : ''),
+  };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+  const inputTokens = claudeResponse.usage?.input_tokens || 0;
+  const outputTokens = claudeResponse.usage?.output_tokens || 0;
+
+  return {
+    id: `chatcmpl-${uuidv4()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: mapStopReason(claudeResponse.stop_reason, toolCalls.length > 0),
+      },
+    ],
+    usage: {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+function mapStopReason(stopReason: string | undefined, hasToolCalls: boolean): string {
+  if (hasToolCalls || stopReason === 'tool_use') return 'tool_calls';
+  if (stopReason === 'max_tokens') return 'length';
+  return 'stop';
+}
+
+// --- Streaming (Gemini / OpenAI-compatible SSE -> OpenAI chunks) ---
+
+/**
+ * A single upstream `data:` payload, either Gemini or OpenAI-compatible.
+ * v1internal streams wrap the Gemini response in `response`.
+ */
+export interface OpenAIStreamPayload extends GeminiResponse {
+  response?: GeminiResponse;
+  choices?: {
+    delta?: { content?: string | null; tool_calls?: unknown[] };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Streaming state for OpenAI chat.completion.chunk output.
+ * Accepts either Gemini internal stream payloads or OpenAI-compatible chunks
+ * (local providers) and emits SSE lines.
+ */
+export class OpenAIStreamingState {
+  private readonly streamId = `chatcmpl-${uuidv4()}`;
+  private readonly created = Math.floor(Date.now() / 1000);
+  private roleSent = false;
+  private toolCallIndex = 0;
+  private finished = false;
+  private usage: OpenAIUsage | undefined;
+
+  constructor(
+    private readonly model: string,
+    private readonly conversationKey?: string,
+  ) {}
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Processes one parsed `data:` payload and returns the SSE lines to emit.
+   */
+  public process(payload: OpenAIStreamPayload): string[] {
+    if (this.finished) return [];
+    const json: OpenAIStreamPayload = unwrapGeminiResponse(payload);
+    const chunks: string[] = [];
+    this.captureUsage(json);
+
+    const candidate = json.candidates?.[0];
+    if (candidate) {
+      for (const part of candidate.content?.parts || []) {
+        chunks.push(...this.processGeminiPart(part));
+      }
+      if (candidate.finishReason) {
+        chunks.push(...this.emitFinish(this.mapGeminiFinishReason(candidate.finishReason)));
+      }
+      return chunks;
+    }
+
+    // OpenAI-compatible upstream (local providers)
+    const choice = json.choices?.[0];
+    if (choice) {
+      const delta = choice.delta || {};
+      if (delta.content) chunks.push(this.emitDelta({ content: delta.content }));
+      if (Array.isArray(delta.tool_calls) && delta.tool_calls.length > 0) {
+        chunks.push(this.emitDelta({ tool_calls: delta.tool_calls }));
+        this.toolCallIndex = Math.max(this.toolCallIndex, delta.tool_calls.length);
+      }
+      if (choice.finish_reason) chunks.push(...this.emitFinish(choice.finish_reason));
+    }
+    return chunks;
+  }
+
+  /**
+   * Emits the final chunk and [DONE] marker if the upstream ended without a finish reason.
+   */
+  public finish(): string[] {
+    if (this.finished) return [];
+    return this.emitFinish(this.toolCallIndex > 0 ? 'tool_calls' : 'stop');
+  }
+
+  private captureUsage(json: OpenAIStreamPayload) {
+    if (json.usage) {
+      this.usage = json.usage;
+    } else if (json.usageMetadata) {
+      const prompt = json.usageMetadata.promptTokenCount || 0;
+      const completion = json.usageMetadata.candidatesTokenCount || 0;
+      this.usage = {
+        prompt_tokens: prompt,
+        completion_tokens: completion,
+        total_tokens: json.usageMetadata.totalTokenCount || prompt + completion,
+      };
+    }
+  }
+
+  private processGeminiPart(part: GeminiPart): string[] {
+    // Thought parts are internal reasoning; OpenAI clients do not expect them in content
+    if (part.thought) return [];
+
+    if (part.functionCall) {
+      const fc = part.functionCall;
+      const id = fc.id || `call_${uuidv4().replace(/-/g, '').slice(0, 24)}`;
+      const signature = decodeSignature(part.thoughtSignature);
+      if (signature) {
+        SignatureStore.store(signature, { conversation: this.conversationKey, toolUseId: id });
+      }
+
+      const toolCall = {
+        index: this.toolCallIndex++,
+        id,
+        type: 'function',
+        function: { name: fc.name, arguments: JSON.stringify(fc.args || {}) },
+      };
+      return [this.emitDelta({ tool_calls: [toolCall] })];
+    }
+
+    if (part.text) return [this.emitDelta({ content: part.text })];
+    return [];
+  }
+
+  private mapGeminiFinishReason(reason: string): string {
+    if (this.toolCallIndex > 0) return 'tool_calls';
+    if (reason === 'MAX_TOKENS') return 'length';
+    if (reason === 'SAFETY' || reason === 'RECITATION') return 'content_filter';
+    return 'stop';
+  }
+
+  private emitDelta(delta: Record<string, unknown>): string {
+    if (!this.roleSent) {
+      this.roleSent = true;
+      delta = { role: 'assistant', ...delta };
+    }
+    return this.emitChunk(delta, null);
+  }
+
+  private emitFinish(finishReason: string): string[] {
+    const chunks: string[] = [];
+    if (!this.roleSent) {
+      chunks.push(this.emitDelta({ content: '' }));
+    }
+    chunks.push(this.emitChunk({}, finishReason.toLowerCase(), this.usage));
+    chunks.push('data: [DONE]\n\n');
+    this.finished = true;
+    return chunks;
+  }
+
+  private emitChunk(
+    delta: Record<string, unknown>,
+    finishReason: string | null,
+    usage?: OpenAIUsage,
+  ): string {
+    const chunk = {
+      id: this.streamId,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      // Reported on the final chunk so clients and per-key accounting see streamed usage
+      ...(usage ? { usage } : {}),
+    };
+    return `data: ${JSON.stringify(chunk)}\n\n`;
+  }
+}
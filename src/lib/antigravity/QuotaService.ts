@@ -1,5 +1,6 @@
 import axios, { AxiosError, AxiosInstance } from 'axios';
 import { QuotaData, Tier, LoadProjectResponse, QuotaApiResponse } from './types';
+import { OutboundHttp } from '../../services/OutboundHttp';
 
 // Constants
 const QUOTA_API_URL = 'https://cloudcode-pa.googleapis.com/v1internal:fetchAvailableModels';
@@ -9,7 +10,7 @@ const USER_AGENT = 'antigravity/1.11.3 Darwin/arm64'; // Keeping the same UA as
 // Service Class
 export class QuotaService {
   private static createClient(timeoutSecs: number = 15): AxiosInstance {
-    return axios.create({
+    return OutboundHttp.client(undefined, {
       timeout: timeoutSecs * 1000,
       headers: {
         'User-Agent': USER_AGENT,
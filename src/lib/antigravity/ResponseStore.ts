@@ -0,0 +1,68 @@
+import { Message } from './types';
+
+/**
+ * Local storage for OpenAI Responses API conversations.
+ * Keeps the full Claude-format history per response id so `previous_response_id`
+ * can be resolved without the client resending earlier turns.
+ */
+
+export interface StoredResponse {
+  /** Full conversation up to and including the assistant output of this response */
+  messages: Message[];
+  createdAt: number;
+}
+
+const MAX_ENTRIES = 500;
+const TTL_MS = 6 * 60 * 60 * 1000;
+
+class ResponseStoreImpl {
+  private static instance: ResponseStoreImpl;
+  private entries: Map<string, StoredResponse> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ResponseStoreImpl {
+    if (!ResponseStoreImpl.instance) {
+      ResponseStoreImpl.instance = new ResponseStoreImpl();
+    }
+    return ResponseStoreImpl.instance;
+  }
+
+  /**
+   * Store a conversation, evicting the oldest entry when full.
+   */
+  public save(id: string, messages: Message[]) {
+    this.entries.delete(id);
+    this.entries.set(id, { messages, createdAt: Date.now() });
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Get a stored conversation. Expired entries are dropped and reported as missing.
+   */
+  public get(id: string): StoredResponse | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > TTL_MS) {
+      this.entries.delete(id);
+      return null;
+    }
+    return entry;
+  }
+
+  public delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+}
+
+export const ResponseStore = ResponseStoreImpl.getInstance();
@@ -0,0 +1,604 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClaudeRequest, ClaudeResponse, ContentBlock, Message, Tool, ToolChoice } from './types';
+import type {
+  OpenAIResponse,
+  OpenAIResponseContentPart,
+  OpenAIResponseInputItem,
+  OpenAIResponseOutputItem,
+  OpenAIResponseOutputMessage,
+  OpenAIResponsesRequest,
+  OpenAIResponseTool,
+} from '../../server/modules/proxy/interfaces/request-interfaces';
+
+/**
+ * OpenAI Responses API <-> Claude protocol mapping.
+ * Responses requests are lifted into the Claude shape and reuse the Claude -> Gemini
+ * pipeline; the streaming side converts Claude SSE events into typed Responses events.
+ */
+
+const REASONING_BUDGETS: Record<string, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+const WEB_SEARCH_TOOL_TYPES = ['web_search', 'web_search_preview'];
+
+export function generateResponseId(): string {
+  return `resp_${uuidv4().replace(/-/g, '')}`;
+}
+
+function generateItemId(prefix: string): string {
+  return `${prefix}_${uuidv4().replace(/-/g, '')}`;
+}
+
+// --- Request (Responses -> Claude) ---
+
+/**
+ * Builds a Claude request from a Responses request.
+ * @param history Stored conversation resolved from `previous_response_id`
+ */
+export function transformResponsesRequestIn(
+  request: OpenAIResponsesRequest,
+  history: Message[] = [],
+): ClaudeRequest {
+  const systemParts: string[] = [];
+  if (request.instructions) systemParts.push(request.instructions);
+
+  const messages: Message[] = history.map((m) => ({
+    role: m.role,
+    content: Array.isArray(m.content) ? [...m.content] : m.content,
+  }));
+
+  const items: OpenAIResponseInputItem[] =
+    typeof request.input === 'string'
+      ? [{ type: 'message', role: 'user', content: request.input }]
+      : request.input || [];
+
+  for (const item of items) {
+    switch (item.type) {
+      case 'function_call':
+        appendBlock(messages, 'assistant', {
+          type: 'tool_use',
+          id: item.call_id,
+          name: item.name,
+          input: parseArguments(item.arguments),
+        });
+        break;
+      case 'function_call_output':
+        appendBlock(messages, 'user', {
+          type: 'tool_result',
+          tool_use_id: item.call_id,
+          content: item.output,
+        });
+        break;
+      case 'reasoning':
+        // Only signed reasoning can be replayed upstream
+        if (item.encrypted_content) {
+          appendBlock(messages, 'assistant', {
+            type: 'thinking',
+            thinking: item.summary.map((s) => s.text).join('\n'),
+            signature: item.encrypted_content,
+          });
+        }
+        break;
+      default: {
+        const text = extractText(item.content);
+        if (item.role === 'system' || item.role === 'developer') {
+          if (text) systemParts.push(text);
+        } else if (text) {
+          appendBlock(messages, item.role === 'assistant' ? 'assistant' : 'user', {
+            type: 'text',
+            text,
+          });
+        }
+      }
+    }
+  }
+
+  const claudeRequest: ClaudeRequest = {
+    model: request.model,
+    messages,
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    max_tokens: request.max_output_tokens || 4096,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream,
+  };
+
+  const tools = (request.tools || []).map(mapTool).filter((t): t is Tool => t !== null);
+  if (tools.length > 0) {
+    claudeRequest.tools = tools;
+    claudeRequest.tool_choice = mapToolChoice(request.tool_choice);
+  }
+
+  const effort = request.reasoning?.effort;
+  if (effort && REASONING_BUDGETS[effort]) {
+    claudeRequest.thinking = { type: 'enabled', budget_tokens: REASONING_BUDGETS[effort] };
+  }
+
+  return claudeRequest;
+}
+
+/**
+ * Appends a block to the last message when roles match, otherwise starts a new message.
+ */
+function appendBlock(messages: Message[], role: 'user' | 'assistant', block: ContentBlock) {
+  const last = messages[messages.length - 1];
+  if (last && last.role === role) {
+    if (typeof last.content === 'string') {
+      last.content = last.content ? [{ type: 'text', text: last.content }] : [];
+    }
+    last.content.push(block);
+    return;
+  }
+  messages.push({ role, content: [block] });
+}
+
+function mapTool(tool: OpenAIResponseTool): Tool | null {
+  if (WEB_SEARCH_TOOL_TYPES.includes(tool.type)) {
+    return { name: 'web_search', type: 'web_search_20250305' };
+  }
+  if (tool.type !== 'function' || !tool.name) return null;
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters || { type: 'object', properties: {} },
+  };
+}
+
+function mapToolChoice(choice: OpenAIResponsesRequest['tool_choice']): ToolChoice | undefined {
+  if (!choice) return undefined;
+  if (choice === 'none') return { type: 'none' };
+  if (choice === 'auto') return { type: 'auto' };
+  if (choice === 'required') return { type: 'any' };
+  return { type: 'tool', name: choice.name };
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function extractText(content: string | OpenAIResponseContentPart[]): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((part) => (part.type === 'input_text' || part.type === 'output_text') && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+// --- Response (Claude -> Responses) ---
+
+/**
+ * Creates an empty response object carrying the request-level fields.
+ */
+export function createResponseEnvelope(
+  id: string,
+  request: OpenAIResponsesRequest,
+): OpenAIResponse {
+  return {
+    id,
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'in_progress',
+    model: request.model,
+    output: [],
+    previous_response_id: request.previous_response_id || null,
+    instructions: request.instructions || null,
+    incomplete_details: null,
+    usage: null,
+  };
+}
+
+export function transformClaudeResponseToResponses(
+  claudeResponse: ClaudeResponse,
+  envelope: OpenAIResponse,
+): OpenAIResponse {
+  const output: OpenAIResponseOutputItem[] = [];
+  let message: OpenAIResponseOutputMessage | null = null;
+
+  for (const block of claudeResponse.content || []) {
+    if (block.type === 'text') {
+      if (!message) {
+        message = createMessageItem();
+        output.push(message);
+      }
+      message.content[0].text += block.text;
+    } else if (block.type === 'thinking') {
+      if (!block.thinking && !block.signature) continue;
+      output.push({
+        type: 'reasoning',
+        id: generateItemId('rs'),
+        summary: block.thinking ? [{ type: 'summary_text', text: block.thinking }] : [],
+        encrypted_content: block.signature,
+      });
+    } else if (block.type === 'tool_use') {
+      message = null;
+      output.push({
+        type: 'function_call',
+        id: generateItemId('fc'),
+        call_id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input || {}),
+        status: 'completed',
+      });
+    }
+  }
+
+  return completeResponse(envelope, output, claudeResponse.stop_reason, claudeResponse.usage);
+}
+
+function createMessageItem(): OpenAIResponseOutputMessage {
+  return {
+    type: 'message',
+    id: generateItemId('msg'),
+    role: 'assistant',
+    status: 'completed',
+    content: [{ type: 'output_text', text: '', annotations: [] }],
+  };
+}
+
+function completeResponse(
+  envelope: OpenAIResponse,
+  output: OpenAIResponseOutputItem[],
+  stopReason: string | null | undefined,
+  usage: { input_tokens: number; output_tokens: number } | undefined,
+): OpenAIResponse {
+  const incomplete = stopReason === 'max_tokens';
+  const inputTokens = usage?.input_tokens || 0;
+  const outputTokens = usage?.output_tokens || 0;
+
+  return {
+    ...envelope,
+    status: incomplete ? 'incomplete' : 'completed',
+    incomplete_details: incomplete ? { reason: 'max_output_tokens' } : null,
+    output,
+    output_text: output
+      .filter((item): item is OpenAIResponseOutputMessage => item.type === 'message')
+      .map((item) => item.content[0].text)
+      .join(''),
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+// --- Streaming (Claude SSE -> Responses SSE) ---
+
+type OpenItem =
+  | { kind: 'message'; item: OpenAIResponseOutputMessage; outputIndex: number }
+  | {
+      kind: 'reasoning';
+      item: OpenAIResponseOutputItem & { type: 'reasoning' };
+      outputIndex: number;
+    }
+  | {
+      kind: 'function_call';
+      item: OpenAIResponseOutputItem & { type: 'function_call' };
+      outputIndex: number;
+    };
+
+/** Claude SSE event payload as produced by `StreamingState` */
+interface ClaudeStreamEvent {
+  type: string;
+  content_block?: ClaudeStreamBlock;
+  delta?: ClaudeStreamDelta;
+  usage?: { input_tokens: number; output_tokens: number };
+  error?: { message?: string };
+}
+
+interface ClaudeStreamBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  signature?: string;
+}
+
+interface ClaudeStreamDelta {
+  type?: string;
+  text?: string;
+  thinking?: string;
+  signature?: string;
+  partial_json?: string;
+  stop_reason?: string | null;
+}
+
+/**
+ * Streaming state for Responses API events.
+ * Consumes the Claude SSE events produced by `StreamingState` and emits typed
+ * `response.*` events, while collecting the Claude content blocks for ResponseStore.
+ */
+export class ResponsesStreamingState {
+  private sequence = 0;
+  private output: OpenAIResponseOutputItem[] = [];
+  private current: OpenItem | null = null;
+  private claudeBlocks: ContentBlock[] = [];
+  private currentBlock: ContentBlock | null = null;
+  private stopReason: string | null = null;
+  private usage: { input_tokens: number; output_tokens: number } | undefined;
+  private finished = false;
+
+  constructor(private readonly envelope: OpenAIResponse) {}
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Claude content blocks of the assistant turn, used to extend the stored conversation.
+   */
+  public getAssistantContent(): ContentBlock[] {
+    return this.claudeBlocks;
+  }
+
+  public start(): string[] {
+    return [
+      this.emit('response.created', { response: this.envelope }),
+      this.emit('response.in_progress', { response: this.envelope }),
+    ];
+  }
+
+  /**
+   * Processes one Claude SSE event string.
+   */
+  public process(claudeChunk: string): string[] {
+    if (this.finished) return [];
+    const dataLine = claudeChunk.split('\n').find((line) => line.startsWith('data: '));
+    if (!dataLine) return [];
+
+    let event: ClaudeStreamEvent;
+    try {
+      event = JSON.parse(dataLine.slice(6));
+    } catch {
+      return [];
+    }
+
+    switch (event.type) {
+      case 'content_block_start':
+        return this.startBlock(event.content_block);
+      case 'content_block_delta':
+        return event.delta ? this.applyDelta(event.delta) : [];
+      case 'content_block_stop':
+        return this.endBlock();
+      case 'message_delta':
+        this.stopReason = event.delta?.stop_reason || null;
+        this.usage = event.usage;
+        return [];
+      case 'message_stop':
+        return this.finish();
+      case 'error':
+        return this.fail(event.error?.message || 'Upstream stream error');
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Emits the terminal event; safe to call more than once.
+   */
+  public finish(): string[] {
+    if (this.finished) return [];
+    const chunks = this.endBlock();
+    const response = completeResponse(this.envelope, this.output, this.stopReason, this.usage);
+    const eventType =
+      response.status === 'incomplete' ? 'response.incomplete' : 'response.completed';
+    chunks.push(this.emit(eventType, { response }));
+    this.finished = true;
+    return chunks;
+  }
+
+  public fail(message: string): string[] {
+    if (this.finished) return [];
+    this.finished = true;
+    const response = {
+      ...this.envelope,
+      status: 'failed',
+      output: this.output,
+      error: { code: 'server_error', message },
+    };
+    return [this.emit('response.failed', { response })];
+  }
+
+  private startBlock(block?: ClaudeStreamBlock): string[] {
+    const chunks = this.endBlock();
+    const outputIndex = this.output.length;
+
+    if (block?.type === 'text') {
+      const item = { ...createMessageItem(), status: 'in_progress' as const };
+      item.content[0].text = block.text || '';
+      this.open(
+        { kind: 'message', item, outputIndex },
+        { type: 'text', text: item.content[0].text },
+      );
+      chunks.push(this.emit('response.output_item.added', { output_index: outputIndex, item }));
+      chunks.push(
+        this.emit('response.content_part.added', {
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part: { type: 'output_text', text: '', annotations: [] },
+        }),
+      );
+    } else if (block?.type === 'thinking') {
+      const item = {
+        type: 'reasoning' as const,
+        id: generateItemId('rs'),
+        summary: [] as { type: 'summary_text'; text: string }[],
+      };
+      this.open({ kind: 'reasoning', item, outputIndex }, { type: 'thinking', thinking: '' });
+      chunks.push(this.emit('response.output_item.added', { output_index: outputIndex, item }));
+    } else if (block?.type === 'tool_use') {
+      const callId = block.id || generateItemId('call');
+      const name = block.name || '';
+      const item = {
+        type: 'function_call' as const,
+        id: generateItemId('fc'),
+        call_id: callId,
+        name,
+        arguments: '',
+        status: 'in_progress' as const,
+      };
+      this.open(
+        { kind: 'function_call', item, outputIndex },
+        { type: 'tool_use', id: callId, name, input: {}, signature: block.signature },
+      );
+      chunks.push(this.emit('response.output_item.added', { output_index: outputIndex, item }));
+    }
+
+    return chunks;
+  }
+
+  private open(open: OpenItem, claudeBlock: ContentBlock) {
+    this.current = open;
+    this.output.push(open.item);
+    this.currentBlock = claudeBlock;
+    this.claudeBlocks.push(claudeBlock);
+  }
+
+  private applyDelta(delta: ClaudeStreamDelta): string[] {
+    const current = this.current;
+    const block = this.currentBlock;
+    if (!current || !block) return [];
+
+    if (delta.type === 'text_delta' && current.kind === 'message' && block.type === 'text') {
+      current.item.content[0].text += delta.text;
+      block.text += delta.text;
+      return [
+        this.emit('response.output_text.delta', {
+          item_id: current.item.id,
+          output_index: current.outputIndex,
+          content_index: 0,
+          delta: delta.text,
+        }),
+      ];
+    }
+
+    if (
+      delta.type === 'thinking_delta' &&
+      current.kind === 'reasoning' &&
+      block.type === 'thinking'
+    ) {
+      if (!delta.thinking) return [];
+      block.thinking += delta.thinking;
+      const chunks: string[] = [];
+      if (current.item.summary.length === 0) {
+        current.item.summary.push({ type: 'summary_text', text: '' });
+        chunks.push(
+          this.emit('response.reasoning_summary_part.added', {
+            item_id: current.item.id,
+            output_index: current.outputIndex,
+            summary_index: 0,
+            part: { type: 'summary_text', text: '' },
+          }),
+        );
+      }
+      current.item.summary[0].text += delta.thinking;
+      chunks.push(
+        this.emit('response.reasoning_summary_text.delta', {
+          item_id: current.item.id,
+          output_index: current.outputIndex,
+          summary_index: 0,
+          delta: delta.thinking,
+        }),
+      );
+      return chunks;
+    }
+
+    if (
+      delta.type === 'signature_delta' &&
+      current.kind === 'reasoning' &&
+      block.type === 'thinking'
+    ) {
+      current.item.encrypted_content = delta.signature;
+      block.signature = delta.signature;
+      return [];
+    }
+
+    if (delta.type === 'input_json_delta' && current.kind === 'function_call') {
+      current.item.arguments += delta.partial_json;
+      return [
+        this.emit('response.function_call_arguments.delta', {
+          item_id: current.item.id,
+          output_index: current.outputIndex,
+          delta: delta.partial_json,
+        }),
+      ];
+    }
+
+    return [];
+  }
+
+  private endBlock(): string[] {
+    const current = this.current;
+    if (!current) return [];
+    this.current = null;
+    const chunks: string[] = [];
+    const base = { item_id: current.item.id, output_index: current.outputIndex };
+
+    if (current.kind === 'message') {
+      const text = current.item.content[0].text;
+      current.item.status = 'completed';
+      chunks.push(this.emit('response.output_text.done', { ...base, content_index: 0, text }));
+      chunks.push(
+        this.emit('response.content_part.done', {
+          ...base,
+          content_index: 0,
+          part: current.item.content[0],
+        }),
+      );
+    } else if (current.kind === 'reasoning') {
+      const summary = current.item.summary[0];
+      if (summary) {
+        chunks.push(
+          this.emit('response.reasoning_summary_text.done', {
+            ...base,
+            summary_index: 0,
+            text: summary.text,
+          }),
+        );
+        chunks.push(
+          this.emit('response.reasoning_summary_part.done', {
+            ...base,
+            summary_index: 0,
+            part: summary,
+          }),
+        );
+      }
+    } else {
+      current.item.status = 'completed';
+      if (this.currentBlock?.type === 'tool_use') {
+        this.currentBlock.input = parseArguments(current.item.arguments);
+      }
+      chunks.push(
+        this.emit('response.function_call_arguments.done', {
+          ...base,
+          arguments: current.item.arguments,
+        }),
+      );
+    }
+
+    chunks.push(
+      this.emit('response.output_item.done', {
+        output_index: current.outputIndex,
+        item: current.item,
+      }),
+    );
+    this.currentBlock = null;
+    return chunks;
+  }
+
+  private emit(type: string, payload: Record<string, unknown>): string {
+    const data = { type, sequence_number: this.sequence++, ...payload };
+    return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+}
@@ -1,11 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+
 /**
- * Global thought_signature storage shared by all endpoints
+ * thought_signature storage shared by all endpoints.
  * Used to capture and replay signatures for Gemini 3+ function calls when clients don't pass them back.
+ * Signatures are kept per conversation and per tool_use id, so concurrent clients never
+ * receive each other's signatures.
  */
 
+export interface SignatureStoreOptions {
+  max_entries?: number;
+  ttl_seconds?: number;
+  /** JSON file to persist signatures across gateway restarts; null keeps them in memory only */
+  persist_path?: string | null;
+}
+
+export interface SignatureScope {
+  /** Conversation key, see deriveSessionKey */
+  conversation?: string;
+  toolUseId?: string;
+}
+
+interface SignatureEntry {
+  signature: string;
+  expiresAt: number; // ms timestamp
+}
+
+interface PersistedSignatures {
+  conversations: [string, SignatureEntry][];
+  toolUses: [string, SignatureEntry][];
+}
+
+const DEFAULT_MAX_ENTRIES = 2000;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const PERSIST_DELAY_MS = 1000;
+
 class SignatureStoreImpl {
   private static instance: SignatureStoreImpl;
-  private signature: string | null = null;
+  // Map insertion order doubles as LRU order: least recently used first
+  private conversations = new Map<string, SignatureEntry>();
+  private toolUses = new Map<string, SignatureEntry>();
+  private maxEntries = DEFAULT_MAX_ENTRIES;
+  private ttlMs = DEFAULT_TTL_SECONDS * 1000;
+  private persistPath: string | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -17,49 +55,139 @@ class SignatureStoreImpl {
   }
 
   /**
-   * Store thought_signature to global storage.
-   * Only stores if the new signature is longer than the existing one,
-   * to avoid short/partial signatures overwriting valid ones.
+   * Apply limits and persistence settings. Enabling persistence loads the signatures
+   * saved by a previous run.
    */
-  public store(sig: string) {
-    if (!sig) return;
+  public configure(options: SignatureStoreOptions) {
+    this.maxEntries = options.max_entries || DEFAULT_MAX_ENTRIES;
+    this.ttlMs = (options.ttl_seconds || DEFAULT_TTL_SECONDS) * 1000;
 
-    const existingLen = this.signature ? this.signature.length : 0;
-    const newLen = sig.length;
+    const persistPath = options.persist_path || null;
+    if (persistPath !== this.persistPath) {
+      this.flush();
+      this.persistPath = persistPath;
+      if (persistPath) this.load(persistPath);
+    }
+    this.evict(this.conversations);
+    this.evict(this.toolUses);
+  }
 
-    if (newLen > existingLen) {
-      console.log(
-        `[ThoughtSig] Storing new signature (length: ${newLen}, replacing old: ${existingLen})`,
-      );
-      this.signature = sig;
-    } else {
+  /**
+   * Store the thought_signature of a conversation and/or a tool_use block.
+   * The latest signature of a conversation wins: it belongs to the turn the client
+   * replies to next.
+   */
+  public store(sig: string, scope: SignatureScope) {
+    if (!sig) return;
+    const entry = { signature: sig, expiresAt: Date.now() + this.ttlMs };
+
+    if (scope.conversation) this.set(this.conversations, scope.conversation, entry);
+    if (scope.toolUseId) this.set(this.toolUses, scope.toolUseId, entry);
+    if (scope.conversation || scope.toolUseId) {
       console.debug(
-        `[ThoughtSig] Skipping shorter signature (new length: ${newLen}, existing: ${existingLen})`,
+        `[ThoughtSig] Stored signature (length: ${sig.length}) for ${scope.conversation || '-'} / ${scope.toolUseId || '-'}`,
       );
+      this.schedulePersist();
     }
   }
 
   /**
-   * Get the stored thought_signature without clearing it.
+   * Get the latest thought_signature of a conversation.
    */
-  public get(): string | null {
-    return this.signature;
+  public get(conversation?: string): string | null {
+    return conversation ? this.read(this.conversations, conversation) : null;
   }
 
   /**
-   * Get and clear the stored thought_signature.
+   * Get the thought_signature upstream attached to a function call.
    */
-  public take(): string | null {
-    const sig = this.signature;
-    this.signature = null;
-    return sig;
+  public getForToolUse(toolUseId?: string): string | null {
+    return toolUseId ? this.read(this.toolUses, toolUseId) : null;
+  }
+
+  public get size(): { conversations: number; toolUses: number } {
+    return { conversations: this.conversations.size, toolUses: this.toolUses.size };
   }
 
   /**
-   * Clear the stored thought_signature.
+   * Clear all stored thought_signatures.
    */
   public clear() {
-    this.signature = null;
+    this.conversations.clear();
+    this.toolUses.clear();
+    this.schedulePersist();
+  }
+
+  /**
+   * Write pending changes to disk right away (e.g. before the gateway stops).
+   */
+  public flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.persistPath) return;
+
+    const now = Date.now();
+    const live = (map: Map<string, SignatureEntry>) =>
+      [...map.entries()].filter(([, entry]) => entry.expiresAt > now);
+    const data: PersistedSignatures = {
+      conversations: live(this.conversations),
+      toolUses: live(this.toolUses),
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.persistPath), { recursive: true });
+      fs.writeFileSync(this.persistPath, JSON.stringify(data));
+    } catch (e) {
+      console.warn('[ThoughtSig] Failed to persist signatures', e);
+    }
+  }
+
+  private read(map: Map<string, SignatureEntry>, key: string): string | null {
+    const entry = map.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      map.delete(key);
+      return null;
+    }
+    // Refresh LRU position
+    map.delete(key);
+    map.set(key, entry);
+    return entry.signature;
+  }
+
+  private set(map: Map<string, SignatureEntry>, key: string, entry: SignatureEntry) {
+    map.delete(key);
+    map.set(key, entry);
+    this.evict(map);
+  }
+
+  private evict(map: Map<string, SignatureEntry>) {
+    while (map.size > this.maxEntries) {
+      map.delete(map.keys().next().value!);
+    }
+  }
+
+  private schedulePersist() {
+    if (!this.persistPath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+    this.persistTimer.unref?.();
+  }
+
+  private load(file: string) {
+    if (!fs.existsSync(file)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as PersistedSignatures;
+      const now = Date.now();
+      for (const [key, entry] of data.conversations || []) {
+        if (entry.expiresAt > now) this.conversations.set(key, entry);
+      }
+      for (const [key, entry] of data.toolUses || []) {
+        if (entry.expiresAt > now) this.toolUses.set(key, entry);
+      }
+    } catch (e) {
+      console.warn('[ThoughtSig] Ignoring unreadable signature file', e);
+    }
   }
 }
 
@@ -0,0 +1,141 @@
+import { fetch, Dispatcher } from 'undici';
+
+/**
+ * Image input helpers for multimodal requests.
+ * Converts `image_url` references (data URIs or http(s) URLs) into base64 payloads
+ * that can be sent to Gemini as `inlineData`.
+ */
+
+/** MIME types accepted by Gemini for inline image input */
+export const SUPPORTED_IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+];
+
+/** Gemini rejects inline payloads above ~20MB, so larger images fail fast here */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 30000;
+
+/**
+ * Raised for client-side image problems (bad URI, unsupported type, too large).
+ * Callers map it to an HTTP 400.
+ */
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+  }
+}
+
+export interface ImageData {
+  media_type: string;
+  data: string;
+}
+
+/**
+ * Parses and validates a `data:<mime>;base64,<payload>` URI.
+ */
+export function parseDataUri(url: string): ImageData {
+  const match = /^data:([^;,]+)((?:;[^;,]+)*),(.*)$/s.exec(url.trim());
+  if (!match) {
+    throw new ImageInputError('Invalid image data URI.');
+  }
+
+  const mediaType = normalizeMimeType(match[1]);
+  const isBase64 = match[2].split(';').includes('base64');
+  if (!isBase64) {
+    throw new ImageInputError('Image data URIs must be base64 encoded.');
+  }
+
+  assertSupportedMimeType(mediaType);
+
+  const data = match[3].replace(/\s/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length === 0) {
+    throw new ImageInputError('Image data URI contains invalid base64 data.');
+  }
+  assertSize(Math.floor((data.length * 3) / 4));
+
+  return { media_type: mediaType, data };
+}
+
+/**
+ * Downloads an http(s) image and returns it as base64.
+ * @param dispatcher Optional undici dispatcher (e.g. the upstream ProxyAgent)
+ */
+export async function fetchImage(url: string, dispatcher?: Dispatcher): Promise<ImageData> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ImageInputError(`Invalid image URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ImageInputError(`Unsupported image URL scheme: ${parsed.protocol}`);
+  }
+
+  let response;
+  try {
+    response = await fetch(parsed, {
+      dispatcher,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (e) {
+    throw new ImageInputError(
+      `Failed to download image from ${url}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  if (!response.ok) {
+    throw new ImageInputError(`Failed to download image from ${url}: HTTP ${response.status}`);
+  }
+
+  const mediaType = normalizeMimeType(response.headers.get('content-type') || '');
+  assertSupportedMimeType(mediaType);
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength) assertSize(declaredLength);
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  assertSize(buffer.length);
+
+  return { media_type: mediaType, data: buffer.toString('base64') };
+}
+
+/**
+ * Resolves any image reference to a base64 data URI.
+ */
+export async function resolveImageUrl(url: string, dispatcher?: Dispatcher): Promise<string> {
+  if (url.startsWith('data:')) {
+    // Validate early so bad payloads fail before any upstream call
+    parseDataUri(url);
+    return url;
+  }
+  const image = await fetchImage(url, dispatcher);
+  return `data:${image.media_type};base64,${image.data}`;
+}
+
+function normalizeMimeType(mimeType: string): string {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  return normalized === 'image/jpg' ? 'image/jpeg' : normalized;
+}
+
+function assertSupportedMimeType(mimeType: string) {
+  if (!SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+    throw new ImageInputError(
+      `Unsupported image type '${mimeType || 'unknown'}'. Supported: ${SUPPORTED_IMAGE_MIME_TYPES.join(', ')}.`,
+    );
+  }
+}
+
+function assertSize(bytes: number) {
+  if (bytes > MAX_IMAGE_BYTES) {
+    throw new ImageInputError(
+      `Image is too large (${(bytes / 1024 / 1024).toFixed(1)}MB). Maximum is ${MAX_IMAGE_BYTES / 1024 / 1024}MB.`,
+    );
+  }
+}
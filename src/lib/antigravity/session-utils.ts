@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+/**
+ * Conversation identity for sticky account selection.
+ * Explicit session ids win; otherwise the opening of the conversation is hashed, which stays
+ * stable as later turns are appended.
+ */
+
+const SESSION_HEADERS = ['session_id', 'x-session-id', 'x-conversation-id'];
+
+interface SessionBody {
+  metadata?: { user_id?: unknown };
+  system?: unknown;
+  instructions?: unknown;
+  systemInstruction?: unknown;
+  messages?: { role?: string; content?: unknown }[];
+  contents?: { role?: string; parts?: unknown }[];
+  input?: unknown;
+}
+
+function firstUserTurn(body: SessionBody): unknown {
+  if (Array.isArray(body.messages)) {
+    return body.messages.find((m) => m.role === 'user')?.content;
+  }
+  if (Array.isArray(body.contents)) {
+    return body.contents.find((c) => !c.role || c.role === 'user')?.parts;
+  }
+  if (typeof body.input === 'string') return body.input;
+  if (Array.isArray(body.input)) {
+    return (body.input as { role?: string; content?: unknown }[]).find(
+      (item) => item.role === 'user',
+    )?.content;
+  }
+  return undefined;
+}
+
+/**
+ * Returns a stable key for the conversation a request belongs to, or undefined when the
+ * request carries no conversation (e.g. an empty body).
+ */
+export function deriveSessionKey(
+  headers: Record<string, string | string[] | undefined>,
+  body: unknown,
+): string | undefined {
+  for (const name of SESSION_HEADERS) {
+    const value = headers[name];
+    const id = Array.isArray(value) ? value[0] : value;
+    if (id) return `session:${id}`;
+  }
+
+  if (!body || typeof body !== 'object') return undefined;
+  const json = body as SessionBody;
+
+  // Claude Code and the Anthropic SDKs put a per-session id here
+  if (typeof json.metadata?.user_id === 'string' && json.metadata.user_id) {
+    return `user:${json.metadata.user_id}`;
+  }
+
+  const opening = firstUserTurn(json);
+  if (opening === undefined) return undefined;
+
+  const system = json.system ?? json.instructions ?? json.systemInstruction ?? null;
+  const digest = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([system, opening]))
+    .digest('hex')
+    .slice(0, 32);
+  return `hash:${digest}`;
+}
@@ -0,0 +1,96 @@
+import type {
+  ClaudeRequest,
+  ContentBlock,
+  GeminiContent,
+  GeminiInternalRequest,
+  GeminiPart,
+} from './types';
+
+/**
+ * Heuristic token estimation, used where the upstream does not report usage.
+ * CJK characters are roughly one token each; other text averages ~4 characters per token.
+ *
+ * @param text - Input text
+ * @returns Estimated token count
+ */
+export function estimateTokenCount(text: string): number {
+  if (!text) return 0;
+
+  const cjkMatches = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g);
+  const cjkCount = cjkMatches ? cjkMatches.length : 0;
+  const otherLength = text.length - cjkCount;
+
+  return cjkCount + Math.ceil(otherLength / 4);
+}
+
+/** Gemini bills each inline image as a fixed 258 tokens at default resolution */
+export const IMAGE_TOKEN_ESTIMATE = 258;
+
+/**
+ * Heuristic input token count for a Claude request: system prompt, messages
+ * (text, thinking, tool calls/results, images) and tool definitions.
+ */
+export function estimateClaudeInputTokens(request: ClaudeRequest): number {
+  let total = 0;
+
+  if (typeof request.system === 'string') {
+    total += estimateTokenCount(request.system);
+  } else if (Array.isArray(request.system)) {
+    total += request.system.reduce((sum, block) => sum + estimateTokenCount(block.text), 0);
+  }
+
+  for (const message of request.messages || []) {
+    total += estimateContentTokens(message.content);
+  }
+
+  if (request.tools?.length) {
+    total += estimateTokenCount(JSON.stringify(request.tools));
+  }
+
+  return total;
+}
+
+function estimateContentTokens(content: string | ContentBlock[]): number {
+  if (typeof content === 'string') return estimateTokenCount(content);
+
+  let total = 0;
+  for (const block of content || []) {
+    switch (block.type) {
+      case 'text':
+        total += estimateTokenCount(block.text);
+        break;
+      case 'thinking':
+        total += estimateTokenCount(block.thinking);
+        break;
+      case 'image':
+        total += IMAGE_TOKEN_ESTIMATE;
+        break;
+      case 'tool_use':
+        total += estimateTokenCount(block.name) + estimateTokenCount(JSON.stringify(block.input));
+        break;
+      case 'tool_result':
+        total += estimateContentTokens(block.content);
+        break;
+    }
+  }
+  return total;
+}
+
+/**
+ * Builds the contents sent to the upstream countTokens API.
+ * countTokens only accepts `contents`, so the system instruction and tool declarations
+ * are folded in as leading text parts to keep them in the count.
+ */
+export function buildCountTokensContents(body: GeminiInternalRequest): GeminiContent[] {
+  const { contents, systemInstruction, tools } = body.request;
+  const preamble: GeminiPart[] = [];
+
+  if (systemInstruction?.parts.length) {
+    preamble.push(...systemInstruction.parts);
+  }
+  if (tools?.length) {
+    preamble.push({ text: JSON.stringify(tools) });
+  }
+
+  return preamble.length ? [{ role: 'user', parts: preamble }, ...contents] : contents;
+}
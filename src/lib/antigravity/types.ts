@@ -51,6 +51,7 @@ export interface ClaudeRequest {
   messages: Message[];
   system?: SystemPrompt;
   tools?: Tool[];
+  tool_choice?: ToolChoice;
   stream?: boolean;
   max_tokens?: number;
   temperature?: number;
@@ -139,6 +140,17 @@ export interface Tool {
   type?: string;
 }
 
+/**
+ * Tool Choice
+ * Controls whether and which tools the model may call
+ */
+export interface ToolChoice {
+  /** auto: model decides, any: must call a tool, tool: must call `name`, none: no tool calls */
+  type: 'auto' | 'any' | 'tool' | 'none';
+  /** Tool name (only for type 'tool') */
+  name?: string;
+}
+
 export interface Metadata {
   user_id?: string;
 }
@@ -263,6 +275,18 @@ export interface GeminiRequest {
   systemInstruction?: { parts: { text: string }[] };
   /** Generation config */
   generationConfig?: GenerationConfig;
+  /** Tool calling config */
+  toolConfig?: { functionCallingConfig: FunctionCallingConfig };
+}
+
+/**
+ * Gemini Function Calling Config
+ */
+export interface FunctionCallingConfig {
+  /** VALIDATED (default), ANY or NONE */
+  mode: string;
+  /** Restricts ANY mode to these functions */
+  allowedFunctionNames?: string[];
 }
 
 export interface GeminiInternalRequest {
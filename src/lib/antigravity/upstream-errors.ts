@@ -0,0 +1,202 @@
+/**
+ * Upstream Error Utilities
+ * Turns Google API error bodies (google.rpc.Status) into typed errors
+ *
+ * Problem: 429s were detected by string matching and every account cooled down for a fixed time
+ * Solution: Read RetryInfo, ErrorInfo and QuotaFailure details so callers know how long
+ * to back off, for which model, and whether the quota itself is used up
+ */
+
+export interface QuotaViolation {
+  quotaId: string | null;
+  quotaMetric: string | null;
+  description: string | null;
+  /** Model the quota applies to, from quotaDimensions */
+  model: string | null;
+}
+
+export interface UpstreamErrorDetails {
+  status: number;
+  /** google.rpc.Code name, e.g. RESOURCE_EXHAUSTED */
+  code: string | null;
+  /** ErrorInfo reason, e.g. RATE_LIMIT_EXCEEDED or QUOTA_EXHAUSTED */
+  reason: string | null;
+  /** How long to wait before retrying, from RetryInfo, ErrorInfo metadata or Retry-After */
+  retryAfterMs: number | null;
+  /** Absolute quota reset time (ms timestamp) when upstream reports one */
+  resetAt: number | null;
+  /** Model the error applies to, when upstream names it */
+  model: string | null;
+  violations: QuotaViolation[];
+}
+
+/**
+ * Non-2xx answer from an upstream API.
+ */
+export class UpstreamError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly reason: string | null;
+
+  constructor(message: string, details: Pick<UpstreamErrorDetails, 'status' | 'code' | 'reason'>) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = details.status;
+    this.code = details.code;
+    this.reason = details.reason;
+  }
+}
+
+/**
+ * Upstream rejected the request for rate or quota reasons (HTTP 429 / RESOURCE_EXHAUSTED).
+ */
+export class RateLimitError extends UpstreamError {
+  readonly retryAfterMs: number | null;
+  readonly resetAt: number | null;
+  readonly model: string | null;
+  readonly violations: QuotaViolation[];
+
+  constructor(message: string, details: UpstreamErrorDetails) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+    this.resetAt = details.resetAt;
+    this.model = details.model;
+    this.violations = details.violations;
+  }
+
+  /**
+   * True when a quota (e.g. requests per day) is used up, as opposed to a short burst limit.
+   */
+  get quotaExhausted(): boolean {
+    if (this.reason === 'QUOTA_EXHAUSTED') return true;
+    return this.violations.some((v) => /per ?day/i.test(`${v.quotaId} ${v.quotaMetric}`));
+  }
+}
+
+interface RpcDetail {
+  '@type'?: string;
+  retryDelay?: string;
+  reason?: string;
+  metadata?: Record<string, string>;
+  violations?: {
+    quotaId?: string;
+    quotaMetric?: string;
+    description?: string;
+    quotaDimensions?: Record<string, string>;
+  }[];
+}
+
+interface RpcErrorBody {
+  error?: { code?: number; message?: string; status?: string; details?: RpcDetail[] };
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parses protobuf durations ("37s", "0.5s") and Go-style ones ("1h2m3.5s") to milliseconds.
+ */
+export function parseDuration(value: string | undefined | null): number | null {
+  if (!value) return null;
+  const parts = [...value.trim().matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) return null;
+  return Math.round(parts.reduce((ms, [, n, unit]) => ms + Number(n) * DURATION_UNITS_MS[unit], 0));
+}
+
+/**
+ * Parses a Retry-After header: delay in seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | undefined | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function hasType(detail: RpcDetail, type: string): boolean {
+  return typeof detail['@type'] === 'string' && detail['@type'].endsWith(type);
+}
+
+/**
+ * Builds a typed error from an upstream status, body and headers.
+ * Rate and quota errors become RateLimitError, everything else UpstreamError.
+ */
+export function parseUpstreamError(
+  status: number,
+  data: unknown,
+  headers: Record<string, unknown> = {},
+  now = Date.now(),
+): UpstreamError {
+  const body = (typeof data === 'string' ? safeParse(data) : data) as RpcErrorBody | null;
+  const rpc = body?.error;
+  const details = Array.isArray(rpc?.details) ? rpc.details : [];
+  const message =
+    rpc?.message || (typeof data === 'string' && data.trim()) || `Upstream error ${status}`;
+  const code = rpc?.status || null;
+
+  const errorInfo = details.find((d) => hasType(d, 'google.rpc.ErrorInfo'));
+  const retryInfo = details.find((d) => hasType(d, 'google.rpc.RetryInfo'));
+  const violations: QuotaViolation[] = details
+    .filter((d) => hasType(d, 'google.rpc.QuotaFailure'))
+    .flatMap((d) => d.violations || [])
+    .map((v) => ({
+      quotaId: v.quotaId || null,
+      quotaMetric: v.quotaMetric || null,
+      description: v.description || null,
+      model: v.quotaDimensions?.model || null,
+    }));
+
+  const reason = errorInfo?.reason || null;
+  if (status !== 429 && code !== 'RESOURCE_EXHAUSTED') {
+    return new UpstreamError(message, { status, code, reason });
+  }
+
+  const metadata = errorInfo?.metadata || {};
+  const resetStamp = metadata.quotaResetTimeStamp ? Date.parse(metadata.quotaResetTimeStamp) : NaN;
+  const resetAt = Number.isNaN(resetStamp) ? null : resetStamp;
+  const retryAfterMs =
+    parseDuration(retryInfo?.retryDelay) ??
+    parseDuration(metadata.quotaResetDelay) ??
+    (resetAt !== null ? Math.max(0, resetAt - now) : null) ??
+    parseRetryAfter(headers['retry-after'] as string | undefined, now);
+
+  return new RateLimitError(message, {
+    status,
+    code,
+    reason,
+    retryAfterMs,
+    resetAt,
+    model: metadata.model || violations.find((v) => v.model)?.model || null,
+    violations,
+  });
+}
+
+/**
+ * Whether an error means the account hit a rate or quota limit.
+ * Plain errors (e.g. from older code paths) are matched by message.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  if (error instanceof UpstreamError) return false;
+  const msg = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return (
+    msg.includes('429') ||
+    msg.includes('quota') ||
+    msg.includes('limit') ||
+    msg.includes('resource_exhausted')
+  );
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Token usage extraction across the protocols served by the gateway.
+ * Used for per-key accounting and the request ledger.
+ */
+
+interface UsagePayload {
+  usage?: {
+    total_tokens?: number;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+  } | null;
+  usageMetadata?: {
+    totalTokenCount?: number;
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+  message?: UsagePayload;
+  response?: UsagePayload;
+}
+
+export interface UsageBreakdown {
+  input: number;
+  output: number;
+  total: number;
+}
+
+const NO_USAGE: UsageBreakdown = { input: 0, output: 0, total: 0 };
+
+/**
+ * Returns the input/output split reported by an OpenAI, Anthropic, Responses or Gemini
+ * payload. Payloads that only report a total keep it in `total` with a zero split.
+ */
+export function extractUsage(payload: unknown): UsageBreakdown {
+  if (!payload || typeof payload !== 'object') return NO_USAGE;
+  const json = payload as UsagePayload;
+
+  const usage = json.usage;
+  if (usage) {
+    const input = usage.prompt_tokens ?? usage.input_tokens ?? 0;
+    const output = usage.completion_tokens ?? usage.output_tokens ?? 0;
+    const total = usage.total_tokens || input + output;
+    if (total > 0) return { input, output, total };
+  }
+
+  const meta = json.usageMetadata;
+  if (meta) {
+    const input = meta.promptTokenCount || 0;
+    const output = meta.candidatesTokenCount || 0;
+    return { input, output, total: meta.totalTokenCount || input + output };
+  }
+
+  // Anthropic message_start and Responses response.completed nest the usage
+  if (json.message) return extractUsage(json.message);
+  if (json.response) return extractUsage(json.response);
+  return NO_USAGE;
+}
+
+/**
+ * Returns the total tokens reported by a payload, or 0 when it carries no usage.
+ */
+export function extractUsageTokens(payload: unknown): number {
+  return extractUsage(payload).total;
+}
+
+/**
+ * Tracks usage across SSE chunks. Upstreams report cumulative usage, so the last
+ * non-zero report wins.
+ */
+export class StreamUsageTracker {
+  private last: UsageBreakdown = NO_USAGE;
+
+  public push(chunk: string): void {
+    for (const line of chunk.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data: ')) continue;
+      const data = trimmed.slice(6);
+      if (data === '[DONE]') continue;
+
+      try {
+        const usage = extractUsage(JSON.parse(data));
+        if (usage.total > 0) this.last = usage;
+      } catch {
+        // Non-JSON keepalives and partial lines carry no usage
+      }
+    }
+  }
+
+  public get total(): number {
+    return this.last.total;
+  }
+
+  public get usage(): UsageBreakdown {
+    return this.last;
+  }
+}
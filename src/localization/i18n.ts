@@ -98,6 +98,18 @@ i18n
               enable: 'Habilitar Proxy de Saída',
               url: 'URL do Proxy',
               timeout: 'Tempo Limite da Requisição (segundos)',
+              url_hint: 'http://, https:// ou socks5://, com credenciais como user:pass@host:porta',
+              test: 'Testar Conexão',
+              test_ok: 'Conectado · HTTP {{status}} · {{ms}} ms',
+              test_failed: 'Falhou: {{error}}',
+              no_proxy: 'Sem Proxy',
+              no_proxy_desc:
+                'Hosts separados por vírgula que sempre conectam diretamente, como servidores de IA locais. Um ponto inicial inclui subdomínios.',
+              accounts_title: 'Proxies por Conta',
+              accounts_description:
+                'Encaminhe uma conta pelo seu próprio proxy. Contas vazias usam o proxy de saída acima.',
+              accounts_empty: 'Nenhuma conta na nuvem ainda.',
+              account_placeholder: 'Usar o proxy de saída',
             },
             modelMapping: {
               title: 'Mapeamento de Modelos',
@@ -255,6 +267,30 @@ i18n
               confirmDelete: 'Tem certeza que deseja excluir {{count}} contas?',
             },
           },
+          local: {
+            models: {
+              title: 'Modelos do Ollama',
+              description:
+                'Baixe, inspecione, carregue e remova modelos da instância do Ollama. As contas do gateway acompanham cada mudança.',
+              refresh: 'Atualizar',
+              pull: 'Baixar',
+              pull_placeholder: 'Modelo para baixar, ex.: llama3.2:3b',
+              pull_done: 'Baixado',
+              pull_failed: 'Falhou: {{error}}',
+              cancel: 'Cancelar',
+              loaded: 'Carregado',
+              loaded_vram: 'Carregado · {{size}} de VRAM',
+              load: 'Carregar',
+              unload: 'Descarregar',
+              info: 'Detalhes',
+              details: 'Contexto de {{context}} tokens · {{format}} · {{capabilities}}',
+              delete: 'Excluir',
+              delete_confirm: 'Excluir {{model}} do disco?',
+              failed: 'Falha na operação do modelo',
+              unreachable: 'O Ollama não está acessível: {{error}}',
+              empty: 'Nenhum modelo instalado ainda.',
+            },
+          },
           proxy: {
             title: 'Proxy de API',
             description: 'Gerenciar o serviço de proxy de API local.',
@@ -273,15 +309,21 @@ i18n
               description: 'Controle o servidor de proxy de API local.',
               running: 'Rodando',
               stopped: 'Parado',
+              start_failed: 'Falha ao iniciar o serviço',
               start: 'Iniciar Serviço',
               stop: 'Parar Serviço',
             },
             config: {
               port: 'Porta de Escuta',
               timeout: 'Tempo Limite da Requisição',
+              drain_timeout: 'Tempo de Drenagem no Desligamento (segundos)',
+              drain_timeout_hint: 'Ao parar ou reiniciar o gateway, as requisições em andamento têm esse tempo para terminar antes de serem encerradas com um erro.',
               api_key: 'Chave de API',
               auto_start: 'Iniciar com o App',
               auto_start_desc: 'Iniciar o serviço de proxy quando o aplicativo for lançado',
+              persist_signatures: 'Persistir assinaturas de raciocínio',
+              persist_signatures_desc:
+                'Mantém as assinaturas de raciocínio de cada conversa entre reinícios do gateway, para que conversas com ferramentas continuem com o raciocínio ativo',
             },
             mapping: {
               title: 'Mapeamento de Modelos',
@@ -293,6 +335,146 @@ i18n
               title: 'Exemplos de Uso',
               description: 'Comandos de exemplo para chamar o proxy de API local.',
             },
+            activity: {
+              title: 'Requisições Ativas',
+              description: 'Requisições sendo atendidas agora. Ao parar o gateway, elas têm o tempo de drenagem para terminar.',
+              draining: 'Desligando',
+              empty: 'Nenhuma requisição em andamento.',
+              stopped: 'O gateway não está em execução.',
+              streaming: 'transmitindo',
+              waiting: 'aguardando o primeiro token',
+              unassigned: 'ainda sem conta',
+              main_key: 'chave principal',
+              request: '{{client}} · {{key}} · {{account}}',
+            },
+            network: {
+              title: 'Acesso pela Rede',
+              description:
+                'Permita que outros dispositivos da rede local usem o gateway. Mudar onde ele escuta reinicia o gateway em execução assim que as requisições em andamento terminarem.',
+              bind: 'Escutar Em',
+              modes: {
+                loopback: 'Somente este computador',
+                all: 'Todas as interfaces',
+                interface: 'Uma interface',
+              },
+              pick_interface: 'Escolha um endereço',
+              open_mode:
+                'Defina uma chave de API ou crie uma chave de cliente antes de escutar na rede.',
+              tls: 'HTTPS',
+              tls_hint:
+                'Deixe os caminhos do certificado vazios para usar um certificado autoassinado gerado para este computador.',
+              cert_path: 'Certificado (PEM)',
+              key_path: 'Chave Privada (PEM)',
+              allow: 'Clientes Permitidos',
+              allow_hint:
+                'Endereços ou faixas CIDR. Vazio permite qualquer cliente; caso contrário, inclua 127.0.0.1 para manter as ferramentas locais funcionando.',
+              deny: 'Clientes Bloqueados',
+              deny_hint: 'Verificado antes da lista de permitidos.',
+            },
+            scheduling: {
+              title: 'Agendamento de Contas',
+              description:
+                'Como o gateway escolhe a conta de cada requisição. Contas sem cota restante para o modelo solicitado são ignoradas até o horário de reset.',
+              strategy: 'Estratégia',
+              weights_hint:
+                'Parcela relativa de requisições por conta. Contas sem peso contam como 1, 0 desativa a conta.',
+              stream_failover: 'Failover Durante o Streaming',
+              stream_failover_desc:
+                'Quando uma resposta em streaming cai, tenta novamente em outra conta. A saída é retida até chegar o primeiro conteúdo; uma resposta já iniciada continua de onde parou.',
+              stream_failover_attempts: 'Tentativas por resposta',
+              strategies: {
+                'round-robin': 'Round-robin',
+                'least-used': 'Menos usada',
+                'highest-quota': 'Maior cota restante do modelo',
+                'earliest-reset': 'Reset mais próximo primeiro',
+                weighted: 'Ponderada',
+              },
+            },
+            sessions: {
+              title: 'Afinidade de Conversa',
+              description:
+                'Mantém cada conversa na conta que a atendeu, para que caches de prompt e assinaturas de raciocínio continuem válidos. Uma conversa só muda de conta quando a conta entra em cooldown ou fica sem cota.',
+              ttl: 'TTL do vínculo (minutos)',
+              ttl_hint: 'Tempo ocioso após o qual a conversa pode ir para outra conta.',
+              active: 'Conversas ativas',
+              release_all: 'Liberar todas',
+              release: 'Liberar',
+              empty: 'Nenhuma conversa vinculada no momento.',
+              binding: '{{email}} · {{requests}} requisições · expira em {{remaining}}',
+            },
+            fallback: {
+              title: 'Cadeias de Fallback',
+              description:
+                'Modelos tentados em ordem quando o modelo solicitado não tem mais contas ou falha. Use local-ollama:<modelo> ou local-lmstudio:<modelo> para terminar a cadeia em um modelo local.',
+              stats: 'Últimas 24h: o fallback respondeu {{fallback}} de {{total}} requisições',
+              fired: '{{count}}× em 24h',
+              remove: 'Remover',
+              model: 'Modelo',
+              chain: 'Fallbacks (em ordem)',
+              add: 'Adicionar',
+            },
+            cache: {
+              title: 'Cache Semântico',
+              description:
+                'Responde requisições repetidas a partir de um cache local. Só são armazenadas requisições com temperatura 0 e sem ferramentas ou imagens, e um prompt parecido só corresponde quando o resto da conversa é idêntico.',
+              stats:
+                'Taxa de acerto {{rate}}% · {{hits}} de {{lookups}} consultas ({{semantic}} por similaridade) · {{bypassed}} ignoradas · {{entries}} entradas ({{indexed}} indexadas)',
+              keys: 'Chaves de API',
+              keys_hint: 'Deixe todas desmarcadas para usar o cache com qualquer chave.',
+              master_key: 'Chave da configuração',
+              models: 'Modelos',
+              models_hint: 'Nomes de modelo ou padrões prefixo-*. Deixe vazio para todos os modelos.',
+              threshold: 'Limiar de similaridade',
+              ttl: 'TTL (horas)',
+              max_entries: 'Máximo de entradas',
+              entries: 'Respostas em cache',
+              purge_all: 'Limpar tudo',
+              rebuild_index: 'Reconstruir índice',
+              purge: 'Limpar',
+              empty: 'Nada em cache ainda.',
+              entry_meta: '{{hits}} acertos · último uso {{lastUsed}}',
+            },
+            keys: {
+              title: 'Chaves de API de Clientes',
+              description:
+                'Chaves nomeadas para colegas e ferramentas, cada uma com seus próprios modelos, protocolo e limites.',
+              create: 'Nova Chave',
+              empty: 'Nenhuma chave de cliente ainda. As requisições são autenticadas com a chave de API acima.',
+              all_models: 'Todos os modelos',
+              expires: 'Expira em {{date}}',
+              usage_today: 'Hoje: {{used}} tokens',
+              edit: 'Editar',
+              revoke: 'Revogar',
+              delete: 'Excluir',
+              delete_confirm: 'Excluir esta chave?',
+              status: {
+                revoked: 'Revogada',
+                expired: 'Expirada',
+              },
+              form: {
+                create_title: 'Nova Chave de API',
+                edit_title: 'Editar Chave de API',
+                name: 'Nome',
+                protocol: 'Protocolo Permitido',
+                any: 'Qualquer',
+                models: 'Modelos Permitidos',
+                models_hint:
+                  'Separados por vírgula. Um * no final corresponde a um prefixo. Deixe vazio para permitir todos.',
+                rate_limit: 'Requisições/min',
+                daily_budget: 'Tokens/dia',
+                expires: 'Expira',
+                save: 'Salvar',
+              },
+              created: {
+                title: 'Chave de API Criada',
+                description:
+                  'Copie esta chave agora. Ela é armazenada como hash e não poderá ser exibida novamente.',
+                done: 'Concluído',
+              },
+              toast: {
+                failed: 'Falha na operação da chave de API',
+              },
+            },
           },
         },
       },
@@ -383,6 +565,18 @@ i18n
               enable: 'Enable Upstream Proxy',
               url: 'Proxy URL',
               timeout: 'Request Timeout (Seconds)',
+              url_hint: 'http://, https:// or socks5://, with credentials as user:pass@host:port',
+              test: 'Test Connection',
+              test_ok: 'Connected · HTTP {{status}} · {{ms}} ms',
+              test_failed: 'Failed: {{error}}',
+              no_proxy: 'No Proxy',
+              no_proxy_desc:
+                'Comma-separated hosts that always connect directly, such as local AI servers. A leading dot matches subdomains.',
+              accounts_title: 'Per-Account Proxies',
+              accounts_description:
+                'Route an account through its own proxy. Accounts left empty use the upstream proxy above.',
+              accounts_empty: 'No cloud accounts yet.',
+              account_placeholder: 'Use the upstream proxy',
             },
             modelMapping: {
               title: 'Model Mapping',
@@ -540,6 +734,30 @@ i18n
               confirmDelete: 'Are you sure you want to delete {{count}} accounts?',
             },
           },
+          local: {
+            models: {
+              title: 'Ollama Models',
+              description:
+                'Download, inspect, load and remove models on the Ollama instance. The gateway accounts follow every change.',
+              refresh: 'Refresh',
+              pull: 'Pull',
+              pull_placeholder: 'Model to pull, e.g. llama3.2:3b',
+              pull_done: 'Downloaded',
+              pull_failed: 'Failed: {{error}}',
+              cancel: 'Cancel',
+              loaded: 'Loaded',
+              loaded_vram: 'Loaded · {{size}} VRAM',
+              load: 'Load',
+              unload: 'Unload',
+              info: 'Details',
+              details: 'Context {{context}} tokens · {{format}} · {{capabilities}}',
+              delete: 'Delete',
+              delete_confirm: 'Delete {{model}} from disk?',
+              failed: 'Model operation failed',
+              unreachable: 'Ollama is not reachable: {{error}}',
+              empty: 'No models installed yet.',
+            },
+          },
           proxy: {
             title: 'API Proxy',
             description: 'Manage the local API proxy service.',
@@ -558,15 +776,21 @@ i18n
               description: 'Control the local API proxy server.',
               running: 'Running',
               stopped: 'Stopped',
+              start_failed: 'Failed to start the service',
               start: 'Start Service',
               stop: 'Stop Service',
             },
             config: {
               port: 'Listen Port',
               timeout: 'Request Timeout',
+              drain_timeout: 'Shutdown Drain Timeout (seconds)',
+              drain_timeout_hint: 'When the gateway stops or restarts, running requests get this long to finish before they are ended with an error.',
               api_key: 'API Key',
               auto_start: 'Auto Start with App',
               auto_start_desc: 'Start proxy service when application launches',
+              persist_signatures: 'Persist Thought Signatures',
+              persist_signatures_desc:
+                'Keep per-conversation thought signatures across gateway restarts, so ongoing tool-use conversations keep thinking enabled',
             },
             mapping: {
               title: 'Model Mapping',
@@ -578,6 +802,144 @@ i18n
               title: 'Usage Examples',
               description: 'Example commands to call the local API proxy.',
             },
+            activity: {
+              title: 'Active Requests',
+              description: 'Requests being served right now. When the gateway stops, these get the drain timeout to finish.',
+              draining: 'Shutting down',
+              empty: 'No requests in flight.',
+              stopped: 'The gateway is not running.',
+              streaming: 'streaming',
+              waiting: 'waiting for first token',
+              unassigned: 'not assigned yet',
+              main_key: 'main key',
+              request: '{{client}} · {{key}} · {{account}}',
+            },
+            network: {
+              title: 'Network Access',
+              description:
+                'Let other devices on the local network use the gateway. Changing where it listens restarts a running gateway once in-flight requests finish.',
+              bind: 'Listen On',
+              modes: {
+                loopback: 'This computer only',
+                all: 'All interfaces',
+                interface: 'One interface',
+              },
+              pick_interface: 'Pick an address',
+              open_mode: 'Set an API key or create a client key before listening on the network.',
+              tls: 'HTTPS',
+              tls_hint:
+                'Leave the certificate paths empty to use a self-signed certificate generated for this machine.',
+              cert_path: 'Certificate (PEM)',
+              key_path: 'Private Key (PEM)',
+              allow: 'Allowed Clients',
+              allow_hint:
+                'Addresses or CIDR ranges. Empty allows every client; otherwise include 127.0.0.1 to keep local tools working.',
+              deny: 'Blocked Clients',
+              deny_hint: 'Checked before the allowed list.',
+            },
+            scheduling: {
+              title: 'Account Scheduling',
+              description:
+                'How the gateway picks an account for each request. Accounts with no quota left for the requested model are skipped until their reset time.',
+              strategy: 'Strategy',
+              weights_hint:
+                'Relative share of requests per account. Unset accounts count as 1, 0 disables an account.',
+              stream_failover: 'Mid-Stream Failover',
+              stream_failover_desc:
+                'When a streamed response dies, retry it on another account. Output is held back until the first content arrives; a response that already started is continued where it stopped.',
+              stream_failover_attempts: 'Attempts per response',
+              strategies: {
+                'round-robin': 'Round-robin',
+                'least-used': 'Least used',
+                'highest-quota': 'Highest remaining quota for the model',
+                'earliest-reset': 'Earliest reset first',
+                weighted: 'Weighted',
+              },
+            },
+            sessions: {
+              title: 'Conversation Affinity',
+              description:
+                'Keeps each conversation on the account that served it, so prompt caches and thinking signatures stay valid. A conversation moves only when its account is cooled down or out of quota.',
+              ttl: 'Binding TTL (minutes)',
+              ttl_hint: 'Idle time after which a conversation may be scheduled on another account.',
+              active: 'Active conversations',
+              release_all: 'Release all',
+              release: 'Release',
+              empty: 'No conversations are pinned right now.',
+              binding: '{{email}} · {{requests}} requests · expires in {{remaining}}',
+            },
+            fallback: {
+              title: 'Fallback Chains',
+              description:
+                'Models tried in order when the requested model has no account left or fails. Use local-ollama:<model> or local-lmstudio:<model> to end a chain on a local model.',
+              stats: 'Last 24h: fallback answered {{fallback}} of {{total}} requests',
+              fired: '{{count}}× in 24h',
+              remove: 'Remove',
+              model: 'Model',
+              chain: 'Fallbacks (in order)',
+              add: 'Add',
+            },
+            cache: {
+              title: 'Semantic Cache',
+              description:
+                'Answers repeated requests from a local cache. Only requests with temperature 0 and no tools or images are cached, and a similar prompt only matches when the rest of the conversation is identical.',
+              stats:
+                'Hit rate {{rate}}% · {{hits}} of {{lookups}} lookups ({{semantic}} similar) · {{bypassed}} bypassed · {{entries}} entries ({{indexed}} indexed)',
+              keys: 'API keys',
+              keys_hint: 'Leave all unselected to cache for every key.',
+              master_key: 'Config key',
+              models: 'Models',
+              models_hint: 'Model names or prefix-* patterns. Leave empty to cache every model.',
+              threshold: 'Similarity threshold',
+              ttl: 'TTL (hours)',
+              max_entries: 'Max entries',
+              entries: 'Cached responses',
+              purge_all: 'Purge all',
+              rebuild_index: 'Rebuild index',
+              purge: 'Purge',
+              empty: 'Nothing cached yet.',
+              entry_meta: '{{hits}} hits · last used {{lastUsed}}',
+            },
+            keys: {
+              title: 'Client API Keys',
+              description:
+                'Named keys for teammates and tools, each with its own models, protocol and limits.',
+              create: 'New Key',
+              empty: 'No client keys yet. Requests are authenticated with the API key above.',
+              all_models: 'All models',
+              expires: 'Expires {{date}}',
+              usage_today: 'Today: {{used}} tokens',
+              edit: 'Edit',
+              revoke: 'Revoke',
+              delete: 'Delete',
+              delete_confirm: 'Delete this key?',
+              status: {
+                revoked: 'Revoked',
+                expired: 'Expired',
+              },
+              form: {
+                create_title: 'New API Key',
+                edit_title: 'Edit API Key',
+                name: 'Name',
+                protocol: 'Allowed Protocol',
+                any: 'Any',
+                models: 'Allowed Models',
+                models_hint:
+                  'Comma separated. A trailing * matches a prefix. Leave empty to allow all.',
+                rate_limit: 'Requests/min',
+                daily_budget: 'Tokens/day',
+                expires: 'Expires',
+                save: 'Save',
+              },
+              created: {
+                title: 'API Key Created',
+                description: 'Copy this key now. It is stored hashed and cannot be shown again.',
+                done: 'Done',
+              },
+              toast: {
+                failed: 'API key operation failed',
+              },
+            },
           },
         },
       },
@@ -665,6 +1027,16 @@ i18n
               enable: '启用上游代理',
               url: '代理地址',
               timeout: '请求超时 (秒)',
+              url_hint: 'http://、https:// 或 socks5://，凭据写作 user:pass@host:port',
+              test: '测试连接',
+              test_ok: '已连接 · HTTP {{status}} · {{ms}} ms',
+              test_failed: '失败：{{error}}',
+              no_proxy: '不走代理',
+              no_proxy_desc: '以逗号分隔、始终直连的主机，例如本地 AI 服务。以点开头可匹配子域名。',
+              accounts_title: '账号独立代理',
+              accounts_description: '为账号指定独立代理。留空的账号使用上方的上游代理。',
+              accounts_empty: '暂无云端账号。',
+              account_placeholder: '使用上游代理',
             },
             modelMapping: {
               title: '模型映射',
@@ -820,6 +1192,30 @@ i18n
               confirmDelete: '确定要删除选中的 {{count}} 个账号吗？',
             },
           },
+          local: {
+            models: {
+              title: 'Ollama 模型',
+              description:
+                '在 Ollama 实例上下载、查看、加载和删除模型。网关账号会随每次更改同步。',
+              refresh: '刷新',
+              pull: '拉取',
+              pull_placeholder: '要拉取的模型，例如 llama3.2:3b',
+              pull_done: '已下载',
+              pull_failed: '失败：{{error}}',
+              cancel: '取消',
+              loaded: '已加载',
+              loaded_vram: '已加载 · {{size}} 显存',
+              load: '加载',
+              unload: '卸载',
+              info: '详情',
+              details: '上下文 {{context}} tokens · {{format}} · {{capabilities}}',
+              delete: '删除',
+              delete_confirm: '从磁盘删除 {{model}}？',
+              failed: '模型操作失败',
+              unreachable: '无法连接 Ollama：{{error}}',
+              empty: '尚未安装任何模型。',
+            },
+          },
           proxy: {
             title: 'API 反代',
             description: '管理本地 API 代理服务。',
@@ -837,15 +1233,20 @@ i18n
               description: '控制本地 API 代理服务器。',
               running: '运行中',
               stopped: '已停止',
+              start_failed: '启动服务失败',
               start: '启动服务',
               stop: '停止服务',
             },
             config: {
               port: '监听端口',
               timeout: '请求超时',
+              drain_timeout: '关闭时排空超时 (秒)',
+              drain_timeout_hint: '网关停止或重启时，进行中的请求有这么长时间完成，超时后将以错误结束。',
               api_key: 'API 密钥',
               auto_start: '随应用启动',
               auto_start_desc: '应用启动时自动启动代理服务',
+              persist_signatures: '持久化思考签名',
+              persist_signatures_desc: '在网关重启后保留每个会话的思考签名，使进行中的工具调用会话保持思考模式',
               local_access: '局域网访问:',
               no_token_warning: '⚠️ 未设置 API 密钥。服务对公网开放！',
               show_key: '显示密钥',
@@ -861,6 +1262,137 @@ i18n
               title: '使用示例',
               description: '调用本地 API 代理的示例命令。',
             },
+            activity: {
+              title: '进行中的请求',
+              description: '当前正在处理的请求。网关停止时，它们会在排空超时内完成。',
+              draining: '正在关闭',
+              empty: '当前没有进行中的请求。',
+              stopped: '网关未运行。',
+              streaming: '输出中',
+              waiting: '等待首个 token',
+              unassigned: '尚未分配账号',
+              main_key: '主密钥',
+              request: '{{client}} · {{key}} · {{account}}',
+            },
+            network: {
+              title: '网络访问',
+              description: '允许局域网内的其他设备使用网关。更改监听地址会在进行中的请求完成后重启正在运行的网关。',
+              bind: '监听地址',
+              modes: {
+                loopback: '仅本机',
+                all: '所有网卡',
+                interface: '指定网卡',
+              },
+              pick_interface: '选择地址',
+              open_mode: '在监听网络之前，请先设置 API 密钥或创建客户端密钥。',
+              tls: 'HTTPS',
+              tls_hint: '证书路径留空时，将使用为本机生成的自签名证书。',
+              cert_path: '证书 (PEM)',
+              key_path: '私钥 (PEM)',
+              allow: '允许的客户端',
+              allow_hint: '地址或 CIDR 网段。留空允许所有客户端；否则请包含 127.0.0.1 以便本机工具继续可用。',
+              deny: '阻止的客户端',
+              deny_hint: '优先于允许列表检查。',
+            },
+            scheduling: {
+              title: '账号调度',
+              description: '网关为每个请求选择账号的方式。所请求模型配额已耗尽的账号会被跳过，直到其重置时间。',
+              strategy: '策略',
+              weights_hint: '每个账号的相对请求份额。未设置的账号按 1 计算，0 表示禁用该账号。',
+              stream_failover: '流中故障转移',
+              stream_failover_desc:
+                '流式响应中断时，在另一个账号上重试。在收到首个内容前先暂存输出；已开始的响应会从中断处继续。',
+              stream_failover_attempts: '每个响应的尝试次数',
+              strategies: {
+                'round-robin': '轮询',
+                'least-used': '最少使用',
+                'highest-quota': '模型剩余配额最高',
+                'earliest-reset': '最早重置优先',
+                weighted: '加权',
+              },
+            },
+            sessions: {
+              title: '会话亲和',
+              description:
+                '让每个会话固定在为其服务的账号上，以保持提示缓存和思考签名有效。仅当该账号冷却或配额耗尽时会话才会迁移。',
+              ttl: '绑定有效期（分钟）',
+              ttl_hint: '空闲超过该时间后，会话可被调度到其他账号。',
+              active: '活跃会话',
+              release_all: '全部释放',
+              release: '释放',
+              empty: '当前没有绑定的会话。',
+              binding: '{{email}} · {{requests}} 次请求 · {{remaining}} 后过期',
+            },
+            fallback: {
+              title: '回退链',
+              description:
+                '当请求的模型没有可用账号或失败时，按顺序尝试的模型。使用 local-ollama:<模型> 或 local-lmstudio:<模型> 可让回退链以本地模型结尾。',
+              stats: '最近 24 小时：回退响应了 {{total}} 个请求中的 {{fallback}} 个',
+              fired: '24 小时内 {{count}} 次',
+              remove: '移除',
+              model: '模型',
+              chain: '回退模型（按顺序）',
+              add: '添加',
+            },
+            cache: {
+              title: '语义缓存',
+              description:
+                '从本地缓存响应重复的请求。仅缓存温度为 0 且不含工具或图片的请求，相似提示词仅在对话其余部分完全一致时命中。',
+              stats:
+                '命中率 {{rate}}% · {{lookups}} 次查询命中 {{hits}} 次（相似命中 {{semantic}} 次）· 跳过 {{bypassed}} 次 · {{entries}} 条缓存（已索引 {{indexed}} 条）',
+              keys: 'API 密钥',
+              keys_hint: '全部不选则对所有密钥启用缓存。',
+              master_key: '配置密钥',
+              models: '模型',
+              models_hint: '模型名称或 前缀-* 模式。留空则缓存所有模型。',
+              threshold: '相似度阈值',
+              ttl: '有效期（小时）',
+              max_entries: '最大条目数',
+              entries: '已缓存的响应',
+              purge_all: '全部清除',
+              rebuild_index: '重建索引',
+              purge: '清除',
+              empty: '暂无缓存。',
+              entry_meta: '命中 {{hits}} 次 · 最近使用 {{lastUsed}}',
+            },
+            keys: {
+              title: '客户端 API 密钥',
+              description: '为同事和工具创建的命名密钥，每个密钥拥有独立的模型、协议和限制。',
+              create: '新建密钥',
+              empty: '尚无客户端密钥。请求使用上方的 API 密钥进行认证。',
+              all_models: '全部模型',
+              expires: '{{date}} 过期',
+              usage_today: '今日：{{used}} tokens',
+              edit: '编辑',
+              revoke: '吊销',
+              delete: '删除',
+              delete_confirm: '删除此密钥？',
+              status: {
+                revoked: '已吊销',
+                expired: '已过期',
+              },
+              form: {
+                create_title: '新建 API 密钥',
+                edit_title: '编辑 API 密钥',
+                name: '名称',
+                protocol: '允许的协议',
+                any: '任意',
+                models: '允许的模型',
+                models_hint: '以逗号分隔。末尾的 * 匹配前缀。留空表示允许全部。',
+                rate_limit: '请求/分钟',
+                daily_budget: 'Tokens/天',
+                expires: '过期日期',
+                save: '保存',
+              },
+              created: {
+                title: 'API 密钥已创建',
+                description: '请立即复制此密钥。密钥以哈希形式存储，之后无法再次显示。',
+                done: '完成',
+              },
+              toast: {
+                failed: 'API 密钥操作失败',
+              },
+            },
           },
         },
       },
@@ -11,6 +11,7 @@ import { useState, useEffect } from 'react';
 import * as Lucide from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { ipc } from '@/ipc/manager';
+import { LocalModelsPanel } from '@/components/LocalModelsPanel';
 
 /**
  * PhD Level Icon Proxy
@@ -86,10 +87,13 @@ function LocalAIPage() {
     await handleSaveEndpoints();
     
     syncModelsMutation.mutate(undefined, {
-      onSuccess: (count) => {
+      onSuccess: ({ added, removed }) => {
         toast({ 
           title: 'Varredura Concluída', 
-          description: count > 0 ? `${count} modelos detectados e registrados.` : 'Nenhum modelo novo encontrado no hardware.' 
+          description:
+            added > 0 || removed > 0
+              ? `${added} modelos registrados, ${removed} removidos.`
+              : 'Nenhuma mudança encontrada no hardware.'
         });
       },
       onError: (err: any) => {
@@ -109,13 +113,9 @@ function LocalAIPage() {
     try {
         // Trigger save first to make sure the endpoint is in the DB
         await handleSaveEndpoints();
-        const result = await ipc.client.cloud.syncLocalModels();
-        if (result >= 0) {
-            setStatus('success');
-            toast({ title: 'Link Ativo', description: `Conexão com ${provider.toUpperCase()} estabelecida.` });
-        } else {
-            setStatus('failed');
-        }
+        await ipc.client.cloud.syncLocalModels();
+        setStatus('success');
+        toast({ title: 'Link Ativo', description: `Conexão com ${provider.toUpperCase()} estabelecida.` });
     } catch (e) {
         setStatus('failed');
         toast({ title: 'Time-out ou Erro', description: 'Verifique se o servidor local está rodando.', variant: 'destructive' });
@@ -203,6 +203,8 @@ function LocalAIPage() {
          </Button>
       </div>
 
+      {config.local_ai.ollama.enabled && <LocalModelsPanel />}
+
       <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-xl p-8 flex items-start gap-5">
           <Icon name="AlertTriangle" className="h-8 w-8 text-yellow-600 opacity-80" />
           <div className="space-y-2">
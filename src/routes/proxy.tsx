@@ -8,7 +8,7 @@ import { useQuery } from '@tanstack/react-query';
 import { ipc } from '@/ipc/manager';
 import { useState, useEffect } from 'react';
 import { useAppConfig } from '@/hooks/useAppConfig';
-import { ProxyConfig } from '@/types/config';
+import { ProxyConfig, SchedulingStrategy } from '@/types/config';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -42,10 +42,32 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { ApiKeyManager } from '@/components/ApiKeyManager';
+import { SessionAffinityPanel } from '@/components/SessionAffinityPanel';
+import { FallbackChainsPanel } from '@/components/FallbackChainsPanel';
+import { SemanticCachePanel } from '@/components/SemanticCachePanel';
+import { NetworkAccessPanel } from '@/components/NetworkAccessPanel';
+import { ActiveRequestsPanel } from '@/components/ActiveRequestsPanel';
+import { useToast } from '@/components/ui/use-toast';
+import { getLocalizedErrorMessage } from '@/utils/errorMessages';
+import { useApiKeys } from '@/hooks/useApiKeys';
+import { useCloudAccounts } from '@/hooks/useCloudAccounts';
+
+const SCHEDULING_STRATEGIES: SchedulingStrategy[] = [
+  'round-robin',
+  'least-used',
+  'highest-quota',
+  'earliest-reset',
+  'weighted',
+];
 
 function ProxyPage() {
   const { t } = useTranslation();
+  const { toast } = useToast();
   const { config, isLoading, saveConfig } = useAppConfig();
+  const { data: clientKeys } = useApiKeys();
+  const hasClientKeys = clientKeys?.some((key) => !key.revoked_at) ?? false;
+  const { data: cloudAccounts } = useCloudAccounts();
 
   // Query all available local IPs
   const { data: localIps } = useQuery({
@@ -131,7 +153,11 @@ function ProxyPage() {
 
   // Computed values for examples
   const apiKey = proxyConfig?.api_key || 'YOUR_API_KEY';
-  const baseUrl = `http://localhost:${proxyConfig?.port || 8045}`;
+  const scheme = proxyConfig?.network.tls.enabled ? 'https' : 'http';
+  const baseUrl = `${scheme}://localhost:${proxyConfig?.port || 8045}`;
+  // Address other devices use; only meaningful when the gateway listens beyond loopback
+  const lanHost =
+    proxyConfig?.network.bind === 'interface' ? proxyConfig.network.bind_address : selectedIp;
 
   const copyToClipboard = (text: string, type: string) => {
     navigator.clipboard.writeText(text);
@@ -213,10 +239,12 @@ print(response.choices[0].message.content)`;
             <div className="flex items-center gap-2">
               <div className="font-semibold">{t('proxy.config.local_access', 'Local Access:')}</div>
               <code className="rounded bg-blue-100 px-1.5 py-0.5 font-mono select-all dark:bg-blue-900/50">
-                http://{selectedIp || 'localhost'}:{proxyConfig.port}/v1
+                {scheme}://
+                {proxyConfig.network.bind === 'loopback' ? 'localhost' : lanHost || 'localhost'}:
+                {proxyConfig.port}/v1
               </code>
               {/* IP Selector Dropdown */}
-              {localIps && localIps.length > 1 && (
+              {proxyConfig.network.bind === 'all' && localIps && localIps.length > 1 && (
                 <Select value={selectedIp} onValueChange={setSelectedIp}>
                   <SelectTrigger className="ml-2 h-7 w-auto min-w-[180px] text-xs">
                     <SelectValue placeholder="Select IP" />
@@ -231,7 +259,7 @@ print(response.choices[0].message.content)`;
                 </Select>
               )}
             </div>
-            {!proxyConfig.api_key && (
+            {!proxyConfig.api_key && !hasClientKeys && (
               <div className="flex items-center gap-2 text-xs font-medium text-amber-600 dark:text-amber-400">
                 {t(
                   'proxy.config.no_token_warning',
@@ -276,8 +304,16 @@ print(response.choices[0].message.content)`;
                   await ipc.client.gateway.stop();
                   updateProxyConfig({ ...proxyConfig, enabled: false });
                 } else {
-                  await ipc.client.gateway.start({ port: proxyConfig.port });
-                  updateProxyConfig({ ...proxyConfig, enabled: true });
+                  try {
+                    await ipc.client.gateway.start({ port: proxyConfig.port });
+                    updateProxyConfig({ ...proxyConfig, enabled: true });
+                  } catch (e) {
+                    toast({
+                      title: t('proxy.service.start_failed', 'Failed to start the service'),
+                      description: getLocalizedErrorMessage(e, t),
+                      variant: 'destructive',
+                    });
+                  }
                 }
               }}
             >
@@ -317,6 +353,29 @@ print(response.choices[0].message.content)`;
                 }
               />
             </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="gateway-drain-timeout">
+                {t('proxy.config.drain_timeout', 'Shutdown Drain Timeout (seconds)')}
+              </Label>
+              <Input
+                id="gateway-drain-timeout"
+                type="number"
+                min={0}
+                value={proxyConfig.drain_timeout_seconds}
+                onChange={(e) =>
+                  updateProxyConfig({
+                    ...proxyConfig,
+                    drain_timeout_seconds: Math.max(0, parseInt(e.target.value) || 0),
+                  })
+                }
+              />
+              <p className="text-muted-foreground text-xs">
+                {t(
+                  'proxy.config.drain_timeout_hint',
+                  'When the gateway stops or restarts, running requests get this long to finish before they are ended with an error.',
+                )}
+              </p>
+            </div>
           </div>
 
           {/* API Key */}
@@ -404,9 +463,182 @@ print(response.choices[0].message.content)`;
               }
             />
           </div>
+
+          {/* Thought Signature Persistence Toggle */}
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label>{t('proxy.config.persist_signatures', 'Persist Thought Signatures')}</Label>
+              <p className="text-xs text-gray-500">
+                {t(
+                  'proxy.config.persist_signatures_desc',
+                  'Keep per-conversation thought signatures across gateway restarts, so ongoing tool-use conversations keep thinking enabled',
+                )}
+              </p>
+            </div>
+            <Switch
+              checked={proxyConfig.signature_store.persist}
+              onCheckedChange={(checked) =>
+                updateProxyConfig({
+                  ...proxyConfig,
+                  signature_store: { ...proxyConfig.signature_store, persist: checked },
+                })
+              }
+            />
+          </div>
         </CardContent>
       </Card>
 
+      {/* Active Requests Card */}
+      <ActiveRequestsPanel accounts={cloudAccounts || []} />
+
+      {/* Network Access Card */}
+      <NetworkAccessPanel
+        config={proxyConfig.network}
+        onChange={(network) => updateProxyConfig({ ...proxyConfig, network })}
+        openMode={!proxyConfig.api_key && !hasClientKeys}
+        localIps={localIps || []}
+      />
+
+      {/* Client API Keys Card */}
+      <ApiKeyManager />
+
+      {/* Account Scheduling Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('proxy.scheduling.title', 'Account Scheduling')}</CardTitle>
+          <CardDescription>
+            {t(
+              'proxy.scheduling.description',
+              'How the gateway picks an account for each request. Accounts with no quota left for the requested model are skipped until their reset time.',
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label>{t('proxy.scheduling.strategy', 'Strategy')}</Label>
+            <Select
+              value={proxyConfig.scheduling.strategy}
+              onValueChange={(value) =>
+                updateProxyConfig({
+                  ...proxyConfig,
+                  scheduling: { ...proxyConfig.scheduling, strategy: value as SchedulingStrategy },
+                })
+              }
+            >
+              <SelectTrigger className="w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULING_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {t(`proxy.scheduling.strategies.${strategy}`, strategy)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {proxyConfig.scheduling.strategy === 'weighted' && (
+            <div className="space-y-2">
+              <p className="text-muted-foreground text-xs">
+                {t(
+                  'proxy.scheduling.weights_hint',
+                  'Relative share of requests per account. Unset accounts count as 1, 0 disables an account.',
+                )}
+              </p>
+              {(cloudAccounts || []).map((account) => (
+                <div key={account.id} className="flex items-center justify-between gap-4">
+                  <span className="truncate text-sm">{account.name || account.email}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={proxyConfig.scheduling.weights[account.id] ?? 1}
+                    onChange={(e) =>
+                      updateProxyConfig({
+                        ...proxyConfig,
+                        scheduling: {
+                          ...proxyConfig.scheduling,
+                          weights: {
+                            ...proxyConfig.scheduling.weights,
+                            [account.id]: Math.max(0, Number(e.target.value) || 0),
+                          },
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Mid-Stream Failover Toggle */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label>{t('proxy.scheduling.stream_failover', 'Mid-Stream Failover')}</Label>
+              <p className="text-xs text-gray-500">
+                {t(
+                  'proxy.scheduling.stream_failover_desc',
+                  'When a streamed response dies, retry it on another account. Output is held back until the first content arrives; a response that already started is continued where it stopped.',
+                )}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Input
+                type="number"
+                min={2}
+                className="w-20"
+                title={t('proxy.scheduling.stream_failover_attempts', 'Attempts per response')}
+                disabled={!proxyConfig.stream_failover.enabled}
+                value={proxyConfig.stream_failover.max_attempts}
+                onChange={(e) =>
+                  updateProxyConfig({
+                    ...proxyConfig,
+                    stream_failover: {
+                      ...proxyConfig.stream_failover,
+                      max_attempts: Math.max(2, Number(e.target.value) || 2),
+                    },
+                  })
+                }
+              />
+              <Switch
+                checked={proxyConfig.stream_failover.enabled}
+                onCheckedChange={(checked) =>
+                  updateProxyConfig({
+                    ...proxyConfig,
+                    stream_failover: { ...proxyConfig.stream_failover, enabled: checked },
+                  })
+                }
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Conversation Affinity Card */}
+      <SessionAffinityPanel
+        config={proxyConfig.session_affinity}
+        onChange={(sessionAffinity) =>
+          updateProxyConfig({ ...proxyConfig, session_affinity: sessionAffinity })
+        }
+      />
+
+      {/* Fallback Chains Card */}
+      <FallbackChainsPanel
+        chains={proxyConfig.fallback_chains}
+        onChange={(fallbackChains) =>
+          updateProxyConfig({ ...proxyConfig, fallback_chains: fallbackChains })
+        }
+      />
+
+      {/* Semantic Cache Card */}
+      <SemanticCachePanel
+        config={proxyConfig.semantic_cache}
+        onChange={(semanticCache) =>
+          updateProxyConfig({ ...proxyConfig, semantic_cache: semanticCache })
+        }
+      />
+
       {/* Model Mapping Card */}
       <Card>
         <CardHeader>
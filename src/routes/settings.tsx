@@ -21,6 +21,8 @@ import { Loader2, FolderOpen } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { ProxyConfig } from '@/types/config';
 import { openLogDirectory } from '@/actions/system';
+import { ProxyTestButton } from '@/components/ProxyTestButton';
+import { AccountProxyPanel } from '@/components/AccountProxyPanel';
 
 function SettingsPage() {
   const { theme, setTheme } = useTheme();
@@ -30,10 +32,14 @@ function SettingsPage() {
   // Local state for configuration editing
   const [proxyConfig, setProxyConfig] = useState<ProxyConfig | undefined>(undefined);
 
+  // NO_PROXY is edited as text and saved on blur, so commas can be typed freely
+  const [noProxyText, setNoProxyText] = useState('');
+
   // Sync config to local state when loaded
   useEffect(() => {
     if (config) {
       setProxyConfig(config.proxy);
+      setNoProxyText(config.proxy.upstream_proxy.no_proxy.join(', '));
     }
   }, [config]);
 
@@ -245,9 +251,54 @@ function SettingsPage() {
                   }
                   disabled={!proxyConfig.upstream_proxy.enabled}
                 />
+                <p className="text-muted-foreground text-xs">
+                  {t(
+                    'settings.proxy.url_hint',
+                    'http://, https:// or socks5://, with credentials as user:pass@host:port',
+                  )}
+                </p>
+                <ProxyTestButton url={proxyConfig.upstream_proxy.url} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="upstream-no-proxy">
+                  {t('settings.proxy.no_proxy', 'No Proxy')}
+                </Label>
+                <Input
+                  id="upstream-no-proxy"
+                  placeholder="localhost, 127.0.0.1, .lan"
+                  value={noProxyText}
+                  onChange={(e) => setNoProxyText(e.target.value)}
+                  onBlur={() =>
+                    updateProxyConfig({
+                      ...proxyConfig,
+                      upstream_proxy: {
+                        ...proxyConfig.upstream_proxy,
+                        no_proxy: noProxyText
+                          .split(',')
+                          .map((host) => host.trim())
+                          .filter(Boolean),
+                      },
+                    })
+                  }
+                />
+                <p className="text-muted-foreground text-xs">
+                  {t(
+                    'settings.proxy.no_proxy_desc',
+                    'Comma-separated hosts that always connect directly, such as local AI servers. A leading dot matches subdomains.',
+                  )}
+                </p>
               </div>
             </CardContent>
           </Card>
+          <AccountProxyPanel
+            overrides={proxyConfig.upstream_proxy.account_proxies}
+            onChange={(account_proxies) =>
+              updateProxyConfig({
+                ...proxyConfig,
+                upstream_proxy: { ...proxyConfig.upstream_proxy, account_proxies },
+              })
+            }
+          />
         </TabsContent>
       </Tabs>
     </div>
@@ -7,14 +7,67 @@ import { TokenManagerService } from './modules/proxy/token-manager.service';
 import { GlobalHttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 
-import { ProxyConfig } from '../types/config';
-import { setServerConfig } from './server-config';
+import { ProxyConfig, ProxyConfigSchema } from '../types/config';
+import path from 'path';
+import { getAppDataDir } from '../utils/paths';
+import { SignatureStore } from '../lib/antigravity/SignatureStore';
+import { SemanticCacheIndex } from './modules/proxy/SemanticCacheIndex';
+import { SessionBinding } from '../types/sessionAffinity';
+import {
+  diffServerConfig,
+  getServerConfig,
+  requiresRestart,
+  setServerConfig,
+} from './server-config';
+import { NetworkPolicy } from './modules/proxy/NetworkPolicy';
+import { ApiKeyRepo } from '../ipc/database/apiKeys';
+import { loadTlsCredentials } from './tls';
+import { InFlightTracker } from './modules/proxy/InFlightTracker';
+import { GatewayActivity } from '../types/inflight';
 
 let app: NestFastifyApplication | null = null;
 let currentPort: number = 0;
+let currentHost = '';
+let currentTls = false;
 
-export async function bootstrapNestServer(config: ProxyConfig): Promise<boolean> {
-  const port = config.port || 8045;
+const DEFAULT_DRAIN_TIMEOUT_SECONDS = 30;
+
+export type ConfigApplyResult =
+  | { status: 'not_running' | 'unchanged' }
+  | { status: 'applied' | 'restarted'; changed: (keyof ProxyConfig)[] }
+  // Rejected settings were not applied (a restart that failed was rolled back); a failed
+  // restart whose rollback failed too left the gateway stopped
+  | { status: 'rejected' | 'failed'; reason: string };
+
+function configureSignatureStore(config: ProxyConfig) {
+  const signatureStore = config.signature_store;
+  SignatureStore.configure({
+    max_entries: signatureStore?.max_entries,
+    ttl_seconds: signatureStore?.ttl_seconds,
+    persist_path: signatureStore?.persist
+      ? path.join(getAppDataDir(), 'thought_signatures.json')
+      : null,
+  });
+}
+
+/**
+ * Why the gateway may not start with these network settings, or null when it may
+ */
+export function checkNetworkConfig(config: ProxyConfig): string | null {
+  // Listening beyond loopback is only allowed once clients have to authenticate
+  const host = NetworkPolicy.resolveBindHost(config.network);
+  const openMode =
+    !NetworkPolicy.isLoopbackHost(host) && !config.api_key?.trim() && !ApiKeyRepo.hasActiveKeys();
+  return NetworkPolicy.validate(config.network, openMode);
+}
+
+/**
+ * @param port Port to listen on instead of the saved one; the settings keep the saved port
+ */
+export async function bootstrapNestServer(
+  config: ProxyConfig,
+  port = config.port || 8045,
+): Promise<boolean> {
   
   // PhD Level: Deterministic Lifecycle Management
   // Ensure any previous instance is completely purged before starting a new one
@@ -27,10 +80,24 @@ export async function bootstrapNestServer(config: ProxyConfig): Promise<boolean>
     }
   }
 
+  const host = NetworkPolicy.resolveBindHost(config.network);
+  const networkProblem = checkNetworkConfig(config);
+  if (networkProblem) {
+    logger.error(`Gateway network settings rejected: ${networkProblem}`);
+    return false;
+  }
+
   setServerConfig(config);
+  configureSignatureStore(config);
+  if (config.semantic_cache?.enabled) {
+    SemanticCacheIndex.load();
+  }
 
   try {
-    const adapter = new FastifyAdapter();
+    const useTls = !!config.network?.tls.enabled;
+    const adapter = new FastifyAdapter(
+      useTls ? { https: loadTlsCredentials(config.network.tls) } : undefined,
+    );
     app = await NestFactory.create<NestFastifyApplication>(AppModule, adapter, {
       logger: ['error', 'warn', 'log'],
     });
@@ -42,9 +109,11 @@ export async function bootstrapNestServer(config: ProxyConfig): Promise<boolean>
     app.useGlobalFilters(new GlobalHttpExceptionFilter());
     app.useGlobalInterceptors(new LoggingInterceptor());
 
-    await app.listen(port, '127.0.0.1');
+    await app.listen(port, host);
     currentPort = port;
-    logger.info(`NestJS Proxy Server running on http://localhost:${port}`);
+    currentHost = host;
+    currentTls = useTls;
+    logger.info(`NestJS Proxy Server running on ${baseUrl()} (listening on ${host})`);
     return true;
   } catch (error: unknown) {
     logger.error('Failed to start NestJS server', error);
@@ -53,32 +122,115 @@ export async function bootstrapNestServer(config: ProxyConfig): Promise<boolean>
   }
 }
 
+/**
+ * Pushes saved settings to the running gateway. Everything is read per request, so most
+ * changes apply in place; only a new port, bind address or TLS setting restarts the server,
+ * and Fastify lets in-flight requests finish before it closes.
+ */
+export async function applyServerConfig(next: ProxyConfig): Promise<ConfigApplyResult> {
+  const previous = getServerConfig();
+  if (!app || !previous) return { status: 'not_running' };
+
+  const parsed = ProxyConfigSchema.safeParse(next);
+  if (!parsed.success) {
+    return { status: 'rejected', reason: parsed.error.issues[0]?.message || 'Invalid config' };
+  }
+  const config = parsed.data;
+  const changed = diffServerConfig(previous, config);
+  if (changed.length === 0) return { status: 'unchanged' };
+
+  // A running LAN gateway must not lose its last API key
+  const networkProblem = checkNetworkConfig(config);
+  if (networkProblem) return { status: 'rejected', reason: networkProblem };
+
+  // The gateway may have been started on another port than the saved one; it stays there
+  // until the saved port itself changes
+  const boundPort = currentPort;
+  const port = changed.includes('port') ? config.port : boundPort;
+  if (requiresRestart({ ...previous, port: boundPort }, { ...config, port })) {
+    // Catch unreadable certificate files before the running server is stopped
+    if (config.network.tls.enabled) {
+      try {
+        loadTlsCredentials(config.network.tls);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return { status: 'rejected', reason: `TLS certificate unusable: ${message}` };
+      }
+    }
+    logger.info(`Gateway listener changed (${changed.join(', ')}), restarting...`);
+    if (await bootstrapNestServer(config, port)) return { status: 'restarted', changed };
+
+    // Port taken, unusable address: bring the gateway back up as it was
+    logger.warn('Gateway failed to restart, restoring the previous listener');
+    if (await bootstrapNestServer(previous, boundPort)) {
+      return {
+        status: 'rejected',
+        reason: 'Gateway failed to restart with the new settings; the previous ones were restored',
+      };
+    }
+    return { status: 'failed', reason: 'Gateway failed to restart' };
+  }
+
+  setServerConfig(config);
+  if (changed.includes('signature_store')) {
+    configureSignatureStore(config);
+  }
+  if (changed.includes('semantic_cache') && config.semantic_cache.enabled) {
+    SemanticCacheIndex.load();
+  }
+  if (changed.includes('session_affinity') && !config.session_affinity.enabled) {
+    // Bindings would otherwise linger until affinity is turned back on
+    app.get(TokenManagerService).clearSessions();
+  }
+  logger.info(`Gateway config updated live: ${changed.join(', ')}`);
+  return { status: 'applied', changed };
+}
+
 export async function stopNestServer(): Promise<boolean> {
   if (app) {
     try {
       logger.info('Stopping NestJS server...');
       
       // PhD Level: Graceful but Absolute Shutdown
-      // 1. Close the Nest application
+      // 1. Let in-flight requests finish, then close the Nest application
+      const drainSeconds = getServerConfig()?.drain_timeout_seconds ?? DEFAULT_DRAIN_TIMEOUT_SECONDS;
+      const aborted = await InFlightTracker.drain(drainSeconds * 1000);
+      if (aborted > 0) {
+        logger.warn(`Aborted ${aborted} request(s) still running after ${drainSeconds}s`);
+      }
       await app.close();
+      InFlightTracker.reset();
+      SignatureStore.flush();
+      SemanticCacheIndex.flush();
       
       // 2. Explicitly nullify references to allow GC and prevent route leaks
       app = null;
       currentPort = 0;
+      currentHost = '';
+      currentTls = false;
       
       logger.info('NestJS server stopped successfully.');
       return true;
     } catch (error: unknown) {
       logger.error('Failed to stop NestJS server gracefully', error);
       // Force cleanup even on error
+      InFlightTracker.reset();
       app = null;
       currentPort = 0;
+      currentHost = '';
+      currentTls = false;
       return false;
     }
   }
   return true;
 }
 
+function baseUrl(): string {
+  // Loopback and all-interfaces binds are reachable through localhost
+  const host = currentHost === '0.0.0.0' || NetworkPolicy.isLoopbackHost(currentHost) ? 'localhost' : currentHost;
+  return `${currentTls ? 'https' : 'http'}://${host.includes(':') ? `[${host}]` : host}:${currentPort}`;
+}
+
 export function isNestServerRunning(): boolean {
   return app !== null;
 }
@@ -86,6 +238,8 @@ export function isNestServerRunning(): boolean {
 export async function getNestServerStatus(): Promise<{
   running: boolean;
   port: number;
+  host: string;
+  tls: boolean;
   base_url: string;
   active_accounts: number;
 }> {
@@ -104,7 +258,53 @@ export async function getNestServerStatus(): Promise<{
   return {
     running,
     port: currentPort,
-    base_url: running ? `http://localhost:${currentPort}` : '',
+    host: currentHost,
+    tls: currentTls,
+    base_url: running ? baseUrl() : '',
     active_accounts: activeAccounts,
   };
 }
+
+/**
+ * Requests being served right now, oldest first
+ */
+export function getGatewayActivity(): GatewayActivity {
+  return {
+    running: !!app,
+    draining: InFlightTracker.isDraining(),
+    requests: InFlightTracker.list(),
+  };
+}
+
+/**
+ * Re-reads the account pool after accounts changed outside the gateway (local model sync)
+ */
+export async function reloadGatewayAccounts(): Promise<void> {
+  if (!app) return;
+  await app.get(TokenManagerService).loadAccounts();
+}
+
+/**
+ * Conversations currently pinned to an account; empty when the server is stopped
+ */
+export function getSessionBindings(): SessionBinding[] {
+  if (!app) return [];
+  try {
+    return app.get(TokenManagerService).listSessions();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Unpins one conversation, or all of them when no key is given
+ */
+export function releaseSessionBinding(key?: string): boolean {
+  if (!app) return false;
+  const tokenManager = app.get(TokenManagerService);
+  if (key === undefined) {
+    tokenManager.clearSessions();
+    return true;
+  }
+  return tokenManager.releaseSession(key);
+}
@@ -0,0 +1,157 @@
+import { CloudQuotaData } from '../../../types/cloudAccount';
+import { SchedulingStrategy } from '../../../types/config';
+import { mapClaudeModelToGemini } from '../../../lib/antigravity/ModelMapping';
+
+export interface SchedulingCandidate {
+  id: string;
+  quota?: CloudQuotaData;
+}
+
+export interface ModelQuota {
+  percentage: number;
+  resetAt: number | null; // ms timestamp
+}
+
+export interface SchedulingContext {
+  model?: string;
+  weights: Record<string, number>;
+  now: number;
+}
+
+type StrategyFn = (
+  scheduler: AccountScheduler,
+  candidates: SchedulingCandidate[],
+  context: SchedulingContext,
+) => SchedulingCandidate;
+
+function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '').toLowerCase();
+}
+
+/** Returns the candidate with the lowest score; ties keep the candidate order */
+function minBy(
+  candidates: SchedulingCandidate[],
+  score: (candidate: SchedulingCandidate) => number,
+): SchedulingCandidate {
+  let best = candidates[0];
+  let bestScore = score(best);
+  for (const candidate of candidates.slice(1)) {
+    const value = score(candidate);
+    if (value < bestScore) {
+      best = candidate;
+      bestScore = value;
+    }
+  }
+  return best;
+}
+
+const STRATEGIES: Record<SchedulingStrategy, StrategyFn> = {
+  'round-robin': (scheduler, candidates) => candidates[scheduler.nextCursor() % candidates.length],
+
+  'least-used': (scheduler, candidates) => minBy(candidates, (c) => scheduler.selectionCount(c.id)),
+
+  // Ties (and accounts without quota data) fall back to least-used
+  'highest-quota': (scheduler, candidates, { model }) =>
+    minBy(candidates, (c) => {
+      const quota = model ? AccountScheduler.findModelQuota(c.quota, model) : null;
+      return -(quota?.percentage ?? -1) * 1e6 + scheduler.selectionCount(c.id);
+    }),
+
+  // Spend the quota that refills soonest first, so it is not wasted by the reset
+  'earliest-reset': (scheduler, candidates, { model }) => {
+    const resetOf = (c: SchedulingCandidate) =>
+      (model ? AccountScheduler.findModelQuota(c.quota, model)?.resetAt : null) ?? Infinity;
+    const earliest = Math.min(...candidates.map(resetOf));
+    const soonest = candidates.filter((c) => resetOf(c) === earliest);
+    return minBy(soonest, (c) => scheduler.selectionCount(c.id));
+  },
+
+  weighted: (scheduler, candidates, { weights }) => scheduler.pickWeighted(candidates, weights),
+};
+
+/**
+ * Chooses which account serves the next request. Holds the per-process state the
+ * strategies need (round-robin cursor, selection counts, weighted round-robin credit).
+ */
+export class AccountScheduler {
+  private cursor = 0;
+  private selections = new Map<string, number>();
+  private credits = new Map<string, number>();
+
+  /**
+   * Quota of `model` on an account, matched by name or through the Claude-to-Gemini mapping.
+   */
+  static findModelQuota(quota: CloudQuotaData | undefined, model: string): ModelQuota | null {
+    if (!quota?.models) return null;
+
+    const entries = Object.entries(quota.models);
+    const targets = [normalizeModel(model), normalizeModel(mapClaudeModelToGemini(model))];
+    for (const target of targets) {
+      const match = entries.find(([name]) => normalizeModel(name) === target);
+      if (match) {
+        const resetAt = match[1].resetTime ? Date.parse(match[1].resetTime) : NaN;
+        return {
+          percentage: match[1].percentage,
+          resetAt: Number.isNaN(resetAt) ? null : resetAt,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * An account is exhausted for a model when its quota is at 0% and the reset is still
+   * ahead. Past resets mean the stored quota is stale, so the account is tried again.
+   */
+  static isExhausted(candidate: SchedulingCandidate, model: string, now: number): boolean {
+    const quota = this.findModelQuota(candidate.quota, model);
+    return !!quota && quota.percentage <= 0 && (quota.resetAt === null || quota.resetAt > now);
+  }
+
+  pick(
+    strategy: SchedulingStrategy,
+    candidates: SchedulingCandidate[],
+    context: SchedulingContext,
+  ): SchedulingCandidate | null {
+    const available = context.model
+      ? candidates.filter((c) => !AccountScheduler.isExhausted(c, context.model!, context.now))
+      : candidates;
+    if (available.length === 0) return null;
+
+    const chosen = (STRATEGIES[strategy] || STRATEGIES['round-robin'])(this, available, context);
+    this.selections.set(chosen.id, this.selectionCount(chosen.id) + 1);
+    return chosen;
+  }
+
+  nextCursor(): number {
+    return this.cursor++;
+  }
+
+  selectionCount(id: string): number {
+    return this.selections.get(id) || 0;
+  }
+
+  /**
+   * Smooth weighted round-robin: spreads picks in proportion to the weights without bursts.
+   * Accounts without a configured weight count as 1; a weight of 0 disables the account.
+   */
+  pickWeighted(
+    candidates: SchedulingCandidate[],
+    weights: Record<string, number>,
+  ): SchedulingCandidate {
+    const weightOf = (c: SchedulingCandidate) => Math.max(0, weights[c.id] ?? 1);
+    const weighted = candidates.filter((c) => weightOf(c) > 0);
+    if (weighted.length === 0) return candidates[0];
+
+    let total = 0;
+    for (const candidate of weighted) {
+      const weight = weightOf(candidate);
+      total += weight;
+      this.credits.set(candidate.id, (this.credits.get(candidate.id) || 0) + weight);
+    }
+
+    const chosen = minBy(weighted, (c) => -(this.credits.get(c.id) || 0));
+    this.credits.set(chosen.id, (this.credits.get(chosen.id) || 0) - total);
+    return chosen;
+  }
+}
@@ -0,0 +1,114 @@
+import { ApiKeyProtocol, VirtualApiKey } from '../../../types/apiKey';
+import { parseModelAction } from '../../../lib/antigravity/GeminiRequestMapper';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export type ApiKeyRejection = { status: 401 | 403 | 429; message: string } | null;
+
+interface PolicyRequest {
+  url: string;
+  body?: unknown;
+  params?: unknown;
+}
+
+/**
+ * Enforcement rules for virtual API keys: protocol, model allow-list, expiry,
+ * revocation, per-minute rate limit and daily token budget.
+ * Rate limit windows are kept in memory and reset when the gateway restarts.
+ */
+export class ApiKeyPolicy {
+  private static readonly windows = new Map<string, number[]>();
+
+  /**
+   * Infers the client protocol from the request path.
+   */
+  static detectProtocol(url: string): Exclude<ApiKeyProtocol, 'any'> {
+    const path = url.split('?')[0];
+    if (path.startsWith('/v1/messages')) return 'anthropic';
+    if (path.startsWith('/v1beta/') || path.startsWith('/v1internal')) return 'gemini';
+    if (path.startsWith('/api/')) return 'ollama';
+    return 'openai';
+  }
+
+  /**
+   * Matches a model against an allow-list of exact names and `prefix-*` patterns.
+   * An empty list allows every model.
+   */
+  static isModelAllowed(model: string, allowed: string[]): boolean {
+    if (allowed.length === 0) return true;
+    return allowed.some((pattern) =>
+      pattern.endsWith('*') ? model.startsWith(pattern.slice(0, -1)) : model === pattern,
+    );
+  }
+
+  /**
+   * Extracts the requested model from the JSON body or the Gemini `:modelAction` path segment.
+   */
+  static resolveModel(request: PolicyRequest): string | undefined {
+    const body = request.body as { model?: unknown } | undefined;
+    if (typeof body?.model === 'string') return body.model;
+
+    const params = request.params as { modelAction?: unknown } | undefined;
+    if (typeof params?.modelAction === 'string') {
+      return parseModelAction(params.modelAction)?.model;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns why the key may not serve this request, or null when it may.
+   * Counts the request against the rate limit only when everything else passes.
+   */
+  static evaluate(key: VirtualApiKey, request: PolicyRequest, now = Date.now()): ApiKeyRejection {
+    if (key.revoked_at) {
+      return { status: 401, message: 'API key has been revoked' };
+    }
+    if (key.expires_at && key.expires_at * 1000 <= now) {
+      return { status: 401, message: 'API key has expired' };
+    }
+
+    const protocol = this.detectProtocol(request.url);
+    if (key.protocol !== 'any' && key.protocol !== protocol) {
+      return {
+        status: 403,
+        message: `API key is restricted to the ${key.protocol} protocol`,
+      };
+    }
+
+    const model = this.resolveModel(request);
+    if (model && !this.isModelAllowed(model, key.allowed_models)) {
+      return { status: 403, message: `API key is not allowed to use model '${model}'` };
+    }
+
+    if (key.daily_token_budget && key.tokens_used_today >= key.daily_token_budget) {
+      return { status: 429, message: 'API key has exhausted its daily token budget' };
+    }
+
+    if (key.rate_limit_rpm && !this.consumeRateLimit(key.id, key.rate_limit_rpm, now)) {
+      return {
+        status: 429,
+        message: `API key rate limit exceeded (${key.rate_limit_rpm} requests per minute)`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Sliding one-minute window. Returns false when the key is over its limit.
+   */
+  private static consumeRateLimit(keyId: string, rpm: number, now: number): boolean {
+    const recent = (this.windows.get(keyId) || []).filter((t) => now - t < RATE_WINDOW_MS);
+    if (recent.length >= rpm) {
+      this.windows.set(keyId, recent);
+      return false;
+    }
+    recent.push(now);
+    this.windows.set(keyId, recent);
+    return true;
+  }
+
+  static resetRateLimits() {
+    this.windows.clear();
+  }
+}
@@ -0,0 +1,67 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CloudAccount } from '../../../types/cloudAccount';
+import { UpstreamError } from '../../../lib/antigravity/upstream-errors';
+
+/** Chain entries like `local-ollama:qwen2.5-coder` address one local model directly */
+const LOCAL_TARGET_PATTERN = /^local-(ollama|lmstudio):(.+)$/;
+
+export interface LocalTarget {
+  provider: Extract<CloudAccount['provider'], `local-${string}`>;
+  model: string;
+  /** Id the local discovery registers the model under */
+  accountId: string;
+}
+
+function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '').toLowerCase();
+}
+
+/**
+ * Cross-provider fallback chains: when a model cannot answer, the models configured for it
+ * are tried in order.
+ */
+export class FallbackChain {
+  /**
+   * The models to try for a request: the requested one first, then its chain.
+   * Chains are looked up case-insensitively and duplicates are skipped.
+   */
+  static resolve(model: string, chains: Record<string, string[]>): string[] {
+    const target = normalizeModel(model);
+    const entry = Object.entries(chains).find(([name]) => normalizeModel(name) === target);
+
+    const result = [model];
+    for (const candidate of entry?.[1] || []) {
+      const trimmed = candidate.trim();
+      if (trimmed && !result.some((m) => normalizeModel(m) === normalizeModel(trimmed))) {
+        result.push(trimmed);
+      }
+    }
+    return result;
+  }
+
+  static parseLocalTarget(model: string): LocalTarget | null {
+    const match = LOCAL_TARGET_PATTERN.exec(model);
+    if (!match) return null;
+    return {
+      provider: `local-${match[1]}` as LocalTarget['provider'],
+      model: match[2],
+      accountId: `local-${match[1]}-${match[2]}`,
+    };
+  }
+
+  /**
+   * Client errors would fail the same way on any model, so they end the chain.
+   * Rate limits, missing accounts and upstream failures move on to the next model.
+   */
+  static canFallBack(error: unknown): boolean {
+    let status: number;
+    if (error instanceof HttpException) status = error.getStatus();
+    else if (error instanceof UpstreamError) status = error.status;
+    else return true;
+    return (
+      status >= 500 ||
+      status === HttpStatus.TOO_MANY_REQUESTS ||
+      status === HttpStatus.REQUEST_TIMEOUT
+    );
+  }
+}
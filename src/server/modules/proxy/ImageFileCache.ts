@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getImageCacheDir } from '../../../utils/paths';
+import { logger } from '../../../utils/logger';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+/** Generated images are only kept long enough for clients to download them */
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const FILE_NAME_PATTERN = /^[0-9a-f-]{36}\.(png|jpg|webp|gif)$/;
+
+/**
+ * Local file cache backing `response_format: "url"` for the Images API.
+ */
+export class ImageFileCache {
+  /**
+   * Writes a base64 image to disk and returns its file name.
+   */
+  static save(data: string, mimeType: string): string {
+    const dir = getImageCacheDir();
+    fs.mkdirSync(dir, { recursive: true });
+    this.prune(dir);
+
+    const fileName = `${uuidv4()}.${EXTENSIONS[mimeType] || 'png'}`;
+    fs.writeFileSync(path.join(dir, fileName), Buffer.from(data, 'base64'));
+    return fileName;
+  }
+
+  /**
+   * Resolves a cached file. Returns null for unknown, expired or malformed names.
+   */
+  static read(fileName: string): { buffer: Buffer; contentType: string } | null {
+    if (!FILE_NAME_PATTERN.test(fileName)) return null;
+
+    const filePath = path.join(getImageCacheDir(), fileName);
+    try {
+      const stat = fs.statSync(filePath);
+      if (Date.now() - stat.mtimeMs > MAX_AGE_MS) return null;
+      const ext = fileName.split('.').pop() as string;
+      return { buffer: fs.readFileSync(filePath), contentType: CONTENT_TYPES[ext] };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Removes files older than MAX_AGE_MS.
+   */
+  private static prune(dir: string) {
+    try {
+      const now = Date.now();
+      for (const name of fs.readdirSync(dir)) {
+        const filePath = path.join(dir, name);
+        if (now - fs.statSync(filePath).mtimeMs > MAX_AGE_MS) {
+          fs.unlinkSync(filePath);
+        }
+      }
+    } catch (e) {
+      logger.warn('[ImageFileCache] Failed to prune expired images', e);
+    }
+  }
+}
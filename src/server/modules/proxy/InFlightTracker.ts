@@ -0,0 +1,120 @@
+import { FastifyReply } from 'fastify';
+import { InFlightRequest } from '../../../types/inflight';
+import { logger } from '../../../utils/logger';
+import { LedgerRecord, RequestLedger } from './RequestLedger';
+import { ResponseStream, StreamFailure } from './ResponseStream';
+
+interface InFlightEntry {
+  id: string;
+  record: LedgerRecord;
+  client: string;
+  reply: FastifyReply;
+  /** Set by streamed responses, which end with an error event instead of a cut connection */
+  abort: ((failure: StreamFailure) => void) | null;
+}
+
+/**
+ * Requests the gateway is serving right now. On shutdown it stops admitting new requests,
+ * waits for the running ones to finish and ends whatever is left with a protocol error.
+ */
+export class InFlightTracker {
+  private static entries = new Map<LedgerRecord, InFlightEntry>();
+  private static idleWaiters: (() => void)[] = [];
+  private static draining = false;
+  private static sequence = 0;
+
+  static begin(record: LedgerRecord, reply: FastifyReply, client: string | undefined): void {
+    this.entries.set(record, {
+      id: String(++this.sequence),
+      record,
+      client: client ?? 'unknown',
+      reply,
+      abort: null,
+    });
+  }
+
+  static end(record: LedgerRecord): void {
+    if (!this.entries.delete(record) || this.entries.size > 0) return;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  static onAbort(record: LedgerRecord, abort: (failure: StreamFailure) => void): void {
+    const entry = this.entries.get(record);
+    if (entry) entry.abort = abort;
+  }
+
+  static isDraining(): boolean {
+    return this.draining;
+  }
+
+  static list(now = Date.now()): InFlightRequest[] {
+    return [...this.entries.values()].map(({ id, record, client }) => ({
+      id,
+      started_at: record.startedAt,
+      age_ms: now - record.startedAt,
+      client,
+      key_name: record.keyName,
+      protocol: record.protocol,
+      path: record.path,
+      model: record.resolvedModel ?? record.requestedModel,
+      account_id: record.accountId,
+      stream: record.stream,
+      streaming: record.firstChunkAt !== null,
+    }));
+  }
+
+  /**
+   * Refuses new requests, waits up to `timeoutMs` for the running ones and aborts the rest.
+   * Returns how many had to be aborted.
+   */
+  static async drain(timeoutMs: number): Promise<number> {
+    this.draining = true;
+
+    if (this.entries.size > 0) {
+      logger.info(
+        `Gateway: Waiting up to ${timeoutMs / 1000}s for ${this.entries.size} in-flight request(s)`,
+      );
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        const timer = setTimeout(done, timeoutMs);
+        this.idleWaiters.push(done);
+      });
+    }
+
+    const remaining = [...this.entries.values()];
+    for (const entry of remaining) {
+      logger.warn(`Gateway: Aborting ${entry.record.path} from ${entry.client} on shutdown`);
+      this.abort(entry, ResponseStream.SHUTDOWN);
+    }
+    return remaining.length;
+  }
+
+  /** Forgets all requests and admits new ones again, once the server has closed */
+  static reset(): void {
+    this.entries.clear();
+    this.idleWaiters = [];
+    this.draining = false;
+  }
+
+  private static abort(entry: InFlightEntry, failure: StreamFailure): void {
+    const { record, reply } = entry;
+    record.errorClass = record.errorClass ?? failure.type;
+
+    if (entry.abort) {
+      entry.abort(failure);
+    } else if (!reply.raw.headersSent) {
+      reply
+        .code(failure.status)
+        .header('Content-Type', 'application/json')
+        .send(ResponseStream.errorBody(record.protocol, failure));
+    } else {
+      reply.raw.destroy();
+    }
+    RequestLedger.abortUpstream(record);
+  }
+}
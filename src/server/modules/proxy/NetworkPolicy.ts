@@ -0,0 +1,118 @@
+import net from 'net';
+import { NetworkConfig } from '../../../types/config';
+
+const LOOPBACK_HOST = '127.0.0.1';
+const ALL_INTERFACES_HOST = '0.0.0.0';
+
+/**
+ * Which address the gateway listens on and which clients may reach it.
+ * Rules are plain addresses or CIDR ranges (`192.168.1.0/24`, `fd00::/8`); the deny list
+ * wins over the allow list, and an empty allow list admits every client.
+ */
+export class NetworkPolicy {
+  private static cached: { key: string; allow: net.BlockList; deny: net.BlockList } | null = null;
+
+  /**
+   * Host passed to `listen` for the configured bind mode.
+   */
+  static resolveBindHost(network?: NetworkConfig): string {
+    switch (network?.bind) {
+      case 'all':
+        return ALL_INTERFACES_HOST;
+      case 'interface':
+        return network.bind_address.trim() || LOOPBACK_HOST;
+      default:
+        return LOOPBACK_HOST;
+    }
+  }
+
+  static isLoopbackHost(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+  }
+
+  /**
+   * Returns why the gateway may not start with these settings, or null when it may.
+   * Listening beyond loopback without any API key would expose every account to the network.
+   */
+  static validate(network: NetworkConfig | undefined, openMode: boolean): string | null {
+    if (!network) return null;
+
+    const host = this.resolveBindHost(network);
+    if (network.bind === 'interface' && net.isIP(host) === 0) {
+      return `Bind address '${network.bind_address}' is not an IP address`;
+    }
+    if (!this.isLoopbackHost(host) && openMode) {
+      return 'Refusing to listen on the network while no API key is configured';
+    }
+
+    for (const rule of [...network.allow_cidrs, ...network.deny_cidrs]) {
+      if (!this.parseRule(rule)) return `Invalid address or CIDR range '${rule}'`;
+    }
+    if (network.tls.enabled && !network.tls.cert_path !== !network.tls.key_path) {
+      return 'A custom TLS certificate needs both a certificate and a key file';
+    }
+    return null;
+  }
+
+  /**
+   * Whether a client address passes the allow and deny lists.
+   */
+  static isAllowed(address: string | undefined, network?: NetworkConfig): boolean {
+    if (!network || (network.allow_cidrs.length === 0 && network.deny_cidrs.length === 0)) {
+      return true;
+    }
+    if (!address) return false;
+
+    const ip = this.normalize(address);
+    const type = net.isIPv6(ip) ? 'ipv6' : 'ipv4';
+    const { allow, deny } = this.lists(network);
+    if (deny.check(ip, type)) return false;
+    return network.allow_cidrs.length === 0 || allow.check(ip, type);
+  }
+
+  /**
+   * Parses `address` or `address/prefix`; returns null for anything else.
+   */
+  static parseRule(
+    rule: string,
+  ): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+    const [address, prefixText, ...rest] = rule.trim().split('/');
+    const version = net.isIP(address);
+    if (version === 0 || rest.length > 0) return null;
+
+    const type = version === 4 ? 'ipv4' : 'ipv6';
+    const maxPrefix = version === 4 ? 32 : 128;
+    if (prefixText === undefined) return { address, prefix: maxPrefix, type };
+
+    const prefix = Number(prefixText);
+    if (!/^\d+$/.test(prefixText) || prefix > maxPrefix) return null;
+    return { address, prefix, type };
+  }
+
+  private static lists(network: NetworkConfig) {
+    const key = JSON.stringify([network.allow_cidrs, network.deny_cidrs]);
+    if (this.cached?.key !== key) {
+      this.cached = {
+        key,
+        allow: this.buildList(network.allow_cidrs),
+        deny: this.buildList(network.deny_cidrs),
+      };
+    }
+    return this.cached;
+  }
+
+  private static buildList(rules: string[]): net.BlockList {
+    const list = new net.BlockList();
+    for (const rule of rules) {
+      const parsed = this.parseRule(rule);
+      if (parsed) list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+    }
+    return list;
+  }
+
+  /** IPv4 clients on a dual-stack socket show up as `::ffff:a.b.c.d` */
+  private static normalize(address: string): string {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    return mapped ? mapped[1] : address;
+  }
+}
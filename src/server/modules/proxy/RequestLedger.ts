@@ -0,0 +1,218 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
+import { RequestLogRepo } from '../../../ipc/database/requestLog';
+import { RequestLogEntry } from '../../../types/requestLog';
+import { classifyStreamError } from '../../../lib/antigravity/stream-error-utils';
+import { RateLimitError, UpstreamError } from '../../../lib/antigravity/upstream-errors';
+import { UsageBreakdown } from '../../../lib/antigravity/usage-utils';
+import { logger } from '../../../utils/logger';
+import { ApiKeyPolicy } from './ApiKeyPolicy';
+
+/** How long a closed response waits for its stream to report usage before it is written anyway */
+const STREAM_SETTLE_GRACE_MS = 5000;
+
+/**
+ * Mutable per-request state collected while a proxy request is served.
+ * Fields are filled in by the controller and ProxyService as they become known.
+ */
+export interface LedgerRecord {
+  startedAt: number;
+  keyId: string | null;
+  keyName: string | null;
+  /** Models the key may use, fallback models included; empty allows every model */
+  allowedModels: string[];
+  protocol: string;
+  path: string;
+  requestedModel: string | null;
+  resolvedModel: string | null;
+  accountId: string | null;
+  fallbackModel: string | null;
+  stream: boolean;
+  firstChunkAt: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheHit: boolean;
+  errorClass: string | null;
+  status: number | null;
+  finishedAt: number | null;
+  streamOpen: boolean;
+  written: boolean;
+  /** Aborted once the client is gone, cancelling the upstream call still running for it */
+  upstream: AbortController;
+}
+
+export type LedgerAnnotation = Partial<
+  Pick<
+    LedgerRecord,
+    'resolvedModel' | 'accountId' | 'cacheHit' | 'requestedModel' | 'fallbackModel'
+  >
+>;
+
+/**
+ * Request ledger: tracks each proxied request through an AsyncLocalStorage context and
+ * writes one `request_log` row when the response (and its stream, if any) has finished.
+ */
+export class RequestLedger {
+  private static storage = new AsyncLocalStorage<LedgerRecord>();
+
+  static begin(
+    request: Pick<FastifyRequest, 'url' | 'body' | 'params' | 'apiKey'>,
+    now = Date.now(),
+  ): LedgerRecord {
+    const body = request.body as { stream?: unknown } | undefined;
+    const path = request.url.split('?')[0];
+
+    return {
+      startedAt: now,
+      keyId: request.apiKey?.id ?? null,
+      keyName: request.apiKey?.name ?? null,
+      allowedModels: request.apiKey?.allowedModels ?? [],
+      protocol: ApiKeyPolicy.detectProtocol(request.url),
+      path,
+      requestedModel: ApiKeyPolicy.resolveModel(request) ?? null,
+      resolvedModel: null,
+      accountId: null,
+      fallbackModel: null,
+      stream: body?.stream === true || path.includes(':streamGenerateContent'),
+      firstChunkAt: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheHit: false,
+      errorClass: null,
+      status: null,
+      finishedAt: null,
+      streamOpen: false,
+      written: false,
+      upstream: new AbortController(),
+    };
+  }
+
+  static run<T>(record: LedgerRecord, fn: () => T): T {
+    return this.storage.run(record, fn);
+  }
+
+  static current(): LedgerRecord | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Signal for upstream calls made on behalf of the request being served.
+   */
+  static signal(): AbortSignal | undefined {
+    return this.current()?.upstream.signal;
+  }
+
+  static abortUpstream(record: LedgerRecord): void {
+    if (!record.upstream.signal.aborted) record.upstream.abort();
+  }
+
+  /**
+   * Records details of the request being served. No-op outside a ledger context.
+   */
+  static annotate(annotation: LedgerAnnotation): void {
+    const record = this.current();
+    if (record) Object.assign(record, annotation);
+  }
+
+  static markFirstChunk(record: LedgerRecord, now = Date.now()): void {
+    if (record.firstChunkAt === null) record.firstChunkAt = now;
+  }
+
+  static recordUsage(record: LedgerRecord, usage: UsageBreakdown): void {
+    // Upstreams that only report a total are booked as input
+    record.inputTokens = usage.input || (usage.output ? 0 : usage.total);
+    record.outputTokens = usage.output;
+  }
+
+  static recordError(error: unknown, record = this.current()): void {
+    if (record && !record.errorClass) record.errorClass = this.classifyError(error);
+  }
+
+  static classifyError(error: unknown): string {
+    if (error instanceof HttpException) return this.classifyStatus(error.getStatus());
+    if (error instanceof RateLimitError) return 'rate_limited';
+    if (error instanceof UpstreamError) return this.classifyStatus(error.status);
+
+    const message = error instanceof Error ? error.message : String(error);
+    const lower = message.toLowerCase();
+    if (lower.includes('429') || lower.includes('quota') || lower.includes('resource_exhausted')) {
+      return 'rate_limited';
+    }
+    return classifyStreamError(error instanceof Error ? error : new Error(message)).type;
+  }
+
+  static classifyStatus(status: number): string {
+    switch (status) {
+      case HttpStatus.BAD_REQUEST:
+        return 'invalid_request';
+      case HttpStatus.UNAUTHORIZED:
+      case HttpStatus.FORBIDDEN:
+        return 'auth_error';
+      case HttpStatus.NOT_FOUND:
+        return 'not_found';
+      case HttpStatus.TOO_MANY_REQUESTS:
+        return 'rate_limited';
+      default:
+        return status >= 500 ? 'server_error' : 'http_error';
+    }
+  }
+
+  /** Marks a streamed response body whose usage arrives only once it settles */
+  static openStream(record: LedgerRecord): void {
+    record.streamOpen = true;
+  }
+
+  static settleStream(record: LedgerRecord): void {
+    record.streamOpen = false;
+    if (record.status !== null) this.write(record);
+  }
+
+  /**
+   * Called when the HTTP response has closed. Streams that are still draining get a grace
+   * period to report their usage before the row is written.
+   */
+  static finish(record: LedgerRecord, status: number, now = Date.now()): void {
+    record.status = status;
+    record.finishedAt = now;
+    if (!record.streamOpen) {
+      this.write(record);
+      return;
+    }
+    setTimeout(() => this.write(record), STREAM_SETTLE_GRACE_MS).unref();
+  }
+
+  static toEntry(record: LedgerRecord, now = Date.now()): Omit<RequestLogEntry, 'id'> {
+    const status = record.status ?? HttpStatus.INTERNAL_SERVER_ERROR;
+    return {
+      timestamp: Math.floor(record.startedAt / 1000),
+      key_id: record.keyId,
+      key_name: record.keyName,
+      protocol: record.protocol,
+      path: record.path,
+      requested_model: record.requestedModel,
+      resolved_model: record.resolvedModel,
+      account_id: record.accountId,
+      stream: record.stream,
+      latency_ms: (record.finishedAt ?? now) - record.startedAt,
+      ttft_ms: record.firstChunkAt !== null ? record.firstChunkAt - record.startedAt : null,
+      input_tokens: record.inputTokens,
+      output_tokens: record.outputTokens,
+      cache_hit: record.cacheHit,
+      status,
+      error_class: record.errorClass ?? (status >= 400 ? this.classifyStatus(status) : null),
+      fallback_model: record.fallbackModel,
+    };
+  }
+
+  private static write(record: LedgerRecord): void {
+    if (record.written) return;
+    record.written = true;
+
+    try {
+      RequestLogRepo.insert(this.toEntry(record));
+    } catch (e) {
+      logger.error('[RequestLedger] Failed to write request log entry', e);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { Readable } from 'stream';
+import { classifyStreamError } from '../../../lib/antigravity/stream-error-utils';
+import { OllamaStreamingState } from '../../../lib/antigravity/OllamaMapper';
+
+/** Why a response ended early, in terms each protocol can express */
+export interface StreamFailure {
+  type: string;
+  message: string;
+  status: number;
+}
+
+/** Turns the chunks of a proxied stream into what goes on the wire */
+export interface StreamFormat {
+  next(chunk: string): string[];
+  error(failure: StreamFailure): string[];
+  complete(): string[];
+}
+
+export interface ResponseStreamHandle {
+  stream: Readable;
+  /** Ends the response with the protocol's error event and unsubscribes from the upstream */
+  abort(failure: StreamFailure): void;
+}
+
+/**
+ * Bridges the Observables returned by ProxyService to the Readable streams Fastify can send,
+ * and formats mid-stream errors the way each client protocol reports them.
+ */
+export class ResponseStream {
+  static readonly SHUTDOWN: StreamFailure = {
+    type: 'gateway_shutdown',
+    message: 'The gateway is shutting down; retry the request',
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+  };
+
+  /**
+   * Subscribes to the source once. Destroying the stream (client gone) unsubscribes.
+   */
+  static open(source: Observable<string>, format: StreamFormat): ResponseStreamHandle {
+    let ended = false;
+    let lastChunk = '';
+    const push = (chunks: string[]) =>
+      chunks.forEach((chunk) => {
+        lastChunk = chunk;
+        stream.push(chunk);
+      });
+    const end = (chunks: string[]) => {
+      if (ended) return;
+      ended = true;
+      push(chunks);
+      stream.push(null);
+    };
+
+    const stream = new Readable({
+      read() {},
+      destroy(error, callback) {
+        ended = true;
+        subscription.unsubscribe();
+        callback(error);
+      },
+    });
+
+    const subscription = source.subscribe({
+      next: (chunk) => {
+        if (!ended) push(format.next(chunk));
+      },
+      // The Anthropic pipeline emits its own error event before failing
+      error: (error) =>
+        end(lastChunk.startsWith('event: error') ? [] : format.error(this.toFailure(error))),
+      complete: () => end(format.complete()),
+    });
+
+    return {
+      stream,
+      abort: (failure) => {
+        end(format.error(failure));
+        subscription.unsubscribe();
+      },
+    };
+  }
+
+  /** SSE chunks pass through unchanged; errors become the protocol's error event */
+  static sse(protocol: string, path: string): StreamFormat {
+    return {
+      next: (chunk) => [chunk],
+      error: (failure) => [this.errorEvent(protocol, path, failure)],
+      complete: () => [],
+    };
+  }
+
+  static ollama(state: OllamaStreamingState): StreamFormat {
+    return {
+      next: (chunk) => state.process(chunk),
+      error: (failure) => state.fail(failure.message),
+      complete: () => state.finish(),
+    };
+  }
+
+  static errorEvent(protocol: string, path: string, failure: StreamFailure): string {
+    const body = JSON.stringify(this.errorBody(protocol, failure));
+    if (protocol === 'anthropic') return `event: error\ndata: ${body}\n\n`;
+    if (protocol === 'ollama') return `${body}\n`;
+    if (path.startsWith('/v1/responses')) {
+      const event = { type: 'error', code: failure.type, message: failure.message, param: null };
+      return `event: error\ndata: ${JSON.stringify(event)}\n\n`;
+    }
+    return `data: ${body}\n\n`;
+  }
+
+  /** Error body of a response that has not started yet */
+  static errorBody(protocol: string, failure: StreamFailure): object {
+    switch (protocol) {
+      case 'anthropic':
+        return {
+          type: 'error',
+          error: {
+            type:
+              failure.status === HttpStatus.SERVICE_UNAVAILABLE ? 'overloaded_error' : failure.type,
+            message: failure.message,
+          },
+        };
+      case 'gemini':
+        return {
+          error: {
+            code: failure.status,
+            message: failure.message,
+            status: failure.status === HttpStatus.SERVICE_UNAVAILABLE ? 'UNAVAILABLE' : 'INTERNAL',
+          },
+        };
+      case 'ollama':
+        return { error: failure.message };
+      default:
+        return { error: { message: failure.message, type: 'server_error', code: failure.type } };
+    }
+  }
+
+  static toFailure(error: unknown): StreamFailure {
+    const { type, message } = classifyStreamError(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    const status =
+      error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+    return { type, message, status };
+  }
+}
@@ -0,0 +1,187 @@
+import { HnswIndex, HnswMatch, SerializedHnsw } from '../../../lib/antigravity/HnswIndex';
+import { SemanticCacheRepo } from '../../../ipc/database/semanticCache';
+import { logger } from '../../../utils/logger';
+import { IndexRebuildResult } from '../../../types/semanticCache';
+
+/** Contexts with at most this many entries are compared exhaustively instead of via the graph */
+const EXACT_SEARCH_LIMIT = 256;
+/** Graph rebuild once this share of its nodes belongs to deleted entries */
+const COMPACT_DELETED_RATIO = 0.3;
+const PERSIST_DELAY_MS = 30 * 1000;
+
+interface IndexedEntry {
+  contextHash: string;
+  createdAt: number; // Unix timestamp
+}
+
+/**
+ * In-memory ANN index over the semantic cache embeddings.
+ *
+ * Loaded when the gateway starts and kept in sync as entries are stored and evicted. The HNSW
+ * graph is saved to `semantic_cache_index` so a restart only reads vectors instead of rebuilding.
+ * Similarity matches are restricted to entries that share the request context; small contexts
+ * are scanned exactly, larger ones go through the graph with a context filter.
+ */
+export class SemanticCacheIndex {
+  private static index: HnswIndex | null = null;
+  private static entries = new Map<string, IndexedEntry>();
+  private static contexts = new Map<string, Set<string>>();
+  private static persistTimer: NodeJS.Timeout | null = null;
+
+  static get size(): number {
+    return this.index?.size ?? 0;
+  }
+
+  /**
+   * Loads the saved graph, or rebuilds it from the stored vectors when it is missing or stale.
+   */
+  static load(): void {
+    try {
+      const vectors = SemanticCacheRepo.loadVectors();
+      const saved = SemanticCacheRepo.loadIndex();
+      const restored = saved
+        ? HnswIndex.deserialize(
+            JSON.parse(saved) as SerializedHnsw,
+            new Map(vectors.map((v) => [v.id, v.embedding])),
+          )
+        : null;
+
+      if (restored) {
+        this.reset(restored);
+        for (const v of vectors) this.track(v.id, v.context_hash, v.created_at);
+        logger.info(`[SemanticCache] Loaded vector index (${restored.size} entries)`);
+      } else {
+        this.rebuild();
+      }
+    } catch (e) {
+      logger.error('[SemanticCache] Failed to load vector index', e);
+      this.reset(new HnswIndex());
+    }
+  }
+
+  /**
+   * Builds a fresh graph from every stored vector and saves it.
+   */
+  static rebuild(): IndexRebuildResult {
+    const started = Date.now();
+    const index = new HnswIndex();
+    this.reset(index);
+    for (const v of SemanticCacheRepo.loadVectors()) {
+      try {
+        index.add(v.id, v.embedding);
+        this.track(v.id, v.context_hash, v.created_at);
+      } catch (e) {
+        // Embeddings from an older embedding model can have another size
+        logger.warn(`[SemanticCache] Skipped entry ${v.id} while indexing`, e);
+      }
+    }
+    this.persist();
+
+    const result = { entries: index.size, duration_ms: Date.now() - started };
+    logger.info(
+      `[SemanticCache] Rebuilt vector index (${result.entries} entries, ${result.duration_ms}ms)`,
+    );
+    return result;
+  }
+
+  static add(id: string, embedding: Float32Array, contextHash: string, createdAt: number): void {
+    const index = this.ensureLoaded();
+    try {
+      index.add(id, embedding);
+      this.track(id, contextHash, createdAt);
+      this.schedulePersist();
+    } catch (e) {
+      logger.warn(`[SemanticCache] Could not index entry ${id}`, e);
+    }
+  }
+
+  static remove(ids: string[]): void {
+    if (!this.index || ids.length === 0) return;
+    for (const id of ids) {
+      this.index.remove(id);
+      const entry = this.entries.get(id);
+      if (!entry) continue;
+      this.entries.delete(id);
+      const context = this.contexts.get(entry.contextHash);
+      context?.delete(id);
+      if (context?.size === 0) this.contexts.delete(entry.contextHash);
+    }
+    if (this.index.deletedRatio > COMPACT_DELETED_RATIO) {
+      this.index = this.index.compact();
+    }
+    this.schedulePersist();
+  }
+
+  static clear(): void {
+    this.reset(new HnswIndex());
+    this.persist();
+  }
+
+  /**
+   * Most similar unexpired entry within the request context, if it reaches the threshold.
+   */
+  static search(
+    embedding: Float32Array,
+    contextHash: string,
+    threshold: number,
+    expiresBefore: number,
+  ): HnswMatch | null {
+    const index = this.ensureLoaded();
+    const context = this.contexts.get(contextHash);
+    if (!context) return null;
+
+    const accept = (id: string) =>
+      context.has(id) && (this.entries.get(id)?.createdAt ?? 0) >= expiresBefore;
+    const [best] =
+      context.size <= EXACT_SEARCH_LIMIT
+        ? index.bruteForce(embedding, 1, accept, context)
+        : index.search(embedding, 1, accept);
+    return best && best.similarity >= threshold ? best : null;
+  }
+
+  /**
+   * Saves pending index changes now. Called when the gateway stops.
+   */
+  static flush(): void {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.persist();
+  }
+
+  private static ensureLoaded(): HnswIndex {
+    if (!this.index) this.load();
+    return this.index!;
+  }
+
+  private static reset(index: HnswIndex): void {
+    this.index = index;
+    this.entries.clear();
+    this.contexts.clear();
+  }
+
+  private static track(id: string, contextHash: string, createdAt: number): void {
+    this.entries.set(id, { contextHash, createdAt });
+    const context = this.contexts.get(contextHash) ?? new Set<string>();
+    context.add(id);
+    this.contexts.set(contextHash, context);
+  }
+
+  private static schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private static persist(): void {
+    if (!this.index) return;
+    try {
+      SemanticCacheRepo.saveIndex(JSON.stringify(this.index.serialize()), this.index.size);
+    } catch (e) {
+      logger.error('[SemanticCache] Failed to save vector index', e);
+    }
+  }
+}
@@ -1,28 +1,177 @@
+import crypto from 'crypto';
 import { Observable, Subscriber } from 'rxjs';
 import { SemanticCacheRepo } from '../../../ipc/database/semanticCache';
 import { GoogleAPIService } from '../../../services/GoogleAPIService';
 import { logger } from '../../../utils/logger';
+import { DEFAULT_APP_CONFIG, SemanticCacheConfig } from '../../../types/config';
+import { SemanticCacheStats } from '../../../types/semanticCache';
+import { getServerConfig } from '../../server-config';
+import { ApiKeyPolicy } from './ApiKeyPolicy';
+import { RequestLedger } from './RequestLedger';
+import { SemanticCacheIndex } from './SemanticCacheIndex';
+import { AnthropicChatRequest, OpenAIChatRequest } from './interfaces/request-interfaces';
 
+type CacheableRequest = AnthropicChatRequest | OpenAIChatRequest;
+
+/** Fields that change how a response is delivered, not what it says */
+const TRANSPORT_FIELDS = ['stream', 'stream_options', 'metadata', 'user'];
+
+/** Content part types that mean the conversation is using tools */
+const TOOL_PART_TYPES = ['tool_use', 'tool_result', 'server_tool_use'];
+
+/**
+ * A request the cache may answer, with the hashes it is stored under.
+ */
+export interface CacheLookup {
+  model: string;
+  /** Last user message text, embedded for similarity matches */
+  prompt: string;
+  /** Hash of the whole request and the API key */
+  requestHash: string;
+  /** Hash of the request with the last user message text left out, and the API key */
+  contextHash: string;
+  /** Set by the lookup so storing the answer does not embed the prompt again */
+  embedding?: Float32Array | null;
+}
+
+/**
+ * Stable JSON with sorted object keys, so equal requests hash the same.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hash(value: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function partsOf(content: unknown): Record<string, unknown>[] {
+  return Array.isArray(content) ? (content as Record<string, unknown>[]) : [];
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  return partsOf(content)
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Semantic response cache for cloud requests.
+ *
+ * Opt-in per API key and per model, with entries kept apart per key. Exact matches use a hash
+ * of the whole request; similarity matches compare only the last user message and only against
+ * entries whose remaining request (system prompt, history, tools, model, sampling parameters)
+ * is identical. Requests that use tools, images or a temperature other than 0 are never cached,
+ * since their answers are not meant to repeat.
+ */
 export class SemanticCacheManager {
+  private static counters = { lookups: 0, exact_hits: 0, semantic_hits: 0, bypassed: 0 };
+
+  /**
+   * Returns the cache lookup for a request, or null when the cache must not be used for it.
+   * @param keyId API key serving the request; defaults to the one in the request ledger
+   */
+  static prepare(
+    request: CacheableRequest,
+    keyId: string | null = RequestLedger.current()?.keyId ?? null,
+  ): CacheLookup | null {
+    const config = this.config();
+    if (!config.enabled) return null;
+    if (config.key_ids.length > 0 && (!keyId || !config.key_ids.includes(keyId))) return null;
+    if (!ApiKeyPolicy.isModelAllowed(request.model, config.models)) return null;
+
+    const reason = this.bypassReason(request);
+    if (reason) {
+      this.counters.bypassed++;
+      logger.debug(`[SemanticCache] Bypassed: ${reason}`);
+      return null;
+    }
+
+    const body = Object.fromEntries(
+      Object.entries(request).filter(([field]) => !TRANSPORT_FIELDS.includes(field)),
+    );
+    const messages = request.messages as { role: string; content: unknown }[];
+    const lastUser = messages.map((m) => m.role).lastIndexOf('user');
+    const context = {
+      ...body,
+      messages: messages.map((message, i) =>
+        i !== lastUser
+          ? message
+          : {
+              ...message,
+              content:
+                typeof message.content === 'string'
+                  ? ''
+                  : partsOf(message.content).map((part) =>
+                      part.type === 'text' ? { ...part, text: '' } : part,
+                    ),
+            },
+      ),
+    };
+
+    return {
+      model: request.model,
+      prompt: lastUser >= 0 ? textOf(messages[lastUser].content) : '',
+      // Entries are scoped to the key, so one key never receives another key's answers
+      requestHash: hash({ keyId, body }),
+      contextHash: hash({ keyId, context }),
+    };
+  }
+
   /**
    * Attempts to retrieve a cached response using both exact and semantic matching.
    */
-  static async findResponse(prompt: string, accessToken: string): Promise<string | null> {
-    // 1. O(1) Exact Match Check
-    const exactHit = SemanticCacheRepo.findExact(prompt);
+  static async findResponse(
+    lookup: CacheLookup,
+    accessToken: string,
+    accountId?: string,
+  ): Promise<string | null> {
+    const config = this.config();
+    const expiresBefore = this.expiresBefore(config);
+    this.counters.lookups++;
+
+    // 1. Exact Match Check
+    const exactHit = SemanticCacheRepo.findExact(lookup.requestHash, expiresBefore);
     if (exactHit) {
-      logger.info('[SemanticCache] Exact Hit Managed (0ms latency)');
+      this.counters.exact_hits++;
+      logger.info('[SemanticCache] Exact hit');
       return exactHit;
     }
+    if (!lookup.prompt.trim()) return null;
 
     // 2. Vector Semantic Check
     try {
-      const embedding = await GoogleAPIService.fetchEmbedding(prompt, accessToken);
-      const semanticHit = SemanticCacheRepo.findSemantic(embedding);
-      if (semanticHit) {
+      lookup.embedding = await GoogleAPIService.fetchEmbedding(
+        lookup.prompt,
+        accessToken,
+        accountId,
+      );
+      const match = SemanticCacheIndex.search(
+        lookup.embedding,
+        lookup.contextHash,
+        config.similarity_threshold,
+        expiresBefore,
+      );
+      const semanticHit = match ? SemanticCacheRepo.hit(match.id) : null;
+      if (match && semanticHit === null) {
+        SemanticCacheIndex.remove([match.id]);
+      }
+      if (match && semanticHit !== null) {
+        this.counters.semantic_hits++;
+        logger.info(`[SemanticCache] Semantic hit detected (sim: ${match.similarity.toFixed(4)})`);
         return semanticHit;
       }
     } catch (e) {
+      lookup.embedding = null;
       logger.warn('[SemanticCache] Semantic lookup skipped due to embedding failure', e);
     }
 
@@ -31,47 +180,134 @@ export class SemanticCacheManager {
 
   /**
    * Encapsulates a result in the cache for future use.
+   * Entries whose prompt could not be embedded are kept for exact matches only.
    */
-  static async captureAndStore(prompt: string, response: string, model: string, accessToken: string) {
-    try {
-      const embedding = await GoogleAPIService.fetchEmbedding(prompt, accessToken);
-      await SemanticCacheRepo.save({
-        prompt_text: prompt,
-        response: response,
-        model: model,
-        embedding: embedding
-      });
-    } catch (e) {
-      logger.error('[SemanticCache] Background caching failed', e);
+  static async captureAndStore(
+    lookup: CacheLookup,
+    response: string,
+    accessToken: string,
+    accountId?: string,
+  ) {
+    let embedding = lookup.embedding ?? null;
+    if (lookup.embedding === undefined && lookup.prompt.trim()) {
+      try {
+        embedding = await GoogleAPIService.fetchEmbedding(lookup.prompt, accessToken, accountId);
+      } catch (e) {
+        logger.warn('[SemanticCache] Storing without embedding', e);
+      }
+    }
+
+    const config = this.config();
+    const written = SemanticCacheRepo.save(
+      {
+        request_hash: lookup.requestHash,
+        context_hash: lookup.contextHash,
+        prompt_text: lookup.prompt,
+        embedding,
+        response,
+        model: lookup.model,
+      },
+      { expiresBefore: this.expiresBefore(config), maxEntries: config.max_entries },
+    );
+    if (!written) return;
+
+    SemanticCacheIndex.remove(written.removed_ids);
+    if (embedding) {
+      SemanticCacheIndex.add(written.id, embedding, lookup.contextHash, written.created_at);
     }
   }
 
+  /**
+   * Deletes one cached response, or all of them when no id is given.
+   */
+  static purge(id?: string): number {
+    const purged = SemanticCacheRepo.purge(id);
+    if (id) SemanticCacheIndex.remove([id]);
+    else SemanticCacheIndex.clear();
+    return purged;
+  }
+
+  static stats(): SemanticCacheStats {
+    return {
+      entries: SemanticCacheRepo.count(),
+      indexed: SemanticCacheIndex.size,
+      ...this.counters,
+    };
+  }
+
   /**
    * Creates an SSE stream from a cached string.
    * PhD Level: Mimic real streaming behavior for UI consistency.
    */
-  static createMockStream(content: string, model: string, isAnthropic: boolean): Observable<string> {
+  static createMockStream(
+    content: string,
+    model: string,
+    isAnthropic: boolean,
+  ): Observable<string> {
     return new Observable<string>((subscriber: Subscriber<string>) => {
-        if (isAnthropic) {
-            // Anthropic SSE Format
-            subscriber.next(`data: {"type": "message_start", "message": {"id": "cache_hit", "role": "assistant", "model": "${model}", "content": [], "usage": {"input_tokens": 0, "output_tokens": 0}}}\n\n`);
-            subscriber.next(`data: {"type": "content_block_start", "index": 0, "content_block": {"type": "text", "text": ""}}\n\n`);
-            subscriber.next(`data: {"type": "content_block_delta", "index": 0, "delta": {"type": "text_delta", "text": ${JSON.stringify(content)}}}\n\n`);
-            subscriber.next(`data: {"type": "content_block_stop", "index": 0}\n\n`);
-            subscriber.next(`data: {"type": "message_delta", "delta": {"stop_reason": "end_turn", "stop_sequence": null}, "usage": {"output_tokens": 0}}\n\n`);
-            subscriber.next(`data: {"type": "message_stop"}\n\n`);
-        } else {
-            // OpenAI SSE Format
-            subscriber.next(`data: ${JSON.stringify({
-                id: 'cache-hit',
-                object: 'chat.completion.chunk',
-                created: Math.floor(Date.now() / 1000),
-                model: model,
-                choices: [{ index: 0, delta: { content: content }, finish_reason: 'stop' }]
-            })}\n\n`);
-            subscriber.next('data: [DONE]\n\n');
-        }
-        subscriber.complete();
+      if (isAnthropic) {
+        // Anthropic SSE Format
+        subscriber.next(
+          `data: {"type": "message_start", "message": {"id": "cache_hit", "role": "assistant", "model": "${model}", "content": [], "usage": {"input_tokens": 0, "output_tokens": 0}}}\n\n`,
+        );
+        subscriber.next(
+          `data: {"type": "content_block_start", "index": 0, "content_block": {"type": "text", "text": ""}}\n\n`,
+        );
+        subscriber.next(
+          `data: {"type": "content_block_delta", "index": 0, "delta": {"type": "text_delta", "text": ${JSON.stringify(content)}}}\n\n`,
+        );
+        subscriber.next(`data: {"type": "content_block_stop", "index": 0}\n\n`);
+        subscriber.next(
+          `data: {"type": "message_delta", "delta": {"stop_reason": "end_turn", "stop_sequence": null}, "usage": {"output_tokens": 0}}\n\n`,
+        );
+        subscriber.next(`data: {"type": "message_stop"}\n\n`);
+      } else {
+        // OpenAI SSE Format
+        subscriber.next(
+          `data: ${JSON.stringify({
+            id: 'cache-hit',
+            object: 'chat.completion.chunk',
+            created: Math.floor(Date.now() / 1000),
+            model: model,
+            choices: [{ index: 0, delta: { content: content }, finish_reason: 'stop' }],
+          })}\n\n`,
+        );
+        subscriber.next('data: [DONE]\n\n');
+      }
+      subscriber.complete();
     });
   }
+
+  /**
+   * Why a request the cache is enabled for must not use it, or null when it may.
+   */
+  private static bypassReason(request: CacheableRequest): string | null {
+    if (request.temperature !== 0) return 'temperature is not 0';
+
+    const raw = request as CacheableRequest & { tools?: unknown[]; functions?: unknown[] };
+    if ((raw.tools?.length ?? 0) > 0 || (raw.functions?.length ?? 0) > 0) return 'tool use';
+
+    for (const message of request.messages as {
+      role: string;
+      content: unknown;
+      tool_calls?: unknown[];
+    }[]) {
+      if (message.role === 'tool' || (message.tool_calls?.length ?? 0) > 0) {
+        return 'tool use';
+      }
+      for (const part of partsOf(message.content)) {
+        if (TOOL_PART_TYPES.includes(part.type as string)) return 'tool use';
+        if (part.type === 'image' || part.type === 'image_url') return 'image input';
+      }
+    }
+    return null;
+  }
+
+  private static config(): SemanticCacheConfig {
+    return getServerConfig()?.semantic_cache ?? DEFAULT_APP_CONFIG.proxy.semantic_cache;
+  }
+
+  private static expiresBefore(config: SemanticCacheConfig): number {
+    return Math.floor(Date.now() / 1000) - config.ttl_seconds;
+  }
 }
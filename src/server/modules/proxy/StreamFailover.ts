@@ -0,0 +1,189 @@
+import { PassThrough, Readable } from 'stream';
+import { GeminiContent, GeminiPart } from '../../../lib/antigravity/types';
+import { unwrapGeminiResponse } from '../../../lib/antigravity/GeminiRequestMapper';
+import { logger } from '../../../utils/logger';
+
+export interface FailoverUpstream {
+  stream: Readable;
+  accountId: string;
+}
+
+/**
+ * Opens the same request on an account not tried yet. `contents` is the original
+ * conversation, followed by the partial model turn (thoughts, text and function calls with
+ * their signatures) when output had already started.
+ */
+export type ReopenUpstream = (
+  contents: GeminiContent[],
+  excludeAccountIds: string[],
+) => Promise<FailoverUpstream>;
+
+export interface StreamFailoverOptions {
+  /** Upstream requests per response, the first one included */
+  maxAttempts: number;
+  /** Set when the client is gone; no replacement is opened after it aborts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Mid-stream failover for Gemini SSE streams. The upstream is buffered until its first
+ * content part: a stream that dies before that is replaced by the same request on another
+ * account and the client never sees the failed attempt. Once output has started, a
+ * replacement continues the partial model turn, so the client sees one uninterrupted
+ * response; output that cannot be replayed as a model turn ends the stream with the error
+ * rather than repeating it. Returns a stream the SSE processors read exactly like an
+ * upstream body.
+ */
+export class StreamFailover {
+  static wrap(
+    first: FailoverUpstream,
+    contents: GeminiContent[],
+    reopen: ReopenUpstream,
+    options: StreamFailoverOptions,
+  ): Readable {
+    const output = new PassThrough();
+    const tried = [first.accountId];
+    let current: Readable | null = null;
+    let started = false;
+    // Lines held back until the first content part arrives
+    let pending: string[] = [];
+    // Parts of the current response, replayed as the model turn a replacement continues
+    let partialTurn: GeminiPart[] = [];
+
+    const forward = (line: string) => {
+      const parts = this.parts(line);
+      this.collect(partialTurn, parts);
+      if (started) {
+        output.write(`${line}\n`);
+        return;
+      }
+      pending.push(line);
+      if (parts.some((part) => part.text !== undefined || part.functionCall || part.inlineData)) {
+        started = true;
+        flush();
+      }
+    };
+
+    const flush = () => {
+      output.write(pending.map((line) => `${line}\n`).join(''));
+      pending = [];
+    };
+
+    const fail = (error: Error) => {
+      current = null;
+      if (options.signal?.aborted || tried.length >= options.maxAttempts) {
+        output.destroy(error);
+        return;
+      }
+
+      pending = [];
+      if (!started) partialTurn = [];
+      if (started && partialTurn.length === 0) {
+        // The client saw output that cannot be continued; a full replay would repeat it
+        output.destroy(error);
+        return;
+      }
+      logger.warn(
+        `StreamFailover: Upstream on ${tried[tried.length - 1]} failed (${error.message}), ` +
+          (started ? 'continuing the response' : 'retrying') +
+          ` on another account (${tried.length + 1}/${options.maxAttempts})`,
+      );
+      const nextContents = started
+        ? [...contents, { role: 'model', parts: partialTurn.map((part) => ({ ...part })) }]
+        : contents;
+      reopen(nextContents, [...tried])
+        .then((upstream) => {
+          tried.push(upstream.accountId);
+          if (output.destroyed) {
+            upstream.stream.destroy();
+            return;
+          }
+          attach(upstream.stream);
+        })
+        .catch((reopenError: unknown) =>
+          output.destroy(reopenError instanceof Error ? reopenError : error),
+        );
+    };
+
+    const attach = (stream: Readable) => {
+      current = stream;
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let receivedAny = false;
+
+      stream.on('data', (chunk: Buffer) => {
+        if (current !== stream) return;
+        receivedAny = true;
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(forward);
+      });
+
+      stream.on('end', () => {
+        if (current !== stream) return;
+        if (buffer) forward(buffer);
+        if (!receivedAny) {
+          fail(new Error('Empty response stream'));
+          return;
+        }
+        // Ended without content (a blocked prompt, say): pass through what there is
+        flush();
+        current = null;
+        output.end();
+      });
+
+      stream.on('error', (err: unknown) => {
+        if (current !== stream) return;
+        fail(err instanceof Error ? err : new Error(String(err)));
+      });
+    };
+
+    // The client left: stop reading whichever upstream is current
+    output.on('close', () => {
+      const stream = current;
+      current = null;
+      stream?.destroy();
+    });
+
+    attach(first.stream);
+    return output;
+  }
+
+  /**
+   * Appends streamed parts to a model turn. Text chunks of the same kind (thought or answer)
+   * join the part they continue; signatures, function calls and inline data are kept as sent.
+   */
+  private static collect(turn: GeminiPart[], parts: GeminiPart[]) {
+    for (const part of parts) {
+      const isText = part.text !== undefined && !part.functionCall && !part.inlineData;
+      if (isText && !part.text && !part.thoughtSignature) continue;
+
+      const last = turn[turn.length - 1];
+      const continuesLast =
+        isText &&
+        last?.text !== undefined &&
+        !last.functionCall &&
+        !last.inlineData &&
+        !!last.thought === !!part.thought &&
+        !(last.thoughtSignature && part.thoughtSignature);
+      if (continuesLast) {
+        last.text += part.text!;
+        if (part.thoughtSignature) last.thoughtSignature = part.thoughtSignature;
+      } else {
+        turn.push({ ...part });
+      }
+    }
+  }
+
+  private static parts(line: string): GeminiPart[] {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data: ')) return [];
+    try {
+      const response = unwrapGeminiResponse(JSON.parse(trimmed.slice(6)));
+      return response.candidates?.[0]?.content?.parts ?? [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import axios from 'axios';
 import { GeminiRequest, GeminiResponse } from '../interfaces/request-interfaces';
-import { GeminiInternalRequest } from '../../../../lib/antigravity/types';
+import { GeminiContent, GeminiInternalRequest } from '../../../../lib/antigravity/types';
+import { parseUpstreamError } from '../../../../lib/antigravity/upstream-errors';
+import { OutboundHttp } from '../../../../services/OutboundHttp';
+import { getRequestTimeoutMs } from '../../../server-config';
 
 @Injectable()
 export class GeminiClient {
@@ -13,22 +16,17 @@ export class GeminiClient {
     const url = `${this.baseUrl}/models/${model}:streamGenerateContent?alt=sse`;
 
     try {
-      const response = await axios.post(url, content, {
+      const response = await OutboundHttp.client().post(url, content, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
         responseType: 'stream',
-        timeout: 60000,
+        timeout: getRequestTimeoutMs(),
       });
       return response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.logger.error(`Gemini Stream API Error: ${error.message}`);
-        throw new Error(error.response?.data?.error?.message || error.message);
-      }
-      // Re-throw as clean Error to avoid circular reference issues
-      throw error instanceof Error ? new Error(error.message) : new Error(String(error));
+      throw await this.toUpstreamError(error, 'Stream');
     }
   }
 
@@ -40,23 +38,16 @@ export class GeminiClient {
     const url = `${this.baseUrl}/models/${model}:generateContent`;
 
     try {
-      const response = await axios.post<GeminiResponse>(url, content, {
+      const response = await OutboundHttp.client().post<GeminiResponse>(url, content, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
-        timeout: 60000, // 60s timeout
+        timeout: getRequestTimeoutMs(),
       });
       return response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.logger.error(
-          `Gemini API Error: ${error.message} - ${this.safeStringify(error.response?.data)}`,
-        );
-        throw new Error(error.response?.data?.error?.message || error.message);
-      }
-      // Re-throw as clean Error to avoid circular reference issues
-      throw error instanceof Error ? new Error(error.message) : new Error(String(error));
+      throw await this.toUpstreamError(error, 'Generate');
     }
   }
 
@@ -64,51 +55,122 @@ export class GeminiClient {
 
   private readonly internalBaseUrl = 'https://cloudcode-pa.googleapis.com/v1internal';
 
-  async streamGenerateInternal(body: GeminiInternalRequest, accessToken: string): Promise<any> {
+  /**
+   * @param accountId Account the token belongs to; selects its proxy override
+   * @param signal Aborts the request, including a stream already being read
+   */
+  async streamGenerateInternal(
+    body: GeminiInternalRequest,
+    accessToken: string,
+    accountId?: string,
+    signal?: AbortSignal,
+  ): Promise<any> {
     const url = `${this.internalBaseUrl}:streamGenerateContent?alt=sse`;
     try {
-      const response = await axios.post(url, body, {
+      const response = await OutboundHttp.client(accountId).post(url, body, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
           'User-Agent': 'antigravity/1.11.9 windows/amd64',
         },
         responseType: 'stream',
-        timeout: 60000,
+        timeout: getRequestTimeoutMs(),
+        signal,
       });
       return response.data;
     } catch (error) {
-      this.handleAxiosError(error, 'StreamInternal');
+      throw await this.toUpstreamError(error, 'StreamInternal');
     }
   }
 
-  async generateInternal(body: GeminiInternalRequest, accessToken: string): Promise<any> {
+  async generateInternal(
+    body: GeminiInternalRequest,
+    accessToken: string,
+    accountId?: string,
+  ): Promise<any> {
     const url = `${this.internalBaseUrl}:generateContent`;
     try {
-      const response = await axios.post(url, body, {
+      const response = await OutboundHttp.client(accountId).post(url, body, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
           'User-Agent': 'antigravity/1.11.9 windows/amd64',
         },
-        timeout: 60000,
+        timeout: getRequestTimeoutMs(),
       });
       // v1internal API wraps the response in a 'response' field, unwrap it
       return response.data.response || response.data;
     } catch (error) {
-      this.handleAxiosError(error, 'GenerateInternal');
+      throw await this.toUpstreamError(error, 'GenerateInternal');
     }
   }
 
-  private handleAxiosError(error: any, context: string) {
+  /**
+   * Counts input tokens with the upstream tokenizer.
+   * @returns totalTokens reported by the countTokens API
+   */
+  async countTokensInternal(
+    model: string,
+    contents: GeminiContent[],
+    accessToken: string,
+    accountId?: string,
+  ): Promise<number> {
+    const url = `${this.internalBaseUrl}:countTokens`;
+    try {
+      const response = await OutboundHttp.client(accountId).post<{ totalTokens?: number }>(
+        url,
+        { request: { model: `models/${model}`, contents } },
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'User-Agent': 'antigravity/1.11.9 windows/amd64',
+          },
+          timeout: 30000,
+        },
+      );
+      return response.data.totalTokens ?? 0;
+    } catch (error) {
+      throw await this.toUpstreamError(error, 'CountTokens');
+    }
+  }
+
+  /**
+   * Converts a failed request into an UpstreamError (RateLimitError for 429s) carrying
+   * the retry delay and quota details from the error body.
+   */
+  private async toUpstreamError(error: unknown, context: string): Promise<Error> {
     if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const data = await this.readErrorBody(error.response?.data);
       this.logger.error(
-        `Gemini ${context} API Error: ${error.message} - ${this.safeStringify(error.response?.data)}`,
+        `Gemini ${context} API Error: ${error.message} - ${this.safeStringify(data)}`,
       );
-      throw new Error(error.response?.data?.error?.message || error.message);
+      if (status) {
+        return parseUpstreamError(status, data, error.response?.headers ?? {});
+      }
+      return new Error(error.message);
     }
     // Re-throw as clean Error to avoid circular reference issues
-    throw error instanceof Error ? new Error(error.message) : new Error(String(error));
+    return error instanceof Error ? new Error(error.message) : new Error(String(error));
+  }
+
+  /**
+   * Streaming requests hand back the error body as a stream; read it so it can be parsed.
+   */
+  private async readErrorBody(data: unknown): Promise<unknown> {
+    if (!data || typeof (data as AsyncIterable<unknown>)[Symbol.asyncIterator] !== 'function') {
+      return data;
+    }
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of data as AsyncIterable<Buffer | string>) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+    } catch {
+      // Keep whatever was read before the stream failed
+    }
+    return Buffer.concat(chunks).toString('utf8');
   }
 
   /**
@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { OutboundHttp } from '../../../../services/OutboundHttp';
+import { getRequestTimeoutMs } from '../../../server-config';
 
 export interface LocalAIConfig {
   baseUrl: string; // e.g., http://localhost:1234/v1 or http://localhost:11434/v1
@@ -26,23 +28,31 @@ export class LocalAIClient {
    * Fetches the list of available models from the local backend.
    */
   async getModels(config: LocalAIConfig): Promise<string[]> {
-    const baseUrl = this.normalizeUrl(config.baseUrl);
     try {
-      this.logger.log(`Attempting hardware interrogation at: ${baseUrl}/models`);
-      const response = await axios.get(`${baseUrl}/models`, { timeout: 5000 });
-      const data = response.data;
-      
-      // OpenAI-compatible format (both LM Studio and newer Ollama support this)
-      if (data && Array.isArray(data.data)) {
-        return data.data.map((m: any) => m.id);
-      }
-      return [];
+      return await this.listModels(config);
     } catch (error) {
       this.logger.warn(`Failed to fetch models from ${config.provider} at ${config.baseUrl}`);
       return [];
     }
   }
 
+  /**
+   * Like getModels, but throws when the backend is unreachable so callers can tell
+   * "no models" from "instance down".
+   */
+  async listModels(config: LocalAIConfig): Promise<string[]> {
+    const baseUrl = this.normalizeUrl(config.baseUrl);
+    this.logger.log(`Attempting hardware interrogation at: ${baseUrl}/models`);
+    const response = await OutboundHttp.client().get(`${baseUrl}/models`, { timeout: 5000 });
+    const data = response.data;
+
+    // OpenAI-compatible format (both LM Studio and newer Ollama support this)
+    if (data && Array.isArray(data.data)) {
+      return data.data.map((m: any) => m.id);
+    }
+    return [];
+  }
+
   /**
    * Generates a chat completion (Non-Streaming).
    */
@@ -50,9 +60,9 @@ export class LocalAIClient {
     const baseUrl = this.normalizeUrl(config.baseUrl);
     const url = `${baseUrl}/chat/completions`;
     try {
-      const response = await axios.post(url, body, {
+      const response = await OutboundHttp.client().post(url, body, {
         headers: { 'Content-Type': 'application/json' },
-        timeout: 120000, // 2 minutes for local models
+        timeout: getRequestTimeoutMs(),
       });
       return response.data;
     } catch (error) {
@@ -62,16 +72,17 @@ export class LocalAIClient {
 
   /**
    * Generates a chat completion (Streaming).
-   * Returns the raw axios stream.
+   * Returns the raw axios stream; aborting the signal stops the local model mid-generation.
    */
-  async streamChat(config: LocalAIConfig, body: any): Promise<any> {
+  async streamChat(config: LocalAIConfig, body: any, signal?: AbortSignal): Promise<any> {
     const baseUrl = this.normalizeUrl(config.baseUrl);
     const url = `${baseUrl}/chat/completions`;
     try {
-      const response = await axios.post(url, { ...body, stream: true }, {
+      const response = await OutboundHttp.client().post(url, { ...body, stream: true }, {
         headers: { 'Content-Type': 'application/json' },
         responseType: 'stream',
-        timeout: 120000,
+        timeout: getRequestTimeoutMs(),
+        signal,
       });
       return response.data;
     } catch (error) {
@@ -79,7 +90,7 @@ export class LocalAIClient {
     }
   }
 
-  private handleError(error: any, context: string) {
+  private handleError(error: any, context: string): never {
     if (axios.isAxiosError(error)) {
       const msg = error.response?.data?.error?.message || error.message;
       this.logger.error(`LocalAI ${context} Error: ${msg}`);
@@ -0,0 +1,28 @@
+import { Controller, Get, Param, Res, HttpStatus, UseGuards } from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import { ImageFileCache } from './ImageFileCache';
+import { NetworkGuard } from './network.guard';
+
+/**
+ * Serves generated images for `response_format: "url"`.
+ * Not behind ProxyGuard: file names are random UUIDs, so the URL itself is the
+ * capability (same model as OpenAI's pre-signed image URLs). The client address
+ * lists still apply.
+ */
+@Controller()
+@UseGuards(NetworkGuard)
+export class ImageFilesController {
+  @Get('v1/images/files/:fileName')
+  async getImage(@Param('fileName') fileName: string, @Res() res: FastifyReply) {
+    const file = ImageFileCache.read(fileName);
+    if (!file) {
+      res.status(HttpStatus.NOT_FOUND).send({
+        error: { message: 'Image not found or expired.', type: 'invalid_request_error' },
+      });
+      return;
+    }
+    res.header('Content-Type', file.contentType);
+    res.header('Cache-Control', 'private, max-age=86400');
+    res.status(HttpStatus.OK).send(file.buffer);
+  }
+}
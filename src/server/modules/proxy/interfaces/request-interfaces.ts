@@ -7,13 +7,17 @@ export interface OpenAIChatRequest {
   stream?: boolean;
   size?: string;
   quality?: string;
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
   extra?: Record<string, any>;
 }
 
 export interface OpenAIMessage {
   role: string;
-  content: string | OpenAIContentPart[];
+  content: string | OpenAIContentPart[] | null;
   name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 }
 
 export interface OpenAIContentPart {
@@ -21,6 +25,28 @@ export interface OpenAIContentPart {
   text?: string;
   image_url?: {
     url: string;
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type OpenAIToolChoice =
+  'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
   };
 }
 
@@ -37,6 +63,10 @@ export interface AnthropicChatRequest {
   top_k?: number;
 }
 
+export interface AnthropicCountTokensResponse {
+  input_tokens: number;
+}
+
 export interface AnthropicMessage {
   role: string;
   content: string | AnthropicContent[];
@@ -121,7 +151,8 @@ export interface OpenAIChoice {
   index: number;
   message: {
     role: string;
-    content: string;
+    content: string | null;
+    tool_calls?: OpenAIToolCall[];
   };
   finish_reason: string;
 }
@@ -139,3 +170,258 @@ export interface AnthropicChatResponse {
     output_tokens: number;
   };
 }
+
+// --- OpenAI Responses API ---
+
+export interface OpenAIResponsesRequest {
+  model: string;
+  input?: string | OpenAIResponseInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  tools?: OpenAIResponseTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  store?: boolean;
+  reasoning?: { effort?: 'low' | 'medium' | 'high'; summary?: string };
+  metadata?: Record<string, string>;
+}
+
+export type OpenAIResponseInputItem =
+  | OpenAIResponseInputMessage
+  | OpenAIResponseFunctionCall
+  | OpenAIResponseFunctionCallOutput
+  | OpenAIResponseReasoning;
+
+export interface OpenAIResponseInputMessage {
+  type?: 'message';
+  role: 'user' | 'assistant' | 'system' | 'developer';
+  content: string | OpenAIResponseContentPart[];
+}
+
+export interface OpenAIResponseContentPart {
+  type: 'input_text' | 'output_text' | 'input_image';
+  text?: string;
+  image_url?: string;
+}
+
+export interface OpenAIResponseFunctionCallOutput {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+export interface OpenAIResponseTool {
+  type: 'function' | string;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface OpenAIResponse {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete';
+  model: string;
+  output: OpenAIResponseOutputItem[];
+  output_text?: string;
+  previous_response_id: string | null;
+  instructions: string | null;
+  incomplete_details: { reason: string } | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+export type OpenAIResponseOutputItem =
+  OpenAIResponseOutputMessage | OpenAIResponseFunctionCall | OpenAIResponseReasoning;
+
+export interface OpenAIResponseOutputMessage {
+  type: 'message';
+  id: string;
+  role: 'assistant';
+  status: 'in_progress' | 'completed';
+  content: { type: 'output_text'; text: string; annotations: unknown[] }[];
+}
+
+export interface OpenAIResponseFunctionCall {
+  type: 'function_call';
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: 'in_progress' | 'completed';
+}
+
+export interface OpenAIResponseReasoning {
+  type: 'reasoning';
+  id: string;
+  summary: { type: 'summary_text'; text: string }[];
+  /** Opaque Gemini thought signature, replayed when the item is sent back */
+  encrypted_content?: string;
+}
+
+// --- OpenAI Images API ---
+
+export interface OpenAIImageGenerationRequest {
+  prompt: string;
+  model?: string;
+  n?: number;
+  size?: string;
+  quality?: string;
+  response_format?: 'url' | 'b64_json';
+  user?: string;
+}
+
+export interface OpenAIImageEditRequest extends OpenAIImageGenerationRequest {
+  /** Source image(s) as data URIs or http(s) URLs (JSON body; multipart is not supported) */
+  image: string | string[];
+}
+
+export interface OpenAIImageResponse {
+  created: number;
+  data: {
+    url?: string;
+    b64_json?: string;
+    revised_prompt?: string;
+  }[];
+  /** Summed over the generated images, as the gpt-image models report it */
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// --- OpenAI Embeddings API ---
+
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  encoding_format?: 'float' | 'base64';
+  dimensions?: number;
+  user?: string;
+}
+
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: {
+    object: 'embedding';
+    index: number;
+    embedding: number[] | string;
+  }[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// --- Ollama API ---
+
+/** Sampling options; only the ones with an OpenAI counterpart are honoured */
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  [key: string]: unknown;
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaMessage {
+  role: string;
+  content: string;
+  /** Base64 images without a data URI prefix */
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  tools?: OpenAITool[];
+  /** Ollama streams unless this is explicitly false */
+  stream?: boolean;
+  options?: OllamaOptions;
+  format?: unknown;
+  keep_alive?: string | number;
+}
+
+export interface OllamaGenerateRequest {
+  model: string;
+  prompt?: string;
+  system?: string;
+  images?: string[];
+  stream?: boolean;
+  options?: OllamaOptions;
+  format?: unknown;
+  keep_alive?: string | number;
+}
+
+/** Fields shared by the final `done: true` object of chat and generate responses */
+export interface OllamaResponseStats {
+  model: string;
+  created_at: string;
+  done: boolean;
+  done_reason?: string;
+  total_duration?: number; // nanoseconds
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export interface OllamaChatResponse extends OllamaResponseStats {
+  message: {
+    role: 'assistant';
+    content: string;
+    tool_calls?: OllamaToolCall[];
+  };
+}
+
+export interface OllamaGenerateResponse extends OllamaResponseStats {
+  response: string;
+}
+
+export interface OllamaModelTag {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details: {
+    format: string;
+    family: string;
+    families: string[] | null;
+    parameter_size: string;
+    quantization_level: string;
+  };
+}
+
+/**
+ * Client identity resolved by ProxyGuard and attached to the request as `request.apiKey`.
+ * `id` is 'master' for the legacy shared `proxy.api_key`.
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  virtual: boolean;
+  /** Model allow-list of a virtual key; empty or absent allows every model */
+  allowedModels?: string[];
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiKey?: ApiKeyIdentity;
+  }
+}
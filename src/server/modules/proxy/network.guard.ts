@@ -0,0 +1,29 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
+import { getServerConfig } from '../../server-config';
+import { NetworkPolicy } from './NetworkPolicy';
+
+/**
+ * Applies the client address allow and deny lists. Guards routes that take no API key;
+ * ProxyGuard runs it before looking at keys.
+ */
+@Injectable()
+export class NetworkGuard implements CanActivate {
+  private readonly logger = new Logger(NetworkGuard.name);
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+
+    if (!NetworkPolicy.isAllowed(request.ip, getServerConfig()?.network)) {
+      this.logger.warn(`Blocked request from disallowed address ${request.ip}`);
+      throw new ForbiddenException('Client address is not allowed');
+    }
+    return true;
+  }
+}
@@ -1,13 +1,43 @@
-import { Controller, Get, Post, Body, Res, UseGuards, Inject, Logger, HttpStatus, Headers as ReqHeaders } from '@nestjs/common';
-import { FastifyReply } from 'fastify';
+import { Controller, Get, Post, Body, Res, UseGuards, UseInterceptors, Inject, Logger, HttpStatus, Headers as ReqHeaders, Param, Query, HttpException, Req } from '@nestjs/common';
+import { FastifyReply, FastifyRequest } from 'fastify';
 import { ProxyService } from './proxy.service';
-import { Observable } from 'rxjs';
-import { OpenAIChatRequest, AnthropicChatRequest } from './interfaces/request-interfaces';
+import { Observable, finalize, tap } from 'rxjs';
+import {
+  OpenAIChatRequest,
+  AnthropicChatRequest,
+  OpenAIResponsesRequest,
+  OpenAIImageGenerationRequest,
+  OpenAIImageEditRequest,
+  OpenAIEmbeddingRequest,
+  OllamaChatRequest,
+  OllamaGenerateRequest,
+} from './interfaces/request-interfaces';
 import { ProxyGuard } from './proxy.guard';
 import { CloudAccountRepo } from '../../../ipc/database/cloudHandler';
+import { ClaudeRequest, GeminiRequest } from '../../../lib/antigravity/types';
+import { parseModelAction } from '../../../lib/antigravity/GeminiRequestMapper';
+import { extractUsage, StreamUsageTracker } from '../../../lib/antigravity/usage-utils';
+import { ApiKeyRepo } from '../../../ipc/database/apiKeys';
+import { RequestLedgerInterceptor } from './request-ledger.interceptor';
+import { RequestLedger } from './RequestLedger';
+import { InFlightTracker } from './InFlightTracker';
+import { ResponseStream, StreamFormat } from './ResponseStream';
+import { deriveSessionKey } from '../../../lib/antigravity/session-utils';
+import {
+  OllamaEndpoint,
+  OllamaStreamingState,
+  toOllamaModelTag,
+  transformOllamaChatIn,
+  transformOllamaGenerateIn,
+  transformOpenAIResponseToOllama,
+} from '../../../lib/antigravity/OllamaMapper';
+
+/** Reported on `/api/version`; clients gate features on it, so it tracks a recent Ollama release */
+const OLLAMA_COMPAT_VERSION = '0.9.0';
 
 @Controller()
 @UseGuards(ProxyGuard)
+@UseInterceptors(RequestLedgerInterceptor)
 export class ProxyController {
   private readonly logger = new Logger(ProxyController.name);
 
@@ -71,54 +101,275 @@ export class ProxyController {
   }
 
   @Post('v1/chat/completions')
-  async chatCompletions(@Body() body: OpenAIChatRequest, @Res() res: FastifyReply) {
+  async chatCompletions(
+    @Body() body: OpenAIChatRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const result = this.trackUsage(req, await this.proxyService.handleChatCompletions(body, this.sessionKey(req, body)));
+
+      this.setServedModelHeader(res);
+      if (body.stream && result instanceof Observable) {
+        res.header('Content-Type', 'text/event-stream');
+        res.header('Cache-Control', 'no-cache');
+        res.header('Connection', 'keep-alive');
+        this.sendStream(res, result as Observable<string>, ResponseStream.sse('openai', req.url));
+      } else {
+        res.status(HttpStatus.OK).send(result);
+      }
+    } catch (error) {
+      this.sendOpenAIError(res, error);
+    }
+  }
+
+  @Post('v1/messages')
+  async anthropicMessages(
+    @Body() body: AnthropicChatRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
     try {
-      const result = await this.proxyService.handleChatCompletions(body);
+      const result = this.trackUsage(req, await this.proxyService.handleAnthropicMessages(body, this.sessionKey(req, body)));
 
+      this.setServedModelHeader(res);
       if (body.stream && result instanceof Observable) {
         res.header('Content-Type', 'text/event-stream');
         res.header('Cache-Control', 'no-cache');
         res.header('Connection', 'keep-alive');
-        res.send(result);
+        this.sendStream(res, result as Observable<string>, ResponseStream.sse('anthropic', req.url));
       } else {
         res.status(HttpStatus.OK).send(result);
       }
     } catch (error) {
+      RequestLedger.recordError(error);
       const message = error instanceof Error ? error.message : 'Internal Server Error';
       res.status(HttpStatus.INTERNAL_SERVER_ERROR).send({
+        type: 'error',
         error: {
+          type: 'api_error',
           message: message,
-          type: 'server_error',
         },
       });
     }
   }
 
-  @Post('v1/messages')
-  async anthropicMessages(@Body() body: AnthropicChatRequest, @Res() res: FastifyReply) {
+  @Post('v1/messages/count_tokens')
+  async anthropicCountTokens(
+    @Body() body: ClaudeRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const result = this.trackUsage(req, await this.proxyService.handleCountTokens(body));
+      res.status(HttpStatus.OK).send(result);
+    } catch (error) {
+      RequestLedger.recordError(error);
+      const status = error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+      res.status(status).send({
+        type: 'error',
+        error: {
+          type: status === HttpStatus.BAD_REQUEST ? 'invalid_request_error' : 'api_error',
+          message: error instanceof Error ? error.message : 'Internal Server Error',
+        },
+      });
+    }
+  }
+
+  @Post('v1/embeddings')
+  async embeddings(
+    @Body() body: OpenAIEmbeddingRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const result = this.trackUsage(req, await this.proxyService.handleEmbeddings(body));
+      res.status(HttpStatus.OK).send(result);
+    } catch (error) {
+      this.sendOpenAIError(res, error);
+    }
+  }
+
+  @Post('v1/images/generations')
+  async imageGenerations(
+    @Body() body: OpenAIImageGenerationRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const result = this.trackUsage(
+        req,
+        await this.proxyService.handleImageGeneration(body, this.getBaseUrl(req)),
+      );
+      res.status(HttpStatus.OK).send(result);
+    } catch (error) {
+      this.sendOpenAIError(res, error);
+    }
+  }
+
+  /**
+   * Image edits take source images as data URIs or URLs in a JSON body.
+   */
+  @Post('v1/images/edits')
+  async imageEdits(
+    @Body() body: OpenAIImageEditRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const images = Array.isArray(body.image) ? body.image : body.image ? [body.image] : [];
+      if (images.length === 0) {
+        res.status(HttpStatus.BAD_REQUEST).send({
+          error: { message: 'image is required.', type: 'invalid_request_error' },
+        });
+        return;
+      }
+      const result = this.trackUsage(
+        req,
+        await this.proxyService.handleImageGeneration(body, this.getBaseUrl(req), images),
+      );
+      res.status(HttpStatus.OK).send(result);
+    } catch (error) {
+      this.sendOpenAIError(res, error);
+    }
+  }
+
+  /**
+   * OpenAI Responses API. `previous_response_id` is resolved from the local ResponseStore.
+   */
+  @Post('v1/responses')
+  async responses(
+    @Body() body: OpenAIResponsesRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
     try {
-      const result = await this.proxyService.handleAnthropicMessages(body);
+      const result = this.trackUsage(req, await this.proxyService.handleResponses(body, this.sessionKey(req, body)));
 
+      this.setServedModelHeader(res);
       if (body.stream && result instanceof Observable) {
         res.header('Content-Type', 'text/event-stream');
         res.header('Cache-Control', 'no-cache');
         res.header('Connection', 'keep-alive');
-        res.send(result);
+        this.sendStream(res, result as Observable<string>, ResponseStream.sse('openai', req.url));
       } else {
         res.status(HttpStatus.OK).send(result);
       }
     } catch (error) {
+      this.sendOpenAIError(res, error);
+    }
+  }
+
+  /**
+   * Native Gemini protocol: `models/{model}:generateContent` and `:streamGenerateContent`.
+   * Lets the Google GenAI SDKs and gemini-cli use the gateway as their base URL.
+   */
+  @Post('v1beta/models/:modelAction')
+  async geminiGenerateContent(
+    @Param('modelAction') modelAction: string,
+    @Query('alt') alt: string | undefined,
+    @Body() body: GeminiRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    const parsed = parseModelAction(modelAction);
+    const isStream = parsed?.action === 'streamGenerateContent';
+
+    if (!parsed || (parsed.action !== 'generateContent' && !isStream)) {
+      res.status(HttpStatus.NOT_FOUND).send({
+        error: {
+          code: HttpStatus.NOT_FOUND,
+          message: `Unsupported method: ${modelAction}`,
+          status: 'NOT_FOUND',
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = this.trackUsage(
+        req,
+        await this.proxyService.handleGeminiGenerateContent(
+          parsed.model,
+          body,
+          isStream,
+          this.sessionKey(req, body),
+        ),
+      );
+
+      this.setServedModelHeader(res);
+      if (isStream && result instanceof Observable) {
+        if (alt !== 'sse') {
+          this.logger.warn(`streamGenerateContent without alt=sse, answering with SSE anyway`);
+        }
+        res.header('Content-Type', 'text/event-stream');
+        res.header('Cache-Control', 'no-cache');
+        res.header('Connection', 'keep-alive');
+        this.sendStream(res, result as Observable<string>, ResponseStream.sse('gemini', req.url));
+      } else {
+        res.status(HttpStatus.OK).send(result);
+      }
+    } catch (error) {
+      RequestLedger.recordError(error);
       const message = error instanceof Error ? error.message : 'Internal Server Error';
       res.status(HttpStatus.INTERNAL_SERVER_ERROR).send({
-        type: 'error',
         error: {
-          type: 'api_error',
+          code: HttpStatus.INTERNAL_SERVER_ERROR,
           message: message,
+          status: 'INTERNAL',
         },
       });
     }
   }
 
+  /**
+   * Ollama protocol: lets Open WebUI, Continue and other Ollama clients reach every gateway
+   * model, local or cloud. Requests go through the chat completions pipeline.
+   */
+  @Get('api/tags')
+  async ollamaTags() {
+    const { data } = await this.getModels();
+    return {
+      models: data.map((m: { id: string; owned_by: string; created?: number }) =>
+        toOllamaModelTag(m.id, m.owned_by, m.created),
+      ),
+    };
+  }
+
+  @Get('api/version')
+  ollamaVersion() {
+    return { version: OLLAMA_COMPAT_VERSION };
+  }
+
+  @Post('api/chat')
+  async ollamaChat(
+    @Body() body: OllamaChatRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    await this.ollamaCompletion(transformOllamaChatIn(body), 'chat', req, res);
+  }
+
+  @Post('api/generate')
+  async ollamaGenerate(
+    @Body() body: OllamaGenerateRequest,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    // An empty prompt only preloads the model in Ollama; there is nothing to load here
+    if (!body.prompt && !body.images?.length) {
+      res.status(HttpStatus.OK).send({
+        model: body.model,
+        created_at: new Date().toISOString(),
+        response: '',
+        done: true,
+        done_reason: 'load',
+      });
+      return;
+    }
+    await this.ollamaCompletion(transformOllamaGenerateIn(body), 'generate', req, res);
+  }
+
   /**
    * PhD Level: Internal Google Protocol Masquerading
    * The IDE calls this specific endpoint to obtain the list of available models.
@@ -205,6 +456,123 @@ export class ProxyController {
     };
   }
 
+  /**
+   * Books the tokens of a response to the request ledger and to the virtual key that made
+   * the request. Streams are tapped for time to first chunk and booked once they complete,
+   * fail or the client disconnects.
+   */
+  private trackUsage<T>(req: FastifyRequest, result: T): T {
+    const keyId = req.apiKey?.virtual ? req.apiKey.id : undefined;
+    const record = RequestLedger.current();
+
+    if (result instanceof Observable) {
+      const tracker = new StreamUsageTracker();
+      if (record) RequestLedger.openStream(record);
+      return (result as Observable<string>).pipe(
+        tap({
+          next: (chunk) => {
+            if (record) RequestLedger.markFirstChunk(record);
+            tracker.push(chunk);
+          },
+          error: (error) => RequestLedger.recordError(error, record),
+        }),
+        finalize(() => {
+          if (keyId) ApiKeyRepo.recordUsage(keyId, tracker.total);
+          if (record) {
+            RequestLedger.recordUsage(record, tracker.usage);
+            RequestLedger.settleStream(record);
+          }
+        }),
+      ) as T;
+    }
+
+    const usage = extractUsage(result);
+    if (keyId) ApiKeyRepo.recordUsage(keyId, usage.total);
+    if (record) RequestLedger.recordUsage(record, usage);
+    return result;
+  }
+
+  /**
+   * Runs a lowered Ollama request and answers with one JSON object or an NDJSON stream.
+   * Errors use Ollama's `{"error": "..."}` body.
+   */
+  private async ollamaCompletion(
+    request: OpenAIChatRequest,
+    endpoint: OllamaEndpoint,
+    req: FastifyRequest,
+    res: FastifyReply,
+  ) {
+    const startedAt = Date.now();
+    try {
+      const result = this.trackUsage(
+        req,
+        await this.proxyService.handleChatCompletions(request, this.sessionKey(req, request)),
+      );
+
+      this.setServedModelHeader(res);
+      if (result instanceof Observable) {
+        const state = new OllamaStreamingState(request.model, endpoint, startedAt);
+        res.header('Content-Type', 'application/x-ndjson');
+        res.header('Cache-Control', 'no-cache');
+        this.sendStream(res, result as Observable<string>, ResponseStream.ollama(state));
+      } else {
+        res
+          .status(HttpStatus.OK)
+          .send(transformOpenAIResponseToOllama(result, request.model, endpoint, startedAt));
+      }
+    } catch (error) {
+      RequestLedger.recordError(error);
+      const status = error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+      res.status(status).send({ error: error instanceof Error ? error.message : 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Sends a streamed response. Destroying the stream (client gone) unsubscribes from the
+   * upstream, and a gateway shutdown ends it with the protocol's error event.
+   */
+  private sendStream(res: FastifyReply, source: Observable<string>, format: StreamFormat) {
+    const { stream, abort } = ResponseStream.open(source, format);
+    const record = RequestLedger.current();
+    if (record) InFlightTracker.onAbort(record, abort);
+    res.send(stream);
+  }
+
+  private getBaseUrl(req: FastifyRequest): string {
+    return `${req.protocol}://${req.headers.host}`;
+  }
+
+  /**
+   * Names the model that actually answered, which differs from the requested one after
+   * mapping or when a fallback chain kicked in.
+   */
+  private setServedModelHeader(res: FastifyReply) {
+    const record = RequestLedger.current();
+    const served = record?.resolvedModel;
+    if (served) res.header('X-Served-Model', served);
+    if (record?.fallbackModel) res.header('X-Fallback-Model', record.fallbackModel);
+  }
+
+  /** Conversation key used to keep a conversation on one account */
+  private sessionKey(req: FastifyRequest, body: unknown): string | undefined {
+    return deriveSessionKey(req.headers, body);
+  }
+
+  /**
+   * Sends an OpenAI-style error body; HttpExceptions keep their status code.
+   */
+  private sendOpenAIError(res: FastifyReply, error: unknown) {
+    RequestLedger.recordError(error);
+    const status = error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    res.status(status).send({
+      error: {
+        message: message,
+        type: status === HttpStatus.BAD_REQUEST ? 'invalid_request_error' : 'server_error',
+      },
+    });
+  }
+
   private getSovereignProfile(authHeader: string | undefined): any {
     // Default Sovereign Profile
     const profile = {
@@ -1,57 +1,104 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   Injectable,
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
 import { getServerConfig } from '../../server-config';
+import { ApiKeyRepo } from '../../../ipc/database/apiKeys';
+import { ApiKeyPolicy } from './ApiKeyPolicy';
+import { NetworkPolicy } from './NetworkPolicy';
+import { NetworkGuard } from './network.guard';
 
 @Injectable()
 export class ProxyGuard implements CanActivate {
   private readonly logger = new Logger(ProxyGuard.name);
+  private readonly network = new NetworkGuard();
 
   canActivate(context: ExecutionContext): boolean {
     const config = getServerConfig();
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
 
-    // 1. Check for API Key in config
-    const apiKey = config?.api_key;
+    // 0. Client address allow/deny lists apply before any key is considered
+    this.network.canActivate(context);
 
-    // 2. Bypass if no api_key set (Open Mode) or config missing
-    if (!apiKey || apiKey.trim() === '') {
+    // 1. Master key from config (legacy single shared key)
+    const masterKey = config?.api_key?.trim();
+    const clientToken = this.extractToken(request);
+
+    if (masterKey && clientToken === masterKey) {
+      request.apiKey = { id: 'master', name: 'master', virtual: false };
       return true;
     }
 
-    const request = context.switchToHttp().getRequest();
-    const headers = request.headers;
+    // 2. Virtual keys stored in the cloud DB
+    const virtualKey = clientToken ? ApiKeyRepo.findByKey(clientToken) : undefined;
+    if (virtualKey) {
+      const rejection = ApiKeyPolicy.evaluate(virtualKey, request);
+      if (rejection) {
+        this.logger.warn(
+          `Rejected key '${virtualKey.name}' from ${request.ip}: ${rejection.message}`,
+        );
+        if (rejection.status === 401) throw new UnauthorizedException(rejection.message);
+        if (rejection.status === 403) throw new ForbiddenException(rejection.message);
+        throw new HttpException(rejection.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+
+      request.apiKey = {
+        id: virtualKey.id,
+        name: virtualKey.name,
+        virtual: true,
+        allowedModels: virtualKey.allowed_models,
+      };
+      ApiKeyRepo.touch(virtualKey.id);
+      return true;
+    }
+
+    // 3. Bypass if no key is configured at all (Open Mode). Only loopback listeners may be
+    // open: a LAN gateway whose last virtual key expired or was revoked stays closed.
+    if (!masterKey && !ApiKeyRepo.hasActiveKeys()) {
+      const host = NetworkPolicy.resolveBindHost(config?.network);
+      if (NetworkPolicy.isLoopbackHost(host)) return true;
+      this.logger.warn(`Blocked ${request.ip}: no API key is configured for a network listener`);
+      throw new UnauthorizedException('An API key is required on a network listener');
+    }
 
-    // 3. Extract Token from Headers
-    let clientToken: string | undefined;
+    this.logger.warn(`Blocked unauthorized access from ${request.ip}`);
+    throw new UnauthorizedException('Invalid API Key');
+  }
+
+  private extractToken(request: FastifyRequest): string | undefined {
+    const headers = request.headers;
 
     // A. standard 'authorization: Bearer <token>'
     if (headers['authorization']) {
       const parts = headers['authorization'].split(' ');
       if (parts.length === 2 && parts[0].toLowerCase() === 'bearer') {
-        clientToken = parts[1];
+        return parts[1];
       }
     }
 
     // B. 'x-api-key' (Anthropic)
-    if (!clientToken && headers['x-api-key']) {
-      clientToken = headers['x-api-key'] as string;
+    if (headers['x-api-key']) {
+      return headers['x-api-key'] as string;
     }
 
     // C. 'x-goog-api-key' (Gemini)
-    if (!clientToken && headers['x-goog-api-key']) {
-      clientToken = headers['x-goog-api-key'] as string;
+    if (headers['x-goog-api-key']) {
+      return headers['x-goog-api-key'] as string;
     }
 
-    // 4. Validate
-    if (clientToken === apiKey) {
-      return true;
+    // D. '?key=<token>' query parameter (Gemini REST / older GenAI SDKs)
+    const query = request.query as { key?: unknown } | undefined;
+    if (typeof query?.key === 'string') {
+      return query.key;
     }
 
-    this.logger.warn(`Blocked unauthorized access from ${request.ip}`);
-    throw new UnauthorizedException('Invalid API Key');
+    return undefined;
   }
 }
@@ -1,16 +1,71 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Injectable, Logger, Inject, BadRequestException } from '@nestjs/common';
 import { TokenManagerService } from './token-manager.service';
 import { GeminiClient } from './clients/gemini.client';
 import { LocalAIClient } from './clients/local-ai.client';
 import { v4 as uuidv4 } from 'uuid';
-import { SemanticCacheManager } from './SemanticCacheManager';
-import { AnthropicMessage, OpenAIMessage } from './interfaces/request-interfaces';
-import { Observable, Subscriber } from 'rxjs';
+import { CacheLookup, SemanticCacheManager } from './SemanticCacheManager';
+import { Observable, Subscriber, tap } from 'rxjs';
+import { Dispatcher } from 'undici';
+import { getServerConfig } from '../../server-config';
 import { transformClaudeRequestIn } from '../../../lib/antigravity/ClaudeRequestMapper';
 import { transformResponse } from '../../../lib/antigravity/ClaudeResponseMapper';
 import { StreamingState, PartProcessor } from '../../../lib/antigravity/ClaudeStreamingMapper';
-import { ClaudeRequest } from '../../../lib/antigravity/types';
+import {
+  ClaudeRequest,
+  GeminiInternalRequest,
+  GeminiRequest,
+  ImageConfig,
+} from '../../../lib/antigravity/types';
+import {
+  createResponseEnvelope,
+  generateResponseId,
+  ResponsesStreamingState,
+  transformClaudeResponseToResponses,
+  transformResponsesRequestIn,
+} from '../../../lib/antigravity/ResponsesMapper';
+import { ResponseStore } from '../../../lib/antigravity/ResponseStore';
+import {
+  transformGeminiRequestIn,
+  unwrapGeminiResponse,
+} from '../../../lib/antigravity/GeminiRequestMapper';
+import {
+  OpenAIStreamPayload,
+  OpenAIStreamingState,
+  resolveOpenAIImages,
+  transformClaudeResponseOut,
+  transformOpenAIRequestIn,
+} from '../../../lib/antigravity/OpenAIMapper';
+import { ImageInputError, resolveImageUrl } from '../../../lib/antigravity/image-utils';
+import {
+  extractGeneratedImages,
+  IMAGE_MODEL,
+  mapImageConfig,
+  transformImageRequestIn,
+} from '../../../lib/antigravity/ImageMapper';
+import { ImageFileCache } from './ImageFileCache';
+import { RequestLedger } from './RequestLedger';
+import { ApiKeyPolicy } from './ApiKeyPolicy';
+import { FallbackChain } from './FallbackChain';
+import { StreamFailover } from './StreamFailover';
+import {
+  chunkArray,
+  EMBEDDING_BATCH_SIZE,
+  encodeEmbeddingBase64,
+  mapEmbeddingModel,
+  normalizeEmbeddingInput,
+} from '../../../lib/antigravity/EmbeddingMapper';
+import {
+  buildCountTokensContents,
+  estimateClaudeInputTokens,
+  estimateTokenCount,
+} from '../../../lib/antigravity/token-utils';
+import { GoogleAPIService } from '../../../services/GoogleAPIService';
+import { OutboundHttp } from '../../../services/OutboundHttp';
+import { CloudAccount } from '../../../types/cloudAccount';
 import { calculateRetryDelay, sleep } from '../../../lib/antigravity/retry-utils';
+import { deriveSessionKey } from '../../../lib/antigravity/session-utils';
+import { isRateLimitError } from '../../../lib/antigravity/upstream-errors';
+import { extractUsage, UsageBreakdown } from '../../../lib/antigravity/usage-utils';
 import {
   classifyStreamError,
   formatErrorForSSE,
@@ -23,8 +78,18 @@ import {
   AnthropicChatResponse,
   OpenAIChatResponse,
   GeminiCandidate,
+  OpenAIResponse,
+  OpenAIResponsesRequest,
+  OpenAIImageGenerationRequest,
+  OpenAIImageResponse,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
+  AnthropicCountTokensResponse,
 } from './interfaces/request-interfaces';
 
+/** Upper bound for `n` on the Images API; each image is a separate upstream call */
+const MAX_IMAGES_PER_REQUEST = 4;
+
 @Injectable()
 export class ProxyService {
   private readonly logger = new Logger(ProxyService.name);
@@ -39,12 +104,24 @@ export class ProxyService {
 
   async handleAnthropicMessages(
     request: AnthropicChatRequest,
+    sessionKey?: string,
+  ): Promise<AnthropicChatResponse | Observable<string>> {
+    return this.withFallback(request.model, (model) =>
+      this.anthropicMessages({ ...request, model }, sessionKey),
+    );
+  }
+
+  private async anthropicMessages(
+    request: AnthropicChatRequest,
+    sessionKey?: string,
   ): Promise<AnthropicChatResponse | Observable<string>> {
     const targetModel = this.mapModel(request.model);
     this.logger.log(
       `Received Anthropic request for model: ${request.model} (Mapped: ${targetModel}, Stream: ${request.stream})`,
     );
 
+    const cacheLookup = SemanticCacheManager.prepare(request);
+
     // Retry loop
     let lastError: unknown = null;
     const maxRetries = 3;
@@ -56,8 +133,9 @@ export class ProxyService {
             await sleep(delay);
         }
 
-        const token = await this.tokenManager.getNextToken(request.model);
+        const token = await this.tokenManager.getNextToken(request.model, sessionKey);
         if (!token) throw new Error(`No available accounts satisfy model: ${request.model}`);
+        RequestLedger.annotate({ accountId: token.id });
 
         // 1. Local AI Routing
         if (token.provider?.startsWith('local-')) {
@@ -66,9 +144,10 @@ export class ProxyService {
                 provider: token.provider === 'local-ollama' ? 'ollama' : ('lmstudio' as any)
             };
             const localModel = token.token.project_id || request.model;
+            RequestLedger.annotate({ resolvedModel: localModel });
 
             if (request.stream) {
-                const stream = await this.localAIClient.streamChat(localConfig, { ...request, model: localModel });
+                const stream = await this.localAIClient.streamChat(localConfig, { ...request, model: localModel }, RequestLedger.signal());
                 return this.processOpenAIStream(stream, request.model);
             } else {
                 const response = await this.localAIClient.generateChat(localConfig, { ...request, model: localModel });
@@ -77,9 +156,11 @@ export class ProxyService {
         }
 
         // 2. Semantic Cache Check
-        const promptText = this.extractLastUserMessage(request.messages);
-        const cachedResponse = await SemanticCacheManager.findResponse(promptText, token.token.access_token);
+        const cachedResponse = cacheLookup
+            ? await SemanticCacheManager.findResponse(cacheLookup, token.token.access_token, token.id)
+            : null;
         if (cachedResponse) {
+            RequestLedger.annotate({ cacheHit: true });
             if (request.stream) return SemanticCacheManager.createMockStream(cachedResponse, request.model, true);
             return {
                 id: `cache_${uuidv4()}`,
@@ -94,44 +175,99 @@ export class ProxyService {
 
         try {
             const projectId = token.token.project_id!;
-            const geminiBody = transformClaudeRequestIn(request as unknown as ClaudeRequest, projectId);
+            const upstreamRequest = { ...request, model: targetModel } as unknown as ClaudeRequest;
+            const geminiBody = transformClaudeRequestIn(upstreamRequest, projectId, sessionKey);
+            RequestLedger.annotate({ resolvedModel: geminiBody.model });
 
             if (request.stream) {
-                const stream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token);
-                const responseStream = this.processAnthropicInternalStream(stream, geminiBody.model);
-                this.captureStreamOutput(responseStream, promptText, geminiBody.model, token.token.access_token);
-                return responseStream;
+                const upstream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token, token.id, RequestLedger.signal());
+                const stream = this.withStreamFailover(upstream, geminiBody, token, request.model, sessionKey);
+                const responseStream = this.processAnthropicInternalStream(stream, geminiBody.model, sessionKey);
+                return cacheLookup
+                    ? this.captureStreamOutput(responseStream, cacheLookup, token)
+                    : responseStream;
             } else {
-                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token);
-                const finalResponse = transformResponse(response) as unknown as AnthropicChatResponse;
+                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token, token.id);
+                const finalResponse = transformResponse(response, sessionKey) as unknown as AnthropicChatResponse;
                 const responseText = this.extractAnthropicText(finalResponse);
-                SemanticCacheManager.captureAndStore(promptText, responseText, geminiBody.model, token.token.access_token);
+                if (cacheLookup && responseText) {
+                    SemanticCacheManager.captureAndStore(cacheLookup, responseText, token.token.access_token, token.id);
+                }
                 return finalResponse;
             }
         } catch (error) {
             lastError = error;
-            if (this.shouldRetry(error instanceof Error ? error.message : String(error))) {
-                this.tokenManager.markAsRateLimited(token.email);
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, request.model, error);
             }
         }
     }
     throw lastError || new Error('Request failed after retries');
   }
 
+  /**
+   * Counts input tokens for an Anthropic Messages request.
+   * Uses the upstream tokenizer when a Google account is available, otherwise
+   * (local providers, no accounts, upstream failure) falls back to a heuristic estimate.
+   */
+  async handleCountTokens(request: ClaudeRequest): Promise<AnthropicCountTokensResponse> {
+    if (!Array.isArray(request.messages)) {
+      throw new BadRequestException('messages is required.');
+    }
+
+    const token = await this.tokenManager.getNextToken(request.model);
+    if (token && !token.provider?.startsWith('local-')) {
+        try {
+            // Count for the model the messages route would send the request to
+            const upstreamRequest = { ...request, model: this.mapModel(request.model) };
+            const geminiBody = transformClaudeRequestIn(upstreamRequest, token.token.project_id!);
+            RequestLedger.annotate({ accountId: token.id, resolvedModel: geminiBody.model });
+            const inputTokens = await this.geminiClient.countTokensInternal(
+                geminiBody.model,
+                buildCountTokensContents(geminiBody),
+                token.token.access_token,
+                token.id,
+            );
+            return { input_tokens: inputTokens };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, request.model, error);
+            }
+            this.logger.warn(`Upstream countTokens failed, using estimate: ${message}`);
+        }
+    }
+
+    return { input_tokens: estimateClaudeInputTokens(request) };
+  }
+
   // --- OpenAI / Universal Handlers ---
 
   async handleChatCompletions(
-    request: OpenAIChatRequest,
+    rawRequest: OpenAIChatRequest,
+    sessionKey?: string,
   ): Promise<OpenAIChatResponse | Observable<string>> {
-    const targetModel = this.mapModel(request.model);
-    this.logger.log(`Received OpenAI request for model: ${request.model} (Stream: ${request.stream})`);
+    return this.withFallback(rawRequest.model, (model) =>
+      this.chatCompletions({ ...rawRequest, model }, sessionKey),
+    );
+  }
+
+  private async chatCompletions(
+    rawRequest: OpenAIChatRequest,
+    sessionKey?: string,
+  ): Promise<OpenAIChatResponse | Observable<string>> {
+    this.logger.log(`Received OpenAI request for model: ${rawRequest.model} (Stream: ${rawRequest.stream})`);
+
+    const request = await this.resolveRequestImages(rawRequest);
+    const cacheLookup = SemanticCacheManager.prepare(request);
 
     let lastError: unknown = null;
     const maxRetries = 3;
 
     for (let i = 0; i < maxRetries; i++) {
-        const token = await this.tokenManager.getNextToken(request.model);
+        const token = await this.tokenManager.getNextToken(request.model, sessionKey);
         if (!token) throw new Error(`No available accounts satisfy model: ${request.model}`);
+        RequestLedger.annotate({ accountId: token.id });
 
         // 1. Local AI Routing
         if (token.provider?.startsWith('local-')) {
@@ -140,9 +276,10 @@ export class ProxyService {
                 provider: token.provider === 'local-ollama' ? 'ollama' : ('lmstudio' as any)
             };
             const localModel = token.token.project_id || request.model;
+            RequestLedger.annotate({ resolvedModel: localModel });
 
             if (request.stream) {
-                const stream = await this.localAIClient.streamChat(localConfig, { ...request, model: localModel });
+                const stream = await this.localAIClient.streamChat(localConfig, { ...request, model: localModel }, RequestLedger.signal());
                 return this.processOpenAIStream(stream, request.model);
             } else {
                 const response = await this.localAIClient.generateChat(localConfig, { ...request, model: localModel });
@@ -151,9 +288,11 @@ export class ProxyService {
         }
 
         // 2. Semantic Cache Check
-        const promptText = this.extractLastUserMessage(request.messages);
-        const cachedResponse = await SemanticCacheManager.findResponse(promptText, token.token.access_token);
+        const cachedResponse = cacheLookup
+            ? await SemanticCacheManager.findResponse(cacheLookup, token.token.access_token, token.id)
+            : null;
         if (cachedResponse) {
+            RequestLedger.annotate({ cacheHit: true });
             if (request.stream) return SemanticCacheManager.createMockStream(cachedResponse, request.model, false);
             return {
                 id: `cache_${uuidv4()}`,
@@ -166,26 +305,312 @@ export class ProxyService {
         }
 
         try {
-            const claudeRequest = this.convertOpenAIToClaude(request);
+            const claudeRequest = transformOpenAIRequestIn(request);
             const projectId = token.token.project_id!;
-            const geminiBody = transformClaudeRequestIn(claudeRequest as unknown as ClaudeRequest, projectId);
+            const geminiBody = transformClaudeRequestIn(claudeRequest, projectId, sessionKey);
+            RequestLedger.annotate({ resolvedModel: geminiBody.model });
 
             if (request.stream) {
-                const stream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token);
-                const responseStream = this.processOpenAIStream(stream, request.model);
-                this.captureStreamOutput(responseStream, promptText, request.model, token.token.access_token, false);
-                return responseStream;
+                const upstream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token, token.id, RequestLedger.signal());
+                const stream = this.withStreamFailover(upstream, geminiBody, token, request.model, sessionKey);
+                const responseStream = this.processOpenAIStream(stream, request.model, sessionKey);
+                return cacheLookup
+                    ? this.captureStreamOutput(responseStream, cacheLookup, token, false)
+                    : responseStream;
             } else {
-                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token);
-                const claudeResponse = transformResponse(response);
-                const finalResponse = this.convertClaudeToOpenAIResponse(claudeResponse, request.model);
-                SemanticCacheManager.captureAndStore(promptText, finalResponse.choices[0].message.content, request.model, token.token.access_token);
+                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token, token.id);
+                const claudeResponse = transformResponse(response, sessionKey);
+                const finalResponse = transformClaudeResponseOut(claudeResponse, request.model);
+                const responseText = finalResponse.choices[0].message.content;
+                if (cacheLookup && responseText) {
+                    SemanticCacheManager.captureAndStore(cacheLookup, responseText, token.token.access_token, token.id);
+                }
                 return finalResponse;
             }
         } catch (error) {
             lastError = error;
-            if (this.shouldRetry(error instanceof Error ? error.message : String(error))) {
-                this.tokenManager.markAsRateLimited(token.email);
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, request.model, error);
+            }
+        }
+    }
+    throw lastError || new Error('Request failed after retries');
+  }
+
+  // --- OpenAI Responses Handlers ---
+
+  async handleResponses(
+    request: OpenAIResponsesRequest,
+    sessionKey?: string,
+  ): Promise<OpenAIResponse | Observable<string>> {
+    return this.withFallback(request.model, (model) =>
+      this.responses({ ...request, model }, sessionKey),
+    );
+  }
+
+  private async responses(
+    request: OpenAIResponsesRequest,
+    sessionKey?: string,
+  ): Promise<OpenAIResponse | Observable<string>> {
+    this.logger.log(`Received Responses request for model: ${request.model} (Stream: ${request.stream})`);
+
+    let history: ClaudeRequest['messages'] = [];
+    if (request.previous_response_id) {
+      const stored = ResponseStore.get(request.previous_response_id);
+      if (!stored) {
+        throw new BadRequestException(`Previous response with id '${request.previous_response_id}' not found.`);
+      }
+      history = stored.messages;
+    }
+
+    const claudeRequest = transformResponsesRequestIn(request, history);
+    // Chained requests only carry the new turn; hash the restored conversation instead
+    const conversationKey =
+      history.length > 0 && sessionKey?.startsWith('hash:')
+        ? deriveSessionKey({}, claudeRequest)
+        : sessionKey;
+    const responseId = generateResponseId();
+    const shouldStore = request.store !== false;
+
+    let lastError: unknown = null;
+    const maxRetries = 3;
+
+    for (let i = 0; i < maxRetries; i++) {
+        if (i > 0) {
+            const delay = calculateRetryDelay(i - 1);
+            this.logger.log(`Retry attempt ${i + 1}/${maxRetries}, waiting ${delay}ms`);
+            await sleep(delay);
+        }
+
+        // The Responses API is served by cloud accounts only
+        const token = await this.getCloudToken(request.model, conversationKey);
+        if (!token) throw new Error(`No available accounts satisfy model: ${request.model}`);
+        RequestLedger.annotate({ accountId: token.id });
+
+        try {
+            const geminiBody = transformClaudeRequestIn(claudeRequest, token.token.project_id!, conversationKey);
+            RequestLedger.annotate({ resolvedModel: geminiBody.model });
+            const envelope = createResponseEnvelope(responseId, request);
+
+            if (request.stream) {
+                const stream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token, token.id, RequestLedger.signal());
+                const claudeStream = this.processAnthropicInternalStream(stream, geminiBody.model, conversationKey);
+                return this.processResponsesStream(claudeStream, envelope, (content) => {
+                    if (shouldStore) {
+                        ResponseStore.save(responseId, [...claudeRequest.messages, { role: 'assistant', content }]);
+                    }
+                });
+            } else {
+                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token, token.id);
+                const claudeResponse = transformResponse(response, conversationKey);
+                if (shouldStore) {
+                    ResponseStore.save(responseId, [
+                        ...claudeRequest.messages,
+                        { role: 'assistant', content: claudeResponse.content },
+                    ]);
+                }
+                return transformClaudeResponseToResponses(claudeResponse, envelope);
+            }
+        } catch (error) {
+            lastError = error;
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, request.model, error);
+            }
+        }
+    }
+    throw lastError || new Error('Request failed after retries');
+  }
+
+  // --- OpenAI Images Handlers ---
+
+  /**
+   * Generates (or edits, when source images are given) `n` images with gemini-3-pro-image.
+   * @param baseUrl Public gateway origin used to build `url` results
+   */
+  async handleImageGeneration(
+    request: OpenAIImageGenerationRequest,
+    baseUrl: string,
+    sourceImages: string[] = [],
+  ): Promise<OpenAIImageResponse> {
+    if (!request.prompt || typeof request.prompt !== 'string') {
+      throw new BadRequestException('prompt is required.');
+    }
+    const n = Math.min(Math.max(Math.floor(request.n ?? 1), 1), MAX_IMAGES_PER_REQUEST);
+    const imageConfig = mapImageConfig(request.size, request.quality);
+    this.logger.log(
+      `Received image request (n: ${n}, aspect: ${imageConfig.aspectRatio}, sources: ${sourceImages.length})`,
+    );
+
+    const references = await this.withImageDispatcher((dispatcher) =>
+      Promise.all(sourceImages.map((url) => resolveImageUrl(url, dispatcher))),
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: n }, () => this.generateImage(request.prompt, imageConfig, references)),
+    );
+
+    const format = request.response_format || 'url';
+    const sum = (key: keyof UsageBreakdown) =>
+      results.reduce((total, { usage }) => total + usage[key], 0);
+    return {
+      created: Math.floor(Date.now() / 1000),
+      data: results.map(({ image, text }) => {
+        const revised = text ? { revised_prompt: text } : {};
+        if (format === 'b64_json') return { b64_json: image.data, ...revised };
+        const fileName = ImageFileCache.save(image.data, image.mimeType);
+        return { url: `${baseUrl}/v1/images/files/${fileName}`, ...revised };
+      }),
+      usage: { input_tokens: sum('input'), output_tokens: sum('output'), total_tokens: sum('total') },
+    };
+  }
+
+  private async generateImage(prompt: string, imageConfig: ImageConfig, references: string[]) {
+    let lastError: unknown = null;
+    const maxRetries = 3;
+
+    for (let i = 0; i < maxRetries; i++) {
+        if (i > 0) {
+            const delay = calculateRetryDelay(i - 1);
+            this.logger.log(`Retry attempt ${i + 1}/${maxRetries}, waiting ${delay}ms`);
+            await sleep(delay);
+        }
+
+        // Image generation is served by cloud accounts only
+        const token = await this.getCloudToken(IMAGE_MODEL);
+        if (!token) throw new Error(`No available accounts satisfy model: ${IMAGE_MODEL}`);
+        RequestLedger.annotate({ accountId: token.id });
+
+        try {
+            const geminiBody = transformImageRequestIn(prompt, imageConfig, token.token.project_id!, references);
+            RequestLedger.annotate({ resolvedModel: geminiBody.model });
+            const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token, token.id);
+            const { images, text } = extractGeneratedImages(response);
+            if (images.length === 0) {
+                throw new Error(text ? `No image generated: ${text}` : 'Upstream returned no image data');
+            }
+            return { image: images[0], text, usage: extractUsage(response) };
+        } catch (error) {
+            lastError = error;
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, IMAGE_MODEL, error);
+            }
+        }
+    }
+    throw lastError || new Error('Request failed after retries');
+  }
+
+  // --- OpenAI Embeddings Handlers ---
+
+  async handleEmbeddings(request: OpenAIEmbeddingRequest): Promise<OpenAIEmbeddingResponse> {
+    const inputs = normalizeEmbeddingInput(request.input);
+    if (!inputs) {
+      throw new BadRequestException('input must be a non-empty string or array of strings.');
+    }
+    const model = mapEmbeddingModel(request.model);
+    const batches = chunkArray(inputs, EMBEDDING_BATCH_SIZE);
+    this.logger.log(`Received embeddings request (${inputs.length} inputs, ${batches.length} batches, model: ${model})`);
+
+    // Batches run in parallel on cloud accounts, so every vector comes from the same model
+    const results = await Promise.all(
+      batches.map((batch) => this.embedBatch(batch, model, request.dimensions)),
+    );
+    const vectors = results.flat();
+
+    const promptTokens = inputs.reduce((sum, text) => sum + estimateTokenCount(text), 0);
+    return {
+      object: 'list',
+      data: vectors.map((values, index) => ({
+        object: 'embedding',
+        index,
+        embedding: request.encoding_format === 'base64' ? encodeEmbeddingBase64(values) : values,
+      })),
+      model: request.model,
+      usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+    };
+  }
+
+  private async embedBatch(texts: string[], model: string, dimensions?: number): Promise<number[][]> {
+    let lastError: unknown = null;
+    const maxRetries = 3;
+
+    for (let i = 0; i < maxRetries; i++) {
+        if (i > 0) {
+            const delay = calculateRetryDelay(i - 1);
+            this.logger.log(`Retry attempt ${i + 1}/${maxRetries}, waiting ${delay}ms`);
+            await sleep(delay);
+        }
+
+        const token = await this.tokenManager.getEmbeddingToken(model);
+        if (!token) throw new Error('No available accounts for embeddings');
+        RequestLedger.annotate({ accountId: token.id, resolvedModel: model });
+
+        try {
+            const vectors = await GoogleAPIService.fetchEmbeddingsBatch(texts, token.token.access_token, model, dimensions, token.id);
+            if (vectors.length !== texts.length) {
+                throw new Error(`Embedding count mismatch: expected ${texts.length}, got ${vectors.length}`);
+            }
+            return vectors;
+        } catch (error) {
+            lastError = error;
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, model, error);
+            }
+        }
+    }
+    throw lastError || new Error('Request failed after retries');
+  }
+
+  // --- Gemini Native Handlers ---
+
+  async handleGeminiGenerateContent(
+    model: string,
+    request: GeminiRequest,
+    stream: boolean,
+    sessionKey?: string,
+  ): Promise<GeminiResponse | Observable<string>> {
+    return this.withFallback(model, (candidate) =>
+      this.geminiGenerateContent(candidate, request, stream, sessionKey),
+    );
+  }
+
+  private async geminiGenerateContent(
+    model: string,
+    request: GeminiRequest,
+    stream: boolean,
+    sessionKey?: string,
+  ): Promise<GeminiResponse | Observable<string>> {
+    this.logger.log(`Received Gemini request for model: ${model} (Stream: ${stream})`);
+
+    let lastError: unknown = null;
+    const maxRetries = 3;
+
+    for (let i = 0; i < maxRetries; i++) {
+        if (i > 0) {
+            const delay = calculateRetryDelay(i - 1);
+            this.logger.log(`Retry attempt ${i + 1}/${maxRetries}, waiting ${delay}ms`);
+            await sleep(delay);
+        }
+
+        // The Gemini native protocol is served by cloud accounts only
+        const token = await this.getCloudToken(model, sessionKey);
+        if (!token) throw new Error(`No available accounts satisfy model: ${model}`);
+        RequestLedger.annotate({ accountId: token.id });
+
+        try {
+            const geminiBody = transformGeminiRequestIn(model, request, token.token.project_id!);
+            RequestLedger.annotate({ resolvedModel: geminiBody.model });
+
+            if (stream) {
+                const upstream = await this.geminiClient.streamGenerateInternal(geminiBody, token.token.access_token, token.id, RequestLedger.signal());
+                return this.processGeminiNativeStream(upstream);
+            } else {
+                const response = await this.geminiClient.generateInternal(geminiBody, token.token.access_token, token.id);
+                return unwrapGeminiResponse(response) as unknown as GeminiResponse;
+            }
+        } catch (error) {
+            lastError = error;
+            if (isRateLimitError(error)) {
+                this.tokenManager.markAsRateLimited(token.email, model, error);
             }
         }
     }
@@ -194,11 +619,15 @@ export class ProxyService {
 
   // --- SSE Stream Processors ---
 
-  private processAnthropicInternalStream(upstreamStream: any, model: string): Observable<string> {
+  private processAnthropicInternalStream(
+    upstreamStream: any,
+    model: string,
+    conversationKey?: string,
+  ): Observable<string> {
     return new Observable<string>((subscriber: Subscriber<string>) => {
       const decoder = new TextDecoder();
       let buffer = '';
-      const state = new StreamingState();
+      const state = new StreamingState(conversationKey);
       const processor = new PartProcessor(state);
       let lastFinishReason: string | undefined;
       let lastUsageMetadata: any | undefined;
@@ -257,12 +686,15 @@ export class ProxyService {
     });
   }
 
-  private processOpenAIStream(upstreamStream: any, model: string): Observable<string> {
+  private processOpenAIStream(
+    upstreamStream: any,
+    model: string,
+    conversationKey?: string,
+  ): Observable<string> {
     return new Observable<string>((subscriber: Subscriber<string>) => {
       const decoder = new TextDecoder();
       let buffer = '';
-      const streamId = `chatcmpl-${uuidv4()}`;
-      const created = Math.floor(Date.now() / 1000);
+      const state = new OpenAIStreamingState(model, conversationKey);
 
       upstreamStream.on('data', (chunk: Buffer) => {
         buffer += decoder.decode(chunk, { stream: true });
@@ -275,28 +707,77 @@ export class ProxyService {
           const dataStr = trimmed.slice(6);
           if (dataStr === '[DONE]') continue;
 
+          let json: OpenAIStreamPayload;
           try {
-            const json = JSON.parse(dataStr);
-            const candidate = json.candidates?.[0];
-            const contentPart = candidate?.content?.parts?.[0];
-            const text = contentPart?.text || json.choices?.[0]?.delta?.content || '';
-            const finishReason = candidate?.finishReason || json.choices?.[0]?.finish_reason;
-
-            if (text || finishReason) {
-              const contentChunk = {
-                id: streamId,
-                object: 'chat.completion.chunk',
-                created: created,
-                model: model,
-                choices: [{ index: 0, delta: { content: text }, finish_reason: finishReason?.toLowerCase() || null }]
-              };
-              subscriber.next(`data: ${JSON.stringify(contentChunk)}\n\n`);
-            }
-            if (finishReason) {
-              subscriber.next('data: [DONE]\n\n');
-              subscriber.complete();
-            }
-          } catch (e) {}
+            json = JSON.parse(dataStr);
+          } catch {
+            // Not a complete JSON event; skip the line
+            continue;
+          }
+          state.process(json).forEach((c) => subscriber.next(c));
+          if (state.isFinished()) {
+            subscriber.complete();
+            return;
+          }
+        }
+      });
+
+      upstreamStream.on('end', () => {
+        state.finish().forEach((c) => subscriber.next(c));
+        subscriber.complete();
+      });
+      upstreamStream.on('error', (err: any) => subscriber.error(err instanceof Error ? err : new Error(String(err))));
+    });
+  }
+
+  private processResponsesStream(
+    claudeStream: Observable<string>,
+    envelope: OpenAIResponse,
+    onComplete: (content: ClaudeRequest['messages'][number]['content']) => void,
+  ): Observable<string> {
+    return new Observable<string>((subscriber: Subscriber<string>) => {
+      const state = new ResponsesStreamingState(envelope);
+      state.start().forEach((c) => subscriber.next(c));
+
+      const subscription = claudeStream.subscribe({
+        next: (chunk: string) => state.process(chunk).forEach((c) => subscriber.next(c)),
+        complete: () => {
+          state.finish().forEach((c) => subscriber.next(c));
+          onComplete(state.getAssistantContent());
+          subscriber.complete();
+        },
+        error: (err: any) => {
+          state.fail(err instanceof Error ? err.message : String(err)).forEach((c) => subscriber.next(c));
+          subscriber.error(err);
+        },
+      });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  private processGeminiNativeStream(upstreamStream: any): Observable<string> {
+    return new Observable<string>((subscriber: Subscriber<string>) => {
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      upstreamStream.on('data', (chunk: Buffer) => {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data: ')) continue;
+          const dataStr = trimmed.slice(6);
+          if (dataStr === '[DONE]') continue;
+
+          try {
+            const json = unwrapGeminiResponse(JSON.parse(dataStr));
+            subscriber.next(`data: ${JSON.stringify(json)}\n\n`);
+          } catch {
+            // Not a complete JSON event; skip the line
+          }
         }
       });
 
@@ -307,6 +788,92 @@ export class ProxyService {
 
   // --- Converters & Utilities ---
 
+  /**
+   * Next cloud account for protocols local models cannot serve. A local account that would be
+   * picked (the active local model, say) is left out and the pick is made again.
+   */
+  private async getCloudToken(model: string, sessionKey?: string): Promise<CloudAccount | null> {
+    const skipped: string[] = [];
+    for (;;) {
+      const token = await this.tokenManager.getNextToken(model, sessionKey, skipped);
+      if (!token?.provider?.startsWith('local-')) return token;
+      // A local model addressed directly (fallback chain target) cannot be skipped
+      if (skipped.includes(token.id)) return null;
+      skipped.push(token.id);
+    }
+  }
+
+  /**
+   * With stream failover enabled, an upstream that dies mid-response is replaced by the same
+   * request on another account (see StreamFailover). Otherwise the upstream is used as is.
+   */
+  private withStreamFailover(
+    upstream: any,
+    geminiBody: GeminiInternalRequest,
+    token: CloudAccount,
+    model: string,
+    sessionKey?: string,
+  ): any {
+    const failover = getServerConfig()?.stream_failover;
+    if (!failover?.enabled || failover.max_attempts < 2) return upstream;
+
+    // Replacements open from stream callbacks, outside the request context
+    const record = RequestLedger.current();
+    const signal = RequestLedger.signal();
+    const accounts = new Map([[token.id, token]]);
+    return StreamFailover.wrap(
+      { stream: upstream, accountId: token.id },
+      geminiBody.request.contents,
+      async (contents, excludeIds) => {
+        // The account whose stream just died sits the model out for a while
+        const failed = accounts.get(excludeIds[excludeIds.length - 1]);
+        if (failed) this.tokenManager.markAsRateLimited(failed.email, model);
+
+        // Local models cannot continue a Gemini stream; look past them to the cloud accounts
+        const skipped = [...excludeIds];
+        let next = await this.tokenManager.getNextToken(model, sessionKey, skipped);
+        while (next?.provider?.startsWith('local-') && !skipped.includes(next.id)) {
+          skipped.push(next.id);
+          next = await this.tokenManager.getNextToken(model, sessionKey, skipped);
+        }
+        if (!next || next.provider?.startsWith('local-')) {
+          throw new Error(`No other account available to resume the stream for ${model}`);
+        }
+        accounts.set(next.id, next);
+        if (record) record.accountId = next.id;
+        const body: GeminiInternalRequest = {
+          ...geminiBody,
+          project: next.token.project_id!,
+          request: { ...geminiBody.request, contents },
+        };
+        const stream = await this.geminiClient.streamGenerateInternal(body, next.token.access_token, next.id, signal);
+        return { stream, accountId: next.id };
+      },
+      { maxAttempts: failover.max_attempts, signal },
+    );
+  }
+
+  /**
+   * Inlines remote images (fetched through the upstream proxy) and validates data URIs.
+   * Invalid image input is a client error, so it surfaces as 400.
+   */
+  private async resolveRequestImages(request: OpenAIChatRequest): Promise<OpenAIChatRequest> {
+    return this.withImageDispatcher((dispatcher) => resolveOpenAIImages(request, dispatcher));
+  }
+
+  /**
+   * Runs an image resolution step with the upstream proxy dispatcher,
+   * mapping ImageInputError to 400.
+   */
+  private async withImageDispatcher<T>(fn: (dispatcher?: Dispatcher) => Promise<T>): Promise<T> {
+    try {
+      return await fn(OutboundHttp.dispatcher());
+    } catch (e) {
+      if (e instanceof ImageInputError) throw new BadRequestException(e.message);
+      throw e;
+    }
+  }
+
   private convertLocalToAnthropicResponse(localResponse: any, model: string): AnthropicChatResponse {
     const content = localResponse.choices?.[0]?.message?.content || '';
     return {
@@ -323,80 +890,83 @@ export class ProxyService {
     } as any;
   }
 
-  private convertClaudeToOpenAIResponse(claudeResponse: any, model: string): OpenAIChatResponse {
-    const content = claudeResponse.content?.filter((block: any) => block.type === 'text').map((block: any) => block.text).join('') || '';
-    return {
-      id: `chatcmpl-${uuidv4()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model: model,
-      choices: [{ index: 0, message: { role: 'assistant', content: content }, finish_reason: 'stop' }],
-      usage: {
-        prompt_tokens: claudeResponse.usage?.input_tokens || 0,
-        completion_tokens: claudeResponse.usage?.output_tokens || 0,
-        total_tokens: (claudeResponse.usage?.input_tokens || 0) + (claudeResponse.usage?.output_tokens || 0),
-      },
-    };
-  }
-
-  private convertOpenAIToClaude(request: OpenAIChatRequest): AnthropicChatRequest {
-    const messages = (request.messages || []).filter(m => m.role !== 'system').map(m => ({
-        role: m.role === 'assistant' ? 'assistant' : 'user',
-        content: typeof m.content === 'string' ? m.content : ''
-    }));
-    const system = (request.messages || []).find(m => m.role === 'system')?.content as string;
-    return {
-      model: request.model,
-      messages: messages as any,
-      system: system,
-      max_tokens: request.max_tokens || 4096,
-      temperature: request.temperature,
-      stream: request.stream,
-    };
-  }
-
+  /**
+   * Model sent upstream for a Claude model: the configured Anthropic mapping by exact id, then
+   * by family ('opus', 'sonnet', 'haiku'). Unmapped ids go to the built-in mapping unchanged.
+   * Read per request, so a saved mapping applies live.
+   */
   private mapModel(m: string): string {
-    const l = m.toLowerCase();
-    if (l.includes('sonnet') || l.includes('thinking')) return 'gemini-3-pro-preview';
-    if (l.includes('haiku')) return 'gemini-2.0-flash-exp';
-    if (l.includes('opus')) return 'gemini-3-pro-preview';
-    if (l.includes('claude')) return 'gemini-2.5-flash-thinking';
-    return m;
+    const mapping = getServerConfig()?.anthropic_mapping || {};
+    if (mapping[m]) return mapping[m];
+    const family = ['opus', 'sonnet', 'haiku'].find((f) => m.toLowerCase().includes(f));
+    return (family && mapping[family]) || m;
   }
 
-  private shouldRetry(msg: string): boolean {
-    const l = msg.toLowerCase();
-    return l.includes('429') || l.includes('quota') || l.includes('limit') || l.includes('resource_exhausted');
-  }
-
-  private extractLastUserMessage(messages: (AnthropicMessage | OpenAIMessage)[]): string {
-    for (let i = messages.length - 1; i >= 0; i--) {
-      if (messages[i].role === 'user') {
-        const content = messages[i].content;
-        return typeof content === 'string' ? content : (content as any[]).filter(c => c.type === 'text').map(c => c.text).join('\n');
+  /**
+   * Runs a request for the requested model, then for each model of its fallback chain
+   * until one answers. When the whole chain fails, the requested model's error is thrown.
+   * Fallback models outside the API key's allow-list are skipped.
+   */
+  private async withFallback<T>(model: string, attempt: (model: string) => Promise<T>): Promise<T> {
+    const allowed = RequestLedger.current()?.allowedModels ?? [];
+    const chain = FallbackChain.resolve(model, getServerConfig()?.fallback_chains || {})
+      .filter((m, i) => i === 0 || ApiKeyPolicy.isModelAllowed(m, allowed));
+    let firstError: unknown = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      try {
+        const result = await attempt(chain[i]);
+        if (i > 0) {
+          RequestLedger.annotate({ fallbackModel: chain[i] });
+          this.logger.warn(`Request for ${model} answered by fallback model ${chain[i]}`);
+        }
+        return result;
+      } catch (error) {
+        firstError = firstError ?? error;
+        if (i === chain.length - 1 || !FallbackChain.canFallBack(error)) break;
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`${chain[i]} failed (${message}), falling back to ${chain[i + 1]}`);
       }
     }
-    return '';
+    throw firstError;
   }
 
   private extractAnthropicText(response: AnthropicChatResponse): string {
     return (response.content || []).filter((c: any) => c.type === 'text').map((c: any) => c.text).join('');
   }
 
-  private captureStreamOutput(stream: Observable<string>, prompt: string, model: string, token: string, isAnthropic = true) {
+  /**
+   * Collects the streamed text for the semantic cache as it passes through, so the upstream
+   * is read by the client's subscription alone.
+   */
+  private captureStreamOutput(stream: Observable<string>, lookup: CacheLookup, token: CloudAccount, isAnthropic = true): Observable<string> {
     let full = '';
-    stream.subscribe({
-      next: (chunk: string) => {
-        try {
-          const data = JSON.parse(chunk.replace('data: ', '').trim());
-          if (isAnthropic) {
-            if (data.delta?.text) full += data.delta.text;
-          } else {
-            if (data.choices?.[0]?.delta?.content) full += data.choices[0].delta.content;
+    return stream.pipe(
+      tap({
+        next: (chunk: string) => {
+          // Anthropic events carry an `event:` line before their `data:` line
+          for (const line of chunk.split('\n')) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data: ')) continue;
+            const payload = trimmed.slice(6);
+            if (payload === '[DONE]') continue;
+
+            let data: any;
+            try {
+              data = JSON.parse(payload);
+            } catch {
+              // Non-JSON keepalives and partial lines carry no text
+              continue;
+            }
+            const text = isAnthropic ? data.delta?.text : data.choices?.[0]?.delta?.content;
+            if (typeof text === 'string') full += text;
           }
-        } catch (e) {}
-      },
-      complete: () => { if (full) SemanticCacheManager.captureAndStore(prompt, full, model, token); }
-    });
+        },
+        complete: () => {
+          if (full) SemanticCacheManager.captureAndStore(lookup, full, token.token.access_token, token.id);
+        }
+      })
+    );
   }
+
 }
@@ -0,0 +1,40 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { Observable } from 'rxjs';
+import { RequestLedger } from './RequestLedger';
+import { InFlightTracker } from './InFlightTracker';
+
+/**
+ * Opens a ledger context for every proxied request and closes it when the response ends.
+ * Runs after ProxyGuard, so requests rejected by authentication are not recorded.
+ * Also registers the request as in flight, and refuses it while the gateway shuts down.
+ */
+@Injectable()
+export class RequestLedgerInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<FastifyRequest>();
+    const reply = http.getResponse<FastifyReply>();
+
+    if (InFlightTracker.isDraining()) {
+      throw new ServiceUnavailableException('Gateway is shutting down');
+    }
+
+    const record = RequestLedger.begin(request);
+    InFlightTracker.begin(record, reply, request.ip);
+    reply.raw.once('close', () => {
+      // Closed before the response was complete: the client went away
+      if (!reply.raw.writableFinished) RequestLedger.abortUpstream(record);
+      InFlightTracker.end(record);
+      RequestLedger.finish(record, reply.statusCode);
+    });
+
+    return RequestLedger.run(record, () => next.handle());
+  }
+}
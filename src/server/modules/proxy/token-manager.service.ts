@@ -1,7 +1,23 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { CloudAccountRepo } from '../../../ipc/database/cloudHandler';
-import { CloudAccount } from '../../../types/cloudAccount';
+import { CloudAccount, CloudQuotaData } from '../../../types/cloudAccount';
 import { GoogleAPIService } from '../../../services/GoogleAPIService';
+import { getServerConfig } from '../../server-config';
+import { AccountScheduler, SchedulingCandidate } from './AccountScheduler';
+import { SessionBinding } from '../../../types/sessionAffinity';
+import { FallbackChain, LocalTarget } from './FallbackChain';
+import { RateLimitError } from '../../../lib/antigravity/upstream-errors';
+import { mapClaudeModelToGemini } from '../../../lib/antigravity/ModelMapping';
+
+/** Upper bound on remembered conversations; the least recently used are evicted first */
+const MAX_SESSION_BINDINGS = 5000;
+
+/** Cooldown when upstream gives no retry delay or reset time */
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+
+function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '').toLowerCase();
+}
 
 interface TokenData {
   email: string;
@@ -19,32 +35,40 @@ interface TokenData {
 @Injectable()
 export class TokenManagerService implements OnModuleInit {
   private readonly logger = new Logger(TokenManagerService.name);
-  private currentIndex = 0;
+  private readonly scheduler = new AccountScheduler();
   // In-memory cache of tokens with additional data
   private tokens: Map<string, TokenData> = new Map();
   // Cooldown map for rate-limited accounts
   private cooldowns: Map<string, number> = new Map();
+  // Per-model cooldowns: email -> normalized model -> until
+  private modelCooldowns: Map<string, Map<string, number>> = new Map();
+  // Latest known quota per account id, used to find reset times
+  private quotas: Map<string, CloudQuotaData | undefined> = new Map();
+  // Conversation key -> account currently serving it
+  private sessions: Map<string, SessionBinding> = new Map();
 
   async onModuleInit() {
     // Load accounts on module initialization
     await this.loadAccounts();
   }
 
+  /**
+   * Replaces the in-memory pool with the accounts in the DB, so removed accounts are no
+   * longer picked. Generated session ids survive the reload.
+   */
   async loadAccounts(): Promise<number> {
     try {
       const accounts = await CloudAccountRepo.getAccounts();
-      let count = 0;
+      const tokens = new Map<string, TokenData>();
 
       for (const account of accounts) {
         const tokenData = this.convertAccountToToken(account);
-        if (tokenData) {
-          this.tokens.set(account.id, tokenData);
-          count++;
-        }
+        if (tokenData) tokens.set(account.id, tokenData);
       }
 
-      this.logger.log(`Loaded ${count} accounts`);
-      return count;
+      this.tokens = tokens;
+      this.logger.log(`Loaded ${tokens.size} accounts`);
+      return tokens.size;
     } catch (e) {
       this.logger.error('Failed to load accounts', e);
       return 0;
@@ -63,7 +87,8 @@ export class TokenManagerService implements OnModuleInit {
       expires_in: account.token.expires_in,
       expiry_timestamp: account.token.expiry_timestamp,
       project_id: account.token.project_id || undefined,
-      session_id: account.token.session_id || this.generateSessionId(),
+      session_id:
+        account.token.session_id || this.tokens.get(account.id)?.session_id || this.generateSessionId(),
       selected_models: account.selected_models,
     };
   }
@@ -76,7 +101,16 @@ export class TokenManagerService implements OnModuleInit {
     return (-(min + rand)).toString();
   }
 
-  async getNextToken(requestedModel?: string): Promise<CloudAccount | null> {
+  /**
+   * @param sessionKey Conversation key; when set, the conversation stays on the account that
+   * served it until that account is cooled down, exhausted for the model, or the binding expires.
+   * @param excludeIds Accounts not to pick, e.g. ones whose stream just failed for this request
+   */
+  async getNextToken(
+    requestedModel?: string,
+    sessionKey?: string,
+    excludeIds: string[] = [],
+  ): Promise<CloudAccount | null> {
     try {
       // Reload if empty
       if (this.tokens.size === 0) {
@@ -84,13 +118,17 @@ export class TokenManagerService implements OnModuleInit {
       }
       if (this.tokens.size === 0) return null;
 
+      // Fallback chains can address a local model directly
+      const localTarget = requestedModel ? FallbackChain.parseLocalTarget(requestedModel) : null;
+      if (localTarget) return this.getLocalToken(localTarget);
+
       const now = Date.now();
       const nowSeconds = Math.floor(now / 1000);
 
       // Filter out accounts in cooldown AND those that don't satisfy model selection (if requested)
       const validTokens = Array.from(this.tokens.entries()).filter(([accountId, data]) => {
-        const cooldownUntil = this.cooldowns.get(data.email);
-        const isNotCooldown = !cooldownUntil || cooldownUntil <= now;
+        if (excludeIds.includes(accountId)) return false;
+        const isNotCooldown = !this.isCoolingDown(data.email, requestedModel, now);
         
         // PhD Level: Selective Model Routing Logic
         // If the user has selected specific models for this account, we MUST respect it.
@@ -113,33 +151,58 @@ export class TokenManagerService implements OnModuleInit {
 
       // Selection Logic (PhD Level: Priority to Active Local Account)
       const accountsInDb = await CloudAccountRepo.getAccounts();
+      for (const account of accountsInDb) this.quotas.set(account.id, account.quota || undefined);
       const activeAccount = accountsInDb.find(a => a.is_active);
       
       let accountId: string;
       let tokenData: TokenData;
 
-      if (activeAccount && activeAccount.provider.startsWith('local-')) {
+      const localToken =
+        activeAccount &&
+        activeAccount.provider.startsWith('local-') &&
+        !excludeIds.includes(activeAccount.id)
+          ? this.tokens.get(activeAccount.id)
+          : undefined;
+
+      if (activeAccount && localToken) {
           // If a local model is active, LOCK session to it (High Fidelity Sovereignty)
-          const localToken = this.tokens.get(activeAccount.id);
-          if (localToken) {
-              accountId = activeAccount.id;
-              tokenData = localToken;
-              this.logger.log(`Session LOCK: Active Local Model [${tokenData.email}] takes precedence.`);
-          } else {
-              [accountId, tokenData] = validTokens[this.currentIndex % validTokens.length];
-              this.currentIndex++;
-          }
+          accountId = activeAccount.id;
+          tokenData = localToken;
+          this.logger.log(`Session LOCK: Active Local Model [${tokenData.email}] takes precedence.`);
       } else {
-          // Standard Round Robin for cloud accounts
-          [accountId, tokenData] = validTokens[this.currentIndex % validTokens.length];
-          this.currentIndex++;
+          // Quota data is refreshed by the cloud monitor, so read it from the DB rather than the token cache
+          const quotaById = new Map(accountsInDb.map((a) => [a.id, a.quota]));
+          const candidates = validTokens.map(([id]) => ({ id, quota: quotaById.get(id) || undefined }));
+          const config = getServerConfig();
+          const affinity = sessionKey && config?.session_affinity?.enabled ? config.session_affinity : undefined;
+
+          const scheduling = config?.scheduling;
+          const chosen =
+            (affinity && this.findBoundCandidate(sessionKey!, candidates, requestedModel, now)) ||
+            this.scheduler.pick(scheduling?.strategy || 'round-robin', candidates, {
+              model: requestedModel,
+              weights: scheduling?.weights || {},
+              now,
+            });
+
+          if (!chosen) {
+            this.logger.warn(`All accounts have exhausted their quota for ${requestedModel}`);
+            return null;
+          }
+          accountId = chosen.id;
+          tokenData = this.tokens.get(chosen.id)!;
+
+          if (affinity) {
+            const ttl = affinity.ttl_seconds;
+            this.bindSession(sessionKey!, accountId, tokenData.email, requestedModel, ttl, nowSeconds);
+          }
       }
 
       // Check if token needs refresh (expires in < 5 minutes)
       if (nowSeconds >= tokenData.expiry_timestamp - 300) {
         this.logger.log(`Token for ${tokenData.email} expiring soon, refreshing...`);
         try {
-          const newTokens = await GoogleAPIService.refreshAccessToken(tokenData.refresh_token);
+          const newTokens = await GoogleAPIService.refreshAccessToken(tokenData.refresh_token, accountId);
 
           // Update token data
           tokenData.access_token = newTokens.access_token;
@@ -160,7 +223,7 @@ export class TokenManagerService implements OnModuleInit {
       if (!tokenData.project_id && (tokenData.provider === 'google' || tokenData.provider === 'anthropic')) {
         this.logger.log(`Project ID missing for ${tokenData.email}, initiating discovery...`);
         try {
-            const realId = await GoogleAPIService.fetchProjectId(tokenData.access_token);
+            const realId = await GoogleAPIService.fetchProjectId(tokenData.access_token, accountId);
             if (realId) {
                 tokenData.project_id = realId;
                 await this.saveProjectId(accountId, realId);
@@ -175,38 +238,205 @@ export class TokenManagerService implements OnModuleInit {
       }
 
       this.logger.log(`Selected account: ${tokenData.email}`);
-
-      // Return in CloudAccount format for compatibility
-      return {
-        id: accountId,
-        email: tokenData.email,
-        provider: tokenData.provider,
-        token: {
-          access_token: tokenData.access_token,
-          refresh_token: tokenData.refresh_token,
-          expires_in: tokenData.expires_in,
-          expiry_timestamp: tokenData.expiry_timestamp,
-          project_id: tokenData.project_id,
-          session_id: tokenData.session_id,
-        },
-      } as CloudAccount;
+      return this.toCloudAccount(accountId, tokenData);
     } catch (error) {
       this.logger.error('Failed to get token', error);
       return null;
     }
   }
 
-  markAsRateLimited(email: string) {
-    // Cooldown for 5 minutes
-    const until = Date.now() + 5 * 60 * 1000;
-    this.cooldowns.set(email, until);
+  /**
+   * Next cloud account for embeddings. Embedding models are not part of per-account model
+   * selections, so only cooldowns for the model are checked. Local accounts serve chat
+   * models, whose vectors would not match Gemini's, so they are never picked.
+   */
+  async getEmbeddingToken(model: string, excludeIds: string[] = []): Promise<CloudAccount | null> {
+    const skipped = [...excludeIds];
+    for (;;) {
+      const token = await this.getNextToken(undefined, undefined, skipped);
+      if (!token) return null;
+      const usable =
+        !token.provider?.startsWith('local-') && !this.isCoolingDown(token.email, model, Date.now());
+      if (usable) return token;
+      skipped.push(token.id);
+    }
+  }
+
+  private getLocalToken(target: LocalTarget): CloudAccount | null {
+    const tokenData = this.tokens.get(target.accountId);
+    if (!tokenData || tokenData.provider !== target.provider) {
+      this.logger.warn(`Local model ${target.model} is not registered for ${target.provider}`);
+      return null;
+    }
+    this.logger.log(`Selected local model: ${tokenData.email}`);
+    return this.toCloudAccount(target.accountId, tokenData);
+  }
+
+  // Return in CloudAccount format for compatibility
+  private toCloudAccount(accountId: string, tokenData: TokenData): CloudAccount {
+    return {
+      id: accountId,
+      email: tokenData.email,
+      provider: tokenData.provider,
+      token: {
+        access_token: tokenData.access_token,
+        refresh_token: tokenData.refresh_token,
+        expires_in: tokenData.expires_in,
+        expiry_timestamp: tokenData.expiry_timestamp,
+        project_id: tokenData.project_id,
+        session_id: tokenData.session_id,
+      },
+    } as CloudAccount;
+  }
+
+  /**
+   * Cools an account down after a rate limit. With a model, only that model is paused and the
+   * account keeps serving other models.
+   * The cooldown lasts until the upstream retry delay, else the model's quota reset when the
+   * quota is used up, else five minutes.
+   */
+  markAsRateLimited(email: string, model?: string, error?: unknown) {
+    const now = Date.now();
+    const rateLimit = error instanceof RateLimitError ? error : undefined;
+    const until = now + this.cooldownMs(email, model, rateLimit, now);
+
+    const models = [
+      ...new Set([model, rateLimit?.model].filter((m): m is string => !!m).map(normalizeModel)),
+    ];
+    if (models.length === 0) {
+      this.cooldowns.set(email, until);
+      this.logger.warn(
+        `Account ${email} marked as rate limited until ${new Date(until).toISOString()}`,
+      );
+      return;
+    }
+
+    const perModel = this.modelCooldowns.get(email) || new Map<string, number>();
+    for (const m of models) perModel.set(m, until);
+    this.modelCooldowns.set(email, perModel);
     this.logger.warn(
-      `Account ${email} marked as rate limited until ${new Date(until).toISOString()}`,
+      `Account ${email} marked as rate limited for ${models.join(', ')} until ${new Date(until).toISOString()}`,
     );
   }
 
   resetCooldown(email: string) {
     this.cooldowns.delete(email);
+    this.modelCooldowns.delete(email);
+  }
+
+  private cooldownMs(
+    email: string,
+    model: string | undefined,
+    error: RateLimitError | undefined,
+    now: number,
+  ): number {
+    if (error?.retryAfterMs != null) return error.retryAfterMs;
+
+    if (error?.quotaExhausted) {
+      const quotaModel = model || error.model;
+      const accountId = [...this.tokens.values()].find((t) => t.email === email)?.account_id;
+      const resetAt =
+        error.resetAt ??
+        (quotaModel && accountId
+          ? AccountScheduler.findModelQuota(this.quotas.get(accountId), quotaModel)?.resetAt
+          : null);
+      if (resetAt && resetAt > now) return resetAt - now;
+    }
+    return DEFAULT_COOLDOWN_MS;
+  }
+
+  private isCoolingDown(email: string, model: string | undefined, now: number): boolean {
+    const accountUntil = this.cooldowns.get(email);
+    if (accountUntil && accountUntil > now) return true;
+    if (!model) return false;
+
+    const perModel = this.modelCooldowns.get(email);
+    if (!perModel) return false;
+    // Upstream may name the mapped model rather than the requested one
+    return [model, mapClaudeModelToGemini(model)].some((m) => {
+      const until = perModel.get(normalizeModel(m));
+      return !!until && until > now;
+    });
+  }
+
+  /**
+   * Live conversation bindings, most recently used first. Expired bindings are dropped.
+   */
+  listSessions(): SessionBinding[] {
+    this.pruneSessions(Math.floor(Date.now() / 1000));
+    return [...this.sessions.values()].sort((a, b) => b.last_used_at - a.last_used_at);
+  }
+
+  releaseSession(key: string): boolean {
+    return this.sessions.delete(key);
+  }
+
+  clearSessions() {
+    this.sessions.clear();
+  }
+
+  /**
+   * Returns the account a conversation is bound to, if it can still serve the request.
+   */
+  private findBoundCandidate(
+    key: string,
+    candidates: SchedulingCandidate[],
+    model: string | undefined,
+    now: number,
+  ): SchedulingCandidate | undefined {
+    const binding = this.sessions.get(key);
+    if (!binding) return undefined;
+
+    if (binding.expires_at * 1000 <= now) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+
+    // Cooled-down accounts and those outside the model selection are not candidates
+    const candidate = candidates.find((c) => c.id === binding.account_id);
+    if (!candidate || (model && AccountScheduler.isExhausted(candidate, model, now))) {
+      this.logger.log(`Session ${key.slice(0, 16)} leaves ${binding.email}, rebinding`);
+      return undefined;
+    }
+    return candidate;
+  }
+
+  private bindSession(
+    key: string,
+    accountId: string,
+    email: string,
+    model: string | undefined,
+    ttlSeconds: number,
+    nowSeconds: number,
+  ) {
+    const existing = this.sessions.get(key);
+    const sameAccount = existing?.account_id === accountId;
+
+    // Re-insert so Map order stays least-recently-used first
+    this.sessions.delete(key);
+    this.sessions.set(key, {
+      key,
+      account_id: accountId,
+      email,
+      model: model ?? null,
+      requests: sameAccount ? existing!.requests + 1 : 1,
+      created_at: sameAccount ? existing!.created_at : nowSeconds,
+      last_used_at: nowSeconds,
+      expires_at: nowSeconds + ttlSeconds,
+    });
+
+    if (this.sessions.size > MAX_SESSION_BINDINGS) {
+      this.pruneSessions(nowSeconds);
+      while (this.sessions.size > MAX_SESSION_BINDINGS) {
+        this.sessions.delete(this.sessions.keys().next().value!);
+      }
+    }
+  }
+
+  private pruneSessions(nowSeconds: number) {
+    for (const [key, binding] of this.sessions) {
+      if (binding.expires_at <= nowSeconds) this.sessions.delete(key);
+    }
   }
 
   private async saveRefreshedToken(accountId: string, tokenData: TokenData) {
@@ -1,7 +1,10 @@
-import { ProxyConfig } from '../types/config';
+import { DEFAULT_APP_CONFIG, ProxyConfig } from '../types/config';
 
 let serverConfig: ProxyConfig | null = null;
 
+/** Settings that only matter to the app, not to a running gateway */
+const IGNORED_KEYS: (keyof ProxyConfig)[] = ['enabled', 'auto_start'];
+
 export function setServerConfig(config: ProxyConfig) {
   serverConfig = config;
 }
@@ -9,3 +12,37 @@ export function setServerConfig(config: ProxyConfig) {
 export function getServerConfig(): ProxyConfig | null {
   return serverConfig;
 }
+
+/**
+ * Upstream timeout for generation requests. Read per request, so a saved change applies live.
+ */
+export function getRequestTimeoutMs(): number {
+  const seconds = serverConfig?.request_timeout || DEFAULT_APP_CONFIG.proxy.request_timeout;
+  return seconds * 1000;
+}
+
+/**
+ * Top-level settings that differ between two configs
+ */
+export function diffServerConfig(previous: ProxyConfig, next: ProxyConfig): (keyof ProxyConfig)[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof ProxyConfig>;
+  return [...keys].filter(
+    (key) =>
+      !IGNORED_KEYS.includes(key) && JSON.stringify(previous[key]) !== JSON.stringify(next[key]),
+  );
+}
+
+/**
+ * Whether the listening socket itself changes, which no running server can pick up.
+ * Client allow/deny lists are read per request and apply live.
+ */
+export function requiresRestart(previous: ProxyConfig, next: ProxyConfig): boolean {
+  const listener = (config: ProxyConfig) =>
+    JSON.stringify([
+      config.port,
+      config.network?.bind,
+      config.network?.bind_address,
+      config.network?.tls,
+    ]);
+  return listener(previous) !== listener(next);
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { networkInterfaces } from 'os';
+import { TlsConfig } from '../types/config';
+import { getAppDataDir } from '../utils/paths';
+import { logger } from '../utils/logger';
+
+const CERT_FILE = 'gateway-cert.pem';
+const KEY_FILE = 'gateway-key.pem';
+const CERT_VALIDITY_DAYS = 825;
+/** Regenerate well before expiry so clients never see an expired certificate */
+const RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface TlsCredentials {
+  key: string;
+  cert: string;
+  self_signed: boolean;
+}
+
+/**
+ * Certificate and key for HTTPS. Uses the configured PEM files when set, otherwise a
+ * self-signed certificate kept in the app data directory and renewed when it expires or
+ * no longer covers one of the machine's addresses.
+ */
+export function loadTlsCredentials(
+  tls: TlsConfig,
+  dir = path.join(getAppDataDir(), 'tls'),
+): TlsCredentials {
+  if (tls.cert_path && tls.key_path) {
+    return {
+      cert: fs.readFileSync(tls.cert_path, 'utf-8'),
+      key: fs.readFileSync(tls.key_path, 'utf-8'),
+      self_signed: false,
+    };
+  }
+
+  const certPath = path.join(dir, CERT_FILE);
+  const keyPath = path.join(dir, KEY_FILE);
+  const hosts = localHosts();
+
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+    const cert = fs.readFileSync(certPath, 'utf-8');
+    if (coversHosts(cert, hosts)) {
+      return { cert, key: fs.readFileSync(keyPath, 'utf-8'), self_signed: true };
+    }
+  }
+
+  logger.info(`TLS: Generating a self-signed certificate for ${hosts.join(', ')}`);
+  const generated = generateSelfSignedCertificate(hosts);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(certPath, generated.cert, 'utf-8');
+  fs.writeFileSync(keyPath, generated.key, { encoding: 'utf-8', mode: 0o600 });
+  return { ...generated, self_signed: true };
+}
+
+/**
+ * Creates an ECDSA P-256 certificate whose subject alternative names are the given
+ * host names and IP addresses.
+ */
+export function generateSelfSignedCertificate(
+  hosts: string[],
+  days = CERT_VALIDITY_DAYS,
+): { key: string; cert: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const ecdsaWithSha256 = der(0x30, oid('1.2.840.10045.4.3.2'));
+  const name = der(
+    0x30,
+    der(0x31, der(0x30, oid('2.5.4.3'), der(0x0c, Buffer.from('Antigravity Gateway')))),
+  );
+  const notBefore = new Date(Date.now() - 60 * 60 * 1000);
+  const notAfter = new Date(notBefore.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const altNames = hosts.map((host) =>
+    net.isIP(host) ? der(0x87, ipBytes(host)) : der(0x82, Buffer.from(host)),
+  );
+  const extensions = der(
+    0xa3,
+    der(0x30, der(0x30, oid('2.5.29.17'), der(0x04, der(0x30, ...altNames)))),
+  );
+
+  const tbs = der(
+    0x30,
+    der(0xa0, der(0x02, Buffer.from([2]))), // v3
+    der(0x02, serialNumber()),
+    ecdsaWithSha256,
+    name,
+    der(0x30, time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    extensions,
+  );
+  const signature = crypto.sign('sha256', tbs, privateKey);
+  const certificate = der(0x30, tbs, ecdsaWithSha256, der(0x03, Buffer.from([0]), signature));
+
+  const body = certificate
+    .toString('base64')
+    .match(/.{1,64}/g)!
+    .join('\n');
+  return {
+    cert: `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----\n`,
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+/** Names a LAN client may use to reach this machine */
+function localHosts(): string[] {
+  const hosts = ['localhost', '127.0.0.1'];
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === 'IPv4' && !address.internal) hosts.push(address.address);
+    }
+  }
+  return hosts;
+}
+
+function coversHosts(pem: string, hosts: string[]): boolean {
+  try {
+    const cert = new crypto.X509Certificate(pem);
+    if (new Date(cert.validTo).getTime() - Date.now() < RENEW_BEFORE_MS) return false;
+    return hosts.every((host) =>
+      net.isIP(host) ? cert.checkIP(host) !== undefined : cert.checkHost(host) !== undefined,
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Minimal DER encoding, just enough for the certificate above
+
+function der(tag: number, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  let length: Buffer;
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = body.length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const value of rest) {
+    const chunk = [value & 0x7f];
+    for (let n = value >> 7; n > 0; n >>= 7) chunk.unshift((n & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/** Random, positive and minimally encoded: the top bit clear, the next one set */
+function serialNumber(): Buffer {
+  const bytes = crypto.randomBytes(16);
+  bytes[0] = (bytes[0] & 0x7f) | 0x40;
+  return bytes;
+}
+
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  // UTCTime until 2049, GeneralizedTime after (RFC 5280)
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(iso.slice(2)))
+    : der(0x18, Buffer.from(iso));
+}
+
+function ipBytes(ip: string): Buffer {
+  if (net.isIPv4(ip)) return Buffer.from(ip.split('.').map(Number));
+
+  const [head, tail = ''] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = ip.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, i) => bytes.writeUInt16BE(parseInt(group, 16), i * 2));
+  return bytes;
+}
@@ -59,7 +59,7 @@ export class CloudMonitorService {
         let accessToken = account.token.access_token;
         if (account.token.expiry_timestamp < now + 600) {
           logger.info(`Monitor: Refreshing token for ${account.email} (Attempt ${attempt + 1})`);
-          const newToken = await GoogleAPIService.refreshAccessToken(account.token.refresh_token);
+          const newToken = await GoogleAPIService.refreshAccessToken(account.token.refresh_token, account.id);
           account.token.access_token = newToken.access_token;
           account.token.expires_in = newToken.expires_in;
           account.token.expiry_timestamp = now + newToken.expires_in;
@@ -68,7 +68,7 @@ export class CloudMonitorService {
         }
 
         // 2. Fetch Quota
-        const quota = await GoogleAPIService.fetchQuota(accessToken);
+        const quota = await GoogleAPIService.fetchQuota(accessToken, account.id);
 
         // 3. Update DB and Status: ACTIVE
         await CloudAccountRepo.updateQuota(account.id, quota);
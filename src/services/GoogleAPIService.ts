@@ -1,5 +1,4 @@
-import { ConfigManager } from '../ipc/config/manager';
-import { ProxyAgent } from 'undici';
+import { OutboundHttp } from './OutboundHttp';
 
 // --- Constants & Config ---
 
@@ -13,6 +12,7 @@ const URLS = {
   QUOTA: 'https://cloudcode-pa.googleapis.com/v1internal:fetchAvailableModels',
   LOAD_PROJECT: 'https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist',
   EMBEDDING: 'https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent',
+  EMBEDDING_MODELS: 'https://generativelanguage.googleapis.com/v1beta/models',
   LIST_MODELS_V1BETA: 'https://generativelanguage.googleapis.com/v1beta/models',
   LIST_MODELS_V1: 'https://generativelanguage.googleapis.com/v1/models',
 };
@@ -81,21 +81,6 @@ interface LoadProjectResponse {
 // --- Service Implementation ---
 
 export class GoogleAPIService {
-  private static getFetchOptions() {
-    try {
-      const config = ConfigManager.loadConfig();
-      if (config.proxy?.upstream_proxy?.enabled && config.proxy.upstream_proxy.url) {
-        return {
-          dispatcher: new ProxyAgent(config.proxy.upstream_proxy.url),
-        };
-      }
-    } catch (e) {
-      // Fallback or log if config load fails (shouldn't happen usually)
-      console.warn('[GoogleAPIService] Failed to load proxy config', e);
-    }
-    return {};
-  }
-
   /**
    * Generates the OAuth2 authorization URL.
    */
@@ -138,7 +123,7 @@ export class GoogleAPIService {
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: params,
       signal: createTimeoutSignal(REQUEST_TIMEOUT_MS),
-      ...this.getFetchOptions(),
+      ...OutboundHttp.fetchOptions(),
     }).catch((err: unknown) => {
       if (err instanceof Error) {
         if (err.name === 'AbortError') {
@@ -160,8 +145,9 @@ export class GoogleAPIService {
 
   /**
    * Refreshes an access token using a refresh token.
+   * @param accountId Account the token belongs to; selects its proxy override
    */
-  static async refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
+  static async refreshAccessToken(refreshToken: string, accountId?: string): Promise<TokenResponse> {
     const params = new URLSearchParams({
       client_id: CLIENT_ID,
       client_secret: CLIENT_SECRET,
@@ -174,7 +160,7 @@ export class GoogleAPIService {
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: params,
       signal: createTimeoutSignal(REQUEST_TIMEOUT_MS),
-      ...this.getFetchOptions(),
+      ...OutboundHttp.fetchOptions(accountId),
     }).catch((err: unknown) => {
       if (err instanceof Error) {
         if (err.name === 'AbortError') {
@@ -203,7 +189,7 @@ export class GoogleAPIService {
     const response = await fetch(URLS.USER_INFO, {
       headers: { Authorization: `Bearer ${accessToken}` },
       signal: createTimeoutSignal(REQUEST_TIMEOUT_MS),
-      ...this.getFetchOptions(),
+      ...OutboundHttp.fetchOptions(),
     }).catch((err: unknown) => {
       if (err instanceof Error) {
         if (err.name === 'AbortError') {
@@ -226,7 +212,7 @@ export class GoogleAPIService {
   /**
    * Core logic: Fetches the internal project ID needed for quota checks.
    */
-  public static async fetchProjectId(accessToken: string): Promise<string | null> {
+  public static async fetchProjectId(accessToken: string, accountId?: string): Promise<string | null> {
     const body = {
       metadata: { ideType: 'ANTIGRAVITY' },
     };
@@ -242,7 +228,7 @@ export class GoogleAPIService {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(body),
-          ...this.getFetchOptions(),
+          ...OutboundHttp.fetchOptions(accountId),
         });
 
         if (response.ok) {
@@ -262,12 +248,12 @@ export class GoogleAPIService {
   /**
    * Core logic: Fetches detailed model quota information.
    */
-  static async fetchQuota(accessToken: string): Promise<QuotaData> {
+  static async fetchQuota(accessToken: string, accountId?: string): Promise<QuotaData> {
     const result: QuotaData = { models: {} };
     
     // 1. Bus A: Internal Telemetry & Quota (v1internal)
     try {
-      const projectId = await this.fetchProjectId(accessToken);
+      const projectId = await this.fetchProjectId(accessToken, accountId);
       const payload = projectId ? { project: projectId } : {};
       
       const response = await fetch(URLS.QUOTA, {
@@ -278,7 +264,7 @@ export class GoogleAPIService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(payload),
-        ...this.getFetchOptions(),
+        ...OutboundHttp.fetchOptions(accountId),
       });
 
       if (response.ok) {
@@ -310,7 +296,7 @@ export class GoogleAPIService {
         const resp = await fetch(url, {
           headers: { Authorization: `Bearer ${accessToken}` },
           signal: createTimeoutSignal(10000),
-          ...this.getFetchOptions(),
+          ...OutboundHttp.fetchOptions(accountId),
         });
 
         if (resp.ok) {
@@ -357,7 +343,11 @@ export class GoogleAPIService {
   /**
    * Fetches high-dimensional embeddings for semantic search.
    */
-  static async fetchEmbedding(text: string, accessToken: string): Promise<Float32Array> {
+  static async fetchEmbedding(
+    text: string,
+    accessToken: string,
+    accountId?: string,
+  ): Promise<Float32Array> {
     const payload = {
       model: 'models/text-embedding-004',
       content: { parts: [{ text }] },
@@ -371,7 +361,7 @@ export class GoogleAPIService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(payload),
-        ...this.getFetchOptions(),
+        ...OutboundHttp.fetchOptions(accountId),
       });
 
       if (!response.ok) {
@@ -386,4 +376,43 @@ export class GoogleAPIService {
       throw e;
     }
   }
+
+  /**
+   * Embeds several texts in one batchEmbedContents call (max 100 per call).
+   * Vectors are returned in input order.
+   */
+  static async fetchEmbeddingsBatch(
+    texts: string[],
+    accessToken: string,
+    model = 'text-embedding-004',
+    outputDimensionality?: number,
+    accountId?: string,
+  ): Promise<number[][]> {
+    const payload = {
+      requests: texts.map((text) => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+        ...(outputDimensionality ? { outputDimensionality } : {}),
+      })),
+    };
+
+    const response = await fetch(`${URLS.EMBEDDING_MODELS}/${model}:batchEmbedContents`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+      signal: createTimeoutSignal(REQUEST_TIMEOUT_MS),
+      ...OutboundHttp.fetchOptions(accountId),
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Embedding API failure (${response.status}): ${errText}`);
+    }
+
+    const data = (await response.json()) as { embeddings?: { values: number[] }[] };
+    return (data.embeddings || []).map((e) => e.values);
+  }
 }
@@ -0,0 +1,200 @@
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  AxiosInstance,
+  AxiosResponse,
+  CreateAxiosDefaults,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { Dispatcher, EnvHttpProxyAgent, ProxyAgent, request } from 'undici';
+import { ConfigManager } from '../ipc/config/manager';
+import { getServerConfig } from '../server/server-config';
+import { ProxyTestResult, UpstreamProxyConfig } from '../types/config';
+
+// --- Constants & Config ---
+
+const SUPPORTED_PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks5:'];
+
+// Google answers this with an empty 204, so it measures the proxy rather than the target
+const DEFAULT_TEST_URL = 'https://www.google.com/generate_204';
+const TEST_TIMEOUT_MS = 10000;
+
+// Stale dispatchers (from earlier proxy settings) are closed once the cache grows past this
+const MAX_CACHED_DISPATCHERS = 32;
+
+// --- Service Implementation ---
+
+/**
+ * Shared outbound HTTP layer. Every call to Google, the local AI servers and image hosts
+ * goes through here so the upstream proxy settings apply everywhere:
+ * - HTTP, HTTPS and SOCKS5 proxies, with credentials in the URL
+ * - per-account proxy overrides, so each account can use its own egress IP
+ * - a NO_PROXY list of hosts that always connect directly
+ */
+export class OutboundHttp {
+  private static dispatchers = new Map<string, Dispatcher>();
+
+  /**
+   * Proxy URL for an account: its override first, then the global proxy when enabled.
+   */
+  static proxyFor(accountId?: string): string | null {
+    const upstream = this.config();
+    const override = accountId ? upstream.account_proxies?.[accountId]?.trim() : '';
+    if (override) return override;
+    return upstream.enabled && upstream.url.trim() ? upstream.url.trim() : null;
+  }
+
+  /**
+   * undici dispatcher routing through the account's proxy, or undefined for a direct connection.
+   * Hosts on the NO_PROXY list bypass the proxy per request.
+   */
+  static dispatcher(accountId?: string): Dispatcher | undefined {
+    const proxyUrl = this.proxyFor(accountId);
+    if (!proxyUrl) return undefined;
+
+    const noProxy = (this.config().no_proxy || []).map(formatNoProxyEntry).join(',');
+    const key = `${proxyUrl}\n${noProxy}`;
+    const cached = this.dispatchers.get(key);
+    if (cached) return cached;
+
+    assertProxyUrl(proxyUrl);
+    const dispatcher = new EnvHttpProxyAgent({
+      httpProxy: proxyUrl,
+      httpsProxy: proxyUrl,
+      noProxy,
+    });
+    this.dispatchers.set(key, dispatcher);
+    if (this.dispatchers.size > MAX_CACHED_DISPATCHERS) {
+      const [oldestKey, oldest] = this.dispatchers.entries().next().value!;
+      this.dispatchers.delete(oldestKey);
+      void oldest.close();
+    }
+    return dispatcher;
+  }
+
+  /**
+   * fetch() options carrying the account's dispatcher.
+   */
+  static fetchOptions(accountId?: string): { dispatcher?: Dispatcher } {
+    const dispatcher = this.dispatcher(accountId);
+    return dispatcher ? { dispatcher } : {};
+  }
+
+  /**
+   * Axios instance sending through the account's proxy.
+   * Responses and errors keep the usual axios shape, and `responseType: 'stream'` yields a Node stream.
+   */
+  static client(accountId?: string, defaults: CreateAxiosDefaults = {}): AxiosInstance {
+    return axios.create({ ...defaults, adapter: (config) => this.send(config, accountId) });
+  }
+
+  /**
+   * Sends one request through a proxy and reports whether it answered.
+   */
+  static async testConnection(
+    proxyUrl: string,
+    target = DEFAULT_TEST_URL,
+  ): Promise<ProxyTestResult> {
+    const started = Date.now();
+    let agent: ProxyAgent | undefined;
+    try {
+      assertProxyUrl(proxyUrl.trim());
+      agent = new ProxyAgent(proxyUrl.trim());
+      const response = await request(target, {
+        dispatcher: agent,
+        headersTimeout: TEST_TIMEOUT_MS,
+        bodyTimeout: TEST_TIMEOUT_MS,
+        signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+      });
+      await response.body.dump();
+      return {
+        ok: response.statusCode >= 200 && response.statusCode < 400,
+        status: response.statusCode,
+        latency_ms: Date.now() - started,
+        error: null,
+      };
+    } catch (e) {
+      return {
+        ok: false,
+        status: null,
+        latency_ms: Date.now() - started,
+        error: e instanceof Error ? e.message : String(e),
+      };
+    } finally {
+      void agent?.close();
+    }
+  }
+
+  private static config(): UpstreamProxyConfig {
+    return (getServerConfig() || ConfigManager.loadConfig().proxy).upstream_proxy;
+  }
+
+  /**
+   * Axios adapter backed by undici, so axios callers share the proxy dispatchers.
+   */
+  private static async send(
+    config: InternalAxiosRequestConfig,
+    accountId?: string,
+  ): Promise<AxiosResponse> {
+    const timeout = config.timeout || undefined;
+    let data: unknown;
+    let response: Dispatcher.ResponseData;
+    try {
+      response = await request(axios.getUri(config), {
+        method: (config.method || 'get').toUpperCase() as Dispatcher.HttpMethod,
+        headers: AxiosHeaders.from(config.headers).toJSON(true) as Record<string, string>,
+        body: config.data ?? undefined,
+        dispatcher: this.dispatcher(accountId),
+        signal: config.signal as AbortSignal | undefined,
+        headersTimeout: timeout,
+        bodyTimeout: timeout,
+      });
+      if (config.responseType === 'stream') {
+        data = response.body;
+      } else if (config.responseType === 'arraybuffer') {
+        data = Buffer.from(await response.body.arrayBuffer());
+      } else {
+        data = await response.body.text();
+      }
+    } catch (e) {
+      throw AxiosError.from(e, (e as { code?: string }).code, config);
+    }
+
+    const result: AxiosResponse = {
+      data,
+      status: response.statusCode,
+      statusText: '',
+      headers: AxiosHeaders.from(response.headers as Record<string, string>),
+      config,
+    };
+    if (!config.validateStatus || config.validateStatus(result.status)) return result;
+
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      result,
+    );
+  }
+}
+
+function assertProxyUrl(proxyUrl: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(proxyUrl);
+  } catch {
+    throw new Error(`Invalid proxy URL: ${proxyUrl}`);
+  }
+  if (!SUPPORTED_PROXY_PROTOCOLS.includes(parsed.protocol)) {
+    throw new Error(
+      `Unsupported proxy protocol '${parsed.protocol}'. Use http://, https:// or socks5://`,
+    );
+  }
+}
+
+/** Bare IPv6 addresses need brackets, otherwise the last group is read as a port */
+function formatNoProxyEntry(entry: string): string {
+  const trimmed = entry.trim();
+  return /^[0-9a-f]*:[0-9a-f:]*:[0-9a-f]*$/i.test(trimmed) ? `[${trimmed}]` : trimmed;
+}
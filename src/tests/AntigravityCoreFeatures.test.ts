@@ -14,7 +14,7 @@ import { SignatureStore } from '../lib/antigravity/SignatureStore';
  */
 describe('Antigravity Core Features (Business Logic)', () => {
   beforeEach(() => {
-    // Clear global signature store before each test
+    // Clear the signature store before each test
     SignatureStore.clear();
     vi.restoreAllMocks();
   });
@@ -92,7 +92,9 @@ describe('Antigravity Core Features (Business Logic)', () => {
 
     it('should KEEP thinking mode if function calls exist AND valid signature exists in Store', () => {
       // Pre-fill a valid signature
-      SignatureStore.store('valid_signature_string_longer_than_10_chars');
+      SignatureStore.store('valid_signature_string_longer_than_10_chars', {
+        conversation: 'conversation-1',
+      });
 
       const requestWithTools = {
         ...BASE_REQUEST,
@@ -101,7 +103,7 @@ describe('Antigravity Core Features (Business Logic)', () => {
         thinking: { type: 'enabled', budget_tokens: 1000 },
       } as any;
 
-      const result = transformClaudeRequestIn(requestWithTools, 'test-project');
+      const result = transformClaudeRequestIn(requestWithTools, 'test-project', 'conversation-1');
 
       // Should keep thinking config
       expect(result.request.generationConfig?.thinkingConfig).toBeDefined();
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { AccountScheduler, SchedulingCandidate } from '../../server/modules/proxy/AccountScheduler';
+import { SchedulingStrategy } from '../../types/config';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const HOUR = 3600 * 1000;
+
+function account(id: string, percentage?: number, resetInHours?: number): SchedulingCandidate {
+  if (percentage === undefined) return { id };
+  return {
+    id,
+    quota: {
+      models: {
+        'gemini-2.5-pro': {
+          percentage,
+          resetTime:
+            resetInHours === undefined ? '' : new Date(NOW + resetInHours * HOUR).toISOString(),
+        },
+      },
+    },
+  };
+}
+
+function pickMany(
+  strategy: SchedulingStrategy,
+  candidates: SchedulingCandidate[],
+  count: number,
+  weights: Record<string, number> = {},
+): string[] {
+  const scheduler = new AccountScheduler();
+  return Array.from(
+    { length: count },
+    () => scheduler.pick(strategy, candidates, { model: 'gemini-2.5-pro', weights, now: NOW })?.id,
+  ).filter((id): id is string => !!id);
+}
+
+describe('AccountScheduler', () => {
+  it('should rotate in round-robin order', () => {
+    expect(pickMany('round-robin', [account('a'), account('b'), account('c')], 4)).toEqual([
+      'a',
+      'b',
+      'c',
+      'a',
+    ]);
+  });
+
+  it('should prefer the account with the highest quota for the model', () => {
+    const candidates = [account('a', 20, 2), account('b', 90, 2), account('c')];
+    expect(pickMany('highest-quota', candidates, 2)).toEqual(['b', 'b']);
+  });
+
+  it('should prefer the account whose quota resets first', () => {
+    const candidates = [account('a', 50, 4), account('b', 50, 1), account('c', 50, 3)];
+    expect(pickMany('earliest-reset', candidates, 1)).toEqual(['b']);
+  });
+
+  it('should balance picks with least-used', () => {
+    const picks = pickMany('least-used', [account('a'), account('b')], 4);
+    expect(picks.filter((id) => id === 'a')).toHaveLength(2);
+  });
+
+  it('should spread picks in proportion to the weights', () => {
+    const picks = pickMany('weighted', [account('a'), account('b'), account('c')], 8, {
+      a: 3,
+      b: 1,
+      c: 0,
+    });
+    expect(picks.filter((id) => id === 'a')).toHaveLength(6);
+    expect(picks.filter((id) => id === 'b')).toHaveLength(2);
+    expect(picks).not.toContain('c');
+  });
+
+  it('should skip accounts exhausted for the model until their reset time', () => {
+    const candidates = [account('a', 0, 2), account('b', 40, 2)];
+    expect(pickMany('round-robin', candidates, 3)).toEqual(['b', 'b', 'b']);
+
+    // A reset in the past means the stored quota is stale
+    expect(pickMany('round-robin', [account('a', 0, -1)], 1)).toEqual(['a']);
+    expect(pickMany('round-robin', [account('a', 0, 2)], 1)).toEqual([]);
+  });
+
+  it('should resolve quotas through the Claude to Gemini mapping', () => {
+    const quota = { models: { 'claude-sonnet-4-5': { percentage: 0, resetTime: '' } } };
+    expect(
+      AccountScheduler.isExhausted({ id: 'a', quota }, 'claude-3-5-sonnet-20241022', NOW),
+    ).toBe(true);
+  });
+});
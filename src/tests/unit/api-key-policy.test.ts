@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ExecutionContext, HttpException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeyPolicy } from '../../server/modules/proxy/ApiKeyPolicy';
+import { ProxyGuard } from '../../server/modules/proxy/proxy.guard';
+import { ApiKeyRepo } from '../../ipc/database/apiKeys';
+import { getServerConfig } from '../../server/server-config';
+import { VirtualApiKey } from '../../types/apiKey';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+
+vi.mock('../../ipc/database/apiKeys', () => ({
+  ApiKeyRepo: {
+    findByKey: vi.fn(),
+    hasActiveKeys: vi.fn(),
+    touch: vi.fn(),
+  },
+}));
+
+vi.mock('../../server/server-config', () => ({
+  getServerConfig: vi.fn(),
+}));
+
+function makeKey(overrides: Partial<VirtualApiKey> = {}): VirtualApiKey {
+  return {
+    id: 'key-1',
+    name: 'ci',
+    key_prefix: 'sk-1234567',
+    allowed_models: [],
+    protocol: 'any',
+    rate_limit_rpm: null,
+    daily_token_budget: null,
+    tokens_used_today: 0,
+    expires_at: null,
+    revoked_at: null,
+    created_at: 0,
+    last_used_at: null,
+    ...overrides,
+  };
+}
+
+const chatRequest = { url: '/v1/chat/completions', body: { model: 'gemini-2.5-flash' } };
+
+describe('ApiKeyPolicy', () => {
+  beforeEach(() => {
+    ApiKeyPolicy.resetRateLimits();
+  });
+
+  it('should detect the protocol from the path', () => {
+    expect(ApiKeyPolicy.detectProtocol('/v1/messages')).toBe('anthropic');
+    expect(ApiKeyPolicy.detectProtocol('/v1/messages/count_tokens')).toBe('anthropic');
+    expect(
+      ApiKeyPolicy.detectProtocol('/v1beta/models/gemini-2.5-flash:generateContent?key=x'),
+    ).toBe('gemini');
+    expect(ApiKeyPolicy.detectProtocol('/v1/embeddings')).toBe('openai');
+    expect(ApiKeyPolicy.detectProtocol('/api/chat')).toBe('ollama');
+  });
+
+  it('should match exact models and prefix patterns', () => {
+    expect(ApiKeyPolicy.isModelAllowed('gemini-2.5-pro', [])).toBe(true);
+    expect(ApiKeyPolicy.isModelAllowed('claude-sonnet-4-5', ['claude-*'])).toBe(true);
+    expect(ApiKeyPolicy.isModelAllowed('gemini-2.5-pro', ['gemini-2.5-flash'])).toBe(false);
+  });
+
+  it('should resolve the model from the Gemini path when the body has none', () => {
+    expect(
+      ApiKeyPolicy.resolveModel({
+        url: '/v1beta/models/gemini-2.5-pro:generateContent',
+        body: { contents: [] },
+        params: { modelAction: 'gemini-2.5-pro:generateContent' },
+      }),
+    ).toBe('gemini-2.5-pro');
+  });
+
+  it('should reject revoked, expired and out-of-scope keys', () => {
+    const now = Date.now();
+    expect(ApiKeyPolicy.evaluate(makeKey({ revoked_at: 1 }), chatRequest)?.status).toBe(401);
+    expect(
+      ApiKeyPolicy.evaluate(makeKey({ expires_at: Math.floor(now / 1000) - 10 }), chatRequest, now)
+        ?.status,
+    ).toBe(401);
+    expect(ApiKeyPolicy.evaluate(makeKey({ protocol: 'anthropic' }), chatRequest)?.status).toBe(
+      403,
+    );
+    expect(
+      ApiKeyPolicy.evaluate(makeKey({ allowed_models: ['claude-*'] }), chatRequest)?.status,
+    ).toBe(403);
+    expect(ApiKeyPolicy.evaluate(makeKey(), chatRequest)).toBeNull();
+  });
+
+  it('should enforce the daily token budget', () => {
+    const key = makeKey({ daily_token_budget: 1000, tokens_used_today: 1000 });
+    expect(ApiKeyPolicy.evaluate(key, chatRequest)?.status).toBe(429);
+  });
+
+  it('should enforce the per-minute rate limit in a sliding window', () => {
+    const key = makeKey({ rate_limit_rpm: 2 });
+    const now = 1_000_000;
+
+    expect(ApiKeyPolicy.evaluate(key, chatRequest, now)).toBeNull();
+    expect(ApiKeyPolicy.evaluate(key, chatRequest, now + 1)).toBeNull();
+    expect(ApiKeyPolicy.evaluate(key, chatRequest, now + 2)?.status).toBe(429);
+    expect(ApiKeyPolicy.evaluate(key, chatRequest, now + 60_001)).toBeNull();
+  });
+});
+
+describe('ProxyGuard', () => {
+  const guard = new ProxyGuard();
+
+  function contextFor(request: Record<string, unknown>): ExecutionContext {
+    return {
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  }
+
+  beforeEach(() => {
+    vi.mocked(ApiKeyRepo.findByKey).mockReset();
+    vi.mocked(ApiKeyRepo.hasActiveKeys).mockReset();
+    vi.mocked(getServerConfig).mockReturnValue({ api_key: 'sk-master' } as ReturnType<
+      typeof getServerConfig
+    >);
+    ApiKeyPolicy.resetRateLimits();
+  });
+
+  it('should attach the master identity for the config key', () => {
+    const request: Record<string, unknown> = {
+      url: '/v1/chat/completions',
+      headers: { authorization: 'Bearer sk-master' },
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+    expect(request.apiKey).toEqual({ id: 'master', name: 'master', virtual: false });
+  });
+
+  it('should attach the virtual key identity', () => {
+    vi.mocked(ApiKeyRepo.findByKey).mockReturnValue(makeKey());
+    const request: Record<string, unknown> = {
+      url: '/v1/messages',
+      headers: { 'x-api-key': 'sk-virtual' },
+      body: { model: 'claude-sonnet-4-5' },
+    };
+
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+    expect(request.apiKey).toEqual({
+      id: 'key-1',
+      name: 'ci',
+      virtual: true,
+      allowedModels: [],
+    });
+    expect(ApiKeyRepo.touch).toHaveBeenCalledWith('key-1');
+  });
+
+  it('should answer 429 when a virtual key is over budget', () => {
+    vi.mocked(ApiKeyRepo.findByKey).mockReturnValue(
+      makeKey({ daily_token_budget: 10, tokens_used_today: 10 }),
+    );
+    const request = {
+      url: '/v1/chat/completions',
+      headers: { authorization: 'Bearer sk-virtual' },
+    };
+
+    try {
+      guard.canActivate(contextFor(request));
+      expect.unreachable();
+    } catch (e) {
+      expect((e as HttpException).getStatus()).toBe(429);
+    }
+  });
+
+  it('should stay open only when no key of any kind is configured', () => {
+    vi.mocked(getServerConfig).mockReturnValue({ api_key: '' } as ReturnType<
+      typeof getServerConfig
+    >);
+    const request = { url: '/v1/chat/completions', headers: {} };
+
+    vi.mocked(ApiKeyRepo.hasActiveKeys).mockReturnValue(false);
+    expect(guard.canActivate(contextFor(request))).toBe(true);
+
+    vi.mocked(ApiKeyRepo.hasActiveKeys).mockReturnValue(true);
+    expect(() => guard.canActivate(contextFor(request))).toThrow('Invalid API Key');
+  });
+
+  it('should reject requests on a LAN bind when no key is active', () => {
+    vi.mocked(getServerConfig).mockReturnValue({
+      api_key: '',
+      network: { ...DEFAULT_APP_CONFIG.proxy.network, bind: 'all' },
+    } as ReturnType<typeof getServerConfig>);
+    vi.mocked(ApiKeyRepo.hasActiveKeys).mockReturnValue(false);
+    const request = { url: '/v1/chat/completions', headers: {}, ip: '192.168.1.20' };
+
+    expect(() => guard.canActivate(contextFor(request))).toThrow(UnauthorizedException);
+  });
+});
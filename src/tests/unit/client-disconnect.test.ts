@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { ExecutionContext } from '@nestjs/common';
+import { AxiosInstance } from 'axios';
+import { Observable, defer, of } from 'rxjs';
+import { LocalAIClient } from '../../server/modules/proxy/clients/local-ai.client';
+import { GeminiClient } from '../../server/modules/proxy/clients/gemini.client';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+import { RequestLedger } from '../../server/modules/proxy/RequestLedger';
+import { RequestLedgerInterceptor } from '../../server/modules/proxy/request-ledger.interceptor';
+import { InFlightTracker } from '../../server/modules/proxy/InFlightTracker';
+import { SemanticCacheManager } from '../../server/modules/proxy/SemanticCacheManager';
+import { OutboundHttp } from '../../services/OutboundHttp';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { GeminiInternalRequest } from '../../lib/antigravity/types';
+import { CloudAccount } from '../../types/cloudAccount';
+
+vi.mock('../../ipc/database/requestLog', () => ({
+  RequestLogRepo: {
+    insert: vi.fn(),
+  },
+}));
+
+/** Interceptor context whose response can be closed by hand */
+function interceptorContext() {
+  const raw = Object.assign(new EventEmitter(), { writableFinished: false });
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => ({
+        url: '/v1/messages',
+        body: { model: 'claude-sonnet-4-5', stream: true },
+        params: {},
+        ip: '127.0.0.1',
+      }),
+      getResponse: () => ({ raw, statusCode: 200 }),
+    }),
+  } as unknown as ExecutionContext;
+  return { context, raw };
+}
+
+describe('Client disconnect', () => {
+  beforeEach(() => {
+    InFlightTracker.reset();
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy });
+  });
+
+  it('aborts the upstream call when the client closes before the response is complete', () => {
+    const { context, raw } = interceptorContext();
+    let signal: AbortSignal | undefined;
+    new RequestLedgerInterceptor().intercept(context, {
+      handle: () => {
+        signal = RequestLedger.signal();
+        return of(null);
+      },
+    });
+
+    expect(signal?.aborted).toBe(false);
+    raw.emit('close');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('leaves the upstream alone when the response finished normally', () => {
+    const { context, raw } = interceptorContext();
+    let signal: AbortSignal | undefined;
+    new RequestLedgerInterceptor().intercept(context, {
+      handle: () => {
+        signal = RequestLedger.signal();
+        return of(null);
+      },
+    });
+
+    raw.writableFinished = true;
+    raw.emit('close');
+    expect(signal?.aborted).toBe(false);
+  });
+
+  it('passes the signal to the streaming Gemini request', async () => {
+    const post = vi.fn(async () => ({ data: Readable.from([]) }));
+    const clientSpy = vi
+      .spyOn(OutboundHttp, 'client')
+      .mockReturnValue({ post } as unknown as AxiosInstance);
+    const controller = new AbortController();
+
+    await new GeminiClient().streamGenerateInternal(
+      { model: 'gemini-2.5-flash' } as GeminiInternalRequest,
+      'token',
+      'acc-1',
+      controller.signal,
+    );
+
+    expect(post).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.anything(),
+      expect.objectContaining({ responseType: 'stream', signal: controller.signal }),
+    );
+    clientSpy.mockRestore();
+  });
+
+  it('reads the cached stream through a single upstream subscription', async () => {
+    const storeSpy = vi.spyOn(SemanticCacheManager, 'captureAndStore').mockResolvedValue(undefined);
+    let subscriptions = 0;
+    const upstream = defer(() => {
+      subscriptions++;
+      return of('data: {"delta":{"text":"Hel"}}\n\n', 'data: {"delta":{"text":"lo"}}\n\n');
+    });
+    const service = new ProxyService({} as never, {} as never, {} as never) as unknown as {
+      captureStreamOutput: (...args: unknown[]) => Observable<string>;
+    };
+
+    const captured = service.captureStreamOutput(upstream, { text: 'hi' }, {
+      id: 'acc-1',
+      token: { access_token: 'token' },
+    } as CloudAccount);
+    expect(subscriptions).toBe(0);
+
+    const chunks: string[] = [];
+    await new Promise<void>((resolve) =>
+      captured.subscribe({ next: (c) => chunks.push(c), complete: resolve }),
+    );
+
+    expect(subscriptions).toBe(1);
+    expect(chunks).toHaveLength(2);
+    expect(storeSpy).toHaveBeenCalledWith({ text: 'hi' }, 'Hello', 'token', 'acc-1');
+    storeSpy.mockRestore();
+  });
+});
+
+describe('LocalAIClient stream abort', () => {
+  let upstreamClosed: Promise<void>;
+  let markClosed: () => void;
+  // Streams a chunk every 20 ms until the gateway hangs up
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const timer = setInterval(
+      () => res.write('data: {"choices":[{"delta":{"content":"x"}}]}\n\n'),
+      20,
+    );
+    res.on('close', () => {
+      clearInterval(timer);
+      markClosed();
+    });
+  });
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy });
+    upstreamClosed = new Promise((resolve) => (markClosed = resolve));
+  });
+
+  it('stops reading the local model stream once the signal aborts', async () => {
+    const controller = new AbortController();
+    const stream: Readable = await new LocalAIClient().streamChat(
+      { baseUrl, provider: 'ollama' },
+      { model: 'llama3.2:3b', messages: [] },
+      controller.signal,
+    );
+    stream.on('error', () => undefined);
+    await new Promise((resolve) => stream.once('data', resolve));
+
+    controller.abort();
+
+    await upstreamClosed;
+    expect(stream.destroyed).toBe(true);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NestFactory } from '@nestjs/core';
+import { AxiosInstance } from 'axios';
+import { applyServerConfig, bootstrapNestServer, stopNestServer } from '../../server/main';
+import { getServerConfig, setServerConfig } from '../../server/server-config';
+import { GeminiClient } from '../../server/modules/proxy/clients/gemini.client';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+import { OutboundHttp } from '../../services/OutboundHttp';
+import { DEFAULT_APP_CONFIG, ProxyConfig } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+import { ClaudeRequest, GeminiInternalRequest } from '../../lib/antigravity/types';
+import { AnthropicChatRequest } from '../../server/modules/proxy/interfaces/request-interfaces';
+
+vi.mock('@nestjs/core', async () => {
+  const actual = await vi.importActual('@nestjs/core');
+  return {
+    ...actual,
+    NestFactory: {
+      create: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../../ipc/database/apiKeys', () => ({
+  ApiKeyRepo: {
+    hasActiveKeys: vi.fn(() => false),
+  },
+}));
+
+describe('Gateway config hot-reload', () => {
+  const tokenManager = { clearSessions: vi.fn() };
+  let appMock: {
+    enableCors: ReturnType<typeof vi.fn>;
+    useGlobalFilters: ReturnType<typeof vi.fn>;
+    useGlobalInterceptors: ReturnType<typeof vi.fn>;
+    listen: ReturnType<typeof vi.fn>;
+    get: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+  };
+
+  const base: ProxyConfig = { ...DEFAULT_APP_CONFIG.proxy, api_key: 'sk-old' };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    appMock = {
+      enableCors: vi.fn(),
+      useGlobalFilters: vi.fn(),
+      useGlobalInterceptors: vi.fn(),
+      listen: vi.fn().mockResolvedValue(true),
+      get: vi.fn(() => tokenManager),
+      close: vi.fn().mockResolvedValue(true),
+    };
+    vi.mocked(NestFactory.create).mockResolvedValue(appMock as never);
+    await bootstrapNestServer(base);
+    appMock.listen.mockClear();
+  });
+
+  afterEach(async () => {
+    await stopNestServer();
+  });
+
+  it('applies an API key change without restarting', async () => {
+    const result = await applyServerConfig({ ...base, api_key: 'sk-new' });
+
+    expect(result).toEqual({ status: 'applied', changed: ['api_key'] });
+    expect(getServerConfig()?.api_key).toBe('sk-new');
+    expect(appMock.close).not.toHaveBeenCalled();
+    expect(appMock.listen).not.toHaveBeenCalled();
+  });
+
+  it('ignores settings that do not concern the running gateway', async () => {
+    const result = await applyServerConfig({ ...base, enabled: true, auto_start: true });
+
+    expect(result).toEqual({ status: 'unchanged' });
+  });
+
+  it('restarts when the port changes', async () => {
+    const result = await applyServerConfig({ ...base, port: 9090, request_timeout: 60 });
+
+    expect(result).toEqual({ status: 'restarted', changed: ['port', 'request_timeout'] });
+    expect(appMock.close).toHaveBeenCalledTimes(1);
+    expect(appMock.listen).toHaveBeenCalledWith(9090, '127.0.0.1');
+    expect(getServerConfig()?.request_timeout).toBe(60);
+  });
+
+  it('restores the previous listener when the restart fails', async () => {
+    appMock.listen.mockRejectedValueOnce(new Error('listen EADDRINUSE: address already in use'));
+
+    const result = await applyServerConfig({ ...base, port: 9090, request_timeout: 60 });
+
+    expect(result.status).toBe('rejected');
+    expect(appMock.listen.mock.calls).toEqual([
+      [9090, '127.0.0.1'],
+      [8045, '127.0.0.1'],
+    ]);
+    expect(getServerConfig()?.port).toBe(8045);
+    expect(getServerConfig()?.request_timeout).toBe(base.request_timeout);
+  });
+
+  it('keeps the port the gateway was started on until the saved port changes', async () => {
+    await bootstrapNestServer(base, 9000);
+    appMock.listen.mockClear();
+
+    expect(await applyServerConfig({ ...base, api_key: 'sk-new' })).toEqual({
+      status: 'applied',
+      changed: ['api_key'],
+    });
+    expect(appMock.listen).not.toHaveBeenCalled();
+
+    await applyServerConfig({ ...base, network: { ...base.network, bind: 'all' } });
+    expect(appMock.listen).toHaveBeenCalledWith(9000, '0.0.0.0');
+  });
+
+  it('restarts when the bind address changes but not for client lists', async () => {
+    const listsOnly = await applyServerConfig({
+      ...base,
+      network: { ...base.network, allow_cidrs: ['127.0.0.1'] },
+    });
+    expect(listsOnly.status).toBe('applied');
+    expect(appMock.close).not.toHaveBeenCalled();
+
+    const rebound = await applyServerConfig({
+      ...base,
+      network: { ...base.network, allow_cidrs: ['127.0.0.1'], bind: 'all' },
+    });
+    expect(rebound.status).toBe('restarted');
+    expect(appMock.listen).toHaveBeenCalledWith(8045, '0.0.0.0');
+  });
+
+  it('refuses to drop the last API key of a LAN gateway', async () => {
+    const lan = { ...base, network: { ...base.network, bind: 'all' as const } };
+    await applyServerConfig(lan);
+
+    const result = await applyServerConfig({ ...lan, api_key: '' });
+
+    expect(result.status).toBe('rejected');
+    expect(getServerConfig()?.api_key).toBe('sk-old');
+  });
+
+  it('rejects configs that fail validation', async () => {
+    const result = await applyServerConfig({ ...base, port: 'eighty' as unknown as number });
+
+    expect(result.status).toBe('rejected');
+    expect(getServerConfig()?.port).toBe(8045);
+  });
+
+  it('drops conversation bindings when affinity is turned off', async () => {
+    await applyServerConfig({
+      ...base,
+      session_affinity: { ...base.session_affinity, enabled: false },
+    });
+
+    expect(tokenManager.clearSessions).toHaveBeenCalled();
+  });
+
+  it('does nothing while the gateway is stopped', async () => {
+    await stopNestServer();
+
+    expect(await applyServerConfig({ ...base, api_key: 'sk-new' })).toEqual({
+      status: 'not_running',
+    });
+  });
+});
+
+describe('Settings read per request', () => {
+  beforeEach(() => {
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy });
+  });
+
+  it('sends Claude models to the saved Anthropic mapping', async () => {
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy, anthropic_mapping: { opus: 'gemini-2.5-pro' } });
+    const token = {
+      id: 'acc-1',
+      email: 'a@example.com',
+      provider: 'google',
+      token: { access_token: 'access', project_id: 'project' },
+    } as unknown as CloudAccount;
+    const geminiClient = {
+      generateInternal: vi.fn(async () => ({
+        response: { candidates: [{ content: { role: 'model', parts: [{ text: 'Hi' }] } }] },
+      })),
+    };
+    type Deps = ConstructorParameters<typeof ProxyService>;
+    const service = new ProxyService(
+      { getNextToken: vi.fn(async () => token) } as unknown as Deps[0],
+      geminiClient as unknown as Deps[1],
+      {} as Deps[2],
+    );
+
+    await service.handleAnthropicMessages({
+      model: 'claude-opus-4-5-20251101',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 100,
+    } as AnthropicChatRequest);
+
+    expect(geminiClient.generateInternal).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gemini-2.5-pro' }),
+      'access',
+      'acc-1',
+    );
+  });
+
+  it('counts tokens for the model the Anthropic mapping sends requests to', async () => {
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy, anthropic_mapping: { opus: 'gemini-2.5-pro' } });
+    const token = {
+      id: 'acc-1',
+      email: 'a@example.com',
+      provider: 'google',
+      token: { access_token: 'access', project_id: 'project' },
+    } as unknown as CloudAccount;
+    const geminiClient = { countTokensInternal: vi.fn(async () => 12) };
+    type Deps = ConstructorParameters<typeof ProxyService>;
+    const service = new ProxyService(
+      { getNextToken: vi.fn(async () => token) } as unknown as Deps[0],
+      geminiClient as unknown as Deps[1],
+      {} as Deps[2],
+    );
+
+    const result = await service.handleCountTokens({
+      model: 'claude-opus-4-5-20251101',
+      messages: [{ role: 'user', content: 'Hello' }],
+    } as ClaudeRequest);
+
+    expect(result).toEqual({ input_tokens: 12 });
+    expect(geminiClient.countTokensInternal).toHaveBeenCalledWith(
+      'gemini-2.5-pro',
+      expect.anything(),
+      'access',
+      'acc-1',
+    );
+  });
+
+  it('uses the saved request timeout for upstream calls', async () => {
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy, request_timeout: 30 });
+    const post = vi.fn(async () => ({ data: { response: {} } }));
+    const clientSpy = vi
+      .spyOn(OutboundHttp, 'client')
+      .mockReturnValue({ post } as unknown as AxiosInstance);
+
+    await new GeminiClient().generateInternal({} as GeminiInternalRequest, 'token', 'acc-1');
+
+    expect(post).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.anything(),
+      expect.objectContaining({ timeout: 30_000 }),
+    );
+    clientSpy.mockRestore();
+  });
+});
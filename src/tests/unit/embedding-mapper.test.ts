@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkArray,
+  DEFAULT_EMBEDDING_MODEL,
+  encodeEmbeddingBase64,
+  mapEmbeddingModel,
+  normalizeEmbeddingInput,
+} from '../../lib/antigravity/EmbeddingMapper';
+
+describe('EmbeddingMapper', () => {
+  describe('mapEmbeddingModel', () => {
+    it('should pass Gemini embedding models through', () => {
+      expect(mapEmbeddingModel('gemini-embedding-001')).toBe('gemini-embedding-001');
+      expect(mapEmbeddingModel('models/text-embedding-004')).toBe('text-embedding-004');
+    });
+
+    it('should map OpenAI models to the default', () => {
+      expect(mapEmbeddingModel('text-embedding-3-small')).toBe(DEFAULT_EMBEDDING_MODEL);
+      expect(mapEmbeddingModel(undefined)).toBe(DEFAULT_EMBEDDING_MODEL);
+    });
+  });
+
+  describe('normalizeEmbeddingInput', () => {
+    it('should accept strings and string arrays', () => {
+      expect(normalizeEmbeddingInput('hello')).toEqual(['hello']);
+      expect(normalizeEmbeddingInput(['a', 'b'])).toEqual(['a', 'b']);
+    });
+
+    it('should reject token arrays and empty input', () => {
+      expect(normalizeEmbeddingInput([1, 2, 3])).toBeNull();
+      expect(normalizeEmbeddingInput([])).toBeNull();
+      expect(normalizeEmbeddingInput(undefined)).toBeNull();
+    });
+  });
+
+  it('should encode vectors as little-endian float32 base64', () => {
+    const encoded = encodeEmbeddingBase64([0.5, -1.25, 3]);
+    const buffer = Buffer.from(encoded, 'base64');
+
+    expect(buffer.length).toBe(12);
+    expect([0, 4, 8].map((offset) => buffer.readFloatLE(offset))).toEqual([0.5, -1.25, 3]);
+  });
+
+  it('should split inputs into batches', () => {
+    expect(chunkArray([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkArray([], 100)).toEqual([]);
+  });
+});
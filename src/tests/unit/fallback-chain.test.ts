@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { FallbackChain } from '../../server/modules/proxy/FallbackChain';
+import { UpstreamError } from '../../lib/antigravity/upstream-errors';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+import { RequestLedger, LedgerRecord } from '../../server/modules/proxy/RequestLedger';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+
+vi.mock('../../ipc/database/requestLog', () => ({
+  RequestLogRepo: { insert: vi.fn() },
+}));
+
+describe('FallbackChain', () => {
+  it('puts the requested model first and skips duplicates', () => {
+    const chains = { 'Claude-Sonnet-4-5': ['gemini-3-pro-high', 'claude-sonnet-4-5', ' '] };
+    expect(FallbackChain.resolve('claude-sonnet-4-5', chains)).toEqual([
+      'claude-sonnet-4-5',
+      'gemini-3-pro-high',
+    ]);
+    expect(FallbackChain.resolve('gpt-4o', chains)).toEqual(['gpt-4o']);
+  });
+
+  it('parses local targets', () => {
+    expect(FallbackChain.parseLocalTarget('local-ollama:qwen2.5-coder:7b')).toEqual({
+      provider: 'local-ollama',
+      model: 'qwen2.5-coder:7b',
+      accountId: 'local-ollama-qwen2.5-coder:7b',
+    });
+    expect(FallbackChain.parseLocalTarget('gemini-3-pro-high')).toBeNull();
+  });
+
+  it('only stops on client errors', () => {
+    expect(FallbackChain.canFallBack(new Error('No available accounts satisfy model'))).toBe(true);
+    expect(
+      FallbackChain.canFallBack(new HttpException('quota', HttpStatus.TOO_MANY_REQUESTS)),
+    ).toBe(true);
+    expect(FallbackChain.canFallBack(new HttpException('down', HttpStatus.BAD_GATEWAY))).toBe(true);
+    expect(FallbackChain.canFallBack(new BadRequestException('bad input'))).toBe(false);
+    expect(
+      FallbackChain.canFallBack(
+        new UpstreamError('bad', { status: 400, code: 'INVALID_ARGUMENT', reason: null }),
+      ),
+    ).toBe(false);
+    expect(
+      FallbackChain.canFallBack(
+        new UpstreamError('unavailable', { status: 503, code: 'UNAVAILABLE', reason: null }),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('ProxyService fallback', () => {
+  const googleToken = {
+    id: 'acc-1',
+    email: 'a@example.com',
+    provider: 'google',
+    token: { access_token: 'access', project_id: 'project' },
+  } as unknown as CloudAccount;
+
+  const tokenManager = { getNextToken: vi.fn(), markAsRateLimited: vi.fn() };
+  const geminiClient = { generateInternal: vi.fn(), streamGenerateInternal: vi.fn() };
+  type Deps = ConstructorParameters<typeof ProxyService>;
+  const service = new ProxyService(
+    tokenManager as unknown as Deps[0],
+    geminiClient as unknown as Deps[1],
+    {} as Deps[2],
+  );
+  const request = { contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] };
+
+  const ledgerRecord = (): LedgerRecord =>
+    RequestLedger.begin({
+      url: '/v1beta/models/claude-sonnet-4-5:generateContent',
+      body: request,
+      params: {},
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setServerConfig({
+      ...DEFAULT_APP_CONFIG.proxy,
+      fallback_chains: { 'claude-sonnet-4-5': ['gemini-3-pro-high', 'gemini-2.5-flash'] },
+    });
+    geminiClient.generateInternal.mockResolvedValue({
+      response: { candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] } }] },
+    });
+  });
+
+  it('walks the chain when the requested model has no account', async () => {
+    tokenManager.getNextToken.mockImplementation(async (model: string) =>
+      model === 'gemini-3-pro-high' ? googleToken : null,
+    );
+
+    const record = ledgerRecord();
+    const result = await RequestLedger.run(record, () =>
+      service.handleGeminiGenerateContent('claude-sonnet-4-5', request, false),
+    );
+
+    expect(result).toHaveProperty('candidates');
+    expect(tokenManager.getNextToken.mock.calls.map(([model]) => model)).toEqual([
+      'claude-sonnet-4-5',
+      'gemini-3-pro-high',
+    ]);
+    expect(record.fallbackModel).toBe('gemini-3-pro-high');
+  });
+
+  it('picks a cloud account when the active local model comes first', async () => {
+    const localToken = { ...googleToken, id: 'local-ollama-llama3', provider: 'local-ollama' };
+    tokenManager.getNextToken.mockImplementation(
+      async (_model: string, _key: unknown, excludeIds: string[]) =>
+        excludeIds.includes(localToken.id) ? googleToken : localToken,
+    );
+
+    const result = await RequestLedger.run(ledgerRecord(), () =>
+      service.handleGeminiGenerateContent('gemini-2.5-flash', request, false),
+    );
+
+    expect(result).toHaveProperty('candidates');
+    expect(geminiClient.generateInternal).toHaveBeenCalledWith(
+      expect.anything(),
+      'access',
+      'acc-1',
+    );
+  });
+
+  it("skips fallback models outside the key's allow-list", async () => {
+    tokenManager.getNextToken.mockImplementation(async (model: string) =>
+      model === 'claude-sonnet-4-5' ? null : googleToken,
+    );
+
+    const record = RequestLedger.begin({
+      url: '/v1beta/models/claude-sonnet-4-5:generateContent',
+      body: request,
+      params: {},
+      apiKey: {
+        id: 'key-1',
+        name: 'ci',
+        virtual: true,
+        allowedModels: ['claude-*', 'gemini-2.5-*'],
+      },
+    });
+    await RequestLedger.run(record, () =>
+      service.handleGeminiGenerateContent('claude-sonnet-4-5', request, false),
+    );
+
+    expect(tokenManager.getNextToken.mock.calls.map(([model]) => model)).toEqual([
+      'claude-sonnet-4-5',
+      'gemini-2.5-flash',
+    ]);
+    expect(record.fallbackModel).toBe('gemini-2.5-flash');
+  });
+
+  it('does not mark requests that the requested model answered', async () => {
+    tokenManager.getNextToken.mockResolvedValue(googleToken);
+
+    const record = ledgerRecord();
+    await RequestLedger.run(record, () =>
+      service.handleGeminiGenerateContent('claude-sonnet-4-5', request, false),
+    );
+
+    expect(tokenManager.getNextToken).toHaveBeenCalledTimes(1);
+    expect(record.fallbackModel).toBeNull();
+  });
+
+  it("throws the requested model's error when the whole chain fails", async () => {
+    tokenManager.getNextToken.mockResolvedValue(null);
+
+    await expect(
+      service.handleGeminiGenerateContent('claude-sonnet-4-5', request, false),
+    ).rejects.toThrow('No available accounts satisfy model: claude-sonnet-4-5');
+    expect(tokenManager.getNextToken).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseModelAction,
+  transformGeminiRequestIn,
+  unwrapGeminiResponse,
+} from '../../lib/antigravity/GeminiRequestMapper';
+
+describe('GeminiRequestMapper', () => {
+  describe('parseModelAction', () => {
+    it('should split model and method', () => {
+      expect(parseModelAction('gemini-2.5-flash:streamGenerateContent')).toEqual({
+        model: 'gemini-2.5-flash',
+        action: 'streamGenerateContent',
+      });
+    });
+
+    it('should decode escaped colons and strip the models/ prefix', () => {
+      expect(parseModelAction('models%2Fgemini-2.5-pro%3AgenerateContent')).toEqual({
+        model: 'gemini-2.5-pro',
+        action: 'generateContent',
+      });
+    });
+
+    it('should return null when no method is present', () => {
+      expect(parseModelAction('gemini-2.5-flash')).toBeNull();
+      expect(parseModelAction('gemini-2.5-flash:')).toBeNull();
+    });
+  });
+
+  describe('transformGeminiRequestIn', () => {
+    it('should wrap the request in the v1internal envelope', () => {
+      const request = {
+        contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+        generationConfig: { temperature: 0.2 },
+        model: 'ignored',
+      };
+
+      const body = transformGeminiRequestIn('gemini-2.5-flash', request, 'project-1');
+
+      expect(body.project).toBe('project-1');
+      expect(body.model).toBe('gemini-2.5-flash');
+      expect(body.requestId).toMatch(/^agent-/);
+      expect(body.request).toEqual({
+        contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+        generationConfig: { temperature: 0.2 },
+      });
+      // Caller's object is left untouched
+      expect(request.model).toBe('ignored');
+    });
+  });
+
+  describe('unwrapGeminiResponse', () => {
+    it('should unwrap v1internal payloads and pass bare ones through', () => {
+      const bare = { candidates: [{ finishReason: 'STOP' }] };
+      expect(unwrapGeminiResponse({ response: bare })).toBe(bare);
+      expect(unwrapGeminiResponse(bare)).toBe(bare);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from '../../lib/antigravity/HnswIndex';
+
+const DIMENSIONS = 64;
+
+/** Deterministic PRNG so benchmark data is the same on every run */
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Clustered unit vectors, shaped like embeddings of prompts on a handful of topics.
+ */
+function clusteredVectors(count: number, clusters: number, seed = 1): Float32Array[] {
+  const next = random(seed);
+  const gaussian = () => Math.sqrt(-2 * Math.log(next() + 1e-12)) * Math.cos(2 * Math.PI * next());
+  const centers = Array.from({ length: clusters }, () =>
+    Float32Array.from({ length: DIMENSIONS }, gaussian),
+  );
+  return Array.from({ length: count }, (_, i) => {
+    const center = centers[i % clusters];
+    return Float32Array.from(center, (value) => value + gaussian() * 0.6);
+  });
+}
+
+function buildIndex(vectors: Float32Array[]): HnswIndex {
+  const index = new HnswIndex({ seed: 7 });
+  vectors.forEach((vector, i) => index.add(`e${i}`, vector));
+  return index;
+}
+
+describe('HnswIndex', () => {
+  it('finds exact and near-duplicate vectors', () => {
+    const vectors = clusteredVectors(300, 10);
+    const index = buildIndex(vectors);
+
+    const [hit] = index.search(vectors[42]);
+    expect(hit.id).toBe('e42');
+    expect(hit.similarity).toBeCloseTo(1, 5);
+    expect(index.size).toBe(300);
+  });
+
+  it('skips removed entries and honours the filter', () => {
+    const vectors = clusteredVectors(300, 10);
+    const index = buildIndex(vectors);
+
+    index.remove('e42');
+    expect(index.has('e42')).toBe(false);
+    expect(index.search(vectors[42], 5).map((m) => m.id)).not.toContain('e42');
+
+    const even = (id: string) => Number(id.slice(1)) % 2 === 0;
+    const matches = index.search(vectors[43], 5, even);
+    expect(matches).toHaveLength(5);
+    expect(matches.every((m) => even(m.id))).toBe(true);
+  });
+
+  it('round-trips through serialization', () => {
+    const vectors = clusteredVectors(500, 10);
+    const index = buildIndex(vectors);
+    index.remove('e3');
+
+    const byId = new Map(vectors.map((v, i) => [`e${i}`, v]));
+    byId.delete('e3');
+    const restored = HnswIndex.deserialize(JSON.parse(JSON.stringify(index.serialize())), byId)!;
+
+    expect(restored).not.toBeNull();
+    expect(restored.size).toBe(499);
+    for (const i of [0, 17, 250, 499]) {
+      expect(restored.search(vectors[i], 3)).toEqual(index.search(vectors[i], 3));
+    }
+
+    // A vector the saved graph does not know about means the graph is stale
+    byId.set('extra', vectors[0]);
+    expect(HnswIndex.deserialize(index.serialize(), byId)).toBeNull();
+  });
+
+  it('rebuilds without deleted nodes', () => {
+    const vectors = clusteredVectors(200, 5);
+    const index = buildIndex(vectors);
+    for (let i = 0; i < 100; i++) index.remove(`e${i}`);
+
+    expect(index.deletedRatio).toBe(0.5);
+    const compacted = index.compact();
+    expect(compacted.deletedRatio).toBe(0);
+    expect(compacted.size).toBe(100);
+    expect(compacted.search(vectors[150])[0].id).toBe('e150');
+  });
+
+  it('benchmark: keeps recall while scoring a fraction of the entries', () => {
+    const count = 4000;
+    const vectors = clusteredVectors(count, 40);
+    const queries = clusteredVectors(200, 40, 99);
+
+    const buildStart = performance.now();
+    const index = buildIndex(vectors);
+    const buildMs = performance.now() - buildStart;
+
+    let hits = 0;
+    index.distanceEvaluations = 0;
+    const annStart = performance.now();
+    const annResults = queries.map((q) => index.search(q, 1)[0].id);
+    const annMs = performance.now() - annStart;
+    const evaluationsPerQuery = index.distanceEvaluations / queries.length;
+
+    const exactStart = performance.now();
+    queries.forEach((q, i) => {
+      if (index.bruteForce(q, 1)[0].id === annResults[i]) hits++;
+    });
+    const exactMs = performance.now() - exactStart;
+    const recall = hits / queries.length;
+
+    console.info(
+      `[HNSW benchmark] n=${count} dim=${DIMENSIONS} build=${buildMs.toFixed(0)}ms ` +
+        `ann=${(annMs / queries.length).toFixed(3)}ms/query exact=${(exactMs / queries.length).toFixed(3)}ms/query ` +
+        `recall@1=${recall.toFixed(3)} scored=${evaluationsPerQuery.toFixed(0)}/query`,
+    );
+
+    expect(recall).toBeGreaterThanOrEqual(0.95);
+    // Distance evaluations are deterministic, unlike wall-clock time on a busy CI machine
+    expect(evaluationsPerQuery).toBeLessThan(count / 4);
+  });
+});
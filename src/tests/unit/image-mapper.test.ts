@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractGeneratedImages,
+  IMAGE_MODEL,
+  mapImageConfig,
+  transformImageRequestIn,
+} from '../../lib/antigravity/ImageMapper';
+
+describe('ImageMapper', () => {
+  describe('mapImageConfig', () => {
+    it('should default to a square image', () => {
+      expect(mapImageConfig()).toEqual({ aspectRatio: '1:1' });
+      expect(mapImageConfig('auto', 'standard')).toEqual({ aspectRatio: '1:1' });
+    });
+
+    it('should snap sizes to the closest supported aspect ratio', () => {
+      expect(mapImageConfig('1792x1024').aspectRatio).toBe('16:9');
+      expect(mapImageConfig('1024x1792').aspectRatio).toBe('9:16');
+      expect(mapImageConfig('1536x1024').aspectRatio).toBe('4:3');
+      expect(mapImageConfig('1024x1536').aspectRatio).toBe('3:4');
+      expect(mapImageConfig('512x512').aspectRatio).toBe('1:1');
+    });
+
+    it('should request 4K output for hd/high quality', () => {
+      expect(mapImageConfig('1024x1024', 'hd')).toEqual({ aspectRatio: '1:1', imageSize: '4K' });
+      expect(mapImageConfig('1024x1024', 'HIGH').imageSize).toBe('4K');
+    });
+  });
+
+  describe('transformImageRequestIn', () => {
+    it('should build an image_gen request with reference images before the prompt', () => {
+      const body = transformImageRequestIn('Make it blue', { aspectRatio: '16:9' }, 'project-1', [
+        'data:image/png;base64,AAAA',
+      ]);
+
+      expect(body.model).toBe(IMAGE_MODEL);
+      expect(body.requestType).toBe('image_gen');
+      expect(body.request.contents[0].parts).toEqual([
+        { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+        { text: 'Make it blue' },
+      ]);
+      expect(body.request.generationConfig).toEqual({ imageConfig: { aspectRatio: '16:9' } });
+    });
+  });
+
+  describe('extractGeneratedImages', () => {
+    it('should collect inlineData parts and non-thought text', () => {
+      const result = extractGeneratedImages({
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [
+                { text: 'planning', thought: true },
+                { text: 'A blue cat' },
+                { inlineData: { mimeType: 'image/png', data: 'BBBB' } },
+              ],
+            },
+          },
+        ],
+      });
+
+      expect(result.images).toEqual([{ mimeType: 'image/png', data: 'BBBB' }]);
+      expect(result.text).toBe('A blue cat');
+    });
+  });
+});
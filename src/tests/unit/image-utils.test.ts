@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ImageInputError,
+  MAX_IMAGE_BYTES,
+  parseDataUri,
+  resolveImageUrl,
+} from '../../lib/antigravity/image-utils';
+
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('image-utils', () => {
+  describe('parseDataUri', () => {
+    it('should parse a base64 data URI', () => {
+      expect(parseDataUri(`data:image/png;base64,${PNG_BASE64}`)).toEqual({
+        media_type: 'image/png',
+        data: PNG_BASE64,
+      });
+    });
+
+    it('should normalize image/jpg to image/jpeg', () => {
+      expect(parseDataUri(`data:image/jpg;base64,${PNG_BASE64}`).media_type).toBe('image/jpeg');
+    });
+
+    it('should reject unsupported MIME types', () => {
+      expect(() => parseDataUri(`data:image/svg+xml;base64,${PNG_BASE64}`)).toThrow(
+        ImageInputError,
+      );
+      expect(() => parseDataUri(`data:application/pdf;base64,${PNG_BASE64}`)).toThrow(
+        /Unsupported image type/,
+      );
+    });
+
+    it('should reject non-base64 and malformed URIs', () => {
+      expect(() => parseDataUri('data:image/png,rawbytes')).toThrow(/base64 encoded/);
+      expect(() => parseDataUri('data:image/png;base64,@@@')).toThrow(/invalid base64/);
+      expect(() => parseDataUri('not-a-data-uri')).toThrow(ImageInputError);
+    });
+
+    it('should reject images above the size limit', () => {
+      const oversized = 'A'.repeat(Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 8);
+      expect(() => parseDataUri(`data:image/png;base64,${oversized}`)).toThrow(/too large/);
+    });
+  });
+
+  describe('resolveImageUrl', () => {
+    it('should pass valid data URIs through unchanged', async () => {
+      const uri = `data:image/png;base64,${PNG_BASE64}`;
+      await expect(resolveImageUrl(uri)).resolves.toBe(uri);
+    });
+
+    it('should reject non-http schemes', async () => {
+      await expect(resolveImageUrl('file:///etc/passwd')).rejects.toThrow(/Unsupported image URL/);
+    });
+  });
+});
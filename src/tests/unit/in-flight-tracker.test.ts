@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ExecutionContext, ServiceUnavailableException } from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import { of, Subject } from 'rxjs';
+import { InFlightTracker } from '../../server/modules/proxy/InFlightTracker';
+import { ResponseStream } from '../../server/modules/proxy/ResponseStream';
+import { RequestLedger } from '../../server/modules/proxy/RequestLedger';
+import { RequestLedgerInterceptor } from '../../server/modules/proxy/request-ledger.interceptor';
+
+vi.mock('../../ipc/database/requestLog', () => ({
+  RequestLogRepo: {
+    insert: vi.fn(),
+  },
+}));
+
+function beginRequest(url: string, body: Record<string, unknown>, now = Date.now()) {
+  return RequestLedger.begin({ url, body, params: {}, apiKey: undefined }, now);
+}
+
+function fakeReply(headersSent = false) {
+  const reply = {
+    raw: { headersSent, destroy: vi.fn() },
+    code: vi.fn(() => reply),
+    header: vi.fn(() => reply),
+    send: vi.fn(() => reply),
+  };
+  return reply;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('InFlightTracker', () => {
+  beforeEach(() => {
+    InFlightTracker.reset();
+  });
+
+  it('lists running requests with their client, model and stream state', () => {
+    const record = beginRequest('/v1/messages', { model: 'claude-sonnet-4-5', stream: true }, 1000);
+    InFlightTracker.begin(record, fakeReply() as unknown as FastifyReply, '192.168.1.20');
+    record.accountId = 'acc-1';
+    RequestLedger.markFirstChunk(record, 1500);
+
+    expect(InFlightTracker.list(4000)).toEqual([
+      expect.objectContaining({
+        age_ms: 3000,
+        client: '192.168.1.20',
+        protocol: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        account_id: 'acc-1',
+        stream: true,
+        streaming: true,
+      }),
+    ]);
+
+    InFlightTracker.end(record);
+    expect(InFlightTracker.list()).toEqual([]);
+  });
+
+  it('waits for running requests to finish before the timeout', async () => {
+    const record = beginRequest('/v1/chat/completions', { model: 'gpt-4o' });
+    const reply = fakeReply();
+    InFlightTracker.begin(record, reply as unknown as FastifyReply, '127.0.0.1');
+    setTimeout(() => InFlightTracker.end(record), 20);
+
+    const startedAt = Date.now();
+    const aborted = await InFlightTracker.drain(5000);
+
+    expect(aborted).toBe(0);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(reply.send).not.toHaveBeenCalled();
+  });
+
+  it('ends a stream still running after the timeout with a protocol error event', async () => {
+    const record = beginRequest('/v1/messages', { model: 'claude-sonnet-4-5', stream: true });
+    InFlightTracker.begin(record, fakeReply(true) as unknown as FastifyReply, '127.0.0.1');
+    const upstream = new Subject<string>();
+    const { stream, abort } = ResponseStream.open(
+      upstream,
+      ResponseStream.sse('anthropic', '/v1/messages'),
+    );
+    InFlightTracker.onAbort(record, abort);
+    upstream.next('event: message_start\ndata: {}\n\n');
+
+    const aborted = await InFlightTracker.drain(10);
+    const text = await readAll(stream);
+
+    expect(aborted).toBe(1);
+    expect(text).toContain('event: message_start');
+    expect(text).toMatch(/event: error\ndata: .*"overloaded_error"/);
+    expect(upstream.observed).toBe(false);
+    expect(record.errorClass).toBe('gateway_shutdown');
+  });
+
+  it('answers a request that has not started with the protocol error body', async () => {
+    const record = beginRequest('/v1beta/models/gemini-2.5-pro:generateContent', {});
+    const reply = fakeReply();
+    InFlightTracker.begin(record, reply as unknown as FastifyReply, '127.0.0.1');
+
+    await InFlightTracker.drain(0);
+
+    expect(reply.code).toHaveBeenCalledWith(503);
+    expect(reply.send).toHaveBeenCalledWith({
+      error: { code: 503, message: expect.any(String), status: 'UNAVAILABLE' },
+    });
+  });
+
+  it('refuses new requests while draining', async () => {
+    await InFlightTracker.drain(0);
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({ url: '/v1/chat/completions', body: {}, params: {}, ip: '127.0.0.1' }),
+        getResponse: () => ({ raw: { once: vi.fn() } }),
+      }),
+    } as unknown as ExecutionContext;
+
+    expect(() =>
+      new RequestLedgerInterceptor().intercept(context, { handle: () => of(null) }),
+    ).toThrow(ServiceUnavailableException);
+
+    InFlightTracker.reset();
+    expect(InFlightTracker.isDraining()).toBe(false);
+  });
+});
+
+describe('ResponseStream', () => {
+  it('reports an upstream failure as an OpenAI error chunk', async () => {
+    const upstream = new Subject<string>();
+    const { stream } = ResponseStream.open(
+      upstream,
+      ResponseStream.sse('openai', '/v1/chat/completions'),
+    );
+    upstream.next('data: {"choices":[]}\n\n');
+    upstream.error(new Error('socket hang up'));
+
+    const text = await readAll(stream);
+    const [, error] = text.trim().split('\n\n');
+    expect(JSON.parse(error.slice('data: '.length)).error).toMatchObject({
+      type: 'server_error',
+    });
+  });
+
+  it('unsubscribes from the upstream when the client goes away', () => {
+    const upstream = new Subject<string>();
+    const { stream } = ResponseStream.open(
+      upstream,
+      ResponseStream.sse('openai', '/v1/chat/completions'),
+    );
+    expect(upstream.observed).toBe(true);
+
+    stream.destroy();
+    expect(upstream.observed).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LocalModelManager } from '../../ipc/cloud/local-models';
+import { LocalModelDiscoveryService } from '../../ipc/cloud/local-discovery';
+import { CloudAccountRepo } from '../../ipc/database/cloudHandler';
+import { ConfigManager } from '../../ipc/config/manager';
+import { reloadGatewayAccounts } from '../../server/main';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+
+vi.mock('../../ipc/database/cloudHandler', () => ({
+  CloudAccountRepo: {
+    getAccounts: vi.fn(async () => []),
+    getAccount: vi.fn(async () => undefined),
+    addAccount: vi.fn(async () => undefined),
+    removeAccount: vi.fn(async () => undefined),
+    updateToken: vi.fn(async () => undefined),
+  },
+}));
+
+vi.mock('../../server/main', () => ({
+  reloadGatewayAccounts: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../ipc/config/manager', () => ({
+  ConfigManager: {
+    loadConfig: vi.fn(),
+  },
+}));
+
+function listen(server: http.Server): Promise<number> {
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)),
+  );
+}
+
+function localAccount(model: string, baseUrl: string): CloudAccount {
+  return {
+    id: `local-ollama-${model}`,
+    provider: 'local-ollama',
+    email: `${model}@localhost`,
+    name: `OLLAMA: ${model}`,
+    avatar_url: null,
+    token: {
+      access_token: 'local-access',
+      refresh_token: baseUrl,
+      expires_in: 999999,
+      expiry_timestamp: 0,
+      token_type: 'Bearer',
+      project_id: model,
+    },
+    created_at: 0,
+    last_used: 0,
+    status: 'active',
+  } as CloudAccount;
+}
+
+describe('LocalModelManager', () => {
+  // Emulates the parts of the Ollama API the manager and discovery use
+  let installed = ['llama3.2:3b'];
+  const ollama = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const json = (data: unknown) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      switch (req.url) {
+        case '/api/tags':
+          return json({
+            models: installed.map((name) => ({
+              name,
+              size: 2019393189,
+              modified_at: '2025-01-01T00:00:00Z',
+              details: { family: 'llama', parameter_size: '3.2B', quantization_level: 'Q4_K_M' },
+            })),
+          });
+        case '/api/ps':
+          return json({ models: [{ name: 'llama3.2:3b', size_vram: 3000000000 }] });
+        case '/api/show':
+          return json({
+            details: { format: 'gguf', family: 'llama' },
+            model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 },
+            capabilities: ['completion', 'tools'],
+          });
+        case '/api/pull': {
+          const { model } = JSON.parse(body) as { model: string };
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          res.write('{"status":"pulling manifest"}\n');
+          res.write('{"status":"pulling abc","total":100,"completed":40}\n');
+          installed.push(model);
+          // Last line without a trailing newline
+          res.end('{"status":"pulling abc","total":100,"completed":100}\n{"status":"success"}');
+          return;
+        }
+        case '/api/delete': {
+          const { model } = JSON.parse(body) as { model: string };
+          if (!installed.includes(model)) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `model '${model}' not found` }));
+            return;
+          }
+          installed = installed.filter((name) => name !== model);
+          res.writeHead(200).end();
+          return;
+        }
+        default:
+          res.writeHead(404).end();
+      }
+    });
+  });
+
+  let baseUrl = '';
+
+  const useOllama = (url: string) =>
+    vi.mocked(ConfigManager.loadConfig).mockReturnValue({
+      ...DEFAULT_APP_CONFIG,
+      local_ai: {
+        ...DEFAULT_APP_CONFIG.local_ai,
+        ollama: { enabled: true, url },
+        lmstudio: { ...DEFAULT_APP_CONFIG.local_ai.lmstudio, enabled: false },
+      },
+    });
+
+  beforeAll(async () => {
+    baseUrl = `http://127.0.0.1:${await listen(ollama)}/v1`;
+  });
+
+  afterAll(async () => {
+    ollama.closeAllConnections();
+    await new Promise<void>((resolve) => ollama.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    installed = ['llama3.2:3b'];
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy });
+    useOllama(baseUrl);
+    vi.mocked(CloudAccountRepo.getAccounts).mockResolvedValue([]);
+    vi.mocked(CloudAccountRepo.getAccount).mockResolvedValue(undefined);
+  });
+
+  it('lists installed models and marks the loaded ones', async () => {
+    installed.push('qwen3:8b');
+    const models = await LocalModelManager.list();
+
+    expect(models.map((m) => m.name)).toEqual(['llama3.2:3b', 'qwen3:8b']);
+    expect(models[0]).toMatchObject({
+      loaded: true,
+      size_vram: 3000000000,
+      quantization_level: 'Q4_K_M',
+    });
+    expect(models[1].loaded).toBe(false);
+  });
+
+  it('reads the context length from the architecture-specific key', async () => {
+    const details = await LocalModelManager.show('llama3.2:3b');
+
+    expect(details.context_length).toBe(131072);
+    expect(details.format).toBe('gguf');
+    expect(details.capabilities).toContain('tools');
+  });
+
+  it('tracks pull progress to completion and registers the new model', async () => {
+    const started = LocalModelManager.pull('qwen3:8b');
+    expect(started.done).toBe(false);
+
+    await vi.waitFor(() => {
+      const pull = LocalModelManager.pulls().find((p) => p.model === 'qwen3:8b');
+      expect(pull?.done).toBe(true);
+    });
+    const pull = LocalModelManager.pulls().find((p) => p.model === 'qwen3:8b')!;
+    expect(pull).toMatchObject({ status: 'success', completed: 100, total: 100, error: null });
+
+    await vi.waitFor(() =>
+      expect(CloudAccountRepo.addAccount).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'local-ollama-qwen3:8b' }),
+      ),
+    );
+  });
+
+  it('surfaces the Ollama error message when a delete fails', async () => {
+    await expect(LocalModelManager.remove('missing:latest')).rejects.toThrow(
+      "model 'missing:latest' not found",
+    );
+  });
+
+  it('removes the account of a deleted model', async () => {
+    vi.mocked(CloudAccountRepo.getAccounts).mockResolvedValue([
+      localAccount('llama3.2:3b', baseUrl),
+    ]);
+
+    await LocalModelManager.remove('llama3.2:3b');
+
+    expect(CloudAccountRepo.removeAccount).toHaveBeenCalledWith('local-ollama-llama3.2:3b');
+    expect(reloadGatewayAccounts).toHaveBeenCalled();
+  });
+});
+
+describe('LocalModelDiscoveryService', () => {
+  it('leaves the accounts of an unreachable instance alone', async () => {
+    vi.clearAllMocks();
+    vi.mocked(ConfigManager.loadConfig).mockReturnValue({
+      ...DEFAULT_APP_CONFIG,
+      local_ai: {
+        ...DEFAULT_APP_CONFIG.local_ai,
+        ollama: { enabled: true, url: 'http://127.0.0.1:1/v1' },
+        lmstudio: { ...DEFAULT_APP_CONFIG.local_ai.lmstudio, enabled: false },
+      },
+    });
+    vi.mocked(CloudAccountRepo.getAccounts).mockResolvedValue([
+      localAccount('llama3.2:3b', 'http://127.0.0.1:1/v1'),
+    ]);
+
+    const result = await LocalModelDiscoveryService.syncLocalModels();
+
+    expect(result).toEqual({ added: 0, removed: 0 });
+    expect(CloudAccountRepo.removeAccount).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { NetworkPolicy } from '../../server/modules/proxy/NetworkPolicy';
+import { NetworkGuard } from '../../server/modules/proxy/network.guard';
+import { ImageFilesController } from '../../server/modules/proxy/image-files.controller';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG, NetworkConfig } from '../../types/config';
+
+const network = (overrides: Partial<NetworkConfig> = {}): NetworkConfig => ({
+  ...DEFAULT_APP_CONFIG.proxy.network,
+  ...overrides,
+});
+
+describe('NetworkPolicy', () => {
+  it('binds to loopback unless told otherwise', () => {
+    expect(NetworkPolicy.resolveBindHost(undefined)).toBe('127.0.0.1');
+    expect(NetworkPolicy.resolveBindHost(network())).toBe('127.0.0.1');
+    expect(NetworkPolicy.resolveBindHost(network({ bind: 'all' }))).toBe('0.0.0.0');
+    expect(
+      NetworkPolicy.resolveBindHost(network({ bind: 'interface', bind_address: '192.168.1.20' })),
+    ).toBe('192.168.1.20');
+    // An interface bind without an address falls back to the safe default
+    expect(NetworkPolicy.resolveBindHost(network({ bind: 'interface' }))).toBe('127.0.0.1');
+  });
+
+  it('refuses a network bind in open mode but not a loopback one', () => {
+    expect(NetworkPolicy.validate(network(), true)).toBeNull();
+    expect(NetworkPolicy.validate(network({ bind: 'all' }), true)).toMatch(/no API key/);
+    expect(NetworkPolicy.validate(network({ bind: 'all' }), false)).toBeNull();
+    expect(
+      NetworkPolicy.validate(network({ bind: 'interface', bind_address: 'eth0' }), false),
+    ).toMatch(/not an IP address/);
+  });
+
+  it('rejects malformed rules and half-configured certificates', () => {
+    expect(NetworkPolicy.validate(network({ allow_cidrs: ['10.0.0.0/33'] }), false)).toMatch(
+      /10\.0\.0\.0\/33/,
+    );
+    expect(NetworkPolicy.validate(network({ deny_cidrs: ['example.com'] }), false)).toMatch(
+      /example\.com/,
+    );
+    expect(
+      NetworkPolicy.validate(
+        network({ tls: { enabled: true, cert_path: '/tmp/cert.pem', key_path: '' } }),
+        false,
+      ),
+    ).toMatch(/both/);
+  });
+
+  it('parses plain addresses as single-host ranges', () => {
+    expect(NetworkPolicy.parseRule('192.168.1.7')).toEqual({
+      address: '192.168.1.7',
+      prefix: 32,
+      type: 'ipv4',
+    });
+    expect(NetworkPolicy.parseRule('fd00::/8')).toEqual({
+      address: 'fd00::',
+      prefix: 8,
+      type: 'ipv6',
+    });
+    expect(NetworkPolicy.parseRule('192.168.1.0/24/1')).toBeNull();
+    expect(NetworkPolicy.parseRule('192.168.1.0/x')).toBeNull();
+  });
+
+  it('admits everyone when no lists are set', () => {
+    expect(NetworkPolicy.isAllowed('203.0.113.9', network())).toBe(true);
+    expect(NetworkPolicy.isAllowed(undefined, network())).toBe(true);
+  });
+
+  it('applies the deny list before the allow list', () => {
+    const config = network({
+      allow_cidrs: ['127.0.0.1', '192.168.1.0/24'],
+      deny_cidrs: ['192.168.1.50'],
+    });
+
+    expect(NetworkPolicy.isAllowed('127.0.0.1', config)).toBe(true);
+    expect(NetworkPolicy.isAllowed('192.168.1.10', config)).toBe(true);
+    expect(NetworkPolicy.isAllowed('192.168.1.50', config)).toBe(false);
+    expect(NetworkPolicy.isAllowed('10.0.0.5', config)).toBe(false);
+    expect(NetworkPolicy.isAllowed(undefined, config)).toBe(false);
+  });
+
+  it('matches IPv4 clients seen through a dual-stack socket', () => {
+    const config = network({ allow_cidrs: ['192.168.1.0/24'] });
+
+    expect(NetworkPolicy.isAllowed('::ffff:192.168.1.10', config)).toBe(true);
+    expect(NetworkPolicy.isAllowed('::ffff:10.0.0.1', config)).toBe(false);
+  });
+
+  it('blocks IPv6 ranges from the deny list alone', () => {
+    const config = network({ deny_cidrs: ['fd00::/8'] });
+
+    expect(NetworkPolicy.isAllowed('fd12::1', config)).toBe(false);
+    expect(NetworkPolicy.isAllowed('192.168.1.10', config)).toBe(true);
+  });
+});
+
+describe('NetworkGuard', () => {
+  const contextFor = (ip: string) =>
+    ({ switchToHttp: () => ({ getRequest: () => ({ ip }) }) }) as unknown as ExecutionContext;
+
+  it('applies the address lists to routes without an API key', () => {
+    setServerConfig({
+      ...DEFAULT_APP_CONFIG.proxy,
+      network: network({ deny_cidrs: ['192.168.1.50'] }),
+    });
+    const guard = new NetworkGuard();
+
+    expect(guard.canActivate(contextFor('192.168.1.10'))).toBe(true);
+    expect(() => guard.canActivate(contextFor('192.168.1.50'))).toThrow(ForbiddenException);
+    expect(Reflect.getMetadata(GUARDS_METADATA, ImageFilesController)).toEqual([NetworkGuard]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OllamaStreamingState,
+  toOllamaModelTag,
+  transformOllamaChatIn,
+  transformOllamaGenerateIn,
+  transformOpenAIResponseToOllama,
+} from '../../lib/antigravity/OllamaMapper';
+import { OpenAIStreamingState } from '../../lib/antigravity/OpenAIMapper';
+
+interface NdjsonLine {
+  message: { content: string; tool_calls?: unknown[] };
+  done: boolean;
+}
+
+function parseLines(lines: string[]): NdjsonLine[] {
+  return lines.map((line) => {
+    expect(line.endsWith('\n')).toBe(true);
+    return JSON.parse(line);
+  });
+}
+
+describe('OllamaMapper', () => {
+  describe('transformOllamaChatIn', () => {
+    it('should stream by default and map options', () => {
+      const request = transformOllamaChatIn({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'Hi' }],
+        options: { temperature: 0.2, num_predict: 128, top_k: 40 },
+      });
+
+      expect(request.stream).toBe(true);
+      expect(request.temperature).toBe(0.2);
+      expect(request.max_tokens).toBe(128);
+      expect(transformOllamaChatIn({ model: 'm', messages: [], stream: false }).stream).toBe(false);
+      expect(
+        transformOllamaChatIn({ model: 'm', messages: [], options: { num_predict: -1 } })
+          .max_tokens,
+      ).toBeUndefined();
+    });
+
+    it('should turn base64 images into data URI parts', () => {
+      const request = transformOllamaChatIn({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'What is this?', images: ['/9j/4AAQSkZJRg=='] }],
+      });
+
+      expect(request.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/4AAQSkZJRg==' } },
+      ]);
+    });
+
+    it('should give tool results the id of the matching call', () => {
+      const request = transformOllamaChatIn({
+        model: 'gemini-2.5-flash',
+        messages: [
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'get_weather', arguments: { city: 'Paris' } } },
+              { function: { name: 'get_time', arguments: { city: 'Rome' } } },
+            ],
+          },
+          { role: 'tool', content: '12:00', tool_name: 'get_time' },
+          { role: 'tool', content: 'Sunny' },
+        ],
+      });
+
+      const [, assistant, time, weather] = request.messages;
+      expect(assistant.tool_calls?.map((c) => c.function.arguments)).toEqual([
+        '{"city":"Paris"}',
+        '{"city":"Rome"}',
+      ]);
+      expect(time.tool_call_id).toBe(assistant.tool_calls![1].id);
+      expect(weather.tool_call_id).toBe(assistant.tool_calls![0].id);
+    });
+  });
+
+  it('should map generate prompts to a chat request', () => {
+    const request = transformOllamaGenerateIn({
+      model: 'claude-sonnet-4-5',
+      system: 'Be brief.',
+      prompt: 'Hello',
+      stream: false,
+    });
+
+    expect(request.stream).toBe(false);
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hello' },
+    ]);
+  });
+
+  it('should convert a completed response for chat and generate', () => {
+    const response = {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'gemini-2.5-flash',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Hello!',
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function' as const,
+                function: { name: 'lookup', arguments: '{"q":"x"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    };
+
+    const chat = transformOpenAIResponseToOllama(response, 'gemini-2.5-flash', 'chat', Date.now());
+    expect(chat).toMatchObject({
+      model: 'gemini-2.5-flash',
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 5,
+      eval_count: 2,
+      message: {
+        role: 'assistant',
+        content: 'Hello!',
+        tool_calls: [{ function: { name: 'lookup', arguments: { q: 'x' } } }],
+      },
+    });
+
+    const generate = transformOpenAIResponseToOllama(response, 'm', 'generate', Date.now());
+    expect(generate).toMatchObject({ response: 'Hello!', done: true });
+    expect(generate).not.toHaveProperty('message');
+  });
+
+  describe('OllamaStreamingState', () => {
+    it('should convert Gemini-backed OpenAI chunks to NDJSON', () => {
+      const openai = new OpenAIStreamingState('gemini-2.5-flash');
+      const sse = [
+        ...openai.process({
+          candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }],
+        }),
+        ...openai.process({
+          candidates: [
+            { content: { role: 'model', parts: [{ text: 'lo' }] }, finishReason: 'STOP' },
+          ],
+          usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+        }),
+      ];
+
+      const state = new OllamaStreamingState('gemini-2.5-flash', 'chat', Date.now());
+      const lines = parseLines(sse.flatMap((chunk) => state.process(chunk)));
+
+      expect(state.isFinished()).toBe(true);
+      expect(lines.map((l) => l.message.content)).toEqual(['Hel', 'lo', '']);
+      expect(lines.map((l) => l.done)).toEqual([false, false, true]);
+      expect(lines[2]).toMatchObject({ done_reason: 'stop', prompt_eval_count: 4, eval_count: 2 });
+    });
+
+    it('should collect streamed tool call fragments', () => {
+      const state = new OllamaStreamingState('qwen3', 'chat', Date.now());
+      const chunk = (delta: object, finish: string | null = null) =>
+        `data: ${JSON.stringify({ choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+
+      const lines = parseLines([
+        ...state.process(
+          chunk({ tool_calls: [{ index: 0, function: { name: 'lookup', arguments: '{"q":' } }] }),
+        ),
+        ...state.process(chunk({ tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] })),
+        ...state.process(chunk({}, 'tool_calls')),
+        ...state.finish(),
+      ]);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0].message.tool_calls).toEqual([
+        { function: { name: 'lookup', arguments: { q: 'x' } } },
+      ]);
+      expect(lines[1].done).toBe(true);
+    });
+
+    it('should use the response field for generate and end with an error line', () => {
+      const state = new OllamaStreamingState('m', 'generate', Date.now());
+      const content = `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] })}\n\n`;
+      const error = `event: error\ndata: ${JSON.stringify({ type: 'error', error: { message: 'Quota exceeded' } })}\n\n`;
+
+      const lines = parseLines([...state.process(content), ...state.process(error)]);
+      expect(lines).toEqual([
+        expect.objectContaining({ response: 'Hi', done: false }),
+        { error: 'Quota exceeded' },
+      ]);
+      expect(state.finish()).toEqual([]);
+    });
+  });
+
+  it('should list models in the /api/tags shape', () => {
+    expect(toOllamaModelTag('llama3.2', 'local-ollama', 0)).toMatchObject({
+      name: 'llama3.2',
+      model: 'llama3.2',
+      modified_at: '1970-01-01T00:00:00.000Z',
+      details: { format: 'gguf', family: 'local-ollama' },
+    });
+    expect(toOllamaModelTag('gemini-2.5-pro', 'google').details.format).toBe('cloud');
+  });
+});
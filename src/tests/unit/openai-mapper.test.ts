@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OpenAIStreamingState,
+  transformClaudeResponseOut,
+  transformOpenAIRequestIn,
+} from '../../lib/antigravity/OpenAIMapper';
+import { transformClaudeRequestIn } from '../../lib/antigravity/ClaudeRequestMapper';
+import { ClaudeResponse } from '../../lib/antigravity/types';
+
+interface ParsedChunk {
+  choices: {
+    delta: { role?: string; content?: string; tool_calls?: Record<string, unknown>[] };
+    finish_reason: string | null;
+  }[];
+}
+
+function parseChunks(chunks: string[]): ParsedChunk[] {
+  return chunks
+    .filter((c) => !c.includes('[DONE]'))
+    .map((c) => JSON.parse(c.replace('data: ', '').trim()));
+}
+
+describe('OpenAIMapper', () => {
+  describe('transformOpenAIRequestIn', () => {
+    it('should map tools and tool_choice', () => {
+      const claudeReq = transformOpenAIRequestIn({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get weather',
+              parameters: { type: 'object', properties: { city: { type: 'string' } } },
+            },
+          },
+        ],
+        tool_choice: 'required',
+      });
+
+      expect(claudeReq.tools).toEqual([
+        {
+          name: 'get_weather',
+          description: 'Get weather',
+          input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      ]);
+      expect(claudeReq.tool_choice).toEqual({ type: 'any' });
+    });
+
+    it('should map a named tool_choice to a specific tool', () => {
+      const claudeReq = transformOpenAIRequestIn({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'hi' }],
+        tools: [{ type: 'function', function: { name: 'lookup' } }],
+        tool_choice: { type: 'function', function: { name: 'lookup' } },
+      });
+
+      expect(claudeReq.tool_choice).toEqual({ type: 'tool', name: 'lookup' });
+    });
+
+    it('should convert assistant tool_calls and tool results into Claude blocks', () => {
+      const claudeReq = transformOpenAIRequestIn({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+              },
+              {
+                id: 'call_2',
+                type: 'function',
+                function: { name: 'get_weather', arguments: 'not json' },
+              },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+          { role: 'tool', tool_call_id: 'call_2', content: 'Rainy' },
+        ],
+      });
+
+      expect(claudeReq.system).toBe('Be brief.');
+      expect(claudeReq.messages).toHaveLength(3);
+      expect(claudeReq.messages[1].content).toEqual([
+        { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        { type: 'tool_use', id: 'call_2', name: 'get_weather', input: {} },
+      ]);
+      expect(claudeReq.messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+          { type: 'tool_result', tool_use_id: 'call_2', content: 'Rainy' },
+        ],
+      });
+    });
+
+    it('should convert text and image_url parts into Claude blocks', () => {
+      const claudeReq = transformOpenAIRequestIn({
+        model: 'gpt-4o',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            ],
+          },
+        ],
+      });
+
+      expect(claudeReq.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+      ]);
+
+      const geminiReq = transformClaudeRequestIn(claudeReq, 'project-1');
+      expect(geminiReq.request.contents[0].parts).toContainEqual({
+        inlineData: { mimeType: 'image/png', data: 'AAAA' },
+      });
+    });
+
+    it('should produce Gemini functionCallingConfig from tool_choice', () => {
+      const claudeReq = transformOpenAIRequestIn({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: 'hi' }],
+        tools: [{ type: 'function', function: { name: 'lookup' } }],
+        tool_choice: { type: 'function', function: { name: 'lookup' } },
+      });
+      const geminiReq = transformClaudeRequestIn(claudeReq, 'project-1');
+
+      expect(geminiReq.request.toolConfig).toEqual({
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['lookup'] },
+      });
+    });
+  });
+
+  describe('transformClaudeResponseOut', () => {
+    it('should map tool_use blocks to tool_calls', () => {
+      const claudeResponse: ClaudeResponse = {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'gemini-2.5-flash',
+        content: [
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      };
+
+      const response = transformClaudeResponseOut(claudeResponse, 'gpt-4o');
+
+      expect(response.choices[0].finish_reason).toBe('tool_calls');
+      expect(response.choices[0].message.content).toBeNull();
+      expect(response.choices[0].message.tool_calls).toEqual([
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        },
+      ]);
+      expect(response.usage.total_tokens).toBe(15);
+    });
+  });
+
+  describe('OpenAIStreamingState', () => {
+    it('should emit tool_calls deltas and a tool_calls finish reason', () => {
+      const state = new OpenAIStreamingState('gpt-4o');
+      const chunks = state.process({
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+            },
+            finishReason: 'STOP',
+          },
+        ],
+      });
+
+      const parsed = parseChunks(chunks);
+      expect(parsed[0].choices[0].delta.role).toBe('assistant');
+      expect(parsed[0].choices[0].delta.tool_calls?.[0]).toMatchObject({
+        index: 0,
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+      });
+      expect(parsed[parsed.length - 1].choices[0].finish_reason).toBe('tool_calls');
+      expect(chunks[chunks.length - 1]).toBe('data: [DONE]\n\n');
+      expect(state.isFinished()).toBe(true);
+    });
+
+    it('should skip thought parts and stream text', () => {
+      const state = new OpenAIStreamingState('gpt-4o');
+      const chunks = state.process({
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [{ text: 'thinking...', thought: true }, { text: 'Hi' }],
+            },
+          },
+        ],
+      });
+
+      const parsed = parseChunks(chunks);
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].choices[0].delta.content).toBe('Hi');
+      expect(state.isFinished()).toBe(false);
+    });
+
+    it('should read v1internal payloads wrapped in response', () => {
+      const state = new OpenAIStreamingState('gpt-4o');
+      const chunks = state.process({
+        response: {
+          candidates: [
+            {
+              content: {
+                role: 'model',
+                parts: [
+                  { text: 'Checking.' },
+                  { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+                ],
+              },
+              finishReason: 'STOP',
+            },
+          ],
+        },
+      });
+
+      const parsed = parseChunks(chunks);
+      expect(parsed[0].choices[0].delta.content).toBe('Checking.');
+      expect(parsed[1].choices[0].delta.tool_calls?.[0]).toMatchObject({
+        function: { name: 'get_weather' },
+      });
+      expect(parsed[parsed.length - 1].choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should close the stream on finish() when upstream ends without a reason', () => {
+      const state = new OpenAIStreamingState('gpt-4o');
+      state.process({ choices: [{ delta: { content: 'Hello' } }] });
+
+      const chunks = state.finish();
+      expect(parseChunks(chunks)[0].choices[0].finish_reason).toBe('stop');
+      expect(chunks[chunks.length - 1]).toBe('data: [DONE]\n\n');
+      expect(state.finish()).toEqual([]);
+    });
+  });
+});
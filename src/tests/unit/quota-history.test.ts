@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQuotaChart,
+  detectResets,
+  forecastDepletion,
+  summarizeForecasts,
+} from '../../utils/quotaHistory';
+import { QuotaSample } from '../../types/quotaHistory';
+
+const HOUR = 3600;
+
+function sample(at: number, percentage: number, overrides: Partial<QuotaSample> = {}): QuotaSample {
+  return {
+    account_id: 'acc-1',
+    model: 'gemini-2.5-pro',
+    percentage,
+    reset_time: null,
+    recorded_at: at,
+    ...overrides,
+  };
+}
+
+describe('buildQuotaChart', () => {
+  it('should average samples per bucket with chart-safe series keys', () => {
+    const { points, series } = buildQuotaChart(
+      [
+        sample(0, 80),
+        sample(60, 60),
+        sample(0, 50, { model: 'claude-sonnet-4-5' }),
+        sample(900, 40),
+      ],
+      'model',
+      900,
+    );
+
+    expect(series).toEqual([
+      { key: 's0', id: 'gemini-2.5-pro' },
+      { key: 's1', id: 'claude-sonnet-4-5' },
+    ]);
+    expect(points).toEqual([
+      { time: 0, s0: 70, s1: 50 },
+      { time: 900, s0: 40 },
+    ]);
+  });
+
+  it('should group by account', () => {
+    const { series } = buildQuotaChart(
+      [sample(0, 80), sample(0, 50, { account_id: 'acc-2' })],
+      'account',
+      900,
+    );
+    expect(series.map((s) => s.id)).toEqual(['acc-1', 'acc-2']);
+  });
+});
+
+describe('detectResets', () => {
+  it('should place a refill at the reported reset time', () => {
+    const events = detectResets([
+      sample(0, 20, { reset_time: 2 * HOUR }),
+      sample(HOUR, 10, { reset_time: 2 * HOUR }),
+      sample(3 * HOUR, 100, { reset_time: 7 * HOUR }),
+    ]);
+
+    expect(events).toEqual([{ account_id: 'acc-1', model: 'gemini-2.5-pro', at: 2 * HOUR }]);
+  });
+
+  it('should ignore idle windows rolling over at 100%', () => {
+    const events = detectResets([
+      sample(0, 100, { reset_time: HOUR }),
+      sample(2 * HOUR, 100, { reset_time: 6 * HOUR }),
+    ]);
+    expect(events).toEqual([]);
+  });
+});
+
+describe('forecastDepletion', () => {
+  it('should extrapolate the burn rate since the last reset', () => {
+    const [forecast] = forecastDepletion([
+      sample(0, 5),
+      sample(HOUR, 100, { reset_time: 10 * HOUR }),
+      sample(3 * HOUR, 80, { reset_time: 10 * HOUR }),
+    ]);
+
+    expect(forecast.burn_rate_per_hour).toBe(10);
+    expect(forecast.dry_at).toBe(11 * HOUR);
+    expect(forecast.runs_dry_before_reset).toBe(false);
+  });
+
+  it('should flag accounts that run dry before their reset', () => {
+    const [forecast] = forecastDepletion([
+      sample(0, 60, { reset_time: 10 * HOUR }),
+      sample(HOUR, 40, { reset_time: 10 * HOUR }),
+    ]);
+
+    expect(forecast.dry_at).toBe(3 * HOUR);
+    expect(forecast.runs_dry_before_reset).toBe(true);
+  });
+
+  it('should not forecast a depletion without consumption', () => {
+    const [forecast] = forecastDepletion([sample(0, 70), sample(HOUR, 70)]);
+    expect(forecast.dry_at).toBeNull();
+    expect(forecast.runs_dry_before_reset).toBe(false);
+  });
+});
+
+describe('summarizeForecasts', () => {
+  it('should keep the model of each account that runs dry first', () => {
+    const summary = summarizeForecasts(
+      forecastDepletion([
+        sample(0, 90),
+        sample(HOUR, 80),
+        sample(0, 50, { model: 'claude-sonnet-4-5' }),
+        sample(HOUR, 25, { model: 'claude-sonnet-4-5' }),
+        sample(0, 100, { account_id: 'acc-2' }),
+        sample(HOUR, 100, { account_id: 'acc-2' }),
+      ]),
+    );
+
+    expect(summary.map((f) => [f.account_id, f.model])).toEqual([
+      ['acc-1', 'claude-sonnet-4-5'],
+      ['acc-2', 'gemini-2.5-pro'],
+    ]);
+  });
+});
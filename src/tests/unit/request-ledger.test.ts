@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BadRequestException } from '@nestjs/common';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { RequestLedger } from '../../server/modules/proxy/RequestLedger';
+import { RequestLogRepo } from '../../ipc/database/requestLog';
+import { ApiKeyRepo } from '../../ipc/database/apiKeys';
+import { ProxyController } from '../../server/modules/proxy/proxy.controller';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+
+vi.mock('../../ipc/database/requestLog', () => ({
+  RequestLogRepo: {
+    insert: vi.fn(),
+  },
+}));
+
+vi.mock('../../ipc/database/apiKeys', () => ({
+  ApiKeyRepo: {
+    recordUsage: vi.fn(),
+  },
+}));
+
+function beginChat(stream = false, now = 1_000_000) {
+  return RequestLedger.begin(
+    {
+      url: '/v1/chat/completions?trace=1',
+      body: { model: 'gpt-4o', stream },
+      params: {},
+      apiKey: { id: 'key-1', name: 'ci', virtual: true },
+    },
+    now,
+  );
+}
+
+describe('RequestLedger', () => {
+  beforeEach(() => {
+    vi.mocked(RequestLogRepo.insert).mockReset();
+  });
+
+  it('should capture the client key, protocol and requested model', () => {
+    const record = beginChat(true);
+
+    expect(record).toMatchObject({
+      keyId: 'key-1',
+      keyName: 'ci',
+      protocol: 'openai',
+      path: '/v1/chat/completions',
+      requestedModel: 'gpt-4o',
+      stream: true,
+    });
+  });
+
+  it('should annotate the record of the current request only', async () => {
+    const record = beginChat();
+
+    await RequestLedger.run(record, async () => {
+      await Promise.resolve();
+      RequestLedger.annotate({ accountId: 'acc-1', resolvedModel: 'gemini-2.5-pro' });
+    });
+    RequestLedger.annotate({ accountId: 'outside' });
+
+    expect(record.accountId).toBe('acc-1');
+    expect(record.resolvedModel).toBe('gemini-2.5-pro');
+  });
+
+  it('should write one entry when a non-streaming response closes', () => {
+    const record = beginChat(false, 1_000_000);
+    RequestLedger.recordUsage(record, { input: 12, output: 30, total: 42 });
+    RequestLedger.finish(record, 200, 1_000_250);
+    RequestLedger.finish(record, 200, 1_000_300);
+
+    expect(RequestLogRepo.insert).toHaveBeenCalledTimes(1);
+    expect(RequestLogRepo.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        timestamp: 1000,
+        key_id: 'key-1',
+        latency_ms: 250,
+        ttft_ms: null,
+        input_tokens: 12,
+        output_tokens: 30,
+        status: 200,
+        error_class: null,
+      }),
+    );
+  });
+
+  it('should wait for an open stream to settle before writing', () => {
+    const record = beginChat(true, 1_000_000);
+    RequestLedger.openStream(record);
+    RequestLedger.markFirstChunk(record, 1_000_120);
+    RequestLedger.markFirstChunk(record, 1_000_500);
+
+    RequestLedger.finish(record, 200, 1_000_900);
+    expect(RequestLogRepo.insert).not.toHaveBeenCalled();
+
+    RequestLedger.recordUsage(record, { input: 8, output: 64, total: 72 });
+    RequestLedger.settleStream(record);
+    expect(RequestLogRepo.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, ttft_ms: 120, latency_ms: 900, output_tokens: 64 }),
+    );
+  });
+
+  it('should classify errors and derive a class from error statuses', () => {
+    expect(RequestLedger.classifyError(new BadRequestException('bad'))).toBe('invalid_request');
+    expect(RequestLedger.classifyError(new Error('429 RESOURCE_EXHAUSTED'))).toBe('rate_limited');
+    expect(RequestLedger.classifyError(new Error('connect ECONNREFUSED'))).toBe('connection_error');
+
+    const record = beginChat();
+    RequestLedger.finish(record, 404);
+    expect(RequestLogRepo.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 404, error_class: 'not_found' }),
+    );
+  });
+});
+
+describe('ProxyController usage booking', () => {
+  it('should book image generation tokens to the virtual key and the ledger', async () => {
+    const service = {
+      handleImageGeneration: vi.fn(async () => ({
+        created: 0,
+        data: [{ b64_json: 'aW1n' }],
+        usage: { input_tokens: 10, output_tokens: 1290, total_tokens: 1300 },
+      })),
+    };
+    const controller = new ProxyController(service as unknown as ProxyService);
+    const req = {
+      url: '/v1/images/generations',
+      body: { model: 'gpt-image-1', prompt: 'a cat' },
+      params: {},
+      headers: { host: '127.0.0.1:8045' },
+      protocol: 'http',
+      apiKey: { id: 'key-1', name: 'ci', virtual: true },
+    } as unknown as FastifyRequest;
+    const res = { status: vi.fn(() => res), send: vi.fn() };
+
+    const record = RequestLedger.begin(req);
+    await RequestLedger.run(record, () =>
+      controller.imageGenerations({ prompt: 'a cat' }, req, res as unknown as FastifyReply),
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(ApiKeyRepo.recordUsage).toHaveBeenCalledWith('key-1', 1300);
+    expect(record.outputTokens).toBe(1290);
+  });
+});
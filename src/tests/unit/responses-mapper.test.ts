@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createResponseEnvelope,
+  ResponsesStreamingState,
+  transformClaudeResponseToResponses,
+  transformResponsesRequestIn,
+} from '../../lib/antigravity/ResponsesMapper';
+import { ResponseStore } from '../../lib/antigravity/ResponseStore';
+import { StreamingState } from '../../lib/antigravity/ClaudeStreamingMapper';
+import { ClaudeResponse, Message } from '../../lib/antigravity/types';
+
+interface ParsedEvent {
+  type: string;
+  sequence_number: number;
+  text?: string;
+  item?: Record<string, unknown>;
+  response?: { output_text?: string };
+}
+
+function parseEvents(chunks: string[]): ParsedEvent[] {
+  return chunks.map((c) => JSON.parse(c.split('\n')[1].slice(6)));
+}
+
+describe('ResponsesMapper', () => {
+  describe('transformResponsesRequestIn', () => {
+    it('should map string input and instructions', () => {
+      const claudeReq = transformResponsesRequestIn({
+        model: 'gemini-2.5-flash',
+        instructions: 'Be brief.',
+        input: 'Hello',
+        max_output_tokens: 256,
+      });
+
+      expect(claudeReq.system).toBe('Be brief.');
+      expect(claudeReq.max_tokens).toBe(256);
+      expect(claudeReq.messages).toEqual([
+        { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+      ]);
+    });
+
+    it('should prepend stored history and map function call items', () => {
+      const history: Message[] = [
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+          ],
+        },
+      ];
+
+      const claudeReq = transformResponsesRequestIn(
+        {
+          model: 'gemini-2.5-flash',
+          input: [{ type: 'function_call_output', call_id: 'call_1', output: 'Sunny' }],
+          tools: [{ type: 'function', name: 'get_weather', parameters: { type: 'object' } }],
+          tool_choice: 'auto',
+        },
+        history,
+      );
+
+      expect(claudeReq.messages).toHaveLength(3);
+      expect(claudeReq.messages[2]).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }],
+      });
+      expect(claudeReq.tools).toEqual([
+        { name: 'get_weather', description: undefined, input_schema: { type: 'object' } },
+      ]);
+      expect(claudeReq.tool_choice).toEqual({ type: 'auto' });
+      // Stored history must not be mutated by later turns
+      expect(history).toHaveLength(2);
+    });
+
+    it('should map reasoning effort to a thinking budget', () => {
+      const claudeReq = transformResponsesRequestIn({
+        model: 'gemini-2.5-flash',
+        input: 'Hi',
+        reasoning: { effort: 'low' },
+      });
+
+      expect(claudeReq.thinking).toEqual({ type: 'enabled', budget_tokens: 1024 });
+    });
+  });
+
+  describe('transformClaudeResponseToResponses', () => {
+    it('should build reasoning, message and function_call output items', () => {
+      const claudeResponse: ClaudeResponse = {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'gemini-2.5-flash',
+        content: [
+          { type: 'thinking', thinking: 'Let me check', signature: 'sig' },
+          { type: 'text', text: 'Checking ' },
+          { type: 'text', text: 'now.' },
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 3, output_tokens: 4 },
+      };
+      const envelope = createResponseEnvelope('resp_1', { model: 'gpt-5', input: 'x' });
+
+      const response = transformClaudeResponseToResponses(claudeResponse, envelope);
+
+      expect(response.status).toBe('completed');
+      expect(response.output.map((o) => o.type)).toEqual(['reasoning', 'message', 'function_call']);
+      expect(response.output[0]).toMatchObject({
+        summary: [{ type: 'summary_text', text: 'Let me check' }],
+        encrypted_content: 'sig',
+      });
+      expect(response.output_text).toBe('Checking now.');
+      expect(response.output[2]).toMatchObject({
+        call_id: 'call_1',
+        name: 'get_weather',
+        arguments: '{"city":"Paris"}',
+      });
+      expect(response.usage?.total_tokens).toBe(7);
+    });
+  });
+
+  describe('ResponsesStreamingState', () => {
+    it('should convert Claude SSE events into typed Responses events', () => {
+      const claude = new StreamingState();
+      const claudeChunks = [
+        ...claude.startBlock('Text', { type: 'text', text: '' }),
+        claude.emitDelta('text_delta', { text: 'Hel' }),
+        claude.emitDelta('text_delta', { text: 'lo' }),
+        ...claude.emitFinish('STOP', { promptTokenCount: 2, candidatesTokenCount: 1 }),
+      ];
+
+      const state = new ResponsesStreamingState(
+        createResponseEnvelope('resp_1', { model: 'gpt-5', input: 'Hi' }),
+      );
+      const events = parseEvents([
+        ...state.start(),
+        ...claudeChunks.flatMap((c) => state.process(c)),
+      ]);
+
+      expect(events.map((e) => e.type)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+      expect(events.map((e) => e.sequence_number)).toEqual(events.map((_, i) => i));
+      expect(events[6].text).toBe('Hello');
+      expect(events[9].response?.output_text).toBe('Hello');
+      expect(state.getAssistantContent()).toEqual([{ type: 'text', text: 'Hello' }]);
+      expect(state.isFinished()).toBe(true);
+    });
+
+    it('should stream function call arguments', () => {
+      const claude = new StreamingState();
+      const claudeChunks = [
+        ...claude.startBlock('Function', {
+          type: 'tool_use',
+          id: 'call_1',
+          name: 'get_weather',
+          input: {},
+        }),
+        claude.emitDelta('input_json_delta', { partial_json: '{"city":"Paris"}' }),
+        ...claude.endBlock(),
+      ];
+
+      const state = new ResponsesStreamingState(
+        createResponseEnvelope('resp_1', { model: 'gpt-5', input: 'Hi' }),
+      );
+      const events = parseEvents(claudeChunks.flatMap((c) => state.process(c)));
+
+      expect(events.map((e) => e.type)).toEqual([
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+      ]);
+      expect(events[3].item).toMatchObject({ call_id: 'call_1', arguments: '{"city":"Paris"}' });
+      expect(state.getAssistantContent()).toEqual([
+        { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+      ]);
+    });
+  });
+});
+
+describe('ResponseStore', () => {
+  beforeEach(() => {
+    ResponseStore.clear();
+  });
+
+  it('should save and retrieve conversations', () => {
+    ResponseStore.save('resp_1', [{ role: 'user', content: 'Hi' }]);
+    expect(ResponseStore.get('resp_1')?.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(ResponseStore.get('resp_missing')).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { bootstrapNestServer } from '../../server/main'; // Adjust path if needed
 import { NestFactory } from '@nestjs/core';
 import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
 
 // Mock NestFactory
 vi.mock('@nestjs/core', async () => {
@@ -28,6 +29,12 @@ vi.mock('../../server/server-config', () => ({
   setServerConfig: vi.fn(),
 }));
 
+vi.mock('../../ipc/database/apiKeys', () => ({
+  ApiKeyRepo: {
+    hasActiveKeys: vi.fn(() => false),
+  },
+}));
+
 describe('Security Regression Tests', () => {
   let appMock: any;
 
@@ -74,5 +81,36 @@ describe('Security Regression Tests', () => {
       expect(addressArg).toBe('127.0.0.1');
       expect(addressArg).not.toBe('0.0.0.0'); // Explicitly forbid insecure bind
     });
+
+    it('should listen on the network only when an API key protects it', async () => {
+      const network = { ...DEFAULT_APP_CONFIG.proxy.network, bind: 'all' as const };
+
+      // Open mode: refuse before anything is created
+      const refused = await bootstrapNestServer({ ...DEFAULT_APP_CONFIG.proxy, network });
+      expect(refused).toBe(false);
+      expect(NestFactory.create).not.toHaveBeenCalled();
+
+      const started = await bootstrapNestServer({
+        ...DEFAULT_APP_CONFIG.proxy,
+        api_key: 'sk-test',
+        network,
+      });
+      expect(started).toBe(true);
+      expect(appMock.listen).toHaveBeenCalledWith(8045, '0.0.0.0');
+    });
+
+    it('should bind to the chosen interface address', async () => {
+      await bootstrapNestServer({
+        ...DEFAULT_APP_CONFIG.proxy,
+        api_key: 'sk-test',
+        network: {
+          ...DEFAULT_APP_CONFIG.proxy.network,
+          bind: 'interface',
+          bind_address: '192.168.1.20',
+        },
+      });
+
+      expect(appMock.listen).toHaveBeenCalledWith(8045, '192.168.1.20');
+    });
   });
 });
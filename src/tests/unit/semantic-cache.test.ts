@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { lastValueFrom, Observable, of } from 'rxjs';
+import { CacheLookup, SemanticCacheManager } from '../../server/modules/proxy/SemanticCacheManager';
+import { SemanticCacheIndex } from '../../server/modules/proxy/SemanticCacheIndex';
+import { SemanticCacheRepo } from '../../ipc/database/semanticCache';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+import { CloudAccount } from '../../types/cloudAccount';
+import { GoogleAPIService } from '../../services/GoogleAPIService';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG, SemanticCacheConfig } from '../../types/config';
+import {
+  AnthropicChatRequest,
+  OpenAIChatRequest,
+} from '../../server/modules/proxy/interfaces/request-interfaces';
+
+vi.mock('../../ipc/database/semanticCache', () => ({
+  SemanticCacheRepo: {
+    findExact: vi.fn(() => null),
+    hit: vi.fn(() => null),
+    save: vi.fn(() => ({
+      id: 'entry-1',
+      created_at: Math.floor(Date.now() / 1000),
+      removed_ids: [],
+    })),
+    count: vi.fn(() => 0),
+    purge: vi.fn(() => 1),
+    loadVectors: vi.fn(() => []),
+    loadIndex: vi.fn(() => null),
+    saveIndex: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/GoogleAPIService', () => ({
+  GoogleAPIService: {
+    fetchEmbedding: vi.fn(async () => new Float32Array([1, 0, 0])),
+  },
+}));
+
+const useCache = (cache: Partial<SemanticCacheConfig> = {}) =>
+  setServerConfig({
+    ...DEFAULT_APP_CONFIG.proxy,
+    semantic_cache: { ...DEFAULT_APP_CONFIG.proxy.semantic_cache, enabled: true, ...cache },
+  });
+
+const chat = (overrides: Partial<OpenAIChatRequest> = {}): OpenAIChatRequest => ({
+  model: 'gemini-2.5-flash',
+  temperature: 0,
+  messages: [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'What is the capital of France?' },
+  ],
+  ...overrides,
+});
+
+describe('SemanticCacheManager.prepare', () => {
+  beforeEach(() => {
+    useCache();
+  });
+
+  it('is off unless enabled', () => {
+    useCache({ enabled: false });
+    expect(SemanticCacheManager.prepare(chat(), null)).toBeNull();
+  });
+
+  it('only serves opted-in keys and models', () => {
+    useCache({ key_ids: ['key-a'], models: ['gemini-*'] });
+    expect(SemanticCacheManager.prepare(chat(), 'key-a')).not.toBeNull();
+    expect(SemanticCacheManager.prepare(chat(), 'key-b')).toBeNull();
+    expect(SemanticCacheManager.prepare(chat(), null)).toBeNull();
+    expect(SemanticCacheManager.prepare(chat({ model: 'claude-sonnet-4-5' }), 'key-a')).toBeNull();
+  });
+
+  it('bypasses tool use, images and non-zero temperature', () => {
+    const before = SemanticCacheManager.stats().bypassed;
+    const tool = {
+      type: 'function' as const,
+      function: { name: 'lookup', parameters: {} },
+    };
+
+    expect(SemanticCacheManager.prepare(chat({ temperature: 0.7 }), null)).toBeNull();
+    expect(SemanticCacheManager.prepare(chat({ temperature: undefined }), null)).toBeNull();
+    expect(SemanticCacheManager.prepare(chat({ tools: [tool] }), null)).toBeNull();
+    expect(
+      SemanticCacheManager.prepare(
+        chat({
+          messages: [
+            { role: 'user', content: 'Weather?' },
+            { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+            { role: 'user', content: 'Thanks' },
+          ],
+        }),
+        null,
+      ),
+    ).toBeNull();
+    expect(
+      SemanticCacheManager.prepare(
+        chat({
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Describe this' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+              ],
+            },
+          ],
+        }),
+        null,
+      ),
+    ).toBeNull();
+    const anthropic: AnthropicChatRequest = {
+      model: 'claude-sonnet-4-5',
+      temperature: 0,
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }],
+        } as unknown as AnthropicChatRequest['messages'][number],
+      ],
+    };
+    expect(SemanticCacheManager.prepare(anthropic, null)).toBeNull();
+
+    expect(SemanticCacheManager.stats().bypassed - before).toBe(6);
+  });
+
+  it('keys on the whole request, ignoring only transport fields', () => {
+    const base = SemanticCacheManager.prepare(chat(), null)!;
+
+    expect(SemanticCacheManager.prepare(chat({ stream: true }), null)!.requestHash).toBe(
+      base.requestHash,
+    );
+    // Key order does not matter
+    const reordered = { temperature: 0, messages: chat().messages, model: 'gemini-2.5-flash' };
+    expect(SemanticCacheManager.prepare(reordered, null)!.requestHash).toBe(base.requestHash);
+
+    for (const changed of [
+      chat({ model: 'gemini-2.5-pro' }),
+      chat({ max_tokens: 10 }),
+      chat({
+        messages: [
+          { role: 'system', content: 'You are verbose.' },
+          { role: 'user', content: 'What is the capital of France?' },
+        ],
+      }),
+    ]) {
+      const lookup = SemanticCacheManager.prepare(changed, null)!;
+      expect(lookup.requestHash).not.toBe(base.requestHash);
+      expect(lookup.contextHash).not.toBe(base.contextHash);
+    }
+  });
+
+  it('keeps the entries of each API key apart', () => {
+    const mine = SemanticCacheManager.prepare(chat(), 'key-1')!;
+    const theirs = SemanticCacheManager.prepare(chat(), 'key-2')!;
+
+    expect(theirs.requestHash).not.toBe(mine.requestHash);
+    expect(theirs.contextHash).not.toBe(mine.contextHash);
+    expect(SemanticCacheManager.prepare(chat(), 'key-1')!.requestHash).toBe(mine.requestHash);
+  });
+
+  it('shares the context hash only when just the last user message differs', () => {
+    const base = SemanticCacheManager.prepare(chat(), null)!;
+    const reworded = SemanticCacheManager.prepare(
+      chat({
+        messages: [
+          { role: 'system', content: 'You are terse.' },
+          { role: 'user', content: "What's France's capital?" },
+        ],
+      }),
+      null,
+    )!;
+
+    expect(reworded.prompt).toBe("What's France's capital?");
+    expect(reworded.requestHash).not.toBe(base.requestHash);
+    expect(reworded.contextHash).toBe(base.contextHash);
+  });
+});
+
+describe('SemanticCacheManager lookups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    SemanticCacheIndex.clear();
+    useCache({ similarity_threshold: 0.9, ttl_seconds: 3600, max_entries: 50 });
+  });
+
+  it('embeds the prompt once and indexes the stored entry', async () => {
+    const lookup = SemanticCacheManager.prepare(chat(), null)!;
+
+    expect(await SemanticCacheManager.findResponse(lookup, 'token', 'acc-1')).toBeNull();
+    expect(SemanticCacheRepo.findExact).toHaveBeenCalledWith(
+      lookup.requestHash,
+      expect.any(Number),
+    );
+
+    await SemanticCacheManager.captureAndStore(lookup, 'Paris.', 'token', 'acc-1');
+    expect(GoogleAPIService.fetchEmbedding).toHaveBeenCalledTimes(1);
+    expect(GoogleAPIService.fetchEmbedding).toHaveBeenCalledWith(
+      'What is the capital of France?',
+      'token',
+      'acc-1',
+    );
+    expect(SemanticCacheRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        request_hash: lookup.requestHash,
+        context_hash: lookup.contextHash,
+        response: 'Paris.',
+        model: 'gemini-2.5-flash',
+      }),
+      { expiresBefore: expect.any(Number), maxEntries: 50 },
+    );
+    expect(SemanticCacheManager.stats().indexed).toBe(1);
+  });
+
+  it('matches semantically only within the request context', async () => {
+    await SemanticCacheManager.captureAndStore(
+      SemanticCacheManager.prepare(chat(), null)!,
+      'Paris.',
+      'token',
+    );
+    vi.mocked(SemanticCacheRepo.hit).mockReturnValue('Paris.');
+
+    const reworded = chat({
+      messages: [
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: "What's France's capital?" },
+      ],
+    });
+    expect(
+      await SemanticCacheManager.findResponse(
+        SemanticCacheManager.prepare(reworded, null)!,
+        'token',
+      ),
+    ).toBe('Paris.');
+    expect(SemanticCacheRepo.hit).toHaveBeenCalledWith('entry-1');
+
+    // Same embedding, different system prompt
+    const otherContext = chat({
+      messages: [
+        { role: 'system', content: 'You are verbose.' },
+        { role: 'user', content: "What's France's capital?" },
+      ],
+    });
+    expect(
+      await SemanticCacheManager.findResponse(
+        SemanticCacheManager.prepare(otherContext, null)!,
+        'token',
+      ),
+    ).toBeNull();
+  });
+
+  it('drops purged and evicted entries from the index', async () => {
+    const lookup = SemanticCacheManager.prepare(chat(), null)!;
+    await SemanticCacheManager.captureAndStore(lookup, 'Paris.', 'token');
+    expect(SemanticCacheManager.stats().indexed).toBe(1);
+
+    vi.mocked(SemanticCacheRepo.save).mockReturnValueOnce({
+      id: 'entry-2',
+      created_at: Math.floor(Date.now() / 1000),
+      removed_ids: ['entry-1'],
+    });
+    await SemanticCacheManager.captureAndStore(lookup, 'Paris!', 'token');
+    expect(SemanticCacheManager.stats().indexed).toBe(1);
+
+    SemanticCacheManager.purge('entry-2');
+    expect(SemanticCacheRepo.purge).toHaveBeenCalledWith('entry-2');
+    expect(SemanticCacheManager.stats().indexed).toBe(0);
+  });
+
+  it('counts exact and semantic hits', async () => {
+    const before = SemanticCacheManager.stats();
+    await SemanticCacheManager.captureAndStore(
+      SemanticCacheManager.prepare(chat(), null)!,
+      'Paris!',
+      'token',
+    );
+    vi.mocked(SemanticCacheRepo.findExact).mockReturnValueOnce('Paris.');
+    vi.mocked(SemanticCacheRepo.hit).mockReturnValueOnce('Paris!');
+
+    const lookup = () => SemanticCacheManager.prepare(chat(), null)!;
+    expect(await SemanticCacheManager.findResponse(lookup(), 'token')).toBe('Paris.');
+    expect(await SemanticCacheManager.findResponse(lookup(), 'token')).toBe('Paris!');
+
+    const after = SemanticCacheManager.stats();
+    expect(after.lookups - before.lookups).toBe(2);
+    expect(after.exact_hits - before.exact_hits).toBe(1);
+    expect(after.semantic_hits - before.semantic_hits).toBe(1);
+  });
+
+  it('stores without an embedding when embedding fails', async () => {
+    vi.mocked(GoogleAPIService.fetchEmbedding).mockRejectedValueOnce(new Error('403'));
+    const lookup = SemanticCacheManager.prepare(chat(), null)!;
+
+    expect(await SemanticCacheManager.findResponse(lookup, 'token')).toBeNull();
+    await SemanticCacheManager.captureAndStore(lookup, 'Paris.', 'token');
+
+    expect(GoogleAPIService.fetchEmbedding).toHaveBeenCalledTimes(1);
+    expect(SemanticCacheRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ embedding: null }),
+      expect.anything(),
+    );
+  });
+});
+
+describe('ProxyService stream capture', () => {
+  type Deps = ConstructorParameters<typeof ProxyService>;
+  const service = new ProxyService({} as Deps[0], {} as Deps[1], {} as Deps[2]) as unknown as {
+    captureStreamOutput: (
+      stream: Observable<string>,
+      lookup: CacheLookup,
+      token: CloudAccount,
+      isAnthropic?: boolean,
+    ) => Observable<string>;
+  };
+  const token = { id: 'acc-1', token: { access_token: 'access' } } as unknown as CloudAccount;
+  const lookup = {} as CacheLookup;
+
+  beforeEach(() => {
+    vi.spyOn(SemanticCacheManager, 'captureAndStore').mockResolvedValue();
+  });
+
+  it('stores the text of an Anthropic event stream', async () => {
+    const event = (name: string, data: unknown) =>
+      `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+    const stream = of(
+      event('message_start', { type: 'message_start', message: { id: 'msg_1' } }),
+      event('content_block_delta', {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: 'Paris' },
+      }),
+      event('content_block_delta', {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'text_delta', text: ' is the capital.' },
+      }),
+      event('message_stop', { type: 'message_stop' }),
+    );
+
+    await lastValueFrom(service.captureStreamOutput(stream, lookup, token));
+
+    expect(SemanticCacheManager.captureAndStore).toHaveBeenCalledWith(
+      lookup,
+      'Paris is the capital.',
+      'access',
+      'acc-1',
+    );
+  });
+
+  it('stores the text of an OpenAI chunk stream', async () => {
+    const chunk = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+    const stream = of(chunk('Par'), chunk('is.'), 'data: [DONE]\n\n');
+
+    await lastValueFrom(service.captureStreamOutput(stream, lookup, token, false));
+
+    expect(SemanticCacheManager.captureAndStore).toHaveBeenCalledWith(
+      lookup,
+      'Paris.',
+      'access',
+      'acc-1',
+    );
+  });
+});
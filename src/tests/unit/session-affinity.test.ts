@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deriveSessionKey } from '../../lib/antigravity/session-utils';
+import { TokenManagerService } from '../../server/modules/proxy/token-manager.service';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+
+const accounts: CloudAccount[] = [];
+
+vi.mock('../../ipc/database/cloudHandler', () => ({
+  CloudAccountRepo: {
+    getAccounts: vi.fn(async () => accounts),
+    getAccount: vi.fn(async (id: string) => accounts.find((a) => a.id === id)),
+    updateToken: vi.fn(),
+  },
+}));
+
+function cloudAccount(id: string, percentage = 80): CloudAccount {
+  return {
+    id,
+    provider: 'google',
+    email: `${id}@example.com`,
+    token: {
+      access_token: 'access',
+      refresh_token: 'refresh',
+      expires_in: 3600,
+      expiry_timestamp: Math.floor(Date.now() / 1000) + 3600,
+      token_type: 'Bearer',
+      project_id: 'project',
+    },
+    quota: {
+      models: {
+        'gemini-2.5-pro': {
+          percentage,
+          resetTime: new Date(Date.now() + 3600 * 1000).toISOString(),
+        },
+      },
+    },
+    created_at: 0,
+    last_used: 0,
+  } as CloudAccount;
+}
+
+describe('deriveSessionKey', () => {
+  it('prefers an explicit session header', () => {
+    expect(deriveSessionKey({ session_id: 'abc' }, { metadata: { user_id: 'u1' } })).toBe(
+      'session:abc',
+    );
+    expect(deriveSessionKey({ 'x-session-id': ['xyz'] }, {})).toBe('session:xyz');
+  });
+
+  it('falls back to metadata.user_id', () => {
+    expect(deriveSessionKey({}, { metadata: { user_id: 'user_1_session_2' } })).toBe(
+      'user:user_1_session_2',
+    );
+  });
+
+  it('hashes the opening of the conversation, stable as turns are appended', () => {
+    const first = {
+      system: 'You are helpful',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+    const later = {
+      system: 'You are helpful',
+      messages: [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi!' },
+        { role: 'user', content: 'Tell me more' },
+      ],
+    };
+    const key = deriveSessionKey({}, first);
+    expect(key).toMatch(/^hash:[0-9a-f]{32}$/);
+    expect(deriveSessionKey({}, later)).toBe(key);
+    expect(deriveSessionKey({}, { ...first, system: 'Other' })).not.toBe(key);
+  });
+
+  it('supports Gemini contents and Responses input', () => {
+    expect(deriveSessionKey({}, { contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] })).toMatch(
+      /^hash:/,
+    );
+    expect(deriveSessionKey({}, { input: 'Hi' })).toMatch(/^hash:/);
+  });
+
+  it('returns undefined when there is no conversation', () => {
+    expect(deriveSessionKey({}, undefined)).toBeUndefined();
+    expect(deriveSessionKey({}, { model: 'x' })).toBeUndefined();
+  });
+});
+
+describe('TokenManagerService conversation affinity', () => {
+  const MODEL = 'gemini-2.5-pro';
+  let manager: TokenManagerService;
+
+  beforeEach(async () => {
+    accounts.splice(0, accounts.length, cloudAccount('a'), cloudAccount('b'), cloudAccount('c'));
+    setServerConfig({
+      ...DEFAULT_APP_CONFIG.proxy,
+      session_affinity: { enabled: true, ttl_seconds: 600 },
+    });
+    manager = new TokenManagerService();
+    await manager.loadAccounts();
+  });
+
+  it('keeps a conversation on the same account', async () => {
+    const first = await manager.getNextToken(MODEL, 'session:1');
+    const other = await manager.getNextToken(MODEL, 'session:2');
+    const again = await manager.getNextToken(MODEL, 'session:1');
+
+    expect(other?.id).not.toBe(first?.id);
+    expect(again?.id).toBe(first?.id);
+
+    const binding = manager.listSessions().find((s) => s.key === 'session:1');
+    expect(binding).toMatchObject({ account_id: first?.id, requests: 2, model: MODEL });
+  });
+
+  it('moves the conversation when its account is cooled down', async () => {
+    const first = await manager.getNextToken(MODEL, 'session:1');
+    manager.markAsRateLimited(first!.email);
+
+    const moved = await manager.getNextToken(MODEL, 'session:1');
+    expect(moved?.id).not.toBe(first?.id);
+    expect(manager.listSessions()[0]).toMatchObject({ account_id: moved?.id, requests: 1 });
+  });
+
+  it('moves the conversation when its account is exhausted for the model', async () => {
+    const first = await manager.getNextToken(MODEL, 'session:1');
+    const index = accounts.findIndex((a) => a.id === first!.id);
+    accounts[index] = cloudAccount(first!.id, 0);
+
+    const moved = await manager.getNextToken(MODEL, 'session:1');
+    expect(moved?.id).not.toBe(first?.id);
+  });
+
+  it('stops picking an account once it is removed from the DB', async () => {
+    const first = await manager.getNextToken(MODEL, 'session:1');
+    const index = accounts.findIndex((a) => a.id === first!.id);
+    accounts.splice(index, 1);
+    await manager.loadAccounts();
+
+    for (let i = 0; i < accounts.length + 1; i++) {
+      expect((await manager.getNextToken(MODEL, 'session:1'))?.id).not.toBe(first?.id);
+    }
+  });
+
+  it('forgets expired bindings', async () => {
+    vi.useFakeTimers({ now: Date.now() });
+    try {
+      await manager.getNextToken(MODEL, 'session:1');
+      vi.advanceTimersByTime(601 * 1000);
+      expect(manager.listSessions()).toHaveLength(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not bind when affinity is disabled', async () => {
+    setServerConfig({
+      ...DEFAULT_APP_CONFIG.proxy,
+      session_affinity: { enabled: false, ttl_seconds: 600 },
+    });
+    await manager.getNextToken(MODEL, 'session:1');
+    expect(manager.listSessions()).toHaveLength(0);
+  });
+
+  it('releases a single binding', async () => {
+    await manager.getNextToken(MODEL, 'session:1');
+    await manager.getNextToken(MODEL, 'session:2');
+
+    expect(manager.releaseSession('session:1')).toBe(true);
+    expect(manager.listSessions().map((s) => s.key)).toEqual(['session:2']);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SignatureStore } from '../../lib/antigravity/SignatureStore';
+import { transformClaudeRequestIn } from '../../lib/antigravity/ClaudeRequestMapper';
+import { PartProcessor, StreamingState } from '../../lib/antigravity/ClaudeStreamingMapper';
+import { ClaudeRequest } from '../../lib/antigravity/types';
+
+const SIG_A = 'signature-of-conversation-a';
+const SIG_B = 'signature-of-conversation-b-which-is-longer';
+
+describe('SignatureStore', () => {
+  beforeEach(() => {
+    SignatureStore.configure({});
+    SignatureStore.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps conversations apart', () => {
+    SignatureStore.store(SIG_A, { conversation: 'a' });
+    SignatureStore.store(SIG_B, { conversation: 'b' });
+
+    expect(SignatureStore.get('a')).toBe(SIG_A);
+    expect(SignatureStore.get('b')).toBe(SIG_B);
+    expect(SignatureStore.get('c')).toBeNull();
+    expect(SignatureStore.get()).toBeNull();
+  });
+
+  it('replaces a conversation signature with the latest one, even if shorter', () => {
+    SignatureStore.store(SIG_B, { conversation: 'a' });
+    SignatureStore.store(SIG_A, { conversation: 'a' });
+    expect(SignatureStore.get('a')).toBe(SIG_A);
+  });
+
+  it('looks up signatures by tool_use id', () => {
+    SignatureStore.store(SIG_A, { conversation: 'a', toolUseId: 'toolu_1' });
+    expect(SignatureStore.getForToolUse('toolu_1')).toBe(SIG_A);
+    expect(SignatureStore.getForToolUse('toolu_2')).toBeNull();
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z') });
+    SignatureStore.configure({ ttl_seconds: 60 });
+    SignatureStore.store(SIG_A, { conversation: 'a', toolUseId: 'toolu_1' });
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(SignatureStore.get('a')).toBeNull();
+    expect(SignatureStore.getForToolUse('toolu_1')).toBeNull();
+  });
+
+  it('evicts the least recently used conversation', () => {
+    SignatureStore.configure({ max_entries: 2 });
+    SignatureStore.store(SIG_A, { conversation: 'a' });
+    SignatureStore.store(SIG_A, { conversation: 'b' });
+    SignatureStore.get('a'); // 'b' is now least recently used
+    SignatureStore.store(SIG_A, { conversation: 'c' });
+
+    expect(SignatureStore.get('a')).toBe(SIG_A);
+    expect(SignatureStore.get('b')).toBeNull();
+    expect(SignatureStore.get('c')).toBe(SIG_A);
+  });
+
+  it('persists signatures to disk and reloads them', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sigstore-'));
+    const file = path.join(dir, 'signatures.json');
+    try {
+      SignatureStore.configure({ persist_path: file });
+      SignatureStore.store(SIG_A, { conversation: 'a', toolUseId: 'toolu_1' });
+      SignatureStore.flush();
+
+      SignatureStore.configure({});
+      SignatureStore.clear();
+      expect(SignatureStore.get('a')).toBeNull();
+
+      SignatureStore.configure({ persist_path: file });
+      expect(SignatureStore.get('a')).toBe(SIG_A);
+      expect(SignatureStore.getForToolUse('toolu_1')).toBe(SIG_A);
+    } finally {
+      SignatureStore.configure({});
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('signature replay per conversation', () => {
+  beforeEach(() => {
+    SignatureStore.configure({});
+    SignatureStore.clear();
+  });
+
+  const toolTurn = (id: string): ClaudeRequest => ({
+    model: 'gemini-3-pro-preview',
+    max_tokens: 100,
+    thinking: { type: 'enabled', budget_tokens: 1000 },
+    messages: [
+      { role: 'user', content: 'Weather?' },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id, name: 'get_weather', input: {} }],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: id, content: 'Sunny' }],
+      },
+    ],
+  });
+
+  const functionCallSignature = (request: ReturnType<typeof transformClaudeRequestIn>) => {
+    const parts = request.request.contents.flatMap((c) => c.parts) as {
+      functionCall?: unknown;
+      thoughtSignature?: string;
+    }[];
+    return parts.find((p) => p.functionCall)?.thoughtSignature;
+  };
+
+  it('records streamed function call signatures under the conversation and tool_use id', () => {
+    const processor = new PartProcessor(new StreamingState('conv-a'));
+    processor.process({
+      functionCall: { name: 'get_weather', args: {}, id: 'toolu_a' },
+      thoughtSignature: SIG_A,
+    });
+
+    expect(SignatureStore.get('conv-a')).toBe(SIG_A);
+    expect(SignatureStore.getForToolUse('toolu_a')).toBe(SIG_A);
+  });
+
+  it("replays a conversation's own signature, never another's", () => {
+    SignatureStore.store(SIG_A, { conversation: 'conv-a', toolUseId: 'toolu_a' });
+    SignatureStore.store(SIG_B, { conversation: 'conv-b', toolUseId: 'toolu_b' });
+
+    expect(
+      functionCallSignature(transformClaudeRequestIn(toolTurn('toolu_a'), 'p', 'conv-a')),
+    ).toBe(SIG_A);
+    // Tool ids win over the conversation's latest signature
+    expect(
+      functionCallSignature(transformClaudeRequestIn(toolTurn('toolu_a'), 'p', 'conv-b')),
+    ).toBe(SIG_A);
+    const unknown = transformClaudeRequestIn(toolTurn('toolu_x'), 'p', 'conv-c');
+    expect(functionCallSignature(unknown)).toBeUndefined();
+    expect(unknown.request.generationConfig?.thinkingConfig).toBeUndefined();
+  });
+});
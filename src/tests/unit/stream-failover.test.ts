@@ -0,0 +1,269 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough, Readable } from 'stream';
+import { Observable } from 'rxjs';
+import { StreamFailover } from '../../server/modules/proxy/StreamFailover';
+import { ProxyService } from '../../server/modules/proxy/proxy.service';
+import { GeminiContent, GeminiInternalRequest, GeminiPart } from '../../lib/antigravity/types';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+
+const CONTENTS: GeminiContent[] = [{ role: 'user', parts: [{ text: 'Say hello' }] }];
+
+function sse(payload: unknown): string {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
+
+function textChunk(text: string, finishReason?: string): string {
+  return sse({
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason }],
+    ...(finishReason ? { usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 } } : {}),
+  });
+}
+
+function partChunk(part: GeminiPart): string {
+  return sse({ candidates: [{ content: { role: 'model', parts: [part] } }] });
+}
+
+const METADATA = sse({ responseId: 'resp-1', modelVersion: 'gemini-2.5-flash' });
+
+/** An upstream body that sends the given chunks, then ends or fails */
+function upstream(chunks: string[], failWith?: Error): PassThrough {
+  const stream = new PassThrough();
+  setImmediate(() => {
+    chunks.forEach((chunk) => stream.write(chunk));
+    if (failWith) stream.destroy(failWith);
+    else stream.end();
+  });
+  return stream;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('StreamFailover', () => {
+  it('retries on another account when the upstream dies before any content', async () => {
+    const reopen = vi.fn(async () => ({
+      stream: upstream([METADATA, textChunk('Hello', 'STOP')]),
+      accountId: 'acc-2',
+    }));
+    const first = upstream([METADATA], new Error('socket hang up'));
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+    });
+    const text = await readAll(output);
+
+    expect(reopen).toHaveBeenCalledWith(CONTENTS, ['acc-1']);
+    // The failed attempt's buffered metadata is dropped
+    expect(text.match(/resp-1/g)).toHaveLength(1);
+    expect(text).toContain('"text":"Hello"');
+  });
+
+  it('continues a response that already started', async () => {
+    const reopen = vi.fn(async () => ({
+      stream: upstream([textChunk(' world', 'STOP')]),
+      accountId: 'acc-2',
+    }));
+    const first = upstream([METADATA, textChunk('Hello')], new Error('ECONNRESET'));
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+    });
+    const text = await readAll(output);
+
+    expect(reopen).toHaveBeenCalledWith(
+      [...CONTENTS, { role: 'model', parts: [{ text: 'Hello' }] }],
+      ['acc-1'],
+    );
+    expect(text.indexOf('"text":"Hello"')).toBeLessThan(text.indexOf('"text":" world"'));
+  });
+
+  it('continues after thoughts only, replaying them with their signature', async () => {
+    const reopen = vi.fn(async () => ({
+      stream: upstream([textChunk('Hello', 'STOP')]),
+      accountId: 'acc-2',
+    }));
+    const first = upstream(
+      [
+        METADATA,
+        partChunk({ text: 'ponder', thought: true }),
+        partChunk({ text: 'ing', thought: true, thoughtSignature: 'sig-1' }),
+      ],
+      new Error('socket hang up'),
+    );
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+    });
+    const text = await readAll(output);
+
+    expect(reopen).toHaveBeenCalledWith(
+      [
+        ...CONTENTS,
+        { role: 'model', parts: [{ text: 'pondering', thought: true, thoughtSignature: 'sig-1' }] },
+      ],
+      ['acc-1'],
+    );
+    expect(text.match(/"text":"ponder"/g)).toHaveLength(1);
+    expect(text).toContain('"text":"Hello"');
+  });
+
+  it('continues after a function call, replaying the call with its signature', async () => {
+    const call = { name: 'get_weather', args: { city: 'Paris' } };
+    const reopen = vi.fn(async () => ({
+      stream: upstream([textChunk('Checking the weather.', 'STOP')]),
+      accountId: 'acc-2',
+    }));
+    const first = upstream(
+      [METADATA, partChunk({ functionCall: call, thoughtSignature: 'sig-2' })],
+      new Error('ECONNRESET'),
+    );
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+    });
+    const text = await readAll(output);
+
+    expect(reopen).toHaveBeenCalledWith(
+      [...CONTENTS, { role: 'model', parts: [{ functionCall: call, thoughtSignature: 'sig-2' }] }],
+      ['acc-1'],
+    );
+    expect(text.match(/get_weather/g)).toHaveLength(1);
+  });
+
+  it('ends with the error when the output sent cannot be continued', async () => {
+    const reopen = vi.fn();
+    const first = upstream([METADATA, textChunk('')], new Error('socket hang up'));
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+    });
+
+    await expect(readAll(output)).rejects.toThrow('socket hang up');
+    expect(reopen).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    const reopen = vi.fn(async () => ({
+      stream: upstream([], new Error('upstream reset')),
+      accountId: `acc-${reopen.mock.calls.length + 1}`,
+    }));
+    const first = upstream([], new Error('socket hang up'));
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 2,
+    });
+
+    await expect(readAll(output)).rejects.toThrow('upstream reset');
+    expect(reopen).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not open a replacement once the client is gone', async () => {
+    const controller = new AbortController();
+    const reopen = vi.fn();
+    const first = upstream([METADATA], new Error('This operation was aborted'));
+    controller.abort();
+
+    const output = StreamFailover.wrap({ stream: first, accountId: 'acc-1' }, CONTENTS, reopen, {
+      maxAttempts: 3,
+      signal: controller.signal,
+    });
+
+    await expect(readAll(output)).rejects.toThrow('aborted');
+    expect(reopen).not.toHaveBeenCalled();
+  });
+
+  it('gives the Anthropic processor one clean message across accounts', async () => {
+    const service = new ProxyService({} as never, {} as never, {} as never) as unknown as {
+      processAnthropicInternalStream: (stream: Readable, model: string) => Observable<string>;
+    };
+    const first = upstream([METADATA, textChunk('Hello')], new Error('socket hang up'));
+    const output = StreamFailover.wrap(
+      { stream: first, accountId: 'acc-1' },
+      CONTENTS,
+      async () => ({ stream: upstream([textChunk(' world', 'STOP')]), accountId: 'acc-2' }),
+      { maxAttempts: 2 },
+    );
+
+    const events: string[] = [];
+    await new Promise<void>((resolve, reject) =>
+      service.processAnthropicInternalStream(output, 'claude-sonnet-4-5').subscribe({
+        next: (chunk) => events.push(chunk),
+        error: reject,
+        complete: resolve,
+      }),
+    );
+    const text = events.join('');
+
+    expect(text.match(/event: message_start/g)).toHaveLength(1);
+    expect(text).not.toContain('event: error');
+    expect(text).toContain('Hello');
+    expect(text).toContain(' world');
+    expect(text).toContain('event: message_stop');
+  });
+});
+
+describe('ProxyService stream failover', () => {
+  const account = (id: string, provider = 'google') =>
+    ({
+      id,
+      email: `${id}@example.com`,
+      provider,
+      token: { access_token: `access-${id}`, project_id: `project-${id}` },
+    }) as unknown as CloudAccount;
+
+  it('looks past local accounts and cools down the account that failed', async () => {
+    setServerConfig({
+      ...DEFAULT_APP_CONFIG.proxy,
+      stream_failover: { enabled: true, max_attempts: 3 },
+    });
+    const tokenManager = {
+      getNextToken: vi.fn(async (_model: string, _key: unknown, excludeIds: string[]) =>
+        excludeIds.includes('local-ollama-llama3')
+          ? account('acc-2')
+          : account('local-ollama-llama3', 'local-ollama'),
+      ),
+      markAsRateLimited: vi.fn(),
+    };
+    const geminiClient = {
+      streamGenerateInternal: vi.fn(async () => upstream([textChunk('Hello', 'STOP')])),
+    };
+    type Deps = ConstructorParameters<typeof ProxyService>;
+    const service = new ProxyService(
+      tokenManager as unknown as Deps[0],
+      geminiClient as unknown as Deps[1],
+      {} as Deps[2],
+    ) as unknown as {
+      withStreamFailover: (...args: unknown[]) => Readable;
+    };
+    const body = {
+      project: 'project-acc-1',
+      model: 'gemini-2.5-flash',
+      request: { contents: CONTENTS },
+    } as GeminiInternalRequest;
+
+    const output = service.withStreamFailover(
+      upstream([METADATA], new Error('socket hang up')),
+      body,
+      account('acc-1'),
+      'gemini-2.5-flash',
+    );
+    const text = await readAll(output);
+
+    expect(text).toContain('"text":"Hello"');
+    expect(tokenManager.markAsRateLimited).toHaveBeenCalledWith(
+      'acc-1@example.com',
+      'gemini-2.5-flash',
+    );
+    expect(geminiClient.streamGenerateInternal).toHaveBeenCalledWith(
+      expect.objectContaining({ project: 'project-acc-2' }),
+      'access-acc-2',
+      'acc-2',
+      undefined,
+    );
+  });
+});
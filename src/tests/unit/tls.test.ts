@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import https from 'https';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { generateSelfSignedCertificate, loadTlsCredentials } from '../../server/tls';
+
+describe('Gateway TLS', () => {
+  let dir = '';
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-tls-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('generates a valid self-signed certificate for the given names', () => {
+    const { cert, key } = generateSelfSignedCertificate(['localhost', '127.0.0.1', '::1']);
+    const x509 = new crypto.X509Certificate(cert);
+
+    expect(x509.verify(x509.publicKey)).toBe(true);
+    expect(x509.checkPrivateKey(crypto.createPrivateKey(key))).toBe(true);
+    expect(x509.checkHost('localhost')).toBe('localhost');
+    expect(x509.checkIP('127.0.0.1')).toBe('127.0.0.1');
+    expect(x509.checkIP('::1')).toBe('::1');
+    expect(x509.checkIP('10.9.9.9')).toBeUndefined();
+    expect(new Date(x509.validTo).getTime()).toBeGreaterThan(Date.now() + 365 * 86400 * 1000);
+  });
+
+  it('serves HTTPS that a client trusting the certificate accepts', async () => {
+    const { cert, key } = generateSelfSignedCertificate(['localhost', '127.0.0.1']);
+    const server = https.createServer({ cert, key }, (_req, res) => res.end('ok'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const body = await new Promise<string>((resolve, reject) => {
+        https
+          .get(`https://127.0.0.1:${port}/`, { ca: cert }, (res) => {
+            let data = '';
+            res.on('data', (chunk) => (data += chunk));
+            res.on('end', () => resolve(data));
+          })
+          .on('error', reject);
+      });
+      expect(body).toBe('ok');
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('reuses the stored certificate until it needs renewing', () => {
+    const tls = { enabled: true, cert_path: '', key_path: '' };
+    const first = loadTlsCredentials(tls, dir);
+    const second = loadTlsCredentials(tls, dir);
+
+    expect(first.self_signed).toBe(true);
+    expect(second.cert).toBe(first.cert);
+
+    // A certificate about to expire is replaced
+    const expiring = generateSelfSignedCertificate(['localhost', '127.0.0.1'], 1);
+    fs.writeFileSync(path.join(dir, 'gateway-cert.pem'), expiring.cert);
+    fs.writeFileSync(path.join(dir, 'gateway-key.pem'), expiring.key);
+    expect(loadTlsCredentials(tls, dir).cert).not.toBe(expiring.cert);
+  });
+
+  it('uses the configured certificate files as they are', () => {
+    const { cert, key } = generateSelfSignedCertificate(['gateway.lan']);
+    const certPath = path.join(dir, 'custom-cert.pem');
+    const keyPath = path.join(dir, 'custom-key.pem');
+    fs.writeFileSync(certPath, cert);
+    fs.writeFileSync(keyPath, key);
+
+    const loaded = loadTlsCredentials(
+      { enabled: true, cert_path: certPath, key_path: keyPath },
+      dir,
+    );
+
+    expect(loaded).toEqual({ cert, key, self_signed: false });
+    expect(fs.existsSync(path.join(dir, 'gateway-cert.pem'))).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCountTokensContents,
+  estimateClaudeInputTokens,
+  estimateTokenCount,
+  IMAGE_TOKEN_ESTIMATE,
+} from '../../lib/antigravity/token-utils';
+import { ClaudeRequest, GeminiInternalRequest } from '../../lib/antigravity/types';
+
+describe('estimateTokenCount', () => {
+  it('should count roughly four characters per token', () => {
+    expect(estimateTokenCount('')).toBe(0);
+    expect(estimateTokenCount('abcdefgh')).toBe(2);
+  });
+
+  it('should count CJK characters individually', () => {
+    expect(estimateTokenCount('你好世界')).toBe(4);
+  });
+});
+
+describe('estimateClaudeInputTokens', () => {
+  it('should include system prompt, messages, images and tools', () => {
+    const base: ClaudeRequest = {
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'abcdefgh' }],
+    };
+    const withExtras: ClaudeRequest = {
+      ...base,
+      system: [{ type: 'text', text: 'abcd' }],
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'abcdefgh' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+      ],
+      tools: [{ name: 'get_weather', input_schema: { type: 'object' } }],
+    };
+
+    expect(estimateClaudeInputTokens(base)).toBe(2);
+    expect(estimateClaudeInputTokens(withExtras)).toBeGreaterThan(2 + 1 + IMAGE_TOKEN_ESTIMATE);
+  });
+
+  it('should count tool calls and nested tool results', () => {
+    const request: ClaudeRequest = {
+      model: 'claude-sonnet-4-5',
+      messages: [
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'call_1', name: 'abcd', input: {} }],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'call_1',
+              content: [{ type: 'text', text: 'abcdefgh' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    // name (1) + "{}" (1) + result text (2)
+    expect(estimateClaudeInputTokens(request)).toBe(4);
+  });
+});
+
+describe('buildCountTokensContents', () => {
+  const body = (extra: Partial<GeminiInternalRequest['request']> = {}): GeminiInternalRequest => ({
+    project: 'p',
+    requestId: 'r',
+    model: 'gemini-2.5-flash',
+    userAgent: 'antigravity',
+    request: { contents: [{ role: 'user', parts: [{ text: 'Hi' }] }], ...extra },
+  });
+
+  it('should return contents unchanged without system or tools', () => {
+    expect(buildCountTokensContents(body())).toEqual([{ role: 'user', parts: [{ text: 'Hi' }] }]);
+  });
+
+  it('should fold system instruction and tools into a leading turn', () => {
+    const contents = buildCountTokensContents(
+      body({
+        systemInstruction: { parts: [{ text: 'Be brief.' }] },
+        tools: [{ functionDeclarations: [{ name: 'get_weather' }] }],
+      }),
+    );
+
+    expect(contents).toHaveLength(2);
+    expect(contents[0].parts[0]).toEqual({ text: 'Be brief.' });
+    expect(contents[0].parts[1].text).toContain('get_weather');
+  });
+});
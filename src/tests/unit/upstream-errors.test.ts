@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  RateLimitError,
+  UpstreamError,
+  isRateLimitError,
+  parseDuration,
+  parseRetryAfter,
+  parseUpstreamError,
+} from '../../lib/antigravity/upstream-errors';
+import { TokenManagerService } from '../../server/modules/proxy/token-manager.service';
+import { setServerConfig } from '../../server/server-config';
+import { DEFAULT_APP_CONFIG } from '../../types/config';
+import { CloudAccount } from '../../types/cloudAccount';
+
+const accounts: CloudAccount[] = [];
+
+vi.mock('../../ipc/database/cloudHandler', () => ({
+  CloudAccountRepo: {
+    getAccounts: vi.fn(async () => accounts),
+    getAccount: vi.fn(async (id: string) => accounts.find((a) => a.id === id)),
+    updateToken: vi.fn(),
+  },
+}));
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const rateLimitBody = (details: unknown[]) => ({
+  error: {
+    code: 429,
+    message: 'Resource has been exhausted (e.g. check quota).',
+    status: 'RESOURCE_EXHAUSTED',
+    details,
+  },
+});
+
+describe('parseUpstreamError', () => {
+  it('parses durations and Retry-After headers', () => {
+    expect(parseDuration('37s')).toBe(37_000);
+    expect(parseDuration('0.5s')).toBe(500);
+    expect(parseDuration('1h2m3.5s')).toBe(3_723_500);
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseRetryAfter('120', NOW)).toBe(120_000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:01:00 GMT', NOW)).toBe(60_000);
+  });
+
+  it('reads RetryInfo and the model from quota violations', () => {
+    const error = parseUpstreamError(
+      429,
+      rateLimitBody([
+        {
+          '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+          violations: [
+            {
+              quotaMetric: 'generativelanguage.googleapis.com/generate_content_requests',
+              quotaId: 'GenerateRequestsPerMinutePerProjectPerModel',
+              quotaDimensions: { model: 'gemini-2.5-pro' },
+            },
+          ],
+        },
+        { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' },
+      ]),
+      {},
+      NOW,
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    const rateLimit = error as RateLimitError;
+    expect(rateLimit.message).toBe('Resource has been exhausted (e.g. check quota).');
+    expect(rateLimit.retryAfterMs).toBe(37_000);
+    expect(rateLimit.model).toBe('gemini-2.5-pro');
+    expect(rateLimit.quotaExhausted).toBe(false);
+  });
+
+  it('reads the quota reset from ErrorInfo and streamed text bodies', () => {
+    const body = JSON.stringify(
+      rateLimitBody([
+        {
+          '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+          reason: 'QUOTA_EXHAUSTED',
+          metadata: {
+            model: 'claude-sonnet-4-5',
+            quotaResetTimeStamp: '2026-03-01T15:00:00Z',
+          },
+        },
+      ]),
+    );
+    const error = parseUpstreamError(429, body, {}, NOW) as RateLimitError;
+
+    expect(error.quotaExhausted).toBe(true);
+    expect(error.resetAt).toBe(Date.parse('2026-03-01T15:00:00Z'));
+    expect(error.retryAfterMs).toBe(3 * 3600 * 1000);
+    expect(error.model).toBe('claude-sonnet-4-5');
+  });
+
+  it('falls back to the Retry-After header', () => {
+    const error = parseUpstreamError(429, 'Too Many Requests', { 'retry-after': '12' }, NOW);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(12_000);
+    expect(error.message).toBe('Too Many Requests');
+  });
+
+  it('keeps other failures as plain upstream errors', () => {
+    const error = parseUpstreamError(400, {
+      error: { message: 'max_tokens limit exceeded', status: 'INVALID_ARGUMENT' },
+    });
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).not.toBeInstanceOf(RateLimitError);
+    expect(isRateLimitError(error)).toBe(false);
+    // Untyped errors are still matched by message
+    expect(isRateLimitError(new Error('429 Too Many Requests'))).toBe(true);
+  });
+});
+
+describe('TokenManagerService cooldowns', () => {
+  const PRO = 'gemini-2.5-pro';
+  const FLASH = 'gemini-2.5-flash';
+  let manager: TokenManagerService;
+
+  const account = (id: string): CloudAccount =>
+    ({
+      id,
+      provider: 'google',
+      email: `${id}@example.com`,
+      token: {
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_in: 3600,
+        expiry_timestamp: Math.floor(NOW / 1000) + 3600 * 24,
+        token_type: 'Bearer',
+        project_id: 'project',
+      },
+      quota: {
+        models: {
+          [PRO]: { percentage: 0, resetTime: '2026-03-01T14:00:00Z' },
+          [FLASH]: { percentage: 50, resetTime: '2026-03-01T14:00:00Z' },
+        },
+      },
+      created_at: 0,
+      last_used: 0,
+    }) as CloudAccount;
+
+  const rateLimit = (details: Partial<ConstructorParameters<typeof RateLimitError>[1]> = {}) =>
+    new RateLimitError('quota', {
+      status: 429,
+      code: 'RESOURCE_EXHAUSTED',
+      reason: null,
+      retryAfterMs: null,
+      resetAt: null,
+      model: null,
+      violations: [],
+      ...details,
+    });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: NOW });
+    accounts.splice(0, accounts.length, account('a'));
+    setServerConfig({ ...DEFAULT_APP_CONFIG.proxy });
+    manager = new TokenManagerService();
+    await manager.loadAccounts();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('cools down only the rate-limited model until the retry delay passes', async () => {
+    manager.markAsRateLimited('a@example.com', FLASH, rateLimit({ retryAfterMs: 30_000 }));
+
+    expect(await manager.getNextToken(FLASH)).toBeNull();
+    expect(await manager.getNextToken('gemini-3-pro-high')).not.toBeNull();
+
+    vi.advanceTimersByTime(31_000);
+    expect((await manager.getNextToken(FLASH))?.id).toBe('a');
+  });
+
+  it('waits for the quota reset when the quota is used up', async () => {
+    await manager.getNextToken(FLASH); // caches the stored quota, PRO resets at 14:00
+    manager.markAsRateLimited('a@example.com', PRO, rateLimit({ reason: 'QUOTA_EXHAUSTED' }));
+    // Without quota data the scheduler no longer skips the account on its own
+    accounts[0] = { ...account('a'), quota: { models: {} } } as CloudAccount;
+
+    vi.advanceTimersByTime(90 * 60 * 1000);
+    expect(await manager.getNextToken(PRO)).toBeNull();
+    vi.advanceTimersByTime(31 * 60 * 1000);
+    expect((await manager.getNextToken(PRO))?.id).toBe('a');
+  });
+
+  it('records the cooldown under the model named by upstream', async () => {
+    manager.markAsRateLimited('a@example.com', 'claude-sonnet-4-5', rateLimit({ model: FLASH }));
+
+    expect(await manager.getNextToken(FLASH)).toBeNull();
+    expect(await manager.getNextToken('claude-sonnet-4-5')).toBeNull();
+    expect(await manager.getNextToken('gemini-3-pro-high')).not.toBeNull();
+  });
+
+  it('keeps embeddings off local accounts and off accounts cooling down for the model', async () => {
+    const EMBEDDING = 'text-embedding-004';
+    accounts.push({
+      ...account('local'),
+      provider: 'local-ollama',
+      is_active: true,
+    } as CloudAccount);
+    await manager.loadAccounts();
+
+    expect((await manager.getEmbeddingToken(EMBEDDING))?.id).toBe('a');
+    manager.markAsRateLimited('a@example.com', EMBEDDING, rateLimit({ retryAfterMs: 30_000 }));
+    expect(await manager.getEmbeddingToken(EMBEDDING)).toBeNull();
+  });
+
+  it('cools down the whole account when the model is unknown', async () => {
+    manager.markAsRateLimited('a@example.com');
+
+    expect(await manager.getNextToken(FLASH)).toBeNull();
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    expect((await manager.getNextToken(FLASH))?.id).toBe('a');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractUsage,
+  extractUsageTokens,
+  StreamUsageTracker,
+} from '../../lib/antigravity/usage-utils';
+
+describe('extractUsageTokens', () => {
+  it('should read OpenAI, Anthropic and Gemini usage', () => {
+    expect(
+      extractUsageTokens({ usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 } }),
+    ).toBe(7);
+    expect(extractUsageTokens({ usage: { input_tokens: 5, output_tokens: 6 } })).toBe(11);
+    expect(extractUsageTokens({ usageMetadata: { totalTokenCount: 9 } })).toBe(9);
+  });
+
+  it('should read nested message and response usage', () => {
+    expect(extractUsageTokens({ message: { usage: { input_tokens: 2, output_tokens: 0 } } })).toBe(
+      2,
+    );
+    expect(extractUsageTokens({ response: { usage: { total_tokens: 12 } } })).toBe(12);
+  });
+
+  it('should return 0 without usage', () => {
+    expect(extractUsageTokens({ data: [] })).toBe(0);
+    expect(extractUsageTokens(null)).toBe(0);
+  });
+});
+
+describe('extractUsage', () => {
+  it('should split input and output tokens', () => {
+    expect(
+      extractUsage({ usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 } }),
+    ).toEqual({ input: 3, output: 4, total: 7 });
+    expect(
+      extractUsage({
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, totalTokenCount: 9 },
+      }),
+    ).toEqual({ input: 5, output: 2, total: 9 });
+  });
+});
+
+describe('StreamUsageTracker', () => {
+  it('should keep the last reported total across SSE chunks', () => {
+    const tracker = new StreamUsageTracker();
+    tracker.push(
+      'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":10,"output_tokens":0}}}\n\n',
+    );
+    tracker.push('event: content_block_delta\ndata: {"type":"content_block_delta"}\n\n');
+    tracker.push(
+      'event: message_delta\ndata: {"type":"message_delta","usage":{"input_tokens":10,"output_tokens":25}}\n\n',
+    );
+    tracker.push('data: [DONE]\n\n');
+
+    expect(tracker.total).toBe(35);
+    expect(tracker.usage).toEqual({ input: 10, output: 25, total: 35 });
+  });
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+/** Client protocol a virtual key may be used with */
+export type ApiKeyProtocol = 'any' | 'openai' | 'anthropic' | 'gemini' | 'ollama';
+
+export interface VirtualApiKey {
+  id: string; // UUID
+  name: string;
+  /** First characters of the secret, for display only */
+  key_prefix: string;
+  /** Model names or `prefix-*` patterns; empty means every model */
+  allowed_models: string[];
+  protocol: ApiKeyProtocol;
+  /** Requests per minute; null means unlimited */
+  rate_limit_rpm: number | null;
+  /** Tokens per UTC day; null means unlimited */
+  daily_token_budget: number | null;
+  tokens_used_today: number;
+  expires_at: number | null; // Unix timestamp
+  revoked_at: number | null; // Unix timestamp
+  created_at: number;
+  last_used_at: number | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  allowed_models?: string[];
+  protocol?: ApiKeyProtocol;
+  rate_limit_rpm?: number | null;
+  daily_token_budget?: number | null;
+  expires_at?: number | null;
+}
+
+export type UpdateApiKeyInput = Partial<CreateApiKeyInput> & { id: string };
+
+// Zod Schemas
+export const ApiKeyProtocolSchema = z.enum(['any', 'openai', 'anthropic', 'gemini', 'ollama']);
+
+export const VirtualApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  key_prefix: z.string(),
+  allowed_models: z.array(z.string()),
+  protocol: ApiKeyProtocolSchema,
+  rate_limit_rpm: z.number().nullable(),
+  daily_token_budget: z.number().nullable(),
+  tokens_used_today: z.number(),
+  expires_at: z.number().nullable(),
+  revoked_at: z.number().nullable(),
+  created_at: z.number(),
+  last_used_at: z.number().nullable(),
+});
+
+export const CreateApiKeyInputSchema = z.object({
+  name: z.string().min(1).max(64),
+  allowed_models: z.array(z.string()).optional(),
+  protocol: ApiKeyProtocolSchema.optional(),
+  rate_limit_rpm: z.number().int().positive().nullable().optional(),
+  daily_token_budget: z.number().int().positive().nullable().optional(),
+  expires_at: z.number().int().nullable().optional(),
+});
+
+export const UpdateApiKeyInputSchema = CreateApiKeyInputSchema.partial().extend({
+  id: z.string(),
+});
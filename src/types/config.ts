@@ -2,7 +2,74 @@ import { z } from 'zod';
 
 export const UpstreamProxyConfigSchema = z.object({
   enabled: z.boolean(),
-  url: z.string(),
+  url: z.string(), // http(s):// or socks5://, credentials as user:pass@host
+  no_proxy: z.array(z.string()), // hosts always reached directly, e.g. local AI servers
+  account_proxies: z.record(z.string(), z.string()), // account id -> proxy URL, overrides `url`
+});
+
+export const ProxyTestResultSchema = z.object({
+  ok: z.boolean(),
+  status: z.number().nullable(), // HTTP status of the test request, null when it never got one
+  latency_ms: z.number(),
+  error: z.string().nullable(),
+});
+
+export const SchedulingStrategySchema = z.enum([
+  'round-robin',
+  'least-used',
+  'highest-quota', // highest remaining quota for the requested model
+  'earliest-reset',
+  'weighted',
+]);
+
+export const SchedulingConfigSchema = z.object({
+  strategy: SchedulingStrategySchema,
+  weights: z.record(z.string(), z.number()), // account id -> weight, used by 'weighted'
+});
+
+export const SessionAffinityConfigSchema = z.object({
+  enabled: z.boolean(),
+  ttl_seconds: z.number(), // idle time before a conversation may move to another account
+});
+
+export const StreamFailoverConfigSchema = z.object({
+  enabled: z.boolean(), // move a stream that dies mid-response to another account
+  max_attempts: z.number(), // upstream requests per response, the first one included
+});
+
+export const SignatureStoreConfigSchema = z.object({
+  persist: z.boolean(), // keep thought signatures across gateway restarts
+  ttl_seconds: z.number(),
+  max_entries: z.number(),
+});
+
+export const SemanticCacheConfigSchema = z.object({
+  enabled: z.boolean(),
+  key_ids: z.array(z.string()), // API key ids ('master' for the config key); empty means every key
+  models: z.array(z.string()), // model names or `prefix-*` patterns; empty means every model
+  similarity_threshold: z.number(), // cosine similarity a prompt needs to reuse a cached answer
+  ttl_seconds: z.number(),
+  max_entries: z.number(),
+});
+
+export const BindModeSchema = z.enum([
+  'loopback', // 127.0.0.1 only
+  'all', // every interface, reachable from the LAN
+  'interface', // one address, see `bind_address`
+]);
+
+export const TlsConfigSchema = z.object({
+  enabled: z.boolean(),
+  cert_path: z.string(), // PEM files; both empty means a generated self-signed certificate
+  key_path: z.string(),
+});
+
+export const NetworkConfigSchema = z.object({
+  bind: BindModeSchema,
+  bind_address: z.string(), // interface address used when bind is 'interface'
+  tls: TlsConfigSchema,
+  allow_cidrs: z.array(z.string()), // client addresses or CIDR ranges; empty allows every client
+  deny_cidrs: z.array(z.string()), // checked before the allow list
 });
 
 export const ProxyConfigSchema = z.object({
@@ -12,7 +79,16 @@ export const ProxyConfigSchema = z.object({
   auto_start: z.boolean(), // 是否自动启动
   anthropic_mapping: z.record(z.string(), z.string()), // 映射表
   request_timeout: z.number().default(120), // 超时秒数
+  drain_timeout_seconds: z.number(), // how long a stopping gateway waits for in-flight requests
   upstream_proxy: UpstreamProxyConfigSchema,
+  scheduling: SchedulingConfigSchema,
+  session_affinity: SessionAffinityConfigSchema,
+  stream_failover: StreamFailoverConfigSchema,
+  signature_store: SignatureStoreConfigSchema,
+  semantic_cache: SemanticCacheConfigSchema,
+  // model -> models tried in order once it fails; 'local-ollama:<model>' targets a local model
+  fallback_chains: z.record(z.string(), z.array(z.string())),
+  network: NetworkConfigSchema,
 });
 
 export const LocalAIEndpointSchema = z.object({
@@ -38,6 +114,16 @@ export const AppConfigSchema = z.object({
 });
 
 export type UpstreamProxyConfig = z.infer<typeof UpstreamProxyConfigSchema>;
+export type ProxyTestResult = z.infer<typeof ProxyTestResultSchema>;
+export type SchedulingStrategy = z.infer<typeof SchedulingStrategySchema>;
+export type SchedulingConfig = z.infer<typeof SchedulingConfigSchema>;
+export type SessionAffinityConfig = z.infer<typeof SessionAffinityConfigSchema>;
+export type StreamFailoverConfig = z.infer<typeof StreamFailoverConfigSchema>;
+export type SignatureStoreConfig = z.infer<typeof SignatureStoreConfigSchema>;
+export type SemanticCacheConfig = z.infer<typeof SemanticCacheConfigSchema>;
+export type BindMode = z.infer<typeof BindModeSchema>;
+export type TlsConfig = z.infer<typeof TlsConfigSchema>;
+export type NetworkConfig = z.infer<typeof NetworkConfigSchema>;
 export type ProxyConfig = z.infer<typeof ProxyConfigSchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
 
@@ -56,9 +142,49 @@ export const DEFAULT_APP_CONFIG: AppConfig = {
     auto_start: false,
     anthropic_mapping: {},
     request_timeout: 120,
+    drain_timeout_seconds: 30,
     upstream_proxy: {
       enabled: false,
       url: '',
+      no_proxy: ['localhost', '127.0.0.1', '::1'],
+      account_proxies: {},
+    },
+    scheduling: {
+      strategy: 'round-robin',
+      weights: {},
+    },
+    session_affinity: {
+      enabled: true,
+      ttl_seconds: 1800,
+    },
+    stream_failover: {
+      enabled: false,
+      max_attempts: 3,
+    },
+    signature_store: {
+      persist: false,
+      ttl_seconds: 86400,
+      max_entries: 2000,
+    },
+    semantic_cache: {
+      enabled: false,
+      key_ids: [],
+      models: [],
+      similarity_threshold: 0.97,
+      ttl_seconds: 86400,
+      max_entries: 1000,
+    },
+    fallback_chains: {},
+    network: {
+      bind: 'loopback',
+      bind_address: '',
+      tls: {
+        enabled: false,
+        cert_path: '',
+        key_path: '',
+      },
+      allow_cidrs: [],
+      deny_cidrs: [],
     },
   },
   local_ai: {
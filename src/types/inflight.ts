@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/** A proxied request that has not finished yet */
+export interface InFlightRequest {
+  id: string;
+  started_at: number; // Unix timestamp in milliseconds
+  age_ms: number;
+  client: string; // Client IP address
+  key_name: string | null;
+  protocol: string;
+  path: string;
+  model: string | null;
+  account_id: string | null;
+  stream: boolean;
+  /** Whether any output has reached the client yet */
+  streaming: boolean;
+}
+
+/** What the gateway is serving right now */
+export interface GatewayActivity {
+  running: boolean;
+  /** Shutting down: new requests are refused while these finish */
+  draining: boolean;
+  requests: InFlightRequest[];
+}
+
+// Zod Schemas
+export const InFlightRequestSchema = z.object({
+  id: z.string(),
+  started_at: z.number(),
+  age_ms: z.number(),
+  client: z.string(),
+  key_name: z.string().nullable(),
+  protocol: z.string(),
+  path: z.string(),
+  model: z.string().nullable(),
+  account_id: z.string().nullable(),
+  stream: z.boolean(),
+  streaming: z.boolean(),
+});
+
+export const GatewayActivitySchema = z.object({
+  running: z.boolean(),
+  draining: z.boolean(),
+  requests: z.array(InFlightRequestSchema),
+});
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+/** A model installed on the local Ollama instance */
+export interface LocalModel {
+  name: string;
+  size: number; // Bytes on disk
+  modified_at: string; // ISO timestamp
+  family: string;
+  parameter_size: string;
+  quantization_level: string;
+  /** Currently held in memory */
+  loaded: boolean;
+  size_vram: number | null; // Bytes, when loaded
+  /** When Ollama unloads the model again, when loaded */
+  expires_at: string | null;
+}
+
+/** `/api/show` details that are too expensive to fetch for the whole list */
+export interface LocalModelDetails {
+  name: string;
+  format: string;
+  family: string;
+  parameter_size: string;
+  quantization_level: string;
+  context_length: number | null;
+  capabilities: string[];
+}
+
+/** Progress of a model download, as reported by Ollama `/api/pull` */
+export interface LocalPullProgress {
+  model: string;
+  status: string;
+  completed: number; // Bytes of the current layer
+  total: number;
+  done: boolean;
+  error: string | null;
+  started_at: number; // Unix timestamp
+}
+
+/** Outcome of reconciling local model accounts with the running instances */
+export interface LocalSyncResult {
+  added: number;
+  removed: number;
+}
+
+// Zod Schemas
+export const LocalModelSchema = z.object({
+  name: z.string(),
+  size: z.number(),
+  modified_at: z.string(),
+  family: z.string(),
+  parameter_size: z.string(),
+  quantization_level: z.string(),
+  loaded: z.boolean(),
+  size_vram: z.number().nullable(),
+  expires_at: z.string().nullable(),
+});
+
+export const LocalModelDetailsSchema = z.object({
+  name: z.string(),
+  format: z.string(),
+  family: z.string(),
+  parameter_size: z.string(),
+  quantization_level: z.string(),
+  context_length: z.number().nullable(),
+  capabilities: z.array(z.string()),
+});
+
+export const LocalPullProgressSchema = z.object({
+  model: z.string(),
+  status: z.string(),
+  completed: z.number(),
+  total: z.number(),
+  done: z.boolean(),
+  error: z.string().nullable(),
+  started_at: z.number(),
+});
+
+export const LocalSyncResultSchema = z.object({
+  added: z.number(),
+  removed: z.number(),
+});
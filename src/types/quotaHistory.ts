@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export type QuotaHistoryRange = '24h' | '7d' | '30d';
+
+/** One model's remaining quota for one account, as fetched at `recorded_at` */
+export interface QuotaSample {
+  account_id: string;
+  model: string;
+  percentage: number;
+  reset_time: number | null; // Unix timestamp
+  recorded_at: number; // Unix timestamp
+}
+
+export interface QuotaHistoryQuery {
+  range: QuotaHistoryRange;
+  account_id?: string;
+  model?: string;
+}
+
+// Zod Schemas
+export const QuotaHistoryRangeSchema = z.enum(['24h', '7d', '30d']);
+
+export const QuotaSampleSchema = z.object({
+  account_id: z.string(),
+  model: z.string(),
+  percentage: z.number(),
+  reset_time: z.number().nullable(),
+  recorded_at: z.number(),
+});
+
+export const QuotaHistoryQuerySchema = z.object({
+  range: QuotaHistoryRangeSchema,
+  account_id: z.string().optional(),
+  model: z.string().optional(),
+});
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+export interface RequestLogEntry {
+  id: number;
+  timestamp: number; // Unix timestamp
+  /** Virtual key id, 'master' for the config key, null in open mode */
+  key_id: string | null;
+  key_name: string | null;
+  protocol: string;
+  path: string;
+  requested_model: string | null;
+  resolved_model: string | null;
+  account_id: string | null;
+  stream: boolean;
+  latency_ms: number;
+  /** Time to first streamed chunk; null for non-streaming requests */
+  ttft_ms: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_hit: boolean;
+  status: number;
+  error_class: string | null;
+  /** Fallback chain entry that answered when the requested model could not */
+  fallback_model: string | null;
+}
+
+export interface RequestLogFilter {
+  key_id?: string;
+  account_id?: string;
+  /** Matches either the requested or the resolved model */
+  model?: string;
+  protocol?: string;
+  outcome?: 'success' | 'error';
+  from?: number; // Unix timestamp, inclusive
+  to?: number; // Unix timestamp, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface RequestLogPage {
+  items: RequestLogEntry[];
+  total: number;
+  /** Aggregates over every row matching the filter, not just this page */
+  totals: { input_tokens: number; output_tokens: number };
+}
+
+export interface FallbackStat {
+  requested_model: string | null;
+  fallback_model: string;
+  count: number;
+}
+
+export interface FallbackStats {
+  total_requests: number;
+  fallback_requests: number;
+  /** Per requested/fallback model pair, most frequent first */
+  chains: FallbackStat[];
+}
+
+// Zod Schemas
+export const RequestLogEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.number(),
+  key_id: z.string().nullable(),
+  key_name: z.string().nullable(),
+  protocol: z.string(),
+  path: z.string(),
+  requested_model: z.string().nullable(),
+  resolved_model: z.string().nullable(),
+  account_id: z.string().nullable(),
+  stream: z.boolean(),
+  latency_ms: z.number(),
+  ttft_ms: z.number().nullable(),
+  input_tokens: z.number(),
+  output_tokens: z.number(),
+  cache_hit: z.boolean(),
+  status: z.number(),
+  error_class: z.string().nullable(),
+  fallback_model: z.string().nullable(),
+});
+
+export const RequestLogFilterSchema = z.object({
+  key_id: z.string().optional(),
+  account_id: z.string().optional(),
+  model: z.string().optional(),
+  protocol: z.string().optional(),
+  outcome: z.enum(['success', 'error']).optional(),
+  from: z.number().int().optional(),
+  to: z.number().int().optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const RequestLogPageSchema = z.object({
+  items: z.array(RequestLogEntrySchema),
+  total: z.number(),
+  totals: z.object({ input_tokens: z.number(), output_tokens: z.number() }),
+});
+
+export const FallbackStatsSchema = z.object({
+  total_requests: z.number(),
+  fallback_requests: z.number(),
+  chains: z.array(
+    z.object({
+      requested_model: z.string().nullable(),
+      fallback_model: z.string(),
+      count: z.number(),
+    }),
+  ),
+});
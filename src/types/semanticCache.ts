@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+/** A cached response as shown in the cache browser */
+export interface SemanticCacheEntry {
+  id: string;
+  /** Last user message of the cached request */
+  prompt: string;
+  response: string;
+  model: string;
+  created_at: number; // Unix timestamp
+  last_used_at: number; // Unix timestamp
+  hits: number;
+}
+
+export interface SemanticCachePage {
+  items: SemanticCacheEntry[];
+  total: number;
+}
+
+/** Lookup counters since the app started */
+export interface SemanticCacheStats {
+  entries: number;
+  /** Entries in the vector index; entries stored without an embedding only match exactly */
+  indexed: number;
+  lookups: number;
+  exact_hits: number;
+  semantic_hits: number;
+  /** Requests the cache was enabled for but skipped (tools, temperature, images) */
+  bypassed: number;
+}
+
+export interface IndexRebuildResult {
+  entries: number;
+  duration_ms: number;
+}
+
+// Zod Schemas
+export const SemanticCacheEntrySchema = z.object({
+  id: z.string(),
+  prompt: z.string(),
+  response: z.string(),
+  model: z.string(),
+  created_at: z.number(),
+  last_used_at: z.number(),
+  hits: z.number(),
+});
+
+export const SemanticCachePageSchema = z.object({
+  items: z.array(SemanticCacheEntrySchema),
+  total: z.number(),
+});
+
+export const SemanticCacheStatsSchema = z.object({
+  entries: z.number(),
+  indexed: z.number(),
+  lookups: z.number(),
+  exact_hits: z.number(),
+  semantic_hits: z.number(),
+  bypassed: z.number(),
+});
+
+export const IndexRebuildResultSchema = z.object({
+  entries: z.number(),
+  duration_ms: z.number(),
+});
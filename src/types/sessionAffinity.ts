@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/** A conversation pinned to the account that served it */
+export interface SessionBinding {
+  key: string;
+  account_id: string;
+  email: string;
+  model: string | null;
+  requests: number;
+  created_at: number; // Unix timestamp
+  last_used_at: number; // Unix timestamp
+  expires_at: number; // Unix timestamp
+}
+
+// Zod Schemas
+export const SessionBindingSchema = z.object({
+  key: z.string(),
+  account_id: z.string(),
+  email: z.string(),
+  model: z.string().nullable(),
+  requests: z.number(),
+  created_at: z.number(),
+  last_used_at: z.number(),
+  expires_at: z.number(),
+});
@@ -109,6 +109,10 @@ export function getCloudAccountsDbPath(): string {
   return path.join(getAgentDir(), 'cloud_accounts.db');
 }
 
+export function getImageCacheDir(): string {
+  return path.join(getAgentDir(), 'image_cache');
+}
+
 export function getAntigravityDbPaths(): string[] {
   const appData = getAppDataDir();
   const paths: string[] = [];
@@ -0,0 +1,199 @@
+import { QuotaHistoryRange, QuotaSample } from '../types/quotaHistory';
+
+export const RANGE_SECONDS: Record<QuotaHistoryRange, number> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+};
+
+/** Chart resolution per range; the monitor polls every 5 minutes */
+export const BUCKET_SECONDS: Record<QuotaHistoryRange, number> = {
+  '24h': 15 * 60,
+  '7d': 2 * 60 * 60,
+  '30d': 6 * 60 * 60,
+};
+
+/** A rise of at least this many points between two samples counts as a reset */
+const RESET_JUMP_THRESHOLD = 10;
+
+export type QuotaGroupBy = 'model' | 'account';
+
+export interface QuotaChartSeries {
+  /** Chart-safe data key (model names contain dots, which recharts reads as paths) */
+  key: string;
+  id: string;
+}
+
+export interface QuotaChartPoint {
+  time: number;
+  [seriesKey: string]: number;
+}
+
+export interface QuotaResetEvent {
+  account_id: string;
+  model: string;
+  at: number;
+}
+
+export interface QuotaForecast {
+  account_id: string;
+  model: string;
+  percentage: number;
+  /** Percentage points consumed per hour since the last reset */
+  burn_rate_per_hour: number;
+  /** When the quota reaches 0 at the current burn rate, null if it is not declining */
+  dry_at: number | null;
+  reset_time: number | null;
+  runs_dry_before_reset: boolean;
+}
+
+function groupSeries(samples: QuotaSample[]): Map<string, QuotaSample[]> {
+  const series = new Map<string, QuotaSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.account_id}\u0000${sample.model}`;
+    const list = series.get(key);
+    if (list) list.push(sample);
+    else series.set(key, [sample]);
+  }
+  for (const list of series.values()) list.sort((a, b) => a.recorded_at - b.recorded_at);
+  return series;
+}
+
+function isReset(prev: QuotaSample, cur: QuotaSample): boolean {
+  if (cur.percentage - prev.percentage >= RESET_JUMP_THRESHOLD) return true;
+  // The window rolled over while quota was in use, even if the refill was small
+  return (
+    prev.percentage < 100 &&
+    prev.reset_time !== null &&
+    cur.recorded_at >= prev.reset_time &&
+    cur.reset_time !== null &&
+    cur.reset_time > prev.reset_time
+  );
+}
+
+/**
+ * Averages samples into fixed time buckets, one series per model or per account.
+ */
+export function buildQuotaChart(
+  samples: QuotaSample[],
+  groupBy: QuotaGroupBy,
+  bucketSeconds: number,
+): { points: QuotaChartPoint[]; series: QuotaChartSeries[] } {
+  const seriesIds: string[] = [];
+  const keyById = new Map<string, string>();
+  const buckets = new Map<number, Map<string, { sum: number; count: number }>>();
+
+  for (const sample of samples) {
+    const id = groupBy === 'model' ? sample.model : sample.account_id;
+    let key = keyById.get(id);
+    if (!key) {
+      key = `s${seriesIds.length}`;
+      keyById.set(id, key);
+      seriesIds.push(id);
+    }
+
+    const time = Math.floor(sample.recorded_at / bucketSeconds) * bucketSeconds;
+    let bucket = buckets.get(time);
+    if (!bucket) {
+      bucket = new Map();
+      buckets.set(time, bucket);
+    }
+    const acc = bucket.get(key) || { sum: 0, count: 0 };
+    acc.sum += sample.percentage;
+    acc.count += 1;
+    bucket.set(key, acc);
+  }
+
+  const points = [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, bucket]) => {
+      const point: QuotaChartPoint = { time };
+      for (const [key, { sum, count }] of bucket) point[key] = Math.round(sum / count);
+      return point;
+    });
+
+  return { points, series: seriesIds.map((id) => ({ key: keyById.get(id)!, id })) };
+}
+
+/**
+ * Finds where each account/model quota was replenished. The event is placed at the
+ * reported reset time when it falls between the two samples.
+ */
+export function detectResets(samples: QuotaSample[]): QuotaResetEvent[] {
+  const events: QuotaResetEvent[] = [];
+
+  for (const list of groupSeries(samples).values()) {
+    for (let i = 1; i < list.length; i++) {
+      const prev = list[i - 1];
+      const cur = list[i];
+      if (!isReset(prev, cur)) continue;
+
+      const at =
+        prev.reset_time !== null &&
+        prev.reset_time > prev.recorded_at &&
+        prev.reset_time <= cur.recorded_at
+          ? prev.reset_time
+          : cur.recorded_at;
+      events.push({ account_id: cur.account_id, model: cur.model, at });
+    }
+  }
+
+  return events.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Extrapolates the burn rate since the last reset of each account/model to predict when
+ * it runs dry, and whether that happens before the quota resets.
+ */
+export function forecastDepletion(samples: QuotaSample[]): QuotaForecast[] {
+  const forecasts: QuotaForecast[] = [];
+
+  for (const list of groupSeries(samples).values()) {
+    let start = 0;
+    for (let i = 1; i < list.length; i++) {
+      if (isReset(list[i - 1], list[i])) start = i;
+    }
+
+    const first = list[start];
+    const last = list[list.length - 1];
+    const hours = (last.recorded_at - first.recorded_at) / 3600;
+    const burn = hours > 0 ? Math.max(0, (first.percentage - last.percentage) / hours) : 0;
+    const dryAt = burn > 0 ? Math.round(last.recorded_at + (last.percentage / burn) * 3600) : null;
+
+    forecasts.push({
+      account_id: last.account_id,
+      model: last.model,
+      percentage: last.percentage,
+      burn_rate_per_hour: Math.round(burn * 100) / 100,
+      dry_at: dryAt,
+      reset_time: last.reset_time,
+      runs_dry_before_reset:
+        dryAt !== null && (last.reset_time === null || dryAt < last.reset_time),
+    });
+  }
+
+  return forecasts;
+}
+
+function isMoreUrgent(a: QuotaForecast, b: QuotaForecast): boolean {
+  if (a.runs_dry_before_reset !== b.runs_dry_before_reset) return a.runs_dry_before_reset;
+  if (a.runs_dry_before_reset) return a.dry_at! < b.dry_at!;
+  return a.burn_rate_per_hour > b.burn_rate_per_hour;
+}
+
+/**
+ * Keeps the most urgent forecast of each account (the model that runs dry first, else the
+ * fastest burning one), soonest depletion first.
+ */
+export function summarizeForecasts(forecasts: QuotaForecast[]): QuotaForecast[] {
+  const byAccount = new Map<string, QuotaForecast>();
+  for (const forecast of forecasts) {
+    const current = byAccount.get(forecast.account_id);
+    if (!current || isMoreUrgent(forecast, current)) byAccount.set(forecast.account_id, forecast);
+  }
+  return [...byAccount.values()].sort(
+    (a, b) =>
+      Number(b.runs_dry_before_reset) - Number(a.runs_dry_before_reset) ||
+      (a.dry_at ?? Infinity) - (b.dry_at ?? Infinity),
+  );
+}